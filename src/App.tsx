@@ -14,6 +14,8 @@ const Customers = lazy(() => import('./components/Customers').then(module => ({
 const Payments = lazy(() => import('./components/Payments').then(module => ({ default: module.Payments })));
 const Invoices = lazy(() => import('./components/Invoices').then(module => ({ default: module.Invoices })));
 const Products = lazy(() => import('./components/Products').then(module => ({ default: module.Products })));
+const Receivables = lazy(() => import('./components/Receivables').then(module => ({ default: module.Receivables })));
+const Reconciliation = lazy(() => import('./components/Reconciliation').then(module => ({ default: module.Reconciliation })));
 const Settings = lazy(() => import('./components/Settings').then(module => ({ default: module.Settings })));
 
 // Loading component
@@ -56,6 +58,10 @@ function App() {
           return <Invoices />;
         case 'products':
           return <Products />;
+        case 'receivables':
+          return <Receivables />;
+        case 'reconciliation':
+          return <Reconciliation />;
         case 'settings':
           return <Settings />;
         default:
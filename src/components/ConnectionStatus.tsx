@@ -5,25 +5,55 @@ import {
   AlertCircle,
   Wifi,
   Database,
-  RefreshCw
+  RefreshCw,
+  CloudOff,
+  Trash2
 } from 'lucide-react';
 import { AutoBackupService } from '../utils/auto-backup';
 import { getStorageMode } from '../utils/supabase-storage';
+import { 
+  OutboxEntry,
+  getOutboxEntries, 
+  getOutboxStatus, 
+  subscribeToOutbox, 
+  syncOutbox, 
+  retryOutboxEntry, 
+  discardOutboxEntry 
+} from '../utils/outbox';
 
 export const ConnectionStatus: React.FC = () => {
   const [supabaseStatus, setSupabaseStatus] = useState<'connected' | 'disconnected' | 'unknown'>('unknown');
   const [autoBackupStatus, setAutoBackupStatus] = useState<any>(null);
   const [lastChecked, setLastChecked] = useState<Date>(new Date());
   const [isChecking, setIsChecking] = useState(false);
+  const [outboxStatus, setOutboxStatus] = useState(getOutboxStatus());
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>(getOutboxEntries());
 
   useEffect(() => {
     checkAllStatuses();
     
     // Check status every 60 seconds
     const interval = setInterval(checkAllStatuses, 60000);
-    return () => clearInterval(interval);
+    const unsubscribe = subscribeToOutbox(() => {
+      setOutboxStatus(getOutboxStatus());
+      setOutboxEntries(getOutboxEntries());
+    });
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
   }, []);
 
+  const handleRetry = async (entry: OutboxEntry) => {
+    await retryOutboxEntry(entry.id);
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    if (confirm(`Discard "${entry.label}"? This change will not be saved to the server.`)) {
+      await discardOutboxEntry(entry.id);
+    }
+  };
+
   const checkAllStatuses = async () => {
     if (isChecking) return;
     
@@ -67,8 +97,9 @@ export const ConnectionStatus: React.FC = () => {
 
   const getOverallHealthStatus = () => {
     const statuses = [
-      supabaseStatus === 'connected',
-      autoBackupStatus?.isActive || false
+      supabaseStatus === 'connected' && outboxStatus.online,
+      autoBackupStatus?.isActive || false,
+      outboxStatus.failed === 0
     ];
     
     const healthyCount = statuses.filter(Boolean).length;
@@ -133,7 +164,8 @@ export const ConnectionStatus: React.FC = () => {
               </span>
             </div>
             <p className="text-xs text-gray-500 mt-1">
-              {supabaseStatus === 'connected' ? 'Supabase cloud database' : 'Using local storage fallback'}
+              {supabaseStatus !== 'connected' ? 'Using local storage fallback' :
+               outboxStatus.online ? 'Supabase cloud database' : 'Offline - changes are queued on this device'}
             </p>
           </div>
 
@@ -155,12 +187,90 @@ export const ConnectionStatus: React.FC = () => {
                 'No backup scheduled'}
             </p>
           </div>
+
+          {/* Offline Queue Status */}
+          {supabaseStatus === 'connected' && (
+          <div className="p-4 border border-gray-200 rounded-lg md:col-span-2">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-3">
+                <CloudOff className="w-5 h-5 text-blue-600" />
+                <h4 className="font-medium text-gray-900">Offline Queue</h4>
+              </div>
+              {outboxStatus.pending > 0 && outboxStatus.failed === 0 && (
+                <button
+                  onClick={() => syncOutbox()}
+                  disabled={outboxStatus.syncing || !outboxStatus.online}
+                  className="text-sm text-blue-600 hover:text-blue-700 flex items-center gap-1 disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-4 h-4 ${outboxStatus.syncing ? 'animate-spin' : ''}`} />
+                  {outboxStatus.syncing ? 'Syncing...' : 'Sync Now'}
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {getStatusIcon(outboxStatus.failed > 0 ? false : outboxStatus.pending > 0 ? 'pending' : true)}
+              <span className={`text-sm font-medium ${getStatusColor(outboxStatus.failed > 0 ? false : outboxStatus.pending > 0 ? 'pending' : true)}`}>
+                {outboxEntries.length === 0 ? 'All changes synced' :
+                 `${outboxStatus.pending} pending, ${outboxStatus.failed} failed`}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {outboxStatus.lastSyncAt ? 
+                `Last sync attempt: ${outboxStatus.lastSyncAt.toLocaleString()}` : 
+                'Changes made offline are synced in order when the connection returns'}
+            </p>
+
+            {outboxEntries.length > 0 && (
+              <div className="mt-3 divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                {outboxEntries.map(entry => (
+                  <div key={entry.id} className="flex items-start justify-between gap-3 p-3">
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-900">{entry.label}</p>
+                      <p className="text-xs text-gray-500">Queued {entry.createdAt.toLocaleString()}</p>
+                      {entry.status === 'failed' && (
+                        <p className="text-xs text-red-600 mt-1 break-words">
+                          Rejected by server{entry.attempts > 1 ? ` (${entry.attempts} attempts)` : ''}: {entry.lastError}
+                        </p>
+                      )}
+                    </div>
+                    {entry.status === 'failed' ? (
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => handleRetry(entry)}
+                          disabled={!outboxStatus.online}
+                          className="p-1 text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+                          title="Retry"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDiscard(entry)}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded"
+                          title="Discard"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 text-xs rounded-full flex-shrink-0">Pending</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          )}
         </div>
 
         {/* Quick Actions */}
         <div className="mt-6 pt-4 border-t border-gray-200">
           <h4 className="font-medium text-gray-900 mb-3">Quick Actions</h4>
           <div className="flex flex-wrap gap-2">
+            {outboxStatus.failed > 0 && (
+              <span className="px-3 py-1 bg-red-100 text-red-800 text-xs rounded-full">
+                {outboxStatus.failed} offline change(s) need review
+              </span>
+            )}
             {supabaseStatus !== 'connected' && (
               <span className="px-3 py-1 bg-red-100 text-red-800 text-xs rounded-full">
                 Database connection issue - using local storage
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { X, Upload, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import { getCustomers, getProducts, getRouteInfos } from '../utils/supabase-storage';
+import {
+  IMPORT_FIELDS,
+  ImportColumnMapping,
+  readSpreadsheet,
+  guessColumnMapping,
+  planCustomerImport,
+  importCustomers
+} from '../utils/customer-import';
+import { Customer, Product, RouteInfo } from '../types';
+
+interface CustomerImportProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const STATUS_STYLES = {
+  ready: 'bg-green-100 text-green-800',
+  duplicate: 'bg-yellow-100 text-yellow-800',
+  error: 'bg-red-100 text-red-800'
+};
+
+export const CustomerImport: React.FC<CustomerImportProps> = ({ onClose, onImported }) => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [routeInfos, setRouteInfos] = useState<RouteInfo[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [allCustomers, allProducts, allRoutes] = await Promise.all([getCustomers(), getProducts(), getRouteInfos()]);
+        setCustomers(allCustomers);
+        setProducts(allProducts);
+        setRouteInfos(allRoutes);
+      } catch (error) {
+        console.error('Error loading import data:', error);
+      }
+    };
+    loadData();
+  }, []);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const [headerRow, ...dataRows] = await readSpreadsheet(file);
+      if (!headerRow || dataRows.length === 0) {
+        alert('The file has no customer rows below its header row');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setRows(dataRows);
+      setMapping(guessColumnMapping(headerRow, products));
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      alert(error instanceof Error ? error.message : 'Error reading the file. Please try again.');
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  const results = mapping ? planCustomerImport(rows, mapping, customers, routeInfos, products) : [];
+  const readyCount = results.filter(r => r.status === 'ready').length;
+  const duplicateCount = results.filter(r => r.status === 'duplicate').length;
+  const errorCount = results.filter(r => r.status === 'error').length;
+  const missingFields = mapping ? IMPORT_FIELDS.filter(f => f.required && mapping[f.key] < 0) : [];
+
+  const handleImport = async () => {
+    if (readyCount === 0) return;
+    const skipped = duplicateCount + errorCount;
+    if (!confirm(`Import ${readyCount} customers?${skipped > 0 ? ` ${skipped} rows with problems will be skipped.` : ''}`)) {
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const outcome = await importCustomers(results);
+      onImported();
+      if (outcome.failed.length > 0) {
+        alert(`Imported ${outcome.imported} customers. These rows failed:\n${outcome.failed.map(f => `Row ${f.rowNumber} (${f.name}): ${f.error}`).join('\n')}`);
+      } else {
+        alert(`Imported ${outcome.imported} customers`);
+      }
+      onClose();
+    } catch (error) {
+      console.error('Error importing customers:', error);
+      alert('Error importing customers. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const columnSelect = (value: number, onChange: (column: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      <option value={-1}>Not in file</option>
+      {headers.map((header, index) => (
+        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Import Customers</h2>
+            <p className="text-sm text-gray-600">
+              CSV or XLSX with a header row: name, phone, address, route, opening balance and a price column per product
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <label className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              {fileName ? 'Choose Another File' : 'Choose File'}
+              <input type="file" accept=".csv,.xlsx" onChange={handleFileChange} className="hidden" />
+            </label>
+            {fileName && (
+              <span className="ml-3 text-sm text-gray-600">{fileName}: {rows.length} rows</span>
+            )}
+          </div>
+
+          {mapping && (
+            <>
+              <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                <h3 className="text-sm font-medium text-gray-900 mb-3">Columns</h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {IMPORT_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        {field.label}{field.required && ' *'}
+                      </label>
+                      {columnSelect(mapping[field.key], column => setMapping({ ...mapping, [field.key]: column }))}
+                    </div>
+                  ))}
+                  {products.map(product => (
+                    <div key={product.id}>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">{product.name} Price</label>
+                      {columnSelect(mapping.prices[product.id] ?? -1, column => setMapping({
+                        ...mapping,
+                        prices: { ...mapping.prices, [product.id]: column }
+                      }))}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">Blank prices use the product's default price</p>
+              </div>
+
+              <div className="px-6 py-3 border-b border-gray-200 flex items-center space-x-6 text-sm">
+                <h3 className="font-medium text-gray-900">Dry Run</h3>
+                <span className="flex items-center text-green-700">
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  {readyCount} ready
+                </span>
+                <span className="flex items-center text-yellow-700">
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  {duplicateCount} duplicates
+                </span>
+                <span className="flex items-center text-red-700">
+                  <XCircle className="w-4 h-4 mr-1" />
+                  {errorCount} with errors
+                </span>
+              </div>
+
+              {missingFields.length > 0 && (
+                <div className="px-6 py-3 bg-red-50 border-b border-red-200 text-sm text-red-700">
+                  Choose the column for: {missingFields.map(f => f.label).join(', ')}
+                </div>
+              )}
+
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Phone</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Route</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Problems</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {results.map(result => (
+                    <tr key={result.rowNumber}>
+                      <td className="px-4 py-2 text-sm text-gray-500">{result.rowNumber}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{result.name || '-'}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{result.phone || '-'}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{result.route || '-'}</td>
+                      <td className="px-4 py-2">
+                        <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[result.status]}`}>
+                          {result.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-xs">
+                        {result.errors.map((error, index) => (
+                          <div key={`e${index}`} className="text-red-600">{error}</div>
+                        ))}
+                        {result.warnings.map((warning, index) => (
+                          <div key={`w${index}`} className="text-yellow-700">{warning}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={isImporting || readyCount === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isImporting ? 'Importing...' : `Import ${readyCount} Customers`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -9,26 +9,49 @@ import {
   MapPin,
   IndianRupee,
   Trash2,
-  Calculator
+  Calculator,
+  Upload,
+  Download,
+  CalendarDays,
+  LocateFixed
 } from 'lucide-react';
-import { getCustomers, addCustomer, updateCustomer, deleteCustomer, getCustomerTransactions, addTransaction } from '../utils/supabase-storage';
-import { Customer, Transaction } from '../types';
+import { getCustomers, getCustomersByRoute, addCustomer, updateCustomer, deleteCustomer, getCustomerTransactions, addTransaction, syncCustomerBalance, captureCustomerLocation, hasLocation } from '../utils/supabase-storage';
+import { getSheetHistory, getContainerTypes, getContainerBalances, getContainerDeposit, isValidGSTIN, GST_STATES } from '../utils/supabase-storage';
+import { getPriceList, getPriceOn, getAccountStatement } from '../utils/supabase-storage';
+import { generateAccountStatementPDF } from '../utils/invoice-pdf';
+import { Customer, Transaction, ContainerType, PriceListEntry } from '../types';
+import { CustomerImport } from './CustomerImport';
+import { StandingOrderEditor } from './StandingOrderEditor';
+
+// Credit limit and credit days are optional; blank means no limit
+const parseCreditSetting = (value: string, wholeDays = false): number | undefined => {
+  const amount = wholeDays ? parseInt(value) : parseFloat(value);
+  return isNaN(amount) ? undefined : Math.max(amount, 0);
+};
 
 export const Customers: React.FC = () => {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [filteredCustomers, setFilteredCustomers] = useState<Customer[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [standingOrderCustomer, setStandingOrderCustomer] = useState<Customer | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [showAdjustmentModal, setShowAdjustmentModal] = useState(false);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [customerTransactions, setCustomerTransactions] = useState<Transaction[]>([]);
+  const [containerTypes, setContainerTypes] = useState<ContainerType[]>([]);
+  const [customerContainers, setCustomerContainers] = useState<Record<string, number>>({});
+  const [priceList, setPriceList] = useState<PriceListEntry[]>([]);
+  const [statementFrom, setStatementFrom] = useState('');
+  const [statementTo, setStatementTo] = useState('');
   const [paymentCash, setPaymentCash] = useState(0);
   const [paymentUpi, setPaymentUpi] = useState(0);
   const [adjustmentAmount, setAdjustmentAmount] = useState(0);
   const [adjustmentType, setAdjustmentType] = useState<'credit' | 'debit'>('credit');
+  const [routeStops, setRouteStops] = useState<Customer[]>([]);
 
   const [newCustomer, setNewCustomer] = useState({
     name: '',
@@ -36,7 +59,12 @@ export const Customers: React.FC = () => {
     address: '',
     route: '',
     openingBalance: 0,
-    productPrices: {} as { [key: string]: number }
+    productPrices: {} as { [key: string]: number },
+    gstin: '',
+    state: '',
+    creditLimit: '',
+    creditDays: '',
+    stopPosition: '' // Stop to insert at; blank for the route's last stop
   });
 
   const [editCustomer, setEditCustomer] = useState({
@@ -44,7 +72,11 @@ export const Customers: React.FC = () => {
     phone: '',
     address: '',
     route: '',
-    productPrices: {} as { [key: string]: number }
+    productPrices: {} as { [key: string]: number },
+    gstin: '',
+    state: '',
+    creditLimit: '',
+    creditDays: ''
   });
 
   const [products, setProducts] = useState<any[]>([]);
@@ -64,6 +96,18 @@ export const Customers: React.FC = () => {
     setFilteredCustomers(filtered);
   }, [customers, searchTerm]);
 
+  // Stops on the new customer's route, to choose where they are delivered
+  useEffect(() => {
+    const route = newCustomer.route.trim();
+    if (!showAddModal || !route) {
+      setRouteStops([]);
+      return;
+    }
+    getCustomersByRoute(route)
+      .then(setRouteStops)
+      .catch(error => console.error('Error loading route stops:', error));
+  }, [showAddModal, newCustomer.route]);
+
   const loadCustomers = async () => {
     try {
       const allCustomers = await getCustomers();
@@ -96,9 +140,18 @@ export const Customers: React.FC = () => {
       return;
     }
 
+    if (newCustomer.gstin && !isValidGSTIN(newCustomer.gstin)) {
+      alert('Please enter a valid 15 character GSTIN or leave it blank');
+      return;
+    }
+
     try {
+      const { creditLimit, creditDays, stopPosition, ...customerFields } = newCustomer;
       await addCustomer({
-        ...newCustomer,
+        ...customerFields,
+        creditLimit: parseCreditSetting(creditLimit),
+        creditDays: parseCreditSetting(creditDays, true),
+        routeSequence: stopPosition ? parseInt(stopPosition) : undefined,
         outstandingAmount: newCustomer.openingBalance // Initialize outstanding amount with opening balance
       });
       await loadCustomers();
@@ -109,7 +162,12 @@ export const Customers: React.FC = () => {
         address: '',
         route: '',
         openingBalance: 0,
-        productPrices: {}
+        productPrices: {},
+        gstin: '',
+        state: '',
+        creditLimit: '',
+        creditDays: '',
+        stopPosition: ''
       });
       await loadProducts(); // Reload to reset product prices
     } catch (error) {
@@ -121,14 +179,52 @@ export const Customers: React.FC = () => {
   const handleViewDetails = async (customer: Customer) => {
     setSelectedCustomer(customer);
     try {
-      const transactions = await getCustomerTransactions(customer.id);
+      const [transactions, types, sheets, prices] = await Promise.all([
+        getCustomerTransactions(customer.id),
+        getContainerTypes(),
+        getSheetHistory(),
+        getPriceList()
+      ]);
       setCustomerTransactions(transactions);
+      setPriceList(prices);
+      setContainerTypes(types);
+      setCustomerContainers(getContainerBalances(sheets)[customer.id] || {});
+      // Statement defaults to the current month
+      const today = new Date().toISOString().split('T')[0];
+      setStatementFrom(`${today.slice(0, 8)}01`);
+      setStatementTo(today);
       setShowDetailsModal(true);
     } catch (error) {
       console.error('Error loading customer transactions:', error);
     }
   };
 
+  const getStatement = () => {
+    if (!selectedCustomer || !statementFrom || !statementTo) return null;
+    return getAccountStatement(
+      selectedCustomer,
+      customerTransactions,
+      new Date(`${statementFrom}T00:00:00`),
+      new Date(`${statementTo}T00:00:00`)
+    );
+  };
+
+  const handleDownloadStatement = async () => {
+    const statement = getStatement();
+    if (!statement) return;
+    if (statement.from > statement.to) {
+      alert('The statement start date must be on or before its end date');
+      return;
+    }
+
+    try {
+      await generateAccountStatementPDF(statement);
+    } catch (error) {
+      console.error('Error generating account statement:', error);
+      alert('Error generating statement PDF. Please try again.');
+    }
+  };
+
   const handleEditCustomer = (customer: Customer) => {
     setSelectedCustomer(customer);
     setEditCustomer({
@@ -136,7 +232,11 @@ export const Customers: React.FC = () => {
       phone: customer.phone,
       address: customer.address,
       route: customer.route,
-      productPrices: customer.productPrices
+      productPrices: customer.productPrices,
+      gstin: customer.gstin || '',
+      state: customer.state || '',
+      creditLimit: customer.creditLimit?.toString() ?? '',
+      creditDays: customer.creditDays?.toString() ?? ''
     });
     setShowEditModal(true);
   };
@@ -144,13 +244,22 @@ export const Customers: React.FC = () => {
   const handleUpdateCustomer = async () => {
     if (!selectedCustomer) return;
 
+    if (editCustomer.gstin && !isValidGSTIN(editCustomer.gstin)) {
+      alert('Please enter a valid 15 character GSTIN or leave it blank');
+      return;
+    }
+
     try {
       await updateCustomer(selectedCustomer.id, {
         name: editCustomer.name,
         phone: editCustomer.phone,
         address: editCustomer.address,
         route: editCustomer.route,
-        productPrices: editCustomer.productPrices
+        productPrices: editCustomer.productPrices,
+        gstin: editCustomer.gstin,
+        state: editCustomer.state,
+        creditLimit: parseCreditSetting(editCustomer.creditLimit),
+        creditDays: parseCreditSetting(editCustomer.creditDays, true)
       });
       
       setShowEditModal(false);
@@ -206,9 +315,8 @@ export const Customers: React.FC = () => {
         invoiceNumber: `PAY-${selectedCustomer.id}-${Date.now()}`
       });
 
-      // Update customer's outstanding amount
-      const newOutstanding = selectedCustomer.outstandingAmount - totalPayment;
-      await updateCustomer(selectedCustomer.id, { outstandingAmount: newOutstanding });
+      // Recompute customer's outstanding amount from the ledger
+      await syncCustomerBalance(selectedCustomer.id);
 
       // Refresh data
       await loadCustomers();
@@ -255,9 +363,8 @@ export const Customers: React.FC = () => {
         invoiceNumber: `ADJ-${adjustmentType.toUpperCase()}-${selectedCustomer.id}-${Date.now()}`
       });
 
-      // Update customer's outstanding amount
-      const newOutstanding = selectedCustomer.outstandingAmount + balanceChange;
-      await updateCustomer(selectedCustomer.id, { outstandingAmount: newOutstanding });
+      // Recompute customer's outstanding amount from the ledger
+      await syncCustomerBalance(selectedCustomer.id);
 
       // Refresh data
       await loadCustomers();
@@ -279,11 +386,28 @@ export const Customers: React.FC = () => {
     window.open(`tel:${phone}`, '_self');
   };
 
-  const handleLocationSearch = (address: string) => {
-    const query = encodeURIComponent(address);
+  // The captured location when there is one, else a search on the address
+  const handleLocationSearch = (customer: Customer) => {
+    const query = hasLocation(customer)
+      ? `${customer.latitude},${customer.longitude}`
+      : encodeURIComponent(customer.address);
     window.open(`https://www.google.com/maps/search/${query}`, '_blank');
   };
 
+  const handleCaptureLocation = async (customer: Customer) => {
+    if (hasLocation(customer) && !confirm(`Replace the saved location of ${customer.name} with where you are now?`)) {
+      return;
+    }
+    try {
+      await captureCustomerLocation(customer.id);
+      await loadCustomers();
+      alert(`Location saved for ${customer.name}`);
+    } catch (error) {
+      console.error('Error capturing location:', error);
+      alert(error instanceof Error ? error.message : 'Error capturing location. Please try again.');
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -291,13 +415,22 @@ export const Customers: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Customers</h1>
           <p className="text-gray-600">Manage your customer database</p>
         </div>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Add Customer
-        </button>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="flex items-center px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </button>
+          <button
+            onClick={() => setShowAddModal(true)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Customer
+          </button>
+        </div>
       </div>
 
       {/* Search and Filter */}
@@ -403,6 +536,13 @@ export const Customers: React.FC = () => {
                         >
                           <Calculator className="w-4 h-4" />
                         </button>
+                        <button
+                          onClick={() => setStandingOrderCustomer(customer)}
+                          className={`${customer.standingOrder ? 'text-indigo-600 hover:text-indigo-800' : 'text-gray-400 hover:text-gray-600'} p-1 rounded transition-colors`}
+                          title={customer.standingOrder ? `Standing Order${customer.standingOrder.isPaused ? ' (Paused)' : ''}` : 'Set Up Standing Order'}
+                        >
+                          <CalendarDays className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => handleCallCustomer(customer.phone)}
                           className="text-purple-600 hover:text-purple-800 p-1 rounded transition-colors"
@@ -411,12 +551,19 @@ export const Customers: React.FC = () => {
                           <Phone className="w-4 h-4" />
                         </button>
                         <button
-                          onClick={() => handleLocationSearch(customer.address)}
+                          onClick={() => handleLocationSearch(customer)}
                           className="text-orange-600 hover:text-orange-800 p-1 rounded transition-colors"
                           title="View Location"
                         >
                           <MapPin className="w-4 h-4" />
                         </button>
+                        <button
+                          onClick={() => handleCaptureLocation(customer)}
+                          className={`${hasLocation(customer) ? 'text-teal-600 hover:text-teal-800' : 'text-gray-400 hover:text-gray-600'} p-1 rounded transition-colors`}
+                          title={hasLocation(customer) ? 'Update Location (Here)' : 'Capture Location (Here)'}
+                        >
+                          <LocateFixed className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => handleDeleteCustomer(customer)}
                           className="text-red-600 hover:text-red-800 p-1 rounded transition-colors"
@@ -502,7 +649,7 @@ export const Customers: React.FC = () => {
                   <input
                     type="text"
                     value={newCustomer.route}
-                    onChange={(e) => setNewCustomer({...newCustomer, route: e.target.value})}
+                    onChange={(e) => setNewCustomer({...newCustomer, route: e.target.value, stopPosition: ''})}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     placeholder="Enter route (e.g., A, B, C)"
                   />
@@ -522,6 +669,87 @@ export const Customers: React.FC = () => {
                 </div>
               </div>
 
+              {routeStops.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Stop Position
+                  </label>
+                  <select
+                    value={newCustomer.stopPosition}
+                    onChange={(e) => setNewCustomer({...newCustomer, stopPosition: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Last stop (after {routeStops[routeStops.length - 1].name})</option>
+                    {routeStops.map((stop, index) => (
+                      <option key={stop.id} value={index + 1}>Stop {index + 1}, before {stop.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    GSTIN
+                  </label>
+                  <input
+                    type="text"
+                    value={newCustomer.gstin}
+                    onChange={(e) => setNewCustomer({...newCustomer, gstin: e.target.value.toUpperCase()})}
+                    maxLength={15}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                    placeholder="Registered businesses only"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    State
+                  </label>
+                  <select
+                    value={newCustomer.state}
+                    onChange={(e) => setNewCustomer({...newCustomer, state: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Same as company / from GSTIN</option>
+                    {Object.entries(GST_STATES).map(([code, name]) => (
+                      <option key={code} value={code}>{code} - {name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Credit Limit (₹)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={newCustomer.creditLimit}
+                    onChange={(e) => setNewCustomer({...newCustomer, creditLimit: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="No limit"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Credit Days
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={newCustomer.creditDays}
+                    onChange={(e) => setNewCustomer({...newCustomer, creditDays: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="No limit"
+                  />
+                </div>
+              </div>
+
               <div>
                 <h3 className="text-lg font-medium text-gray-900 mb-3">Product Prices</h3>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -621,6 +849,64 @@ export const Customers: React.FC = () => {
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">GSTIN</label>
+                  <input
+                    type="text"
+                    value={editCustomer.gstin}
+                    onChange={(e) => setEditCustomer({...editCustomer, gstin: e.target.value.toUpperCase()})}
+                    maxLength={15}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                    placeholder="Registered businesses only"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">State</label>
+                  <select
+                    value={editCustomer.state}
+                    onChange={(e) => setEditCustomer({...editCustomer, state: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Same as company / from GSTIN</option>
+                    {Object.entries(GST_STATES).map(([code, name]) => (
+                      <option key={code} value={code}>{code} - {name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Credit Limit (₹)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={editCustomer.creditLimit}
+                    onChange={(e) => setEditCustomer({...editCustomer, creditLimit: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="No limit"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Credit Days
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={editCustomer.creditDays}
+                    onChange={(e) => setEditCustomer({...editCustomer, creditDays: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="No limit"
+                  />
+                </div>
+              </div>
+
               {products.length > 0 && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Product Prices</label>
@@ -733,12 +1019,120 @@ export const Customers: React.FC = () => {
                   {products.map((product) => (
                     <div key={product.id} className="bg-gray-50 p-4 rounded-lg">
                       <p className="text-sm font-medium text-gray-600">{product.name}</p>
-                      <p className="text-xl font-bold text-gray-900">₹{selectedCustomer.productPrices[product.id] || 0}</p>
+                      <p className="text-xl font-bold text-gray-900">₹{getPriceOn(priceList, product, selectedCustomer)}</p>
                     </div>
                   ))}
                 </div>
               </div>
 
+              {/* Returnable Containers */}
+              {containerTypes.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Containers Held</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {containerTypes.map((type) => (
+                      <div key={type.id} className="bg-gray-50 p-4 rounded-lg">
+                        <p className="text-sm font-medium text-gray-600">{type.name}</p>
+                        <p className="text-xl font-bold text-gray-900">{customerContainers[type.id] || 0}</p>
+                        <p className="text-xs text-gray-500">Deposit ₹{type.depositValue} each</p>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-sm text-gray-600">
+                    Deposit value held: <span className="font-semibold">₹{getContainerDeposit(customerContainers, containerTypes).toLocaleString()}</span>
+                  </p>
+                </div>
+              )}
+
+              {/* Account Statement */}
+              {(() => {
+                const statement = getStatement();
+                if (!statement) return null;
+                const isValidPeriod = statement.from <= statement.to;
+                return (
+                  <div>
+                    <div className="flex flex-wrap items-end justify-between gap-3 mb-3">
+                      <h3 className="text-lg font-semibold text-gray-900">Account Statement</h3>
+                      <div className="flex flex-wrap items-end gap-3">
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+                          <input
+                            type="date"
+                            value={statementFrom}
+                            onChange={(e) => setStatementFrom(e.target.value)}
+                            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+                          <input
+                            type="date"
+                            value={statementTo}
+                            onChange={(e) => setStatementTo(e.target.value)}
+                            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <button
+                          onClick={handleDownloadStatement}
+                          disabled={!isValidPeriod}
+                          className="flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          Download Statement
+                        </button>
+                      </div>
+                    </div>
+                    {isValidPeriod ? (
+                      <div className="overflow-x-auto">
+                        <table className="w-full border border-gray-200 rounded-lg">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Particulars</th>
+                              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Debit</th>
+                              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Credit</th>
+                              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-200">
+                            <tr className="bg-gray-50">
+                              <td className="px-4 py-2 text-sm text-gray-900">{statement.from.toLocaleDateString()}</td>
+                              <td className="px-4 py-2 text-sm font-medium text-gray-900" colSpan={3}>Opening Balance</td>
+                              <td className="px-4 py-2 text-sm font-medium text-right text-gray-900">₹{statement.openingBalance.toLocaleString()}</td>
+                            </tr>
+                            {statement.lines.map((line, index) => (
+                              <tr key={`${line.reference}-${index}`}>
+                                <td className="px-4 py-2 text-sm text-gray-900">{line.date.toLocaleDateString()}</td>
+                                <td className="px-4 py-2 text-sm text-gray-900">
+                                  {line.description}
+                                  <div className="text-xs text-gray-500">{line.reference}</div>
+                                </td>
+                                <td className="px-4 py-2 text-sm text-right text-red-600">
+                                  {line.debit ? `₹${line.debit.toLocaleString()}` : '-'}
+                                </td>
+                                <td className="px-4 py-2 text-sm text-right text-green-600">
+                                  {line.credit ? `₹${line.credit.toLocaleString()}` : '-'}
+                                </td>
+                                <td className="px-4 py-2 text-sm text-right text-gray-900">₹{line.balance.toLocaleString()}</td>
+                              </tr>
+                            ))}
+                            <tr className="bg-gray-50">
+                              <td className="px-4 py-2 text-sm text-gray-900">{statement.to.toLocaleDateString()}</td>
+                              <td className="px-4 py-2 text-sm font-medium text-gray-900">Closing Balance</td>
+                              <td className="px-4 py-2 text-sm font-medium text-right text-red-600">₹{statement.totalDebit.toLocaleString()}</td>
+                              <td className="px-4 py-2 text-sm font-medium text-right text-green-600">₹{statement.totalCredit.toLocaleString()}</td>
+                              <td className="px-4 py-2 text-sm font-bold text-right text-gray-900">₹{statement.closingBalance.toLocaleString()}</td>
+                            </tr>
+                          </tbody>
+                        </table>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-red-600">The start date must be on or before the end date</p>
+                    )}
+                  </div>
+                );
+              })()}
+
               {/* Transaction History */}
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-3">Transaction History</h3>
@@ -775,6 +1169,8 @@ export const Customers: React.FC = () => {
                                   ? 'bg-green-100 text-green-800'
                                   : transaction.type === 'adjustment'
                                   ? 'bg-purple-100 text-purple-800'
+                                  : transaction.type === 'return'
+                                  ? 'bg-teal-100 text-teal-800'
                                   : 'bg-yellow-100 text-yellow-800'
                               }`}>
                                 {transaction.type === 'adjustment' && transaction.invoiceNumber.startsWith('INITIAL-') 
@@ -782,6 +1178,9 @@ export const Customers: React.FC = () => {
                                   : transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1)
                                 }
                               </span>
+                              {transaction.type === 'return' && (
+                                <div className="text-xs text-gray-500 mt-1">{transaction.invoiceNumber}</div>
+                              )}
                             </td>
                             <td className="px-4 py-3 text-sm font-medium">
                               {transaction.type === 'sale' && transaction.totalAmount > 0 ? (
@@ -1010,6 +1409,23 @@ export const Customers: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Import Customers Modal */}
+      {showImportModal && (
+        <CustomerImport
+          onClose={() => setShowImportModal(false)}
+          onImported={loadCustomers}
+        />
+      )}
+
+      {/* Standing Order Modal */}
+      {standingOrderCustomer && (
+        <StandingOrderEditor
+          customer={standingOrderCustomer}
+          onClose={() => setStandingOrderCustomer(null)}
+          onSaved={loadCustomers}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
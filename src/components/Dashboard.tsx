@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   Users, 
   FileText, 
@@ -9,10 +9,13 @@ import {
   CheckCircle,
   XCircle,
   Box,
-  Settings
+  Settings,
+  AlertTriangle,
+  Ban
 } from 'lucide-react';
 import { useData } from '../contexts/DataContext';
-import { Customer, Invoice, Transaction } from '../types';
+import { Customer, Invoice, Transaction, Product } from '../types';
+import { getStockMovements, getStockLevels, getLowStockProducts, getCreditHolds } from '../utils/supabase-storage';
 
 interface DashboardProps {
   onPageChange?: (page: string) => void;
@@ -47,6 +50,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
     recentTransactions: [] as Transaction[]
   });
 
+  const [lowStock, setLowStock] = useState<{ product: Product; stock: number }[]>([]);
+
   const [connectionStatus, setConnectionStatus] = useState<{
     isConfigured: boolean;
     connectionStatus: 'success' | 'error' | 'testing';
@@ -80,7 +85,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
         setStats({
           totalCustomers: customers.length,
           totalRoutes: routes.length,
-          totalInvoices: invoices.length,
+          totalInvoices: invoices.filter((invoice: Invoice) => invoice.status !== 'cancelled').length,
           totalOutstanding,
           recentTransactions
         });
@@ -92,6 +97,25 @@ export const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
     updateStats();
   }, [state.customers, state.invoices, state.transactions, state.routes]); // Dependencies on the actual data
 
+  // Stock moves with every sale, so re-check when invoices or transactions change
+  useEffect(() => {
+    const loadLowStock = async () => {
+      try {
+        const levels = getStockLevels(await getStockMovements());
+        setLowStock(getLowStockProducts(state.products, levels).map(product => ({ product, stock: levels[product.id] || 0 })));
+      } catch (error) {
+        console.error('Error loading stock levels:', error);
+      }
+    };
+
+    loadLowStock();
+  }, [state.products, state.invoices, state.transactions]);
+
+  const creditHolds = useMemo(
+    () => getCreditHolds(state.customers, state.transactions),
+    [state.customers, state.transactions]
+  );
+
   const statCards = [
     {
       title: 'Total Customers',
@@ -123,7 +147,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
       icon: IndianRupee,
       color: stats.totalOutstanding >= 0 ? 'bg-red-500' : 'bg-green-500',
       textColor: stats.totalOutstanding >= 0 ? 'text-red-700' : 'text-green-700',
-      bgColor: stats.totalOutstanding >= 0 ? 'bg-red-50' : 'bg-green-50'
+      bgColor: stats.totalOutstanding >= 0 ? 'bg-red-50' : 'bg-green-50',
+      page: 'receivables' // Opens the aging report
     }
   ];
 
@@ -190,7 +215,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
           {statCards.map((stat, index) => {
             const Icon = stat.icon;
             return (
-              <div key={index} className={`${stat.bgColor} rounded-lg p-4 border border-gray-200 shadow-sm`}>
+              <div
+                key={index}
+                onClick={stat.page ? () => onPageChange?.(stat.page) : undefined}
+                className={`${stat.bgColor} rounded-lg p-4 border border-gray-200 shadow-sm ${stat.page ? 'cursor-pointer hover:shadow-md transition-shadow' : ''}`}
+              >
                 <div className="flex items-center justify-between">
                   <div className="flex-1">
                     <p className="text-sm font-medium text-gray-600">{stat.title}</p>
@@ -207,6 +236,67 @@ export const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
           })}
         </div>
         
+        {/* Low Stock Alerts */}
+        {lowStock.length > 0 && (
+          <div className="bg-white rounded-lg shadow border border-red-200">
+            <div className="px-6 py-4 border-b border-red-200 bg-red-50 rounded-t-lg flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-red-800 flex items-center">
+                <AlertTriangle className="w-5 h-5 mr-2" />
+                Low Stock ({lowStock.length})
+              </h2>
+              <button
+                onClick={() => onPageChange?.('products')}
+                className="text-sm text-red-700 hover:text-red-900 underline"
+              >
+                Manage stock
+              </button>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {lowStock.map(({ product, stock }) => (
+                <div key={product.id} className="px-6 py-3 flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900">{product.name}</span>
+                  <span className="text-sm text-gray-600">
+                    <span className="font-semibold text-red-600">{stock}</span> in stock, reorder at {product.reorderLevel}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Customers on Credit Hold */}
+        {creditHolds.length > 0 && (
+          <div className="bg-white rounded-lg shadow border border-red-200">
+            <div className="px-6 py-4 border-b border-red-200 bg-red-50 rounded-t-lg flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-red-800 flex items-center">
+                <Ban className="w-5 h-5 mr-2" />
+                Customers on Credit Hold ({creditHolds.length})
+              </h2>
+              <button
+                onClick={() => onPageChange?.('receivables')}
+                className="text-sm text-red-700 hover:text-red-900 underline"
+              >
+                View aging
+              </button>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {creditHolds.map(hold => (
+                <div key={hold.customer.id} className="px-6 py-3 flex items-center justify-between">
+                  <div>
+                    <span className="text-sm font-medium text-gray-900">{hold.customer.name}</span>
+                    <span className="text-xs text-gray-500 ml-2">ID: {hold.customer.id} · Route {hold.customer.route}</span>
+                  </div>
+                  <div className="text-right text-xs text-red-700">
+                    {hold.reasons.map(reason => (
+                      <div key={reason}>{reason}</div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Quick Actions */}
         <div className="bg-white rounded-lg shadow border border-gray-200">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -329,6 +419,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
                             ? 'bg-blue-100 text-blue-800'
                             : transaction.type === 'payment'
                             ? 'bg-green-100 text-green-800'
+                            : transaction.type === 'return'
+                            ? 'bg-teal-100 text-teal-800'
                             : 'bg-yellow-100 text-yellow-800'
                         }`}>
                           {transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1)}
@@ -3,15 +3,35 @@ import {
   Plus, 
   Search, 
   FileText, 
-  Eye
+  Eye,
+  Ban,
+  Download,
+  RotateCcw
 } from 'lucide-react';
 import { 
   addInvoice, 
-  addTransaction, 
-  updateCustomer
+  syncCustomerBalance,
+  voidInvoice,
+  getCreditNotes,
+  getReturnedQuantities,
+  createCreditNote,
+  getCompanySettings,
+  applyGST,
+  isInterStateSupply,
+  getTaxSummary,
+  priceInvoiceItems,
+  getPriceList,
+  getPriceOn,
+  getReceivablesAging,
+  getCreditHold
 } from '../utils/supabase-storage';
+import { generateInvoicePDF, generateCreditNotePDF } from '../utils/invoice-pdf';
 import { useData, useDataEntity } from '../contexts/DataContext';
-import { Invoice, Customer, InvoiceItem } from '../types';
+import { Invoice, Customer, InvoiceItem, CreditNote, CompanySettings, TaxSummary, Discount, PriceListEntry } from '../types';
+
+const formatTaxBreakup = (taxSummary: TaxSummary): string => taxSummary.igst > 0
+  ? `IGST ₹${taxSummary.igst.toLocaleString()}`
+  : `CGST ₹${taxSummary.cgst.toLocaleString()} + SGST ₹${taxSummary.sgst.toLocaleString()}`;
 
 export const Invoices: React.FC = () => {
   // Use the data context instead of local state
@@ -25,6 +45,9 @@ export const Invoices: React.FC = () => {
   const { 
     data: allProducts
   } = useDataEntity('products');
+  const { 
+    data: allTransactions
+  } = useDataEntity('transactions');
 
   const [filteredInvoices, setFilteredInvoices] = useState<Invoice[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -34,6 +57,16 @@ export const Invoices: React.FC = () => {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
+  const [invoiceToVoid, setInvoiceToVoid] = useState<Invoice | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [isVoiding, setIsVoiding] = useState(false);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [invoiceToReturn, setInvoiceToReturn] = useState<Invoice | null>(null);
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({});
+  const [returnReason, setReturnReason] = useState('');
+  const [isCreatingCreditNote, setIsCreatingCreditNote] = useState(false);
+  const [companySettings, setCompanySettings] = useState<CompanySettings | null>(null);
+  const [priceList, setPriceList] = useState<PriceListEntry[]>([]);
 
   const [newInvoice, setNewInvoice] = useState({
     customerId: '',
@@ -41,12 +74,31 @@ export const Invoices: React.FC = () => {
     items: [] as InvoiceItem[],
     cashAmount: 0,
     upiAmount: 0,
-    amountReceived: 0
+    amountReceived: 0,
+    discount: { type: 'percent', value: 0 } as Discount
   });
 
   const [customerSearch, setCustomerSearch] = useState('');
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
 
+  useEffect(() => {
+    loadCreditNotes();
+    getCompanySettings()
+      .then(setCompanySettings)
+      .catch(error => console.error('Error loading company settings:', error));
+    getPriceList()
+      .then(setPriceList)
+      .catch(error => console.error('Error loading price list:', error));
+  }, []);
+
+  const loadCreditNotes = async () => {
+    try {
+      setCreditNotes(await getCreditNotes());
+    } catch (error) {
+      console.error('Error loading credit notes:', error);
+    }
+  };
+
   // Update filtered invoices when data changes
   useEffect(() => {
     let filtered = allInvoices.filter(invoice => {
@@ -137,8 +189,27 @@ export const Invoices: React.FC = () => {
     });
   };
 
+  // Lines after discounts, with any free lines the customer's schemes add
+  const getPricedItems = (): InvoiceItem[] => {
+    return priceInvoiceItems(newInvoice.items, companySettings?.schemes || [], {
+      customerId: newInvoice.customerId,
+      date: new Date(),
+      invoiceDiscount: newInvoice.discount
+    });
+  };
+
+  const calculateGrossTotal = () => {
+    return newInvoice.items.reduce((sum, item) => sum + item.quantity * item.price, 0);
+  };
+
   const calculateSubtotal = () => {
-    return newInvoice.items.reduce((sum, item) => sum + item.total, 0);
+    return getPricedItems().reduce((sum, item) => sum + item.total, 0);
+  };
+
+  // Item prices include GST; split it out as the invoice will record it
+  const getTaxedItems = (): InvoiceItem[] => {
+    if (!companySettings) return getPricedItems();
+    return applyGST(getPricedItems(), allProducts, isInterStateSupply(companySettings, selectedCustomer || undefined));
   };
 
   const updatePaymentAmount = (field: 'cashAmount' | 'upiAmount', amount: number) => {
@@ -147,6 +218,11 @@ export const Invoices: React.FC = () => {
     setNewInvoice(updatedInvoice);
   };
 
+  // Credit hold of a customer, counting the unpaid part of the invoice being raised
+  const getCustomerCreditHold = (customer: Customer, additionalDue = 0) => {
+    return getCreditHold(customer, getReceivablesAging([customer], allTransactions)[0], additionalDue);
+  };
+
   const handleCreateInvoice = async () => {
     if (!selectedCustomer || newInvoice.items.length === 0) {
       alert('Please select a customer and add at least one item');
@@ -167,11 +243,26 @@ export const Invoices: React.FC = () => {
       return;
     }
 
+    // Invoicing a customer on credit hold on credit needs a reason; cash sales are not held
+    const unpaidAmount = calculateSubtotal() - newInvoice.amountReceived;
+    const creditHold = unpaidAmount > 0 ? getCustomerCreditHold(selectedCustomer, unpaidAmount) : undefined;
+    let creditOverrideReason: string | undefined;
+    if (creditHold) {
+      const reason = prompt(`${selectedCustomer.name} is on credit hold:\n${creditHold.reasons.join('\n')}\n\nEnter a reason to raise this invoice anyway:`);
+      if (reason === null) return;
+      if (!reason.trim()) {
+        alert('A reason is required to invoice a customer on credit hold');
+        return;
+      }
+      creditOverrideReason = reason.trim();
+    }
+
     try {
       // Refresh data before critical operation to ensure consistency
       console.log('🔄 Refreshing data before creating invoice...');
       await dataContext.refreshBeforeCriticalOperation();
       
+      const items = getTaxedItems();
       const subtotal = calculateSubtotal();
       const balanceChange = subtotal - newInvoice.amountReceived;
 
@@ -180,8 +271,8 @@ export const Invoices: React.FC = () => {
       const invoiceData = {
         customerId: selectedCustomer.id,
         customerName: selectedCustomer.name,
-        items: newInvoice.items,
-        subtotal,
+        items,
+        subtotal: getTaxSummary(items).taxableValue,
         totalAmount: subtotal,
         amountReceived: newInvoice.amountReceived,
         balanceChange,
@@ -191,44 +282,25 @@ export const Invoices: React.FC = () => {
         customerFinalBalance: finalBalance,
         cashAmount: newInvoice.cashAmount,
         upiAmount: newInvoice.upiAmount,
+        discount: newInvoice.discount.value > 0 ? newInvoice.discount : undefined,
         routeId: 'MANUAL',
-        routeName: 'No route'
+        routeName: 'No route',
+        creditOverrideReason
       };
 
-      const invoiceNumber = await addInvoice(invoiceData);
-
-      // Create the full invoice object for optimistic update
-      const newInvoiceRecord: Invoice = {
-        id: invoiceNumber,
-        invoiceNumber,
-        ...invoiceData
-      };
+      // The sale is posted to the ledger with the invoice
+      const createdInvoice = await addInvoice(invoiceData);
 
       // Optimistic update - add to local state immediately
-      dataContext.addInvoice(newInvoiceRecord);
-
-      // Add transaction
-      await addTransaction({
-        customerId: selectedCustomer.id,
-        customerName: selectedCustomer.name,
-        type: 'sale',
-        items: newInvoice.items,
-        totalAmount: subtotal,
-        amountReceived: newInvoice.amountReceived,
-        balanceChange,
-        date: new Date(),
-        invoiceNumber,
-        routeId: 'MANUAL',
-        routeName: 'No route'
-      });
+      dataContext.addInvoice(createdInvoice);
 
       // Update customer outstanding amount optimistically
       dataContext.updateCustomer(selectedCustomer.id, { 
         outstandingAmount: selectedCustomer.outstandingAmount + balanceChange 
       });
 
-      // Update customer outstanding amount in storage
-      await updateCustomer(selectedCustomer.id, { outstandingAmount: finalBalance });
+      // Recompute customer outstanding amount in storage from the ledger
+      await syncCustomerBalance(selectedCustomer.id);
 
       setShowCreateModal(false);
       resetNewInvoice();
@@ -250,7 +322,8 @@ export const Invoices: React.FC = () => {
       items: [],
       cashAmount: 0,
       upiAmount: 0,
-      amountReceived: 0
+      amountReceived: 0,
+      discount: { type: 'percent', value: 0 }
     });
     setCustomerSearch('');
     setSelectedCustomer(null);
@@ -261,6 +334,112 @@ export const Invoices: React.FC = () => {
     setShowDetailsModal(true);
   };
 
+  const handleDownloadPDF = async (invoice: Invoice) => {
+    try {
+      await generateInvoicePDF(invoice);
+    } catch (error) {
+      console.error('Error generating invoice PDF:', error);
+      alert('Error generating invoice PDF. Please try again.');
+    }
+  };
+
+  const handleVoidInvoice = async () => {
+    if (!invoiceToVoid) return;
+
+    if (!voidReason.trim()) {
+      alert('Please enter a reason for voiding this invoice');
+      return;
+    }
+
+    setIsVoiding(true);
+    try {
+      await voidInvoice(invoiceToVoid.id, voidReason);
+
+      const updates: Partial<Invoice> = {
+        status: 'cancelled',
+        cancellationReason: voidReason.trim(),
+        cancelledAt: new Date()
+      };
+      dataContext.updateInvoice(invoiceToVoid.id, updates);
+      if (selectedInvoice?.id === invoiceToVoid.id) {
+        setSelectedInvoice({ ...selectedInvoice, ...updates });
+      }
+
+      // The reversal changed the customer's balance and ledger
+      await dataContext.fetchCustomers(true);
+      await dataContext.fetchTransactions(true);
+
+      alert(`Invoice ${invoiceToVoid.invoiceNumber} has been voided and ${invoiceToVoid.customerName}'s outstanding restored.`);
+      setInvoiceToVoid(null);
+      setVoidReason('');
+    } catch (error) {
+      console.error('Error voiding invoice:', error);
+      alert(`Error voiding invoice: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setIsVoiding(false);
+    }
+  };
+
+  const openReturnModal = (invoice: Invoice) => {
+    setInvoiceToReturn(invoice);
+    setReturnQuantities({});
+    setReturnReason('');
+  };
+
+  const closeReturnModal = () => {
+    setInvoiceToReturn(null);
+    setReturnQuantities({});
+    setReturnReason('');
+  };
+
+  const returnTotal = invoiceToReturn
+    ? invoiceToReturn.items.reduce((sum, item) => sum + (returnQuantities[item.id] || 0) * item.total / item.quantity, 0)
+    : 0;
+
+  const handleCreateCreditNote = async () => {
+    if (!invoiceToReturn) return;
+
+    const returns = Object.entries(returnQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([itemId, quantity]) => ({ itemId, quantity }));
+
+    if (returns.length === 0) {
+      alert('Please enter a return quantity for at least one item');
+      return;
+    }
+    if (!returnReason.trim()) {
+      alert('Please enter a reason for the return');
+      return;
+    }
+
+    setIsCreatingCreditNote(true);
+    try {
+      const creditNoteNumber = await createCreditNote(invoiceToReturn.id, returns, returnReason);
+
+      await loadCreditNotes();
+      // The credit changed the customer's balance and ledger
+      await dataContext.fetchCustomers(true);
+      await dataContext.fetchTransactions(true);
+
+      alert(`Credit note ${creditNoteNumber} created for ₹${returnTotal.toLocaleString()} against ${invoiceToReturn.invoiceNumber}.`);
+      closeReturnModal();
+    } catch (error) {
+      console.error('Error creating credit note:', error);
+      alert(`Error creating credit note: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setIsCreatingCreditNote(false);
+    }
+  };
+
+  const handleDownloadCreditNotePDF = async (creditNote: CreditNote) => {
+    try {
+      await generateCreditNotePDF(creditNote);
+    } catch (error) {
+      console.error('Error generating credit note PDF:', error);
+      alert('Error generating credit note PDF. Please try again.');
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'paid':
@@ -269,11 +448,17 @@ export const Invoices: React.FC = () => {
         return 'bg-yellow-100 text-yellow-800';
       case 'pending':
         return 'bg-red-100 text-red-800';
+      case 'cancelled':
+        return 'bg-gray-200 text-gray-700 line-through';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
+  const pricedItems = getPricedItems();
+  const newInvoiceTax = getTaxSummary(getTaxedItems());
+  const selectedInvoiceTax = selectedInvoice ? getTaxSummary(selectedInvoice.items) : null;
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -411,7 +596,7 @@ export const Invoices: React.FC = () => {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {filteredInvoices.map((invoice) => (
-                  <tr key={invoice.id} className="hover:bg-gray-50">
+                  <tr key={invoice.id} className={`hover:bg-gray-50 ${invoice.status === 'cancelled' ? 'bg-gray-50 text-gray-500' : ''}`}>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">
                       {invoice.invoiceNumber}
                     </td>
@@ -429,7 +614,7 @@ export const Invoices: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {new Date(invoice.date).toLocaleDateString()}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${invoice.status === 'cancelled' ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
                       ₹{invoice.totalAmount.toLocaleString()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
@@ -463,14 +648,47 @@ export const Invoices: React.FC = () => {
                       <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(invoice.status)}`}>
                         {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
                       </span>
+                      {invoice.status === 'cancelled' && invoice.cancellationReason && (
+                        <div className="text-xs text-gray-500 mt-1 max-w-[12rem] truncate" title={invoice.cancellationReason}>
+                          {invoice.cancellationReason}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                      <button
-                        onClick={() => handleViewDetails(invoice)}
-                        className="text-blue-600 hover:text-blue-800 p-1 rounded transition-colors"
-                      >
-                        <Eye className="w-4 h-4" />
-                      </button>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => handleViewDetails(invoice)}
+                          className="text-blue-600 hover:text-blue-800 p-1 rounded transition-colors"
+                          title="View Details"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDownloadPDF(invoice)}
+                          className="text-gray-600 hover:text-gray-800 p-1 rounded transition-colors"
+                          title="Download PDF"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                        {invoice.status !== 'cancelled' && (
+                          <button
+                            onClick={() => openReturnModal(invoice)}
+                            className="text-teal-600 hover:text-teal-800 p-1 rounded transition-colors"
+                            title="Return Items"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                        {invoice.status !== 'cancelled' && (
+                          <button
+                            onClick={() => setInvoiceToVoid(invoice)}
+                            className="text-red-600 hover:text-red-800 p-1 rounded transition-colors"
+                            title="Void Invoice"
+                          >
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
                     </td>
                   </tr>
                 ))}
@@ -490,6 +708,83 @@ export const Invoices: React.FC = () => {
         )}
       </div>
 
+      {/* Credit Notes */}
+      {creditNotes.length > 0 && (
+        <div className="bg-white rounded-lg shadow border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <RotateCcw className="w-5 h-5 mr-2" />
+              Credit Notes
+            </h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Credit Note
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Invoice
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Customer
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reason
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {[...creditNotes]
+                  .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+                  .map((creditNote) => (
+                  <tr key={creditNote.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-teal-600">
+                      {creditNote.creditNoteNumber}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {creditNote.invoiceNumber}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{creditNote.customerName}</div>
+                      <div className="text-sm text-gray-500">{creditNote.customerId}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(creditNote.date).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-green-600">
+                      ₹{creditNote.totalAmount.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600 max-w-xs truncate" title={creditNote.reason}>
+                      {creditNote.reason}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={() => handleDownloadCreditNotePDF(creditNote)}
+                        className="text-gray-600 hover:text-gray-800 p-1 rounded transition-colors"
+                        title="Download PDF"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Create Invoice Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -522,6 +817,18 @@ export const Invoices: React.FC = () => {
                     </p>
                   </div>
                 )}
+                {selectedCustomer && (() => {
+                  const creditHold = getCustomerCreditHold(selectedCustomer);
+                  return creditHold && (
+                    <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded-md">
+                      <p className="text-sm font-medium text-red-800">On credit hold</p>
+                      {creditHold.reasons.map(reason => (
+                        <p key={reason} className="text-xs text-red-700 mt-1">{reason}</p>
+                      ))}
+                      <p className="text-xs text-red-700 mt-1">A reason will be asked for unless the invoice is paid in full.</p>
+                    </div>
+                  );
+                })()}
               </div>
 
               {/* Invoice Items */}
@@ -537,22 +844,25 @@ export const Invoices: React.FC = () => {
                 </div>
                 
                 {newInvoice.items.map((item) => (
-                  <div key={item.id} className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-3 p-3 border border-gray-200 rounded-md">
+                  <div key={item.id} className="grid grid-cols-1 md:grid-cols-6 gap-3 mb-3 p-3 border border-gray-200 rounded-md">
                     <div>
                       <label className="block text-xs font-medium text-gray-700 mb-1">Product</label>
                       <select
                         value={item.productName}
                         onChange={(e) => {
                           const productName = e.target.value;
+                          const product = allProducts.find(p => p.name === productName);
                           let price = 0;
-                          if (selectedCustomer && productName) {
-                            const product = allProducts.find(p => p.name === productName);
-                            if (product) {
-                              price = selectedCustomer.productPrices[product.id] || product.defaultPrice;
-                            }
+                          if (selectedCustomer && product) {
+                            price = getPriceOn(priceList, product, selectedCustomer);
                           }
-                          updateInvoiceItem(item.id, 'productName', productName);
-                          updateInvoiceItem(item.id, 'price', price);
+                          // Update the line in one go so the product id, name and price stay together
+                          setNewInvoice({
+                            ...newInvoice,
+                            items: newInvoice.items.map(i => i.id === item.id
+                              ? { ...i, productId: product?.id, productName, price, total: i.quantity * price }
+                              : i)
+                          });
                         }}
                         className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
                       >
@@ -582,14 +892,38 @@ export const Invoices: React.FC = () => {
                         step="0.01"
                       />
                     </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Discount</label>
+                      <div className="flex">
+                        <input
+                          type="number"
+                          value={item.discount?.value || 0}
+                          onChange={(e) => updateInvoiceItem(item.id, 'discount', { type: item.discount?.type || 'percent', value: parseFloat(e.target.value) || 0 })}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-l focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          step="0.01"
+                          min="0"
+                        />
+                        <select
+                          value={item.discount?.type || 'percent'}
+                          onChange={(e) => updateInvoiceItem(item.id, 'discount', { type: e.target.value as Discount['type'], value: item.discount?.value || 0 })}
+                          className="px-1 py-1 text-sm border border-l-0 border-gray-300 rounded-r focus:outline-none"
+                        >
+                          <option value="percent">%</option>
+                          <option value="flat">₹</option>
+                        </select>
+                      </div>
+                    </div>
                     <div>
                       <label className="block text-xs font-medium text-gray-700 mb-1">Total</label>
                       <input
                         type="number"
-                        value={item.total}
+                        value={pricedItems.find(i => i.id === item.id)?.total ?? item.total}
                         readOnly
                         className="w-full px-2 py-1 text-sm border border-gray-300 rounded bg-gray-50"
                       />
+                      {pricedItems.find(i => i.id === item.id)?.schemeName && (
+                        <p className="text-xs text-green-700 mt-1">{pricedItems.find(i => i.id === item.id)?.schemeName}</p>
+                      )}
                     </div>
                     <div className="flex items-end">
                       <button
@@ -601,6 +935,11 @@ export const Invoices: React.FC = () => {
                     </div>
                   </div>
                 ))}
+                {pricedItems.filter(item => item.isFree).map(item => (
+                  <div key={item.id} className="mb-3 p-3 border border-green-200 bg-green-50 rounded-md text-sm text-green-800">
+                    Free: {item.quantity} x {item.productName} ({item.schemeName})
+                  </div>
+                ))}
               </div>
 
               {/* Invoice Summary */}
@@ -638,10 +977,43 @@ export const Invoices: React.FC = () => {
                     </div>
                     
                     <div className="space-y-2">
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium text-gray-700">Invoice Discount:</span>
+                        <div className="flex">
+                          <input
+                            type="number"
+                            value={newInvoice.discount.value}
+                            onChange={(e) => setNewInvoice({ ...newInvoice, discount: { ...newInvoice.discount, value: parseFloat(e.target.value) || 0 } })}
+                            className="w-24 px-2 py-1 text-sm border border-gray-300 rounded-l focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            step="0.01"
+                            min="0"
+                          />
+                          <select
+                            value={newInvoice.discount.type}
+                            onChange={(e) => setNewInvoice({ ...newInvoice, discount: { ...newInvoice.discount, type: e.target.value as Discount['type'] } })}
+                            className="px-1 py-1 text-sm border border-l-0 border-gray-300 rounded-r focus:outline-none"
+                          >
+                            <option value="percent">%</option>
+                            <option value="flat">₹</option>
+                          </select>
+                        </div>
+                      </div>
+                      {calculateGrossTotal() - calculateSubtotal() > 0 && (
+                        <div className="flex justify-between text-sm text-green-700">
+                          <span>Discounts and schemes:</span>
+                          <span>-₹{(calculateGrossTotal() - calculateSubtotal()).toLocaleString()}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between">
                         <span className="text-sm font-medium text-gray-700">Subtotal:</span>
                         <span className="text-sm text-gray-900">₹{calculateSubtotal().toLocaleString()}</span>
                       </div>
+                      {newInvoiceTax.totalTax > 0 && (
+                        <div className="flex justify-between text-xs text-gray-500">
+                          <span>Includes GST on ₹{newInvoiceTax.taxableValue.toLocaleString()}:</span>
+                          <span>{formatTaxBreakup(newInvoiceTax)}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between">
                         <span className="text-sm font-medium text-gray-700">Cash Received:</span>
                         <span className="text-sm text-gray-900">₹{newInvoice.cashAmount.toLocaleString()}</span>
@@ -700,6 +1072,26 @@ export const Invoices: React.FC = () => {
             </div>
             
             <div className="px-6 py-4 space-y-4">
+              {selectedInvoice.status === 'cancelled' && (
+                <div className="p-3 bg-red-50 border-2 border-red-300 rounded-md">
+                  <p className="text-lg font-bold text-red-700 tracking-widest">CANCELLED</p>
+                  {selectedInvoice.cancelledAt && (
+                    <p className="text-sm text-red-700">Voided on {new Date(selectedInvoice.cancelledAt).toLocaleString()}</p>
+                  )}
+                  {selectedInvoice.cancellationReason && (
+                    <p className="text-sm text-red-700">Reason: {selectedInvoice.cancellationReason}</p>
+                  )}
+                </div>
+              )}
+
+              {selectedInvoice.creditOverrideReason && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                  <p className="text-sm text-yellow-800">
+                    Raised during credit hold. Reason: {selectedInvoice.creditOverrideReason}
+                  </p>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div>
                   <p className="text-sm font-medium text-gray-700">Invoice Number</p>
@@ -753,16 +1145,30 @@ export const Invoices: React.FC = () => {
                         <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Product</th>
                         <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Quantity</th>
                         <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Price</th>
+                        <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">GST</th>
                         <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Total</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
                       {selectedInvoice.items.map((item, index) => (
                         <tr key={index}>
-                          <td className="px-4 py-2 text-sm text-gray-900">{item.productName}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">
+                            {item.productName}
+                            {item.hsnCode && <span className="ml-2 text-xs text-gray-500">HSN {item.hsnCode}</span>}
+                            {item.isFree && <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">Free</span>}
+                            {item.schemeName && <p className="text-xs text-green-700">{item.schemeName}</p>}
+                          </td>
                           <td className="px-4 py-2 text-sm text-gray-900">{item.quantity}</td>
                           <td className="px-4 py-2 text-sm text-gray-900">₹{item.price}</td>
-                          <td className="px-4 py-2 text-sm text-gray-900">₹{item.total}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">
+                            {item.taxableValue !== undefined ? `${item.gstRate || 0}%` : '-'}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-900">
+                            ₹{item.total}
+                            {!item.isFree && (item.discountAmount || 0) > 0 && (
+                              <p className="text-xs text-green-700">-₹{item.discountAmount} discount</p>
+                            )}
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -770,12 +1176,46 @@ export const Invoices: React.FC = () => {
                 </div>
               </div>
 
+              {creditNotes.some(c => c.invoiceId === selectedInvoice.id) && (
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-3">Credit Notes</h3>
+                  <div className="space-y-2">
+                    {creditNotes.filter(c => c.invoiceId === selectedInvoice.id).map(creditNote => (
+                      <div key={creditNote.id} className="flex items-center justify-between p-3 bg-teal-50 border border-teal-200 rounded-md">
+                        <div className="text-sm">
+                          <p className="font-medium text-teal-800">
+                            {creditNote.creditNoteNumber} - ₹{creditNote.totalAmount.toLocaleString()}
+                          </p>
+                          <p className="text-teal-700">
+                            {new Date(creditNote.date).toLocaleDateString()}: {creditNote.items.map(i => `${i.productName} x ${i.quantity}`).join(', ')}
+                          </p>
+                          {creditNote.reason && <p className="text-gray-600">Reason: {creditNote.reason}</p>}
+                        </div>
+                        <button
+                          onClick={() => handleDownloadCreditNotePDF(creditNote)}
+                          className="text-gray-600 hover:text-gray-800 p-1 rounded transition-colors"
+                          title="Download PDF"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="border-t pt-4">
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <span className="font-medium text-gray-700">Total Amount:</span>
                     <span className="text-gray-900">₹{selectedInvoice.totalAmount.toLocaleString()}</span>
                   </div>
+                  {selectedInvoiceTax && selectedInvoiceTax.totalTax > 0 && (
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span>Taxable Value: ₹{selectedInvoiceTax.taxableValue.toLocaleString()}</span>
+                      <span>{formatTaxBreakup(selectedInvoiceTax)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="font-medium text-gray-700">Amount Received:</span>
                     <span className="text-gray-900">₹{selectedInvoice.amountReceived.toLocaleString()}</span>
@@ -806,7 +1246,32 @@ export const Invoices: React.FC = () => {
               </div>
             </div>
             
-            <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+              <button
+                onClick={() => handleDownloadPDF(selectedInvoice)}
+                className="flex items-center px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download PDF
+              </button>
+              {selectedInvoice.status !== 'cancelled' && (
+                <button
+                  onClick={() => openReturnModal(selectedInvoice)}
+                  className="flex items-center px-4 py-2 text-teal-700 border border-teal-300 rounded-md hover:bg-teal-50 transition-colors"
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Return Items
+                </button>
+              )}
+              {selectedInvoice.status !== 'cancelled' && (
+                <button
+                  onClick={() => setInvoiceToVoid(selectedInvoice)}
+                  className="flex items-center px-4 py-2 text-red-700 border border-red-300 rounded-md hover:bg-red-50 transition-colors"
+                >
+                  <Ban className="w-4 h-4 mr-2" />
+                  Void Invoice
+                </button>
+              )}
               <button
                 onClick={() => setShowDetailsModal(false)}
                 className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors"
@@ -817,6 +1282,163 @@ export const Invoices: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Void Invoice Modal */}
+      {invoiceToVoid && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+                <Ban className="w-5 h-5 mr-2 text-red-600" />
+                Void Invoice {invoiceToVoid.invoiceNumber}
+              </h2>
+            </div>
+
+            <div className="px-6 py-4 space-y-4">
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800 space-y-1">
+                <p>The invoice stays on record, marked as cancelled.</p>
+                <p>
+                  A reversing adjustment of ₹{Math.abs(invoiceToVoid.balanceChange).toLocaleString()} is posted so that
+                  {' '}{invoiceToVoid.customerName}'s outstanding returns to what it was before this invoice.
+                </p>
+                {invoiceToVoid.amountReceived > 0 && (
+                  <p>
+                    The ₹{invoiceToVoid.amountReceived.toLocaleString()} received with this invoice is reversed too. 
+                    Record it again from Payments if the customer keeps it as credit.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reason for voiding *
+                </label>
+                <textarea
+                  value={voidReason}
+                  onChange={(e) => setVoidReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+                  rows={3}
+                  placeholder="e.g. Created for the wrong customer"
+                />
+              </div>
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+              <button
+                onClick={() => {
+                  setInvoiceToVoid(null);
+                  setVoidReason('');
+                }}
+                disabled={isVoiding}
+                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleVoidInvoice}
+                disabled={isVoiding || !voidReason.trim()}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isVoiding ? 'Voiding...' : 'Void Invoice'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Return Items Modal */}
+      {invoiceToReturn && (() => {
+        const returned = getReturnedQuantities(invoiceToReturn.id, creditNotes);
+        return (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+                  <RotateCcw className="w-5 h-5 mr-2 text-teal-600" />
+                  Return Items - {invoiceToReturn.invoiceNumber}
+                </h2>
+                <p className="text-sm text-gray-600">{invoiceToReturn.customerName}</p>
+              </div>
+
+              <div className="px-6 py-4 space-y-4">
+                <table className="w-full border border-gray-200 rounded-lg">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Product</th>
+                      <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Sold</th>
+                      <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Returned</th>
+                      <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Price</th>
+                      <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Return Qty</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {invoiceToReturn.items.map(item => {
+                      const returnable = item.quantity - (returned[item.id] || 0);
+                      return (
+                        <tr key={item.id}>
+                          <td className="px-4 py-2 text-sm text-gray-900">{item.productName}{item.isFree ? ' (Free)' : ''}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">{item.quantity}</td>
+                          <td className="px-4 py-2 text-sm text-gray-500">{returned[item.id] || 0}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">₹{Math.round(item.total / item.quantity * 100) / 100}</td>
+                          <td className="px-4 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              max={returnable}
+                              value={returnQuantities[item.id] || ''}
+                              onChange={(e) => setReturnQuantities({
+                                ...returnQuantities,
+                                [item.id]: Math.min(returnable, Math.max(0, parseInt(e.target.value) || 0))
+                              })}
+                              disabled={returnable <= 0}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:bg-gray-100"
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Reason for return *
+                  </label>
+                  <textarea
+                    value={returnReason}
+                    onChange={(e) => setReturnReason(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    rows={2}
+                    placeholder="e.g. Damaged cans"
+                  />
+                </div>
+
+                <div className="flex justify-between p-3 bg-teal-50 border border-teal-200 rounded-md text-teal-800">
+                  <span className="font-medium">Credit to {invoiceToReturn.customerName}:</span>
+                  <span className="font-semibold">₹{returnTotal.toLocaleString()}</span>
+                </div>
+              </div>
+
+              <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+                <button
+                  onClick={closeReturnModal}
+                  disabled={isCreatingCreditNote}
+                  className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleCreateCreditNote}
+                  disabled={isCreatingCreditNote || returnTotal <= 0 || !returnReason.trim()}
+                  className="px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isCreatingCreditNote ? 'Creating...' : 'Create Credit Note'}
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
     </div>
   );
 };
\ No newline at end of file
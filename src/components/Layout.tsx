@@ -12,9 +12,12 @@ import {
   History,
   CreditCard,
   LogOut,
-  User
+  User,
+  Scale,
+  Clock
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { StatusIndicator } from './StatusIndicator';
 
 interface LayoutProps {
   children: ReactNode;
@@ -35,6 +38,8 @@ export const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageCha
     { name: 'Payments', id: 'payments', icon: CreditCard },
     { name: 'Invoices', id: 'invoices', icon: FileText },
     { name: 'Products', id: 'products', icon: Package },
+    { name: 'Receivables', id: 'receivables', icon: Clock },
+    { name: 'Reconciliation', id: 'reconciliation', icon: Scale },
     { name: 'Settings', id: 'settings', icon: Settings },
   ];
 
@@ -132,6 +137,7 @@ export const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageCha
           
           {/* User Profile Section */}
           <div className="flex items-center space-x-2">
+            <StatusIndicator />
             <div className="hidden sm:flex items-center">
               <div className="w-6 h-6 bg-blue-600 rounded-full flex items-center justify-center mr-2">
                 <User className="w-3 h-3 text-white" />
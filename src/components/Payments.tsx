@@ -8,7 +8,7 @@ import {
 import { 
   getCustomers, 
   addTransaction, 
-  updateCustomer,
+  syncCustomerBalance,
   getTransactions,
   generateUniqueTransactionId
 } from '../utils/supabase-storage';
@@ -136,9 +136,8 @@ export const Payments: React.FC = () => {
         invoiceNumber: generateUniqueTransactionId('payment', selectedCustomer.id)
       });
 
-      // Update customer's outstanding amount
-      const newOutstanding = selectedCustomer.outstandingAmount - paymentData.totalAmount;
-      await updateCustomer(selectedCustomer.id, { outstandingAmount: newOutstanding });
+      // Recompute customer's outstanding amount from the ledger
+      await syncCustomerBalance(selectedCustomer.id);
 
       // Refresh data
       await loadCustomers();
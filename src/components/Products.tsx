@@ -5,10 +5,84 @@ import {
   Trash2, 
   Package,
   Save,
-  X
+  X,
+  PackagePlus,
+  SlidersHorizontal,
+  History,
+  AlertTriangle,
+  Gift,
+  Tag,
+  TrendingUp,
+  RotateCcw
 } from 'lucide-react';
-import { getProducts, addProduct, updateProduct, deleteProduct, initializeDefaultData } from '../utils/supabase-storage';
-import { Product } from '../types';
+import { 
+  getProducts, 
+  addProduct, 
+  updateProduct, 
+  deleteProduct, 
+  initializeDefaultData,
+  getStockMovements,
+  getStockLevels,
+  getLowStockProducts,
+  recordStockReceipt,
+  recordStockAdjustment,
+  GST_RATES,
+  getSchemes,
+  saveSchemes,
+  getCustomers,
+  getPriceList,
+  getPriceOn,
+  setPrice,
+  previewPriceRevision,
+  applyPriceRevision,
+  getAppliedPriceRevisions,
+  undoPriceRevision,
+  canUndoPriceRevision
+} from '../utils/supabase-storage';
+import { Product, StockMovement, Scheme, Customer, PriceListEntry, PriceRevision } from '../types';
+
+const MOVEMENT_STYLES: Record<StockMovement['type'], string> = {
+  purchase: 'bg-green-100 text-green-800',
+  sale: 'bg-blue-100 text-blue-800',
+  return: 'bg-teal-100 text-teal-800',
+  adjustment: 'bg-yellow-100 text-yellow-800'
+};
+
+const createEmptyScheme = (): Scheme => ({
+  id: '',
+  name: '',
+  type: 'free_quantity',
+  productId: '',
+  buyQuantity: 10,
+  freeQuantity: 1,
+  discount: { type: 'percent', value: 0 },
+  isActive: true
+});
+
+// e.g. "Buy 10 get 1 free", "5% off on 20 or more"
+const describeScheme = (scheme: Scheme): string => {
+  if (scheme.type === 'free_quantity') {
+    return `Buy ${scheme.buyQuantity} get ${scheme.freeQuantity} free`;
+  }
+  const discount = scheme.discount?.type === 'flat' ? `₹${scheme.discount.value} off` : `${scheme.discount?.value || 0}% off`;
+  return scheme.minQuantity ? `${discount} on ${scheme.minQuantity} or more` : discount;
+};
+
+const createEmptyRevisionForm = () => ({
+  productId: '',
+  target: 'customers' as PriceRevision['target'],
+  route: '',
+  change: 'percent' as PriceRevision['change'],
+  value: 0,
+  effectiveFrom: new Date().toISOString().split('T')[0]
+});
+
+const createEmptyPriceForm = () => ({
+  customerId: '',
+  price: 0,
+  effectiveFrom: new Date().toISOString().split('T')[0],
+  notes: ''
+});
 
 export const Products: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
@@ -16,14 +90,39 @@ export const Products: React.FC = () => {
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [newProduct, setNewProduct] = useState({
     name: '',
-    defaultPrice: 0
+    defaultPrice: 0,
+    reorderLevel: 0,
+    hsnCode: '',
+    gstRate: 0
   });
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [stockAction, setStockAction] = useState<{ product: Product; mode: 'receive' | 'adjust' } | null>(null);
+  const [stockForm, setStockForm] = useState({ quantity: 0, reference: '', notes: '' });
+  const [isSavingStock, setIsSavingStock] = useState(false);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [schemes, setSchemes] = useState<Scheme[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [newScheme, setNewScheme] = useState<Scheme | null>(null);
+  const [priceList, setPriceList] = useState<PriceListEntry[]>([]);
+  const [priceHistoryProduct, setPriceHistoryProduct] = useState<Product | null>(null);
+  const [priceForm, setPriceForm] = useState(createEmptyPriceForm());
+  const [priceListFilter, setPriceListFilter] = useState('all');
+  const [isSavingPrice, setIsSavingPrice] = useState(false);
+  const [showRevisionModal, setShowRevisionModal] = useState(false);
+  const [revisionForm, setRevisionForm] = useState(createEmptyRevisionForm());
+  const [isApplyingRevision, setIsApplyingRevision] = useState(false);
 
   useEffect(() => {
     initializeDefaultData();
     loadProducts();
+    loadMovements();
+    loadSchemes();
+    loadPriceList();
   }, []);
 
+  const stockLevels = getStockLevels(movements);
+  const lowStockProducts = getLowStockProducts(products, stockLevels);
+
   const loadProducts = async () => {
     try {
       const allProducts = await getProducts();
@@ -33,6 +132,140 @@ export const Products: React.FC = () => {
     }
   };
 
+  const loadMovements = async () => {
+    try {
+      setMovements(await getStockMovements());
+    } catch (error) {
+      console.error('Error loading stock movements:', error);
+    }
+  };
+
+  const loadSchemes = async () => {
+    try {
+      const [allSchemes, allCustomers] = await Promise.all([getSchemes(), getCustomers()]);
+      setSchemes(allSchemes);
+      setCustomers(allCustomers);
+    } catch (error) {
+      console.error('Error loading schemes:', error);
+    }
+  };
+
+  const loadPriceList = async () => {
+    try {
+      setPriceList(await getPriceList());
+    } catch (error) {
+      console.error('Error loading price list:', error);
+    }
+  };
+
+  const openPriceHistory = (product: Product) => {
+    setPriceHistoryProduct(product);
+    setPriceForm({ ...createEmptyPriceForm(), price: getPriceOn(priceList, product) });
+    setPriceListFilter('all');
+  };
+
+  const handleSavePrice = async () => {
+    if (!priceHistoryProduct) return;
+    if (!priceForm.effectiveFrom) {
+      alert('Please choose the date the price takes effect');
+      return;
+    }
+
+    setIsSavingPrice(true);
+    try {
+      const customer = customers.find(c => c.id === priceForm.customerId);
+      await setPrice(priceHistoryProduct, priceForm.price, new Date(`${priceForm.effectiveFrom}T00:00:00`), customer, priceForm.notes.trim() || undefined);
+      await Promise.all([loadPriceList(), loadProducts(), loadSchemes()]);
+      setPriceForm({ ...createEmptyPriceForm(), customerId: priceForm.customerId, price: priceForm.price });
+    } catch (error) {
+      console.error('Error saving price:', error);
+      alert(error instanceof Error ? error.message : 'Error saving price. Please try again.');
+    } finally {
+      setIsSavingPrice(false);
+    }
+  };
+
+  const getRevision = (): PriceRevision => ({
+    productId: revisionForm.productId,
+    target: revisionForm.target,
+    route: revisionForm.route || undefined,
+    change: revisionForm.change,
+    value: revisionForm.value,
+    effectiveFrom: new Date(`${revisionForm.effectiveFrom}T00:00:00`)
+  });
+
+  const handleApplyRevision = async (priceCount: number) => {
+    if (!revisionForm.productId || !revisionForm.effectiveFrom) {
+      alert('Please choose a product and the date the new prices take effect');
+      return;
+    }
+    if (!confirm(`Change ${priceCount} price${priceCount === 1 ? '' : 's'} from ${new Date(`${revisionForm.effectiveFrom}T00:00:00`).toLocaleDateString()}?`)) {
+      return;
+    }
+
+    setIsApplyingRevision(true);
+    try {
+      await applyPriceRevision(getRevision());
+      await Promise.all([loadPriceList(), loadProducts(), loadSchemes()]);
+      setRevisionForm({ ...createEmptyRevisionForm(), productId: revisionForm.productId });
+    } catch (error) {
+      console.error('Error applying price revision:', error);
+      alert(error instanceof Error ? error.message : 'Error applying price revision. Please try again.');
+    } finally {
+      setIsApplyingRevision(false);
+    }
+  };
+
+  const handleUndoRevision = async (revisionId: string, description: string) => {
+    if (!confirm(`Undo "${description}"? Its prices are removed from the price list before they take effect.`)) {
+      return;
+    }
+
+    try {
+      await undoPriceRevision(revisionId);
+      await Promise.all([loadPriceList(), loadProducts(), loadSchemes()]);
+    } catch (error) {
+      console.error('Error undoing price revision:', error);
+      alert(error instanceof Error ? error.message : 'Error undoing price revision. Please try again.');
+    }
+  };
+
+  const updateSchemes = async (updatedSchemes: Scheme[]): Promise<boolean> => {
+    try {
+      await saveSchemes(updatedSchemes);
+      setSchemes(updatedSchemes);
+      return true;
+    } catch (error) {
+      console.error('Error saving schemes:', error);
+      alert(error instanceof Error ? error.message : 'Error saving schemes. Please try again.');
+      return false;
+    }
+  };
+
+  const handleAddScheme = async () => {
+    if (!newScheme) return;
+    const scheme: Scheme = {
+      ...newScheme,
+      id: `SCH-${Date.now()}`,
+      name: newScheme.name.trim(),
+      customerId: newScheme.customerId || undefined,
+      discount: newScheme.type === 'discount' ? newScheme.discount : undefined,
+      minQuantity: newScheme.type === 'discount' ? newScheme.minQuantity : undefined,
+      buyQuantity: newScheme.type === 'free_quantity' ? newScheme.buyQuantity : undefined,
+      freeQuantity: newScheme.type === 'free_quantity' ? newScheme.freeQuantity : undefined,
+      validFrom: newScheme.validFrom || undefined,
+      validTo: newScheme.validTo || undefined
+    };
+    if (await updateSchemes([...schemes, scheme])) {
+      setNewScheme(null);
+    }
+  };
+
+  const handleDeleteScheme = async (scheme: Scheme) => {
+    if (!confirm(`Delete the scheme "${scheme.name}"?`)) return;
+    await updateSchemes(schemes.filter(s => s.id !== scheme.id));
+  };
+
   const handleAddProduct = async () => {
     if (!newProduct.name.trim()) {
       alert('Please enter a product name');
@@ -43,7 +276,7 @@ export const Products: React.FC = () => {
       await addProduct(newProduct);
       await loadProducts();
       setShowAddModal(false);
-      setNewProduct({ name: '', defaultPrice: 0 });
+      setNewProduct({ name: '', defaultPrice: 0, reorderLevel: 0, hsnCode: '', gstRate: 0 });
     } catch (error) {
       console.error('Error adding product:', error);
       alert('Error adding product. Please try again.');
@@ -63,9 +296,12 @@ export const Products: React.FC = () => {
     try {
       await updateProduct(editingProduct.id, {
         name: editingProduct.name,
-        defaultPrice: editingProduct.defaultPrice
+        defaultPrice: editingProduct.defaultPrice,
+        reorderLevel: editingProduct.reorderLevel || 0,
+        hsnCode: editingProduct.hsnCode || '',
+        gstRate: editingProduct.gstRate || 0
       });
-      await loadProducts();
+      await Promise.all([loadProducts(), loadPriceList()]);
       setEditingProduct(null);
     } catch (error) {
       console.error('Error updating product:', error);
@@ -85,22 +321,74 @@ export const Products: React.FC = () => {
     }
   };
 
+  const openStockAction = (product: Product, mode: 'receive' | 'adjust') => {
+    setStockAction({ product, mode });
+    setStockForm({ quantity: 0, reference: '', notes: '' });
+  };
+
+  const handleSaveStock = async () => {
+    if (!stockAction) return;
+
+    setIsSavingStock(true);
+    try {
+      if (stockAction.mode === 'receive') {
+        await recordStockReceipt(stockAction.product, stockForm.quantity, stockForm.reference, stockForm.notes);
+      } else {
+        await recordStockAdjustment(stockAction.product, stockForm.quantity, stockForm.notes);
+      }
+      await loadMovements();
+      setStockAction(null);
+    } catch (error) {
+      console.error('Error recording stock movement:', error);
+      alert(error instanceof Error ? error.message : 'Error recording stock. Please try again.');
+    } finally {
+      setIsSavingStock(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Products</h1>
-          <p className="text-gray-600">Manage your product catalog and default prices</p>
+          <p className="text-gray-600">Manage your product catalog, default prices and warehouse stock</p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => {
+              setRevisionForm(createEmptyRevisionForm());
+              setShowRevisionModal(true);
+            }}
+            className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+          >
+            <TrendingUp className="w-4 h-4 mr-2" />
+            Revise Prices
+          </button>
+          <button
+            onClick={() => setShowAddModal(true)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Product
+          </button>
         </div>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Add Product
-        </button>
       </div>
 
+      {/* Low Stock Alert */}
+      {lowStockProducts.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start">
+          <AlertTriangle className="w-5 h-5 text-red-600 mr-3 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="text-sm font-medium text-red-800">
+              {lowStockProducts.length} product{lowStockProducts.length === 1 ? ' is' : 's are'} at or below the reorder level
+            </p>
+            <p className="text-sm text-red-700 mt-1">
+              {lowStockProducts.map(p => `${p.name} (${stockLevels[p.id] || 0} left)`).join(', ')}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Product List */}
       <div className="bg-white rounded-lg shadow border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -121,6 +409,15 @@ export const Products: React.FC = () => {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Default Price
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    GST / HSN
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    In Stock
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reorder Level
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Created Date
                   </th>
@@ -130,68 +427,228 @@ export const Products: React.FC = () => {
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {products.map((product) => (
-                  <tr key={product.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      {editingProduct?.id === product.id ? (
-                        <input
-                          type="text"
-                          value={editingProduct.name}
-                          onChange={(e) => setEditingProduct({...editingProduct, name: e.target.value})}
-                          className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        />
-                      ) : (
-                        <span className="text-sm font-medium text-gray-900">{product.name}</span>
-                      )}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      {editingProduct?.id === product.id ? (
-                        <input
-                          type="number"
-                          value={editingProduct.defaultPrice}
-                          onChange={(e) => setEditingProduct({...editingProduct, defaultPrice: parseFloat(e.target.value) || 0})}
-                          className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          step="0.01"
-                        />
-                      ) : (
-                        <span className="text-sm text-gray-900">₹{product.defaultPrice}</span>
-                      )}
+                {products.map((product) => {
+                  const stock = stockLevels[product.id] || 0;
+                  const isLowStock = lowStockProducts.some(p => p.id === product.id);
+
+                  return (
+                    <tr key={product.id} className={isLowStock ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-gray-50'}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {editingProduct?.id === product.id ? (
+                          <input
+                            type="text"
+                            value={editingProduct.name}
+                            onChange={(e) => setEditingProduct({...editingProduct, name: e.target.value})}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        ) : (
+                          <span className="text-sm font-medium text-gray-900">{product.name}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {editingProduct?.id === product.id ? (
+                          <input
+                            type="number"
+                            value={editingProduct.defaultPrice}
+                            onChange={(e) => setEditingProduct({...editingProduct, defaultPrice: parseFloat(e.target.value) || 0})}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            step="0.01"
+                          />
+                        ) : (
+                          <span className="text-sm text-gray-900">₹{getPriceOn(priceList, product)}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {editingProduct?.id === product.id ? (
+                          <div className="flex space-x-2">
+                            <select
+                              value={editingProduct.gstRate || 0}
+                              onChange={(e) => setEditingProduct({...editingProduct, gstRate: parseFloat(e.target.value)})}
+                              className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              {GST_RATES.map(rate => (
+                                <option key={rate} value={rate}>{rate}%</option>
+                              ))}
+                            </select>
+                            <input
+                              type="text"
+                              value={editingProduct.hsnCode || ''}
+                              onChange={(e) => setEditingProduct({...editingProduct, hsnCode: e.target.value})}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              placeholder="HSN"
+                            />
+                          </div>
+                        ) : (
+                          <span className="text-sm text-gray-900">
+                            {product.gstRate || 0}%
+                            {product.hsnCode && <span className="ml-2 text-xs text-gray-500">HSN {product.hsnCode}</span>}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`text-sm font-semibold ${isLowStock ? 'text-red-600' : stock < 0 ? 'text-orange-600' : 'text-gray-900'}`}>
+                          {stock}
+                        </span>
+                        {isLowStock && (
+                          <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                            Low
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {editingProduct?.id === product.id ? (
+                          <input
+                            type="number"
+                            value={editingProduct.reorderLevel || 0}
+                            onChange={(e) => setEditingProduct({...editingProduct, reorderLevel: parseFloat(e.target.value) || 0})}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            min="0"
+                          />
+                        ) : (
+                          <span className="text-sm text-gray-900">{product.reorderLevel || '-'}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(product.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                        {editingProduct?.id === product.id ? (
+                          <>
+                            <button
+                              onClick={handleUpdateProduct}
+                              className="text-green-600 hover:text-green-800 p-1 rounded transition-colors"
+                            >
+                              <Save className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setEditingProduct(null)}
+                              className="text-gray-600 hover:text-gray-800 p-1 rounded transition-colors"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => openStockAction(product, 'receive')}
+                              className="text-green-600 hover:text-green-800 p-1 rounded transition-colors"
+                              title="Receive stock"
+                            >
+                              <PackagePlus className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => openStockAction(product, 'adjust')}
+                              className="text-yellow-600 hover:text-yellow-800 p-1 rounded transition-colors"
+                              title="Adjust stock"
+                            >
+                              <SlidersHorizontal className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setHistoryProduct(product)}
+                              className="text-gray-600 hover:text-gray-800 p-1 rounded transition-colors"
+                              title="Stock history"
+                            >
+                              <History className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => openPriceHistory(product)}
+                              className="text-purple-600 hover:text-purple-800 p-1 rounded transition-colors"
+                              title="Price history"
+                            >
+                              <Tag className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleEditProduct(product)}
+                              className="text-blue-600 hover:text-blue-800 p-1 rounded transition-colors"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDeleteProduct(product.id)}
+                              className="text-red-600 hover:text-red-800 p-1 rounded transition-colors"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="px-6 py-12 text-center">
+            <Package className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No products found</p>
+          </div>
+        )}
+      </div>
+
+      {/* Schemes */}
+      <div className="bg-white rounded-lg shadow border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <Gift className="w-5 h-5 mr-2" />
+              Schemes
+            </h2>
+            <p className="text-sm text-gray-500">Applied automatically on new invoices and when sheets are closed</p>
+          </div>
+          <button
+            onClick={() => setNewScheme(createEmptyScheme())}
+            className="flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Scheme
+          </button>
+        </div>
+        {schemes.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scheme</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Offer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {schemes.map(scheme => (
+                  <tr key={scheme.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{scheme.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {products.find(p => p.id === scheme.productId)?.name || scheme.productId}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {new Date(product.createdAt).toLocaleDateString()}
+                      {scheme.customerId ? customers.find(c => c.id === scheme.customerId)?.name || scheme.customerId : 'All customers'}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
-                      {editingProduct?.id === product.id ? (
-                        <>
-                          <button
-                            onClick={handleUpdateProduct}
-                            className="text-green-600 hover:text-green-800 p-1 rounded transition-colors"
-                          >
-                            <Save className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => setEditingProduct(null)}
-                            className="text-gray-600 hover:text-gray-800 p-1 rounded transition-colors"
-                          >
-                            <X className="w-4 h-4" />
-                          </button>
-                        </>
-                      ) : (
-                        <>
-                          <button
-                            onClick={() => handleEditProduct(product)}
-                            className="text-blue-600 hover:text-blue-800 p-1 rounded transition-colors"
-                          >
-                            <Edit className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDeleteProduct(product.id)}
-                            className="text-red-600 hover:text-red-800 p-1 rounded transition-colors"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        </>
-                      )}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{describeScheme(scheme)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {scheme.validFrom || scheme.validTo ? `${scheme.validFrom || '...'} to ${scheme.validTo || '...'}` : 'Always'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => updateSchemes(schemes.map(s => s.id === scheme.id ? { ...s, isActive: !s.isActive } : s))}
+                        className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${scheme.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}
+                        title={scheme.isActive ? 'Pause scheme' : 'Resume scheme'}
+                      >
+                        {scheme.isActive ? 'Active' : 'Paused'}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <button
+                        onClick={() => handleDeleteScheme(scheme)}
+                        className="text-red-600 hover:text-red-900 p-1 rounded transition-colors"
+                        title="Delete scheme"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
                     </td>
                   </tr>
                 ))}
@@ -199,10 +656,7 @@ export const Products: React.FC = () => {
             </table>
           </div>
         ) : (
-          <div className="px-6 py-12 text-center">
-            <Package className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-            <p className="text-gray-500">No products found</p>
-          </div>
+          <div className="px-6 py-8 text-center text-gray-500">No schemes set up</div>
         )}
       </div>
 
@@ -240,6 +694,51 @@ export const Products: React.FC = () => {
                   placeholder="Enter default price"
                   step="0.01"
                 />
+                <p className="text-xs text-gray-500 mt-1">Prices include GST</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    GST Rate
+                  </label>
+                  <select
+                    value={newProduct.gstRate}
+                    onChange={(e) => setNewProduct({...newProduct, gstRate: parseFloat(e.target.value)})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {GST_RATES.map(rate => (
+                      <option key={rate} value={rate}>{rate}%</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    HSN Code
+                  </label>
+                  <input
+                    type="text"
+                    value={newProduct.hsnCode}
+                    onChange={(e) => setNewProduct({...newProduct, hsnCode: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g. 2201"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reorder Level
+                </label>
+                <input
+                  type="number"
+                  value={newProduct.reorderLevel}
+                  onChange={(e) => setNewProduct({...newProduct, reorderLevel: parseFloat(e.target.value) || 0})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Alert when stock falls to this level"
+                  min="0"
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave at 0 to turn off low-stock alerts for this product</p>
               </div>
             </div>
             
@@ -247,7 +746,7 @@ export const Products: React.FC = () => {
               <button
                 onClick={() => {
                   setShowAddModal(false);
-                  setNewProduct({ name: '', defaultPrice: 0 });
+                  setNewProduct({ name: '', defaultPrice: 0, reorderLevel: 0, hsnCode: '', gstRate: 0 });
                 }}
                 className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
               >
@@ -263,6 +762,661 @@ export const Products: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Add Scheme Modal */}
+      {newScheme && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Add Scheme</h2>
+            </div>
+            
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={newScheme.name}
+                  onChange={(e) => setNewScheme({ ...newScheme, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g. Monsoon offer"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Product</label>
+                  <select
+                    value={newScheme.productId}
+                    onChange={(e) => setNewScheme({ ...newScheme, productId: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select product</option>
+                    {products.map(product => (
+                      <option key={product.id} value={product.id}>{product.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Customer</label>
+                  <select
+                    value={newScheme.customerId || ''}
+                    onChange={(e) => setNewScheme({ ...newScheme, customerId: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">All customers</option>
+                    {customers.map(customer => (
+                      <option key={customer.id} value={customer.id}>{customer.name} ({customer.id})</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                <select
+                  value={newScheme.type}
+                  onChange={(e) => setNewScheme({ ...newScheme, type: e.target.value as Scheme['type'] })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="free_quantity">Buy X get Y free</option>
+                  <option value="discount">Discount</option>
+                </select>
+              </div>
+
+              {newScheme.type === 'free_quantity' ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Buy</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={newScheme.buyQuantity || 0}
+                      onChange={(e) => setNewScheme({ ...newScheme, buyQuantity: parseInt(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Get Free</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={newScheme.freeQuantity || 0}
+                      onChange={(e) => setNewScheme({ ...newScheme, freeQuantity: parseInt(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Discount</label>
+                    <div className="flex">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={newScheme.discount?.value || 0}
+                        onChange={(e) => setNewScheme({ ...newScheme, discount: { type: newScheme.discount?.type || 'percent', value: parseFloat(e.target.value) || 0 } })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-l-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <select
+                        value={newScheme.discount?.type || 'percent'}
+                        onChange={(e) => setNewScheme({ ...newScheme, discount: { type: e.target.value as 'percent' | 'flat', value: newScheme.discount?.value || 0 } })}
+                        className="px-2 py-2 border border-l-0 border-gray-300 rounded-r-md focus:outline-none"
+                      >
+                        <option value="percent">%</option>
+                        <option value="flat">₹ per line</option>
+                      </select>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Min Quantity</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={newScheme.minQuantity || 0}
+                      onChange={(e) => setNewScheme({ ...newScheme, minQuantity: parseInt(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Valid From</label>
+                  <input
+                    type="date"
+                    value={newScheme.validFrom || ''}
+                    onChange={(e) => setNewScheme({ ...newScheme, validFrom: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Valid To</label>
+                  <input
+                    type="date"
+                    value={newScheme.validTo || ''}
+                    onChange={(e) => setNewScheme({ ...newScheme, validTo: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">Customer-specific schemes take priority over schemes for all customers. A discount entered on an invoice line replaces a discount scheme.</p>
+            </div>
+            
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+              <button
+                onClick={() => setNewScheme(null)}
+                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAddScheme}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+              >
+                Add Scheme
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Receive / Adjust Stock Modal */}
+      {stockAction && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {stockAction.mode === 'receive' ? 'Receive Stock' : 'Adjust Stock'}: {stockAction.product.name}
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Current stock: {stockLevels[stockAction.product.id] || 0}
+              </p>
+            </div>
+
+            <div className="px-6 py-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {stockAction.mode === 'receive' ? 'Quantity Received *' : 'Quantity Change *'}
+                </label>
+                <input
+                  type="number"
+                  value={stockForm.quantity}
+                  onChange={(e) => setStockForm({...stockForm, quantity: parseFloat(e.target.value) || 0})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  min={stockAction.mode === 'receive' ? '0' : undefined}
+                />
+                {stockAction.mode === 'adjust' && (
+                  <p className="text-xs text-gray-500 mt-1">Use a negative number to remove stock, e.g. -2 for breakage</p>
+                )}
+              </div>
+
+              {stockAction.mode === 'receive' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Supplier Bill / Reference
+                  </label>
+                  <input
+                    type="text"
+                    value={stockForm.reference}
+                    onChange={(e) => setStockForm({...stockForm, reference: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Optional"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {stockAction.mode === 'receive' ? 'Notes' : 'Reason *'}
+                </label>
+                <textarea
+                  value={stockForm.notes}
+                  onChange={(e) => setStockForm({...stockForm, notes: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  rows={2}
+                  placeholder={stockAction.mode === 'receive' ? 'Optional' : 'e.g. Physical count, damaged in transit'}
+                />
+              </div>
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+              <button
+                onClick={() => setStockAction(null)}
+                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveStock}
+                disabled={isSavingStock}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {isSavingStock ? 'Saving...' : stockAction.mode === 'receive' ? 'Receive' : 'Adjust'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Stock History Modal */}
+      {historyProduct && (() => {
+        const productMovements = movements
+          .filter(m => m.productId === historyProduct.id)
+          .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+        let runningStock = 0;
+        const rows = productMovements.map(movement => {
+          runningStock += movement.quantity;
+          return { movement, balance: runningStock };
+        }).reverse();
+
+        return (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+              <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">Stock History: {historyProduct.name}</h2>
+                  <p className="text-sm text-gray-600">Current stock: {stockLevels[historyProduct.id] || 0}</p>
+                </div>
+                <button
+                  onClick={() => setHistoryProduct(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto">
+                {rows.length > 0 ? (
+                  <table className="w-full">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quantity</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {rows.map(({ movement, balance }) => (
+                        <tr key={movement.id}>
+                          <td className="px-4 py-2 text-sm text-gray-900">{new Date(movement.date).toLocaleString()}</td>
+                          <td className="px-4 py-2">
+                            <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full capitalize ${MOVEMENT_STYLES[movement.type]}`}>
+                              {movement.type}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-600">
+                            {movement.reference || '-'}
+                            {movement.notes && <div className="text-xs text-gray-500">{movement.notes}</div>}
+                          </td>
+                          <td className={`px-4 py-2 text-sm text-right font-medium ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-right text-gray-900">{balance}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div className="px-6 py-12 text-center text-gray-500">No stock movements recorded yet</div>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
+      {/* Price Revision Modal */}
+      {showRevisionModal && (() => {
+        const revisionProduct = products.find(p => p.id === revisionForm.productId);
+        const lines = revisionProduct && revisionForm.effectiveFrom
+          ? previewPriceRevision(getRevision(), revisionProduct, customers, priceList)
+          : [];
+        const routes = [...new Set(customers.map(c => c.route).filter(r => r))].sort();
+        const appliedRevisions = getAppliedPriceRevisions(priceList);
+
+        return (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+              <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">Revise Prices</h2>
+                  <p className="text-sm text-gray-600">Change a product's default price or customers' own prices from a date</p>
+                </div>
+                <button
+                  onClick={() => setShowRevisionModal(false)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto">
+                <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Product</label>
+                      <select
+                        value={revisionForm.productId}
+                        onChange={(e) => setRevisionForm({ ...revisionForm, productId: e.target.value })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Select product</option>
+                        {products.map(product => (
+                          <option key={product.id} value={product.id}>{product.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Apply To</label>
+                      <select
+                        value={revisionForm.target}
+                        onChange={(e) => setRevisionForm({ ...revisionForm, target: e.target.value as PriceRevision['target'] })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="customers">Customers' own prices</option>
+                        <option value="default">Default price</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Route</label>
+                      <select
+                        value={revisionForm.route}
+                        onChange={(e) => setRevisionForm({ ...revisionForm, route: e.target.value })}
+                        disabled={revisionForm.target === 'default'}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                      >
+                        <option value="">All routes</option>
+                        {routes.map(route => (
+                          <option key={route} value={route}>Route {route}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Change</label>
+                      <div className="flex space-x-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={revisionForm.value}
+                          onChange={(e) => setRevisionForm({ ...revisionForm, value: parseFloat(e.target.value) || 0 })}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <select
+                          value={revisionForm.change}
+                          onChange={(e) => setRevisionForm({ ...revisionForm, change: e.target.value as PriceRevision['change'] })}
+                          className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="percent">%</option>
+                          <option value="amount">₹</option>
+                        </select>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">Use a negative value to lower prices</p>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Effective From</label>
+                      <input
+                        type="date"
+                        value={revisionForm.effectiveFrom}
+                        onChange={(e) => setRevisionForm({ ...revisionForm, effectiveFrom: e.target.value })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div className="flex items-end">
+                      <button
+                        onClick={() => handleApplyRevision(lines.length)}
+                        disabled={isApplyingRevision || lines.length === 0}
+                        className="w-full px-4 py-1.5 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50"
+                      >
+                        {isApplyingRevision ? 'Applying...' : `Apply to ${lines.length} price${lines.length === 1 ? '' : 's'}`}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="px-6 py-3 border-b border-gray-200">
+                  <h3 className="text-sm font-medium text-gray-900">Preview</h3>
+                </div>
+                {lines.length > 0 ? (
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Price List</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Route</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Current</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">New</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Change</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {lines.map(line => (
+                        <tr key={line.customer?.id || 'default'}>
+                          <td className="px-4 py-2 text-sm text-gray-900">
+                            {line.customer ? `${line.customer.name} (${line.customer.id})` : 'Default'}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-600">{line.customer?.route || '-'}</td>
+                          <td className="px-4 py-2 text-sm text-right text-gray-900">₹{line.currentPrice}</td>
+                          <td className="px-4 py-2 text-sm text-right font-medium text-gray-900">₹{line.newPrice}</td>
+                          <td className={`px-4 py-2 text-sm text-right ${line.newPrice > line.currentPrice ? 'text-red-600' : 'text-green-600'}`}>
+                            {line.newPrice > line.currentPrice ? '+' : ''}{(line.newPrice - line.currentPrice).toFixed(2)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div className="px-6 py-8 text-center text-sm text-gray-500">
+                    {revisionProduct ? 'No prices would change' : 'Select a product to preview the new prices'}
+                  </div>
+                )}
+
+                <div className="px-6 py-3 border-t border-b border-gray-200">
+                  <h3 className="text-sm font-medium text-gray-900">Applied Revisions</h3>
+                </div>
+                {appliedRevisions.length > 0 ? (
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Applied</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Revision</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Effective From</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Prices</th>
+                        <th className="px-4 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {appliedRevisions.map(revision => (
+                        <tr key={revision.revisionId}>
+                          <td className="px-4 py-2 text-sm text-gray-600">{revision.appliedAt.toLocaleString()}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">
+                            {products.find(p => p.id === revision.productId)?.name || revision.productId}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-900">{revision.description}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">{revision.effectiveFrom.toLocaleDateString()}</td>
+                          <td className="px-4 py-2 text-sm text-right text-gray-900">{revision.priceCount}</td>
+                          <td className="px-4 py-2 text-right">
+                            {canUndoPriceRevision(revision) ? (
+                              <button
+                                onClick={() => handleUndoRevision(revision.revisionId, revision.description)}
+                                className="inline-flex items-center text-sm text-red-600 hover:text-red-800"
+                              >
+                                <RotateCcw className="w-4 h-4 mr-1" />
+                                Undo
+                              </button>
+                            ) : (
+                              <span className="text-xs text-gray-500">In effect</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div className="px-6 py-8 text-center text-sm text-gray-500">No bulk revisions applied yet</div>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
+      {/* Price History Modal */}
+      {priceHistoryProduct && (() => {
+        const now = Date.now();
+        const productPrices = priceList.filter(e => e.productId === priceHistoryProduct.id);
+        // The entry in effect today for each price list
+        const currentIds = new Set(
+          [...new Set(productPrices.map(e => e.customerId || ''))].map(scope => productPrices
+            .filter(e => (e.customerId || '') === scope && new Date(e.effectiveFrom).getTime() <= now)
+            .sort((a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime() || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+            .pop()?.id)
+        );
+        const rows = productPrices
+          .filter(e => priceListFilter === 'all' || (e.customerId || '') === priceListFilter)
+          .sort((a, b) => new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime() || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        const customersWithPrices = customers.filter(c => productPrices.some(e => e.customerId === c.id));
+
+        return (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+              <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">Price History: {priceHistoryProduct.name}</h2>
+                  <p className="text-sm text-gray-600">Default price today: ₹{getPriceOn(priceList, priceHistoryProduct)}</p>
+                </div>
+                <button
+                  onClick={() => setPriceHistoryProduct(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                <h3 className="text-sm font-medium text-gray-900 mb-3">New Price</h3>
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Price List</label>
+                    <select
+                      value={priceForm.customerId}
+                      onChange={(e) => setPriceForm({ ...priceForm, customerId: e.target.value })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Default</option>
+                      {customers.map(customer => (
+                        <option key={customer.id} value={customer.id}>{customer.name} ({customer.id})</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Price (₹)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={priceForm.price}
+                      onChange={(e) => setPriceForm({ ...priceForm, price: parseFloat(e.target.value) || 0 })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Effective From</label>
+                    <input
+                      type="date"
+                      value={priceForm.effectiveFrom}
+                      onChange={(e) => setPriceForm({ ...priceForm, effectiveFrom: e.target.value })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+                    <input
+                      type="text"
+                      value={priceForm.notes}
+                      onChange={(e) => setPriceForm({ ...priceForm, notes: e.target.value })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Optional"
+                    />
+                  </div>
+                  <button
+                    onClick={handleSavePrice}
+                    disabled={isSavingPrice}
+                    className="px-4 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {isSavingPrice ? 'Saving...' : 'Save Price'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="px-6 py-3 border-b border-gray-200 flex items-center justify-between">
+                <h3 className="text-sm font-medium text-gray-900">Price Changes</h3>
+                <select
+                  value={priceListFilter}
+                  onChange={(e) => setPriceListFilter(e.target.value)}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="all">All price lists</option>
+                  <option value="">Default</option>
+                  {customersWithPrices.map(customer => (
+                    <option key={customer.id} value={customer.id}>{customer.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="overflow-y-auto">
+                {rows.length > 0 ? (
+                  <table className="w-full">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Effective From</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Price List</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Price</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Notes</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {rows.map(entry => {
+                        const isScheduled = new Date(entry.effectiveFrom).getTime() > now;
+                        const isCurrent = currentIds.has(entry.id);
+
+                        return (
+                          <tr key={entry.id} className={isCurrent ? 'bg-green-50' : ''}>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {new Date(entry.effectiveFrom).toLocaleDateString()}
+                              <div className="text-xs text-gray-500">Recorded {new Date(entry.createdAt).toLocaleString()}</div>
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {entry.customerId ? customers.find(c => c.id === entry.customerId)?.name || entry.customerId : 'Default'}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-right font-medium text-gray-900">₹{entry.price}</td>
+                            <td className="px-4 py-2 text-sm text-gray-600">{entry.notes || '-'}</td>
+                            <td className="px-4 py-2">
+                              <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                                isScheduled ? 'bg-blue-100 text-blue-800' : isCurrent ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                              }`}>
+                                {isScheduled ? 'Scheduled' : isCurrent ? 'Current' : 'Superseded'}
+                              </span>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div className="px-6 py-12 text-center text-gray-500">No price changes recorded yet</div>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })()}
     </div>
   );
 };
\ No newline at end of file
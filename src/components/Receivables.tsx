@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Clock,
+  RefreshCw,
+  Download,
+  FileText,
+  ChevronUp,
+  ChevronDown,
+  CheckCircle
+} from 'lucide-react';
+import {
+  getCustomers,
+  getTransactions,
+  getRouteInfos,
+  getReceivablesAging,
+  AGING_BUCKETS,
+  AgingBucket
+} from '../utils/supabase-storage';
+import { generateAgingReportPDF } from '../utils/invoice-pdf';
+import { ReceivableAging, RouteInfo } from '../types';
+
+type SortKey = 'name' | 'route' | AgingBucket | 'total';
+
+const BUCKET_COLORS: Record<AgingBucket, string> = {
+  current: 'text-gray-900',
+  days31to60: 'text-yellow-700',
+  days61to90: 'text-orange-700',
+  over90: 'text-red-700'
+};
+
+// Quote a CSV field when it holds a comma, quote or newline
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const Receivables: React.FC = () => {
+  const [aging, setAging] = useState<ReceivableAging[]>([]);
+  const [routeInfos, setRouteInfos] = useState<RouteInfo[]>([]);
+  const [routeFilter, setRouteFilter] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('total');
+  const [sortAscending, setSortAscending] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadAging();
+  }, []);
+
+  const loadAging = async () => {
+    try {
+      setLoading(true);
+      const [customers, transactions, routes] = await Promise.all([getCustomers(), getTransactions(), getRouteInfos()]);
+      setAging(getReceivablesAging(customers, transactions));
+      setRouteInfos(routes);
+    } catch (error) {
+      console.error('Error loading receivables aging:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      // Names and routes read best A-Z, amounts largest first
+      setSortAscending(key === 'name' || key === 'route');
+    }
+  };
+
+  const rows = aging
+    .filter(row => !routeFilter || row.customer.route === routeFilter)
+    .sort((a, b) => {
+      const order = sortKey === 'name'
+        ? a.customer.name.localeCompare(b.customer.name)
+        : sortKey === 'route'
+        ? a.customer.route.localeCompare(b.customer.route) || a.customer.name.localeCompare(b.customer.name)
+        : a[sortKey] - b[sortKey];
+      return sortAscending ? order : -order;
+    });
+
+  const bucketTotals = AGING_BUCKETS.map(bucket => rows.reduce((sum, row) => sum + row[bucket.key], 0));
+  const grandTotal = rows.reduce((sum, row) => sum + row.total, 0);
+  const routeLabel = routeFilter
+    ? `${routeFilter} - ${routeInfos.find(r => r.id === routeFilter)?.name || ''}`
+    : 'All routes';
+
+  const handleExportCSV = () => {
+    const lines = [
+      ['Customer ID', 'Customer', 'Phone', 'Route', ...AGING_BUCKETS.map(bucket => bucket.label), 'Total', 'Oldest Due'],
+      ...rows.map(row => [
+        row.customer.id,
+        row.customer.name,
+        row.customer.phone,
+        row.customer.route,
+        ...AGING_BUCKETS.map(bucket => row[bucket.key].toFixed(2)),
+        row.total.toFixed(2),
+        row.oldestDueDate ? row.oldestDueDate.toISOString().split('T')[0] : ''
+      ])
+    ];
+    const csv = lines.map(line => line.map(csvField).join(',')).join('\n');
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    link.download = `receivables-aging-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleExportPDF = async () => {
+    try {
+      await generateAgingReportPDF(rows, routeLabel);
+    } catch (error) {
+      console.error('Error generating aging report PDF:', error);
+      alert('Error generating PDF. Please try again.');
+    }
+  };
+
+  const sortHeader = (key: SortKey, label: string, alignRight = false) => (
+    <th className={`px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider ${alignRight ? 'text-right' : 'text-left'}`}>
+      <button
+        onClick={() => handleSort(key)}
+        className={`inline-flex items-center uppercase hover:text-gray-700 ${sortKey === key ? 'text-gray-900' : ''}`}
+      >
+        {label}
+        {sortKey === key && (sortAscending ? <ChevronUp className="w-3 h-3 ml-1" /> : <ChevronDown className="w-3 h-3 ml-1" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Receivables Aging</h1>
+          <p className="text-gray-600">Customer dues by age, with payments set against the oldest sales first</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={loadAging}
+            disabled={loading}
+            className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+          <button
+            onClick={handleExportCSV}
+            disabled={rows.length === 0}
+            className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </button>
+          <button
+            onClick={handleExportPDF}
+            disabled={rows.length === 0}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+        {AGING_BUCKETS.map((bucket, index) => (
+          <div key={bucket.key} className="bg-white rounded-lg p-4 border border-gray-200 shadow-sm">
+            <p className="text-sm font-medium text-gray-600">{bucket.label}</p>
+            <p className={`text-xl font-bold mt-1 ${BUCKET_COLORS[bucket.key]}`}>₹{bucketTotals[index].toLocaleString()}</p>
+          </div>
+        ))}
+        <div className="bg-red-50 rounded-lg p-4 border border-gray-200 shadow-sm">
+          <p className="text-sm font-medium text-gray-600">Total Due</p>
+          <p className="text-xl font-bold mt-1 text-red-700">₹{grandTotal.toLocaleString()}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-3">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Clock className="w-5 h-5 mr-2" />
+            Customers with Dues ({rows.length})
+          </h2>
+          <select
+            value={routeFilter}
+            onChange={(e) => setRouteFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All routes</option>
+            {routeInfos.map(route => (
+              <option key={route.id} value={route.id}>{route.id} - {route.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="px-6 py-12 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Working out customer dues...</p>
+          </div>
+        ) : rows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  {sortHeader('name', 'Customer')}
+                  {sortHeader('route', 'Route')}
+                  {AGING_BUCKETS.map(bucket => (
+                    <React.Fragment key={bucket.key}>{sortHeader(bucket.key, bucket.label, true)}</React.Fragment>
+                  ))}
+                  {sortHeader('total', 'Total', true)}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map(row => (
+                  <tr key={row.customer.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{row.customer.name}</div>
+                      <div className="text-sm text-gray-500">
+                        ID: {row.customer.id}
+                        {row.oldestDueDate && ` · due since ${row.oldestDueDate.toLocaleDateString()}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.customer.route || '-'}</td>
+                    {AGING_BUCKETS.map(bucket => (
+                      <td key={bucket.key} className={`px-6 py-4 whitespace-nowrap text-sm text-right ${BUCKET_COLORS[bucket.key]}`}>
+                        {row[bucket.key] ? `₹${row[bucket.key].toLocaleString()}` : '-'}
+                      </td>
+                    ))}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold text-gray-900">
+                      ₹{row.total.toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="px-6 py-12 text-center">
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No dues outstanding</h3>
+            <p className="text-gray-600">No customer {routeFilter ? 'on this route ' : ''}owes money.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
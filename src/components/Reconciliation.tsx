@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Scale,
+  RefreshCw,
+  CheckCircle,
+  AlertTriangle
+} from 'lucide-react';
+import {
+  getBalanceMismatches,
+  addTransaction,
+  updateCustomer
+} from '../utils/supabase-storage';
+import { BalanceMismatch } from '../types';
+
+export const Reconciliation: React.FC = () => {
+  const [mismatches, setMismatches] = useState<BalanceMismatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMismatches();
+  }, []);
+
+  const loadMismatches = async () => {
+    try {
+      setLoading(true);
+      const results = await getBalanceMismatches();
+      setMismatches(results);
+    } catch (error) {
+      console.error('Error loading balance mismatches:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Record the missing amount in the ledger so it agrees with the stored balance
+  const handlePostAdjustment = async (mismatch: BalanceMismatch) => {
+    const { customer, difference } = mismatch;
+    const label = difference > 0 ? 'debit' : 'credit';
+
+    if (!confirm(`Post a ${label} adjustment of ₹${Math.abs(difference).toLocaleString()} for ${customer.name}? The ledger will then match the stored balance.`)) {
+      return;
+    }
+
+    setProcessingId(customer.id);
+    try {
+      await addTransaction({
+        customerId: customer.id,
+        customerName: customer.name,
+        type: 'adjustment',
+        items: [],
+        totalAmount: 0,
+        amountReceived: 0,
+        balanceChange: difference,
+        date: new Date(),
+        invoiceNumber: `ADJ-RECON-${customer.id}-${Date.now()}`
+      });
+      await loadMismatches();
+    } catch (error) {
+      console.error('Error posting corrective adjustment:', error);
+      alert('Error posting adjustment. Please try again.');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  // Trust the ledger and overwrite the stored balance
+  const handleUseLedgerBalance = async (mismatch: BalanceMismatch) => {
+    const { customer, ledgerBalance } = mismatch;
+
+    if (!confirm(`Set ${customer.name}'s outstanding to the ledger balance of ₹${ledgerBalance.toLocaleString()}?`)) {
+      return;
+    }
+
+    setProcessingId(customer.id);
+    try {
+      await updateCustomer(customer.id, { outstandingAmount: ledgerBalance });
+      await loadMismatches();
+    } catch (error) {
+      console.error('Error updating customer balance:', error);
+      alert('Error updating balance. Please try again.');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const formatBalance = (amount: number) => {
+    return `${amount < 0 ? '-' : ''}₹${Math.abs(amount).toLocaleString()}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Balance Reconciliation</h1>
+          <p className="text-gray-600">Compare stored outstanding amounts with each customer's transaction ledger</p>
+        </div>
+        <button
+          onClick={loadMismatches}
+          disabled={loading}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Recheck
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Scale className="w-5 h-5 mr-2" />
+            Mismatched Balances ({mismatches.length})
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Ledger balance = opening balance + all sales, payments and adjustments
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="px-6 py-12 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Checking customer ledgers...</p>
+          </div>
+        ) : mismatches.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Customer
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Route
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Stored Balance
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Ledger Balance
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Difference
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {mismatches.map((mismatch) => (
+                  <tr key={mismatch.customer.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{mismatch.customer.name}</div>
+                      <div className="text-sm text-gray-500">ID: {mismatch.customer.id}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {mismatch.customer.route || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {formatBalance(mismatch.storedBalance)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {formatBalance(mismatch.ledgerBalance)}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                      mismatch.difference > 0 ? 'text-red-600' : 'text-green-600'
+                    }`}>
+                      {mismatch.difference > 0 && '+'}{formatBalance(mismatch.difference)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => handlePostAdjustment(mismatch)}
+                          disabled={processingId === mismatch.customer.id}
+                          className="px-3 py-1 bg-orange-100 text-orange-700 rounded hover:bg-orange-200 disabled:opacity-50 transition-colors"
+                          title="Add an adjustment transaction so the ledger matches the stored balance"
+                        >
+                          Post Adjustment
+                        </button>
+                        <button
+                          onClick={() => handleUseLedgerBalance(mismatch)}
+                          disabled={processingId === mismatch.customer.id}
+                          className="px-3 py-1 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 disabled:opacity-50 transition-colors"
+                          title="Overwrite the stored balance with the ledger balance"
+                        >
+                          Use Ledger
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="px-6 py-12 text-center">
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">All balances reconciled</h3>
+            <p className="text-gray-600">Every customer's outstanding amount matches their ledger.</p>
+          </div>
+        )}
+      </div>
+
+      {!loading && mismatches.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start">
+          <AlertTriangle className="w-5 h-5 text-yellow-600 mr-2 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-yellow-800">
+            Use <strong>Post Adjustment</strong> when the stored balance is correct and a transaction is missing.
+            Use <strong>Use Ledger</strong> when the transactions are correct and the stored balance drifted.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
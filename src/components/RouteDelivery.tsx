@@ -11,11 +11,13 @@ import {
   getCustomersByRoute, 
   getProducts, 
   addTransaction, 
-  updateCustomer,
-  getCustomerById,
-  addInvoice
+  syncCustomerBalance,
+  addInvoice,
+  getRouteProducts,
+  getPriceList,
+  getPriceOn
 } from '../utils/supabase-storage';
-import { Product, RouteInfo, InvoiceItem } from '../types';
+import { Product, RouteInfo, InvoiceItem, PriceListEntry } from '../types';
 
 interface DeliveryItem {
   productId: string;
@@ -39,6 +41,7 @@ export const RouteDelivery: React.FC = () => {
   const [routes, setRoutes] = useState<RouteInfo[]>([]);
   const [selectedRoute, setSelectedRoute] = useState<string>('');
   const [products, setProducts] = useState<Product[]>([]);
+  const [priceList, setPriceList] = useState<PriceListEntry[]>([]);
   const [deliveries, setDeliveries] = useState<CustomerDelivery[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -47,20 +50,18 @@ export const RouteDelivery: React.FC = () => {
     return routes.find(route => route.id === selectedRoute);
   };
 
-  // Get only first 3 products for consistency with route sheets
-  const getFixedProducts = () => {
-    return products.slice(0, 3);
-  };
 
   useEffect(() => {
     const loadInitialData = async () => {
       try {
-        const [availableRoutes, allProducts] = await Promise.all([
+        const [availableRoutes, allProducts, allPrices] = await Promise.all([
           getRouteInfos(),
-          getProducts()
+          getProducts(),
+          getPriceList()
         ]);
         setRoutes(availableRoutes);
         setProducts(allProducts);
+        setPriceList(allPrices);
       } catch (error) {
         console.error('Error loading initial data:', error);
       }
@@ -77,16 +78,17 @@ export const RouteDelivery: React.FC = () => {
     setLoading(true);
     try {
       const routeCustomers = await getCustomersByRoute(routeId);
+      const today = new Date();
       
-      // Initialize deliveries for all customers in the route
+      // Initialize deliveries for all customers in the route at today's prices
       const initialDeliveries: CustomerDelivery[] = routeCustomers.map(customer => ({
         customerId: customer.id,
         customerName: customer.name,
-        items: getFixedProducts().map(product => ({
+        items: getRouteProducts(routes.find(route => route.id === routeId), products).map(product => ({
           productId: product.id,
           productName: product.name,
           quantity: 0,
-          rate: customer.productPrices[product.id] || product.defaultPrice || 0,
+          rate: getPriceOn(priceList, product, customer, today),
           amount: 0
         })),
         totalAmount: 0,
@@ -161,6 +163,7 @@ export const RouteDelivery: React.FC = () => {
           const invoiceItems: InvoiceItem[] = delivery.items
             .filter(item => item.quantity > 0)
             .map(item => ({
+              productId: item.productId,
               productName: item.productName,
               quantity: item.quantity,
               price: item.rate,
@@ -179,35 +182,26 @@ export const RouteDelivery: React.FC = () => {
             date: deliveryDate
           };
 
+          // The invoice posts its sale, net of the amount received, to the ledger
           await addInvoice(invoiceData);
-        }
-
-        // Add transaction for amount received or balance change
-        if (delivery.amountReceived !== 0 || delivery.balanceChange !== 0) {
+        } else if (delivery.amountReceived !== 0) {
+          // A payment taken without a delivery
           await addTransaction({
             customerId: delivery.customerId,
             customerName: delivery.customerName,
-            type: delivery.balanceChange > 0 ? 'sale' : 'payment',
-            items: delivery.items.filter(i => i.quantity > 0).map(i => ({
-              productName: i.productName,
-              quantity: i.quantity,
-              price: i.rate,
-              total: i.amount
-            })),
-            totalAmount: Math.abs(delivery.balanceChange),
+            type: 'payment',
+            items: [],
+            totalAmount: 0,
             amountReceived: delivery.amountReceived,
             balanceChange: delivery.balanceChange,
             date: deliveryDate,
             invoiceNumber: `ROUTE-${deliveryDate.getTime()}`
           });
+        }
 
-          // Update customer outstanding balance
-          const customer = await getCustomerById(delivery.customerId);
-          if (customer) {
-            await updateCustomer(delivery.customerId, {
-              outstandingAmount: customer.outstandingAmount + delivery.balanceChange
-            });
-          }
+        if (delivery.amountReceived !== 0 || delivery.balanceChange !== 0) {
+          // Recompute customer outstanding balance from the ledger
+          await syncCustomerBalance(delivery.customerId);
         }
       }
 
@@ -8,15 +8,25 @@ import {
   Save, 
   X,
   CheckCircle,
-  XCircle
+  XCircle,
+  Package,
+  ChevronUp,
+  ChevronDown,
+  ListOrdered,
+  Map as MapIcon
 } from 'lucide-react';
-import { RouteInfo } from '../types';
-import { getRouteInfos, saveRouteInfo, updateRouteInfo, deleteRouteInfo } from '../utils/supabase-storage';
+import { RouteInfo, Product } from '../types';
+import { getRouteInfos, saveRouteInfo, updateRouteInfo, deleteRouteInfo, getProducts, getRouteProducts } from '../utils/supabase-storage';
+import { RouteStopOrder } from './RouteStopOrder';
+import { RouteMap } from './RouteMap';
 
 export const RouteManagement: React.FC = () => {
   const [routes, setRoutes] = useState<RouteInfo[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingRoute, setEditingRoute] = useState<RouteInfo | null>(null);
+  const [stopOrderRoute, setStopOrderRoute] = useState<RouteInfo | null>(null);
+  const [mapRoute, setMapRoute] = useState<RouteInfo | null>(null);
   const [loading, setLoading] = useState(true);
 
   const [formData, setFormData] = useState({
@@ -25,7 +35,8 @@ export const RouteManagement: React.FC = () => {
     description: '',
     areas: '',
     pincodes: '',
-    isActive: true
+    isActive: true,
+    productIds: [] as string[]
   });
 
   useEffect(() => {
@@ -35,8 +46,9 @@ export const RouteManagement: React.FC = () => {
   const loadRoutes = async () => {
     try {
       setLoading(true);
-      const routeInfos = await getRouteInfos();
+      const [routeInfos, allProducts] = await Promise.all([getRouteInfos(), getProducts()]);
       setRoutes(routeInfos);
+      setProducts(allProducts);
     } catch (error) {
       console.error('Error loading routes:', error);
     } finally {
@@ -51,7 +63,8 @@ export const RouteManagement: React.FC = () => {
       description: '',
       areas: '',
       pincodes: '',
-      isActive: true
+      isActive: true,
+      productIds: []
     });
     setShowAddForm(false);
     setEditingRoute(null);
@@ -91,6 +104,7 @@ export const RouteManagement: React.FC = () => {
         areas: formData.areas.split(',').map(area => area.trim()).filter(area => area),
         pincodes: formData.pincodes.split(',').map(code => code.trim()).filter(code => code),
         isActive: formData.isActive,
+        productIds: formData.productIds,
         createdAt: editingRoute ? editingRoute.createdAt : new Date(),
         updatedAt: new Date()
       };
@@ -101,7 +115,8 @@ export const RouteManagement: React.FC = () => {
           description: routeData.description,
           areas: routeData.areas,
           pincodes: routeData.pincodes,
-          isActive: routeData.isActive
+          isActive: routeData.isActive,
+          productIds: routeData.productIds
         });
       } else {
         await saveRouteInfo({
@@ -109,7 +124,8 @@ export const RouteManagement: React.FC = () => {
           description: routeData.description,
           areas: routeData.areas,
           pincodes: routeData.pincodes,
-          isActive: routeData.isActive
+          isActive: routeData.isActive,
+          productIds: routeData.productIds
         }, routeData.id); // Pass the selected route code as custom ID
       }
 
@@ -130,7 +146,8 @@ export const RouteManagement: React.FC = () => {
       description: route.description,
       areas: route.areas.join(', '),
       pincodes: route.pincodes.join(', '),
-      isActive: route.isActive
+      isActive: route.isActive,
+      productIds: route.productIds || []
     });
     setShowAddForm(true);
   };
@@ -158,7 +175,8 @@ export const RouteManagement: React.FC = () => {
         description: route.description,
         areas: route.areas,
         pincodes: route.pincodes,
-        isActive: !route.isActive
+        isActive: !route.isActive,
+        productIds: route.productIds
       });
       
       await loadRoutes();
@@ -168,6 +186,14 @@ export const RouteManagement: React.FC = () => {
     }
   };
 
+  const moveProduct = (index: number, direction: -1 | 1) => {
+    const productIds = [...formData.productIds];
+    const target = index + direction;
+    if (target < 0 || target >= productIds.length) return;
+    [productIds[index], productIds[target]] = [productIds[target], productIds[index]];
+    setFormData({ ...formData, productIds });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -294,6 +320,69 @@ export const RouteManagement: React.FC = () => {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <Package className="w-4 h-4 inline mr-1" />
+                Sheet Products (in column order)
+              </label>
+              {formData.productIds.length > 0 ? (
+                <div className="border border-gray-200 rounded-md divide-y divide-gray-200 mb-2">
+                  {formData.productIds.map((productId, index) => {
+                    const product = products.find(p => p.id === productId);
+                    return (
+                      <div key={productId} className="flex items-center justify-between px-3 py-2">
+                        <span className="text-sm text-gray-900">
+                          <span className="text-gray-400 mr-2">{index + 1}.</span>
+                          {product?.name || 'Deleted product'}
+                        </span>
+                        <div className="flex items-center space-x-1">
+                          <button
+                            type="button"
+                            onClick={() => moveProduct(index, -1)}
+                            disabled={index === 0}
+                            className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                            title="Move up"
+                          >
+                            <ChevronUp className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveProduct(index, 1)}
+                            disabled={index === formData.productIds.length - 1}
+                            className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                            title="Move down"
+                          >
+                            <ChevronDown className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setFormData({ ...formData, productIds: formData.productIds.filter(id => id !== productId) })}
+                            className="p-1 text-red-500 hover:text-red-700"
+                            title="Remove"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 mb-2">No products selected - sheets for this route show every product.</p>
+              )}
+              <select
+                value=""
+                onChange={(e) => e.target.value && setFormData({ ...formData, productIds: [...formData.productIds, e.target.value] })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Add a product...</option>
+                {products.filter(p => !formData.productIds.includes(p.id)).map(product => (
+                  <option key={product.id} value={product.id}>{product.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Changes apply to sheets generated from now on.</p>
+            </div>
+
             <div className="flex items-center">
               <input
                 type="checkbox"
@@ -364,6 +453,9 @@ export const RouteManagement: React.FC = () => {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Pincodes
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Products
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Status
                   </th>
@@ -409,6 +501,18 @@ export const RouteManagement: React.FC = () => {
                         ))}
                       </div>
                     </td>
+                    <td className="px-6 py-4">
+                      <div className="flex flex-wrap gap-1">
+                        {getRouteProducts(route, products).map(product => (
+                          <span key={product.id} className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                            {product.name}
+                          </span>
+                        ))}
+                        {!route.productIds?.length && (
+                          <span className="text-xs text-gray-400">(all products)</span>
+                        )}
+                      </div>
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <button
                         onClick={() => toggleRouteStatus(route.id)}
@@ -424,6 +528,20 @@ export const RouteManagement: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex space-x-2">
+                        <button
+                          onClick={() => setStopOrderRoute(route)}
+                          className="text-green-600 hover:text-green-900 transition-colors"
+                          title="Stop order"
+                        >
+                          <ListOrdered className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setMapRoute(route)}
+                          className="text-purple-600 hover:text-purple-900 transition-colors"
+                          title="Route map"
+                        >
+                          <MapIcon className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => handleEdit(route)}
                           className="text-blue-600 hover:text-blue-900 transition-colors"
@@ -445,6 +563,14 @@ export const RouteManagement: React.FC = () => {
           </div>
         )}
       </div>
+
+      {stopOrderRoute && (
+        <RouteStopOrder route={stopOrderRoute} onClose={() => setStopOrderRoute(null)} />
+      )}
+
+      {mapRoute && (
+        <RouteMap route={mapRoute} onClose={() => setMapRoute(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { X, MapPin } from 'lucide-react';
+import { getCustomersByRoute, hasLocation, getDistanceKm, getPathDistanceKm } from '../utils/supabase-storage';
+import { Customer, GeoPoint, RouteInfo } from '../types';
+
+interface RouteMapProps {
+  route: RouteInfo;
+  onClose: () => void;
+}
+
+const MAP_WIDTH = 640;
+const MAP_HEIGHT = 420;
+const MAP_PADDING = 30;
+
+// Equirectangular projection fitted to the map. Longitudes are shrunk by the
+// cosine of the latitude so a kilometre is the same length both ways.
+const projectPoints = (points: GeoPoint[]): { x: number; y: number }[] => {
+  const meanLatitude = points.reduce((sum, p) => sum + p.latitude, 0) / points.length;
+  const xScale = Math.cos(meanLatitude * Math.PI / 180);
+  const xs = points.map(p => p.longitude * xScale);
+  const ys = points.map(p => -p.latitude);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(Math.max(...xs) - minX, 1e-6);
+  const spanY = Math.max(Math.max(...ys) - minY, 1e-6);
+  const scale = Math.min((MAP_WIDTH - 2 * MAP_PADDING) / spanX, (MAP_HEIGHT - 2 * MAP_PADDING) / spanY);
+  const offsetX = (MAP_WIDTH - spanX * scale) / 2;
+  const offsetY = (MAP_HEIGHT - spanY * scale) / 2;
+
+  return xs.map((x, index) => ({
+    x: offsetX + (x - minX) * scale,
+    y: offsetY + (ys[index] - minY) * scale
+  }));
+};
+
+export const RouteMap: React.FC<RouteMapProps> = ({ route, onClose }) => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadCustomers = async () => {
+      try {
+        setCustomers(await getCustomersByRoute(route.id));
+      } catch (error) {
+        console.error('Error loading route customers:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadCustomers();
+  }, [route.id]);
+
+  // Stop numbers count every customer, so they match the sheets
+  const stops = customers
+    .map((customer, index) => ({ customer, stop: index + 1 }))
+    .filter((entry): entry is { customer: Customer & GeoPoint; stop: number } => hasLocation(entry.customer));
+  const unlocated = customers.filter(c => !hasLocation(c));
+  const positions = stops.length > 0 ? projectPoints(stops.map(s => s.customer)) : [];
+  const totalDistance = getPathDistanceKm(stops.map(s => s.customer));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Route Map</h2>
+            <p className="text-sm text-gray-600">
+              Route {route.id} - {route.name}: {stops.length} of {customers.length} stops located
+              {stops.length > 1 && ` · ${totalDistance.toFixed(1)} km in a straight line stop to stop`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6">
+          {loading ? (
+            <div className="py-12 text-center text-gray-500">Loading customers...</div>
+          ) : stops.length === 0 ? (
+            <div className="py-12 text-center">
+              <MapPin className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No locations yet</h3>
+              <p className="text-gray-600">Capture customer locations from the Customers page or the sheet entry grid while delivering.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className="w-full border border-gray-200 rounded-lg bg-gray-50">
+                  <polyline
+                    points={positions.map(p => `${p.x},${p.y}`).join(' ')}
+                    fill="none"
+                    stroke="#2563eb"
+                    strokeWidth={2}
+                    strokeLinejoin="round"
+                  />
+                  {stops.map(({ customer, stop }, index) => (
+                    <g key={customer.id}>
+                      <title>{`${stop}. ${customer.name}${customer.address ? ` - ${customer.address}` : ''}`}</title>
+                      <circle
+                        cx={positions[index].x}
+                        cy={positions[index].y}
+                        r={10}
+                        fill={index === 0 ? '#16a34a' : index === stops.length - 1 ? '#dc2626' : '#ffffff'}
+                        stroke="#2563eb"
+                        strokeWidth={2}
+                      />
+                      <text
+                        x={positions[index].x}
+                        y={positions[index].y + 4}
+                        textAnchor="middle"
+                        fontSize={10}
+                        fontWeight="bold"
+                        fill={index === 0 || index === stops.length - 1 ? '#ffffff' : '#1f2937'}
+                      >
+                        {stop}
+                      </text>
+                    </g>
+                  ))}
+                </svg>
+                <p className="text-xs text-gray-500 mt-2">First stop in green, last in red. North is up.</p>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 mb-2">Stops</h3>
+                  <div className="border border-gray-200 rounded-md divide-y divide-gray-200 text-sm">
+                    {stops.map(({ customer, stop }, index) => (
+                      <div key={customer.id} className="px-3 py-2 flex justify-between">
+                        <span className="text-gray-900">
+                          <span className="text-gray-400 mr-2">{stop}.</span>
+                          {customer.name}
+                        </span>
+                        <span className="text-gray-500">
+                          {index > 0 ? `${getDistanceKm(stops[index - 1].customer, customer).toFixed(1)} km` : 'Start'}
+                        </span>
+                      </div>
+                    ))}
+                    <div className="px-3 py-2 flex justify-between font-semibold bg-gray-50">
+                      <span>Total</span>
+                      <span>{totalDistance.toFixed(1)} km</span>
+                    </div>
+                  </div>
+                </div>
+
+                {unlocated.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-900 mb-2">Not located ({unlocated.length})</h3>
+                    <div className="text-sm text-gray-600 space-y-1">
+                      {unlocated.map(customer => (
+                        <div key={customer.id}>{customer.name} <span className="text-gray-400">(ID: {customer.id})</span></div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
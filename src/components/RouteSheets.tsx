@@ -1,7 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { Users, FileText, Search, RefreshCw } from 'lucide-react';
-import { getRouteInfos, getCustomersByRoute, getProducts, saveSheetHistory, getSheetHistory } from '../utils/supabase-storage';
-import { Customer, Product, RouteInfo } from '../types';
+import { Users, FileText, Search, RefreshCw, Truck, AlertTriangle } from 'lucide-react';
+import { 
+  getRouteInfos, 
+  getCustomersByRoute, 
+  getProducts, 
+  saveSheetHistory, 
+  getSheetHistory, 
+  getRouteProducts,
+  getStockMovements,
+  getStockLevels,
+  getPriceList,
+  getPriceOn,
+  getTransactions,
+  getCreditHolds,
+  getStandingOrderQuantities
+} from '../utils/supabase-storage';
+import { Customer, Product, RouteInfo, PriceListEntry, CreditHold } from '../types';
 
 interface RouteSheetProps {
   onPageChange?: (page: string) => void;
@@ -12,7 +26,11 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
   const [selectedRoute, setSelectedRoute] = useState<string>('');
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
+  const [priceList, setPriceList] = useState<PriceListEntry[]>([]);
+  const [creditHolds, setCreditHolds] = useState<Record<string, CreditHold>>({});
   const [loading, setLoading] = useState(false);
+  const [vanLoad, setVanLoad] = useState<Record<string, number>>({});
+  const [stockLevels, setStockLevels] = useState<Record<string, number>>({});
   const [showDuplicateDialog, setShowDuplicateDialog] = useState(false);
   const [duplicateRouteInfo, setDuplicateRouteInfo] = useState<{ routeId: string; routeName: string } | null>(null);
 
@@ -20,20 +38,24 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
     return routes.find(route => route.id === selectedRoute);
   };
 
-  // Get only first 3 products for fixed format (Prod A, Prod B, Prod C)
-  const getFixedProducts = () => {
-    return products.slice(0, 3);
+  // Products configured for the selected route, in sheet column order
+  const getSheetProducts = () => {
+    return getRouteProducts(getSelectedRouteInfo(), products);
   };
 
   useEffect(() => {
     const loadInitialData = async () => {
       try {
-        const [availableRoutes, allProducts] = await Promise.all([
+        const [availableRoutes, allProducts, movements, allPrices] = await Promise.all([
           getRouteInfos(),
-          getProducts()
+          getProducts(),
+          getStockMovements(),
+          getPriceList()
         ]);
         setRoutes(availableRoutes);
         setProducts(allProducts);
+        setPriceList(allPrices);
+        setStockLevels(getStockLevels(movements));
       } catch (error) {
         console.error('Error loading initial data:', error);
       }
@@ -41,11 +63,18 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
     loadInitialData();
   }, []);
 
+  // Route customers, and which of them are on credit hold
+  const loadRouteCustomers = async (routeId: string) => {
+    const [routeCustomers, transactions] = await Promise.all([getCustomersByRoute(routeId), getTransactions()]);
+    setCustomers(routeCustomers);
+    setCreditHolds(Object.fromEntries(getCreditHolds(routeCustomers, transactions).map(hold => [hold.customer.id, hold])));
+  };
+
   const handleRouteSelect = async (routeId: string) => {
     setSelectedRoute(routeId);
+    setVanLoad({});
     try {
-      const routeCustomers = await getCustomersByRoute(routeId);
-      setCustomers(routeCustomers);
+      await loadRouteCustomers(routeId);
     } catch (error) {
       console.error('Error loading route customers:', error);
     }
@@ -56,8 +85,7 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
     
     setLoading(true);
     try {
-      const routeCustomers = await getCustomersByRoute(selectedRoute);
-      setCustomers(routeCustomers);
+      await loadRouteCustomers(selectedRoute);
     } catch (error) {
       console.error('Error refreshing route customers:', error);
       alert('Error refreshing customer data. Please try again.');
@@ -100,15 +128,20 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
         return total + Math.abs(customer.outstandingAmount || 0);
       }, 0);
 
+      // Only products actually loaded are recorded; no load means no reconciliation at close
+      const loadedProducts = Object.entries(vanLoad).filter(([, quantity]) => quantity > 0);
+
       // Create sheet history record
       await saveSheetHistory({
         routeId: routeInfo.id,
         routeName: routeInfo.name,
         customers: customers,
         status: 'active',
+        productIds: getSheetProducts().map(product => product.id),
         deliveryData: {},
         amountReceived: {},
         routeOutstanding: totalRouteOutstanding,
+        vanLoad: loadedProducts.length > 0 ? Object.fromEntries(loadedProducts) : undefined,
         notes: ''
       });
       
@@ -117,6 +150,8 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
       // Reset form
       setSelectedRoute('');
       setCustomers([]);
+      setCreditHolds({});
+      setVanLoad({});
       
     } catch (error) {
       console.error('Error generating route sheet:', error);
@@ -145,6 +180,7 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
   };
 
   const totalOutstanding = customers.reduce((sum, customer) => sum + customer.outstandingAmount, 0);
+  const holdCount = Object.keys(creditHolds).length;
 
   return (
     <div className="space-y-6">
@@ -202,10 +238,50 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
           </div>
         </div>
 
+        {selectedRoute && customers.length > 0 && (
+          <div className="mt-6 max-w-4xl mx-auto">
+            <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+              <Truck className="w-4 h-4 mr-2" />
+              Van Loading (Cases)
+            </h3>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+              {getSheetProducts().map((product) => {
+                const available = stockLevels[product.id] || 0;
+                const loaded = vanLoad[product.id] || 0;
+                return (
+                  <div key={product.id}>
+                    <label className="block text-xs text-gray-600 mb-1">{product.name}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={loaded || ''}
+                      onChange={(e) => setVanLoad({ ...vanLoad, [product.id]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="0"
+                    />
+                    <p className={`text-xs mt-1 ${loaded > available ? 'text-red-600' : 'text-gray-500'}`}>
+                      In warehouse: {available}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Loaded stock is reconciled against deliveries and returns when the sheet is closed. Leave blank to skip.
+            </p>
+          </div>
+        )}
+
         {selectedRoute && customers.length > 0 && (
           <div className="mt-6 flex justify-between items-center">
             <div className="text-sm text-gray-600">
               {customers.length} customers • ₹{Math.abs(totalOutstanding).toLocaleString()} total outstanding
+              {holdCount > 0 && (
+                <span className="ml-2 inline-flex items-center text-red-600 font-medium">
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  {holdCount} on credit hold
+                </span>
+              )}
             </div>
             <div className="flex space-x-3">
               <button
@@ -237,6 +313,9 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
               <Users className="w-5 h-5 mr-2" />
               Route {getSelectedRouteInfo()?.id} - {getSelectedRouteInfo()?.name} - Customer Details
             </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Cases shown are today's standing orders; they are pre-filled on the generated sheet
+            </p>
           </div>
           
           <div className="overflow-x-auto">
@@ -258,7 +337,7 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Area
                   </th>
-                  {getFixedProducts().map((product) => (
+                  {getSheetProducts().map((product) => (
                     <React.Fragment key={product.id}>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         {product.name} (Cases)
@@ -268,17 +347,6 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
                       </th>
                     </React.Fragment>
                   ))}
-                  {/* Fill remaining slots if less than 3 products */}
-                  {Array.from({ length: Math.max(0, 3 - products.length) }, (_, index) => (
-                    <React.Fragment key={`empty-${index}`}>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Prod {String.fromCharCode(65 + products.length + index)} (Cases)
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Rate
-                      </th>
-                    </React.Fragment>
-                  ))}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Outstanding
                   </th>
@@ -286,7 +354,11 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {customers.map((customer, index) => (
-                  <tr key={customer.id} className="hover:bg-gray-50">
+                  <tr
+                    key={customer.id}
+                    className={creditHolds[customer.id] ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-gray-50'}
+                    title={creditHolds[customer.id]?.reasons.join('\n')}
+                  >
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {index + 1}
                     </td>
@@ -295,6 +367,11 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                       {customer.name}
+                      {creditHolds[customer.id] && (
+                        <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                          Credit Hold
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {customer.phone}
@@ -302,27 +379,19 @@ export const RouteSheets: React.FC<RouteSheetProps> = ({ onPageChange }) => {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {customer.address || ''}
                     </td>
-                    {getFixedProducts().map((product) => (
-                      <React.Fragment key={product.id}>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-gray-400">
-                          -
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          ₹{customer.productPrices[product.id] || product.defaultPrice || 0}
-                        </td>
-                      </React.Fragment>
-                    ))}
-                    {/* Fill remaining slots if less than 3 products */}
-                    {Array.from({ length: Math.max(0, 3 - products.length) }, (_, index) => (
-                      <React.Fragment key={`empty-${index}`}>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-gray-400">
-                          -
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
-                          ₹0
-                        </td>
-                      </React.Fragment>
-                    ))}
+                    {getSheetProducts().map((product) => {
+                      const standingQuantity = getStandingOrderQuantities(customer, new Date())[product.id];
+                      return (
+                        <React.Fragment key={product.id}>
+                          <td className={`px-6 py-4 whitespace-nowrap text-sm text-center ${standingQuantity ? 'font-medium text-indigo-700' : 'text-gray-400'}`}>
+                            {standingQuantity || '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            ₹{getPriceOn(priceList, product, customer)}
+                          </td>
+                        </React.Fragment>
+                      );
+                    })}
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <span className={customer.outstandingAmount >= 0 ? 'text-red-600' : 'text-green-600'}>
                         ₹{Math.abs(customer.outstandingAmount).toLocaleString()}
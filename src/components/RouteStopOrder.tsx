@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { X, GripVertical, ChevronUp, ChevronDown } from 'lucide-react';
+import { getCustomersByRoute, reorderRouteCustomers } from '../utils/supabase-storage';
+import { Customer, RouteInfo } from '../types';
+
+interface RouteStopOrderProps {
+  route: RouteInfo;
+  onClose: () => void;
+}
+
+export const RouteStopOrder: React.FC<RouteStopOrderProps> = ({ route, onClose }) => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadCustomers = async () => {
+      try {
+        setCustomers(await getCustomersByRoute(route.id));
+      } catch (error) {
+        console.error('Error loading route customers:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadCustomers();
+  }, [route.id]);
+
+  const moveCustomer = (from: number, to: number) => {
+    if (to < 0 || to >= customers.length || from === to) return;
+    const reordered = [...customers];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    setCustomers(reordered);
+  };
+
+  const handleDragOver = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    if (draggedIndex === null || draggedIndex === index) return;
+    moveCustomer(draggedIndex, index);
+    setDraggedIndex(index);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await reorderRouteCustomers(route.id, customers.map(c => c.id));
+      alert('Stop order saved. New sheets will follow it.');
+      onClose();
+    } catch (error) {
+      console.error('Error saving stop order:', error);
+      alert('Error saving stop order. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Stop Order</h2>
+            <p className="text-sm text-gray-600">
+              Route {route.id} - {route.name}: drag customers into the order they are delivered
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto">
+          {loading ? (
+            <div className="px-6 py-12 text-center text-gray-500">Loading customers...</div>
+          ) : customers.length === 0 ? (
+            <div className="px-6 py-12 text-center text-gray-500">No customers on this route</div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {customers.map((customer, index) => (
+                <div
+                  key={customer.id}
+                  draggable
+                  onDragStart={() => setDraggedIndex(index)}
+                  onDragOver={(e) => handleDragOver(e, index)}
+                  onDragEnd={() => setDraggedIndex(null)}
+                  className={`flex items-center justify-between px-6 py-2 cursor-move ${draggedIndex === index ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <div className="flex items-center">
+                    <GripVertical className="w-4 h-4 text-gray-400 mr-3" />
+                    <span className="w-8 text-sm text-gray-400">{index + 1}.</span>
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">{customer.name}</div>
+                      <div className="text-xs text-gray-500">ID: {customer.id}{customer.address && ` · ${customer.address}`}</div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => moveCustomer(index, index - 1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveCustomer(index, index + 1)}
+                      disabled={index === customers.length - 1}
+                      className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-between items-center">
+          <span className="text-xs text-gray-500">Active sheets on this route are reordered too</span>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || customers.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Stop Order'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
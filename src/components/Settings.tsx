@@ -5,12 +5,29 @@ import {
   Phone, 
   Mail, 
   MapPin,
-  Save
+  Save,
+  Hash,
+  Image as ImageIcon,
+  FileText,
+  Upload,
+  Trash2,
+  Package,
+  Plus
 } from 'lucide-react';
-import { getCompanySettings, saveCompanySettings, initializeDefaultData } from '../utils/supabase-storage';
-import { CompanySettings } from '../types';
+import { getCompanySettingsWithAssets, saveCompanySettings, saveCompanyAssets, initializeDefaultData, isValidGSTIN, GST_STATES } from '../utils/supabase-storage';
+import { CompanySettings, ContainerType } from '../types';
 import { ConnectionStatus } from './ConnectionStatus';
 
+const MAX_LOGO_SIZE = 200 * 1024; // Added to every printed document
+const MAX_TEMPLATE_SIZE = 2 * 1024 * 1024;
+
+const readFileAsDataURL = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
 export const Settings: React.FC = () => {
   const [settings, setSettings] = useState<CompanySettings>({
     companyName: '',
@@ -36,7 +53,7 @@ export const Settings: React.FC = () => {
 
   const loadSettings = async () => {
     try {
-      const companySettings = await getCompanySettings();
+      const companySettings = await getCompanySettingsWithAssets();
       setSettings(companySettings);
     } catch (error) {
       console.error('Error loading settings:', error);
@@ -57,6 +74,22 @@ export const Settings: React.FC = () => {
       return;
     }
 
+    if (settings.gstin && !isValidGSTIN(settings.gstin)) {
+      alert('Please enter a valid 15 character GSTIN (e.g. 36ABCDE1234F1Z5)');
+      return;
+    }
+
+    const containerTypes = settings.containerTypes || [];
+    const containerNames = containerTypes.map(type => type.name.trim().toLowerCase());
+    if (containerNames.some(name => !name)) {
+      alert('Please enter a name for every container type');
+      return;
+    }
+    if (new Set(containerNames).size !== containerNames.length) {
+      alert('Container type names must be unique');
+      return;
+    }
+
     setIsSaving(true);
     try {
       const updatedSettings = {
@@ -65,6 +98,13 @@ export const Settings: React.FC = () => {
       };
 
       await saveCompanySettings(updatedSettings);
+      await saveCompanyAssets({
+        logo: updatedSettings.logo,
+        logoFileName: updatedSettings.logoFileName,
+        pdfTemplate: updatedSettings.pdfTemplate,
+        templateFileName: updatedSettings.templateFileName,
+        templateUploadedAt: updatedSettings.templateUploadedAt
+      });
       setSettings(updatedSettings);
       
       setSaveMessage('Settings saved successfully!');
@@ -84,6 +124,74 @@ export const Settings: React.FC = () => {
     }));
   };
 
+  const updateContainerType = (id: string, updates: Partial<ContainerType>) => {
+    setSettings(prev => ({
+      ...prev,
+      containerTypes: (prev.containerTypes || []).map(type => type.id === id ? { ...type, ...updates } : type)
+    }));
+  };
+
+  const addContainerType = () => {
+    setSettings(prev => ({
+      ...prev,
+      containerTypes: [...(prev.containerTypes || []), { id: `CT-${Date.now()}`, name: '', depositValue: 0 }]
+    }));
+  };
+
+  const removeContainerType = (id: string) => {
+    if (!confirm('Remove this container type? Balances already recorded on sheets will no longer be shown.')) return;
+    setSettings(prev => ({
+      ...prev,
+      containerTypes: (prev.containerTypes || []).filter(type => type.id !== id)
+    }));
+  };
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      alert('Please choose a PNG or JPEG image for the logo');
+      return;
+    }
+    if (file.size > MAX_LOGO_SIZE) {
+      alert('Logo must be 200 KB or smaller');
+      return;
+    }
+
+    try {
+      const logo = await readFileAsDataURL(file);
+      setSettings(prev => ({ ...prev, logo, logoFileName: file.name }));
+    } catch (error) {
+      console.error('Error reading logo:', error);
+      alert('Could not read the logo file. Please try again.');
+    }
+  };
+
+  const handleTemplateUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.type !== 'application/pdf') {
+      alert('Please choose a PDF file for the template');
+      return;
+    }
+    if (file.size > MAX_TEMPLATE_SIZE) {
+      alert('Template must be 2 MB or smaller');
+      return;
+    }
+
+    try {
+      const pdfTemplate = await readFileAsDataURL(file);
+      setSettings(prev => ({ ...prev, pdfTemplate, templateFileName: file.name, templateUploadedAt: new Date() }));
+    } catch (error) {
+      console.error('Error reading template:', error);
+      alert('Could not read the template file. Please try again.');
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -161,6 +269,164 @@ export const Settings: React.FC = () => {
             />
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <Hash className="w-4 h-4 inline mr-1" />
+                GSTIN
+              </label>
+              <input
+                type="text"
+                value={settings.gstin || ''}
+                onChange={(e) => handleInputChange('gstin', e.target.value.toUpperCase())}
+                maxLength={15}
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono ${
+                  settings.gstin && !isValidGSTIN(settings.gstin) ? 'border-red-400' : 'border-gray-300'
+                }`}
+                placeholder="e.g. 36ABCDE1234F1Z5"
+              />
+              {settings.gstin && !isValidGSTIN(settings.gstin) && (
+                <p className="text-xs text-red-600 mt-1">GSTIN must be 15 characters: state code, PAN, entity number, Z and a check character</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <MapPin className="w-4 h-4 inline mr-1" />
+                State
+              </label>
+              <select
+                value={settings.state || ''}
+                onChange={(e) => handleInputChange('state', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">{settings.gstin && isValidGSTIN(settings.gstin) ? `From GSTIN (${GST_STATES[settings.gstin.slice(0, 2)] || settings.gstin.slice(0, 2)})` : 'Select state'}</option>
+                {Object.entries(GST_STATES).map(([code, name]) => (
+                  <option key={code} value={code}>{code} - {name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Customers in other states are charged IGST instead of CGST and SGST</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <ImageIcon className="w-4 h-4 inline mr-1" />
+                Company Logo
+              </label>
+              <div className="flex items-center space-x-3">
+                <div className="w-20 h-20 border border-gray-200 rounded-md flex items-center justify-center bg-gray-50 overflow-hidden">
+                  {settings.logo ? (
+                    <img src={settings.logo} alt="Company logo" className="max-w-full max-h-full object-contain" />
+                  ) : (
+                    <ImageIcon className="w-8 h-8 text-gray-300" />
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <label className="flex items-center px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 cursor-pointer transition-colors">
+                    <Upload className="w-4 h-4 mr-2" />
+                    {settings.logo ? 'Replace Logo' : 'Upload Logo'}
+                    <input type="file" accept="image/png,image/jpeg" onChange={handleLogoUpload} className="hidden" />
+                  </label>
+                  {settings.logo && (
+                    <button
+                      onClick={() => setSettings(prev => ({ ...prev, logo: undefined, logoFileName: undefined }))}
+                      className="flex items-center text-sm text-red-600 hover:text-red-800"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">PNG or JPEG, up to 200 KB. Printed on invoices and credit notes.</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <FileText className="w-4 h-4 inline mr-1" />
+                PDF Template
+              </label>
+              {settings.pdfTemplate ? (
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-md text-sm">
+                  <p className="font-medium text-gray-900">{settings.templateFileName || 'Custom template'}</p>
+                  {settings.templateUploadedAt && (
+                    <p className="text-gray-500">Uploaded {new Date(settings.templateUploadedAt).toLocaleString()}</p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No template uploaded; the standard layout is used.</p>
+              )}
+              <div className="flex items-center space-x-3 mt-2">
+                <label className="flex items-center px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 cursor-pointer transition-colors">
+                  <Upload className="w-4 h-4 mr-2" />
+                  {settings.pdfTemplate ? 'Replace Template' : 'Upload Template'}
+                  <input type="file" accept="application/pdf" onChange={handleTemplateUpload} className="hidden" />
+                </label>
+                {settings.pdfTemplate && (
+                  <button
+                    onClick={() => setSettings(prev => ({ ...prev, pdfTemplate: undefined, templateFileName: undefined, templateUploadedAt: undefined }))}
+                    className="flex items-center text-sm text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Remove
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">PDF, up to 2 MB.</p>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              <Package className="w-4 h-4 inline mr-1" />
+              Returnable Containers
+            </label>
+            {(settings.containerTypes || []).length > 0 ? (
+              <div className="space-y-2">
+                {(settings.containerTypes || []).map(type => (
+                  <div key={type.id} className="flex items-center space-x-3">
+                    <input
+                      type="text"
+                      value={type.name}
+                      onChange={(e) => updateContainerType(type.id, { name: e.target.value })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="e.g. Crate, 20L Can"
+                    />
+                    <div className="flex items-center">
+                      <span className="text-sm text-gray-600 mr-2">Deposit ₹</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={type.depositValue}
+                        onChange={(e) => updateContainerType(type.id, { depositValue: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="w-28 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <button
+                      onClick={() => removeContainerType(type.id)}
+                      className="text-red-600 hover:text-red-800 p-1"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No container types. Add crates, cans or bottles that customers return.</p>
+            )}
+            <button
+              onClick={addContainerType}
+              className="flex items-center mt-2 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Container Type
+            </button>
+            <p className="text-xs text-gray-500 mt-2">Issued and returned counts are entered per customer on route sheets.</p>
+          </div>
+
           <div className="flex items-center justify-between pt-4 border-t border-gray-200">
             <div className="text-sm text-gray-500">
               Last updated: {new Date(settings.updatedAt).toLocaleString()}
@@ -10,7 +10,9 @@ import {
   Printer,
   Trash2,
   MoreVertical,
-  Eye
+  Eye,
+  Truck,
+  LocateFixed
 } from 'lucide-react';
 import { 
   getProducts,
@@ -18,14 +20,28 @@ import {
   updateSheetRecord,
   deleteSheetRecord,
   closeSheetRecord,
+  getSheetProducts,
+  getVanReconciliation,
+  getSheetFreeQuantities,
+  getSchemes,
+  getPriceList,
+  getPriceOn,
+  getContainerTypes,
+  getSheetContainerBalances,
+  formatContainerBalance,
+  captureCustomerLocation,
+  hasLocation,
   SheetRecord
 } from '../utils/supabase-storage';
 import { generateRouteSheetPDF, printRouteSheet } from '../utils/pdf';
-import { Product } from '../types';
+import { Product, ContainerType, Scheme, Customer, PriceListEntry } from '../types';
 
 export const SheetsHistory: React.FC = () => {
   const [sheetRecords, setSheetRecords] = useState<SheetRecord[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
+  const [containerTypes, setContainerTypes] = useState<ContainerType[]>([]);
+  const [schemes, setSchemes] = useState<Scheme[]>([]);
+  const [priceList, setPriceList] = useState<PriceListEntry[]>([]);
   const [selectedSheet, setSelectedSheet] = useState<SheetRecord | null>(null);
   const [editMode, setEditMode] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -44,10 +60,6 @@ export const SheetsHistory: React.FC = () => {
   const [customerCurrentPage, setCustomerCurrentPage] = useState(1);
   const customersPerPage = 5;
 
-  // Get only first 3 products for consistency
-  const getFixedProducts = () => {
-    return products.slice(0, 3);
-  };
 
   // Filter and paginate sheets
   const getFilteredSheets = () => {
@@ -129,12 +141,18 @@ export const SheetsHistory: React.FC = () => {
   const loadData = async () => {
     setLoading(true);
     try {
-      const [history, allProducts] = await Promise.all([
+      const [history, allProducts, allContainerTypes, allSchemes, allPrices] = await Promise.all([
         getSheetHistory(),
-        getProducts()
+        getProducts(),
+        getContainerTypes(),
+        getSchemes(),
+        getPriceList()
       ]);
       setSheetRecords(history);
       setProducts(allProducts);
+      setContainerTypes(allContainerTypes);
+      setSchemes(allSchemes);
+      setPriceList(allPrices);
     } catch (error) {
       console.error('Error loading sheets history:', error);
     } finally {
@@ -142,6 +160,16 @@ export const SheetsHistory: React.FC = () => {
     }
   };
 
+  // Free units under schemes leave the van as well; schemes in force on the sheet date apply, as when it is closed
+  const getSheetVanReconciliation = (sheet: SheetRecord) => {
+    return getVanReconciliation(sheet, products, getSheetFreeQuantities(sheet, products, schemes, new Date(sheet.createdAt)));
+  };
+
+  // Rate in effect when the sheet was generated
+  const getSheetRate = (sheet: SheetRecord, customer: Customer, product: Product) => {
+    return getPriceOn(priceList, product, customer, new Date(sheet.createdAt));
+  };
+
   const handleCloseSheet = () => {
     setSelectedSheet(null);
     setEditMode(false);
@@ -199,6 +227,24 @@ export const SheetsHistory: React.FC = () => {
     }
   };
 
+  // Taken at the customer's door while delivering and saved on the customer record
+  const handleCaptureLocation = async (customer: Customer) => {
+    if (hasLocation(customer) && !confirm(`Replace the saved location of ${customer.name} with where you are now?`)) {
+      return;
+    }
+    try {
+      const location = await captureCustomerLocation(customer.id);
+      setSelectedSheet(sheet => sheet && {
+        ...sheet,
+        customers: sheet.customers.map(c => c.id === customer.id ? { ...c, ...location } : c)
+      });
+      alert(`Location saved for ${customer.name}`);
+    } catch (error) {
+      console.error('Error capturing location:', error);
+      alert(error instanceof Error ? error.message : 'Error capturing location. Please try again.');
+    }
+  };
+
   const updateDeliveryQuantity = (customerId: string, productId: string, quantity: number) => {
     if (!selectedSheet) return;
 
@@ -221,8 +267,8 @@ export const SheetsHistory: React.FC = () => {
     const product = products.find(p => p.id === productId);
     
     if (customer && product) {
-      // Use customer-specific price if available, otherwise product default
-      const rate = customer.productPrices[productId] || product.defaultPrice || 0;
+      // Customer's price list first, then the default one
+      const rate = getSheetRate(updatedSheet, customer, product);
       
       // Validate rate is positive
       if (rate <= 0 && quantity > 0) {
@@ -242,6 +288,40 @@ export const SheetsHistory: React.FC = () => {
     setSelectedSheet(updatedSheet);
   };
 
+  const updateContainerCount = (customerId: string, containerTypeId: string, field: 'issued' | 'returned', count: number) => {
+    if (!selectedSheet) return;
+
+    if (count < 0) {
+      alert('Container count cannot be negative');
+      return;
+    }
+
+    const customerContainers = selectedSheet.containerData?.[customerId] || {};
+    const counts = customerContainers[containerTypeId] || { issued: 0, returned: 0 };
+
+    setSelectedSheet({
+      ...selectedSheet,
+      containerData: {
+        ...(selectedSheet.containerData || {}),
+        [customerId]: { ...customerContainers, [containerTypeId]: { ...counts, [field]: count } }
+      }
+    });
+  };
+
+  const updateVanStock = (field: 'vanLoad' | 'returnedStock', productId: string, quantity: number) => {
+    if (!selectedSheet) return;
+
+    if (quantity < 0) {
+      alert('Quantity cannot be negative');
+      return;
+    }
+
+    setSelectedSheet({
+      ...selectedSheet,
+      [field]: { ...(selectedSheet[field] || {}), [productId]: quantity }
+    });
+  };
+
   const updateNotes = (notes: string) => {
     if (!selectedSheet) return;
     setSelectedSheet({ ...selectedSheet, notes });
@@ -292,6 +372,9 @@ export const SheetsHistory: React.FC = () => {
       await updateSheetRecord(selectedSheet.id, {
         deliveryData: selectedSheet.deliveryData,
         amountReceived: selectedSheet.amountReceived,
+        containerData: selectedSheet.containerData,
+        vanLoad: selectedSheet.vanLoad,
+        returnedStock: selectedSheet.returnedStock,
         notes: selectedSheet.notes,
         updatedAt: new Date()
         // Note: status remains unchanged - only closing the sheet changes status
@@ -333,7 +416,7 @@ export const SheetsHistory: React.FC = () => {
         const customer = sheet.customers.find(c => c.id === customerId);
         const product = products.find(p => p.id === productId);
         if (customer && product) {
-          const expectedRate = customer.productPrices[productId] || product.defaultPrice || 0;
+          const expectedRate = getSheetRate(sheet, customer, product);
           const expectedAmount = data.quantity * expectedRate;
           if (Math.abs(data.amount - expectedAmount) > 0.01) { // Allow for small floating point differences
             errors.push(`Customer ${customerId}: Amount mismatch for product ${productId}. Expected: ${expectedAmount}, Got: ${data.amount}`);
@@ -870,6 +953,7 @@ export const SheetsHistory: React.FC = () => {
           <div className="overflow-x-auto">
             {(() => {
               const { currentCustomers, totalCustomerPages, customerStartIndex, customerEndIndex } = getCustomerPagination();
+              const containerBalances = containerTypes.length > 0 ? getSheetContainerBalances(selectedSheet, sheetRecords) : null;
               
               return (
                 <>
@@ -885,7 +969,7 @@ export const SheetsHistory: React.FC = () => {
                         <th className="px-2 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Phone
                         </th>
-                        {getFixedProducts().map((product) => (
+                        {getSheetProducts(selectedSheet, products).map((product) => (
                           <React.Fragment key={product.id}>
                             <th className="px-2 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                               {product.name.replace('ML', '')} Qty
@@ -895,6 +979,16 @@ export const SheetsHistory: React.FC = () => {
                             </th>
                           </React.Fragment>
                         ))}
+                        {containerTypes.map((type) => (
+                          <th key={type.id} className="px-2 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            {type.name} Out / In
+                          </th>
+                        ))}
+                        {containerBalances && (
+                          <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Containers Held
+                          </th>
+                        )}
                         <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Outstanding
                         </th>
@@ -921,15 +1015,26 @@ export const SheetsHistory: React.FC = () => {
                     <td className="px-3 py-4 whitespace-nowrap">
                       <div>
                         <div className="text-sm font-medium text-gray-900">{customer.name}</div>
-                        <div className="text-sm text-gray-500">{customer.id}</div>
+                        <div className="text-sm text-gray-500 flex items-center">
+                          {customer.id}
+                          {selectedSheet.status === 'active' && (
+                            <button
+                              onClick={() => handleCaptureLocation(customer)}
+                              className={`ml-2 ${hasLocation(customer) ? 'text-teal-600 hover:text-teal-800' : 'text-gray-400 hover:text-gray-600'}`}
+                              title={hasLocation(customer) ? 'Update location (here)' : 'Capture location (here)'}
+                            >
+                              <LocateFixed className="w-3.5 h-3.5" />
+                            </button>
+                          )}
+                        </div>
                       </div>
                     </td>
                     <td className="px-2 py-4 whitespace-nowrap text-sm text-gray-900">
                       {customer.phone}
                     </td>
-                    {getFixedProducts().map((product) => {
+                    {getSheetProducts(selectedSheet, products).map((product) => {
                       const deliveryData = selectedSheet.deliveryData[customer.id]?.[product.id];
-                      const rate = customer.productPrices[product.id] || product.defaultPrice || 0;
+                      const rate = getSheetRate(selectedSheet, customer, product);
                       
                       return (
                         <React.Fragment key={product.id}>
@@ -954,6 +1059,53 @@ export const SheetsHistory: React.FC = () => {
                         </React.Fragment>
                       );
                     })}
+                    {containerTypes.map((type) => {
+                      const counts = selectedSheet.containerData?.[customer.id]?.[type.id];
+
+                      return (
+                        <td key={type.id} className="px-2 py-4 whitespace-nowrap">
+                          {editMode ? (
+                            <div className="flex items-center space-x-1">
+                              <input
+                                type="number"
+                                min="0"
+                                value={counts?.issued || 0}
+                                onChange={(e) => updateContainerCount(customer.id, type.id, 'issued', parseInt(e.target.value) || 0)}
+                                className="w-14 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                title="Issued"
+                              />
+                              <input
+                                type="number"
+                                min="0"
+                                value={counts?.returned || 0}
+                                onChange={(e) => updateContainerCount(customer.id, type.id, 'returned', parseInt(e.target.value) || 0)}
+                                className="w-14 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                title="Returned"
+                              />
+                            </div>
+                          ) : (
+                            <span className="text-sm text-gray-900">
+                              {counts?.issued || 0} / {counts?.returned || 0}
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                    {containerBalances && (
+                      <td className="px-3 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>
+                          {formatContainerBalance(
+                            (selectedSheet.status === 'closed' ? containerBalances.closing : containerBalances.opening)[customer.id],
+                            containerTypes
+                          ) || '-'}
+                        </div>
+                        {selectedSheet.status === 'active' && selectedSheet.containerData?.[customer.id] && (
+                          <div className="text-xs text-blue-600">
+                            After close: {formatContainerBalance(containerBalances.closing[customer.id], containerTypes) || 'none'}
+                          </div>
+                        )}
+                      </td>
+                    )}
                     <td className="px-3 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                       <div>
                         <div className="text-sm font-medium text-gray-900">₹{Math.abs(customer.outstandingAmount).toLocaleString()}</div>
@@ -1062,6 +1214,69 @@ export const SheetsHistory: React.FC = () => {
             })()}
           </div>
 
+          {/* Van Stock Reconciliation */}
+          {(selectedSheet.vanLoad || editMode) && (
+            <div className="px-6 py-4 border-t border-gray-200">
+              <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+                <Truck className="w-4 h-4 mr-2" />
+                Van Stock Reconciliation
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="w-full border border-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Loaded</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Delivered</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Returned</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Shortage</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {getSheetVanReconciliation({ ...selectedSheet, vanLoad: selectedSheet.vanLoad || {} }).map(line => (
+                      <tr key={line.productId} className={line.shortage > 0 ? 'bg-red-50' : ''}>
+                        <td className="px-4 py-2 text-sm text-gray-900">{line.productName}</td>
+                        <td className="px-4 py-2 text-sm text-right">
+                          {editMode ? (
+                            <input
+                              type="number"
+                              min="0"
+                              value={line.loaded}
+                              onChange={(e) => updateVanStock('vanLoad', line.productId, parseFloat(e.target.value) || 0)}
+                              className="w-20 px-2 py-1 text-right border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          ) : line.loaded}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right text-gray-900">{line.delivered}</td>
+                        <td className="px-4 py-2 text-sm text-right">
+                          {editMode ? (
+                            <input
+                              type="number"
+                              min="0"
+                              value={line.returned}
+                              onChange={(e) => updateVanStock('returnedStock', line.productId, parseFloat(e.target.value) || 0)}
+                              className="w-20 px-2 py-1 text-right border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          ) : line.returned}
+                        </td>
+                        <td className={`px-4 py-2 text-sm text-right font-medium ${
+                          line.shortage > 0 ? 'text-red-600' : line.shortage < 0 ? 'text-orange-600' : 'text-green-600'
+                        }`}>
+                          {line.shortage > 0 ? line.shortage : line.shortage < 0 ? `${Math.abs(line.shortage)} excess` : 'OK'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {selectedSheet.status === 'active' && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Enter the stock brought back before closing. Shortages are written off from warehouse stock when the sheet is closed.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Notes Section */}
           <div className="px-6 py-4 border-t border-gray-200">
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1123,6 +1338,25 @@ export const SheetsHistory: React.FC = () => {
               <p className="text-sm text-red-600 mt-2 font-medium">
                 ⚠️ Financial records (invoices, payments, transactions) are ONLY created when sheets are closed, not during editing.
               </p>
+              {(() => {
+                const mismatches = getSheetVanReconciliation(sheetToClose).filter(line => line.shortage !== 0);
+                if (!sheetToClose.vanLoad || mismatches.length === 0) return null;
+                return (
+                  <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm font-medium text-red-800">Van stock does not reconcile:</p>
+                    <ul className="text-sm text-red-700 mt-1 ml-4 list-disc">
+                      {mismatches.map(line => (
+                        <li key={line.productId}>
+                          {line.productName}: {line.shortage > 0 ? `${line.shortage} short` : `${Math.abs(line.shortage)} excess`} (loaded {line.loaded}, delivered {line.delivered}, returned {line.returned})
+                        </li>
+                      ))}
+                    </ul>
+                    {!sheetToClose.returnedStock && (
+                      <p className="text-xs text-red-700 mt-2">No returned stock has been entered for this sheet.</p>
+                    )}
+                  </div>
+                );
+              })()}
             </div>
             <div className="flex space-x-3 justify-end">
               <button
@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { X, Trash2, Plus } from 'lucide-react';
+import { getProducts, getRouteInfos, getRouteProducts, updateCustomer, isStandingOrderActive } from '../utils/supabase-storage';
+import { Customer, Product, StandingOrder } from '../types';
+
+interface StandingOrderEditorProps {
+  customer: Customer;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Monday first, as the delivery week is planned
+const WEEKDAYS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' }
+];
+
+export const StandingOrderEditor: React.FC<StandingOrderEditorProps> = ({ customer, onClose, onSaved }) => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [quantities, setQuantities] = useState<StandingOrder['quantities']>(customer.standingOrder?.quantities || {});
+  const [isPaused, setIsPaused] = useState(customer.standingOrder?.isPaused || false);
+  const [vacations, setVacations] = useState(customer.standingOrder?.vacations || []);
+  const [vacationForm, setVacationForm] = useState({ from: '', to: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadProducts = async () => {
+      try {
+        // Only the route's sheet products can be pre-filled
+        const [allProducts, routeInfos] = await Promise.all([getProducts(), getRouteInfos()]);
+        setProducts(getRouteProducts(routeInfos.find(r => r.id === customer.route), allProducts));
+      } catch (error) {
+        console.error('Error loading products:', error);
+      }
+    };
+    loadProducts();
+  }, [customer.route]);
+
+  const setQuantity = (day: number, productId: string, quantity: number) => {
+    setQuantities({ ...quantities, [day]: { ...quantities[day], [productId]: Math.max(0, quantity) } });
+  };
+
+  // Copy Monday's quantity of a product to every day
+  const fillWeek = (productId: string) => {
+    const quantity = quantities[1]?.[productId] || 0;
+    setQuantities(Object.fromEntries(WEEKDAYS.map(({ day }) => [day, { ...quantities[day], [productId]: quantity }])));
+  };
+
+  const handleAddVacation = () => {
+    if (!vacationForm.from || !vacationForm.to) {
+      alert('Please choose the first and last day of the vacation');
+      return;
+    }
+    if (vacationForm.from > vacationForm.to) {
+      alert('The vacation must end on or after the day it starts');
+      return;
+    }
+    setVacations([...vacations, vacationForm].sort((a, b) => a.from.localeCompare(b.from)));
+    setVacationForm({ from: '', to: '' });
+  };
+
+  const handleSave = async () => {
+    // Zero quantities are dropped; an order with nothing left in it is removed
+    const cleaned = Object.fromEntries(
+      WEEKDAYS
+        .map(({ day }) => [day, Object.fromEntries(Object.entries(quantities[day] || {}).filter(([, quantity]) => quantity > 0))] as const)
+        .filter(([, dayQuantities]) => Object.keys(dayQuantities).length > 0)
+    );
+    const today = new Date().toISOString().split('T')[0];
+    const upcomingVacations = vacations.filter(v => v.to >= today);
+    const standingOrder: StandingOrder | undefined = Object.keys(cleaned).length > 0
+      ? { quantities: cleaned, isPaused, vacations: upcomingVacations }
+      : undefined;
+
+    setIsSaving(true);
+    try {
+      await updateCustomer(customer.id, { standingOrder });
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error saving standing order:', error);
+      alert('Error saving standing order. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const todayStatus = isStandingOrderActive({ quantities, isPaused, vacations }, new Date())
+    ? null
+    : isPaused ? 'Paused' : 'On vacation today';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Standing Order</h2>
+            <p className="text-sm text-gray-600">
+              {customer.name} (ID: {customer.id}) - cases pre-filled on new Route {customer.route} sheets
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto px-6 py-4 space-y-6">
+          <div className="overflow-x-auto">
+            <table className="w-full border border-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  {WEEKDAYS.map(({ day, label }) => (
+                    <th key={day} className="px-2 py-2 text-center text-xs font-medium text-gray-500 uppercase">{label}</th>
+                  ))}
+                  <th className="px-2 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {products.map(product => (
+                  <tr key={product.id}>
+                    <td className="px-3 py-2 text-sm text-gray-900 whitespace-nowrap">{product.name}</td>
+                    {WEEKDAYS.map(({ day }) => (
+                      <td key={day} className="px-1 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          value={quantities[day]?.[product.id] || ''}
+                          onChange={(e) => setQuantity(day, product.id, parseInt(e.target.value) || 0)}
+                          className="w-14 px-2 py-1 text-sm text-center border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="0"
+                        />
+                      </td>
+                    ))}
+                    <td className="px-2 py-2">
+                      <button
+                        onClick={() => fillWeek(product.id)}
+                        className="text-xs text-blue-600 hover:text-blue-800 whitespace-nowrap"
+                        title="Use Monday's quantity every day"
+                      >
+                        Every day
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={isPaused}
+              onChange={(e) => setIsPaused(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-900">Paused - no deliveries pre-filled until resumed</span>
+          </label>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Vacations</h3>
+            {vacations.length > 0 ? (
+              <div className="divide-y divide-gray-200 border border-gray-200 rounded-md mb-3">
+                {vacations.map((vacation, index) => (
+                  <div key={`${vacation.from}-${index}`} className="px-3 py-2 flex justify-between items-center text-sm">
+                    <span className="text-gray-900">
+                      {new Date(`${vacation.from}T00:00:00`).toLocaleDateString()} to {new Date(`${vacation.to}T00:00:00`).toLocaleDateString()}
+                    </span>
+                    <button
+                      onClick={() => setVacations(vacations.filter((_, i) => i !== index))}
+                      className="text-red-600 hover:text-red-800 p-1"
+                      title="Remove vacation"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 mb-3">No vacations planned</p>
+            )}
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="date"
+                  value={vacationForm.from}
+                  onChange={(e) => setVacationForm({ ...vacationForm, from: e.target.value })}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+                <input
+                  type="date"
+                  value={vacationForm.to}
+                  onChange={(e) => setVacationForm({ ...vacationForm, to: e.target.value })}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <button
+                onClick={handleAddVacation}
+                className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Vacation
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-between items-center">
+          <span className="text-sm text-orange-600">{todayStatus}</span>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Standing Order'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
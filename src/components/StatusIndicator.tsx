@@ -2,22 +2,33 @@ import React, { useState, useEffect } from 'react';
 import { 
   Database, 
   CheckCircle,
-  AlertTriangle
+  AlertTriangle,
+  CloudOff,
+  RefreshCw,
+  Wifi
 } from 'lucide-react';
 import { getStorageMode } from '../utils/supabase-storage';
+import { getOutboxStatus, subscribeToOutbox, syncOutbox } from '../utils/outbox';
 
 export const StatusIndicator: React.FC = () => {
   const [database, setDatabase] = useState<'supabase' | 'localStorage'>('localStorage');
   const [showDetails, setShowDetails] = useState(false);
+  const [outbox, setOutbox] = useState(getOutboxStatus());
 
   useEffect(() => {
     checkStatus();
     
     // Check status every 30 seconds
     const interval = setInterval(checkStatus, 30000);
-    return () => clearInterval(interval);
+    const unsubscribe = subscribeToOutbox(() => setOutbox(getOutboxStatus()));
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
   }, []);
 
+  const queuedCount = outbox.pending + outbox.failed;
+
   const checkStatus = () => {
     setDatabase(getStorageMode() === 'supabase' ? 'supabase' : 'localStorage');
   };
@@ -39,6 +50,17 @@ export const StatusIndicator: React.FC = () => {
               <AlertTriangle className="w-3 h-3 text-yellow-600 -ml-1" />
             )}
           </div>
+
+          {/* Offline queue */}
+          {!outbox.online && <CloudOff className="w-4 h-4 text-gray-500" />}
+          {outbox.syncing && <RefreshCw className="w-4 h-4 text-blue-600 animate-spin" />}
+          {queuedCount > 0 && (
+            <span className={`px-1.5 text-xs font-medium rounded-full ${
+              outbox.failed > 0 ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'
+            }`}>
+              {queuedCount}
+            </span>
+          )}
         </div>
       </button>
 
@@ -69,6 +91,48 @@ export const StatusIndicator: React.FC = () => {
                   )}
                 </div>
               </div>
+
+              {/* Connection */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Wifi className="w-4 h-4 text-blue-600" />
+                  <span className="text-sm">Connection</span>
+                </div>
+                <span className={`text-xs ${outbox.online ? 'text-green-600' : 'text-red-600'}`}>
+                  {outbox.online ? 'Online' : 'Offline'}
+                </span>
+              </div>
+
+              {/* Offline Queue */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <RefreshCw className={`w-4 h-4 text-blue-600 ${outbox.syncing ? 'animate-spin' : ''}`} />
+                  <span className="text-sm">Sync Queue</span>
+                </div>
+                <span className={`text-xs ${
+                  outbox.failed > 0 ? 'text-red-600' : outbox.pending > 0 ? 'text-yellow-600' : 'text-green-600'
+                }`}>
+                  {queuedCount === 0 ? 'Up to date' :
+                   outbox.failed > 0 ? `${outbox.failed} failed, ${outbox.pending} pending` :
+                   `${outbox.pending} pending`}
+                </span>
+              </div>
+
+              {outbox.failed > 0 && (
+                <p className="text-xs text-red-600">
+                  Some offline changes were rejected. Review them under Settings → System Connection Status.
+                </p>
+              )}
+
+              {outbox.pending > 0 && outbox.failed === 0 && outbox.online && (
+                <button
+                  onClick={() => syncOutbox()}
+                  disabled={outbox.syncing}
+                  className="w-full text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                >
+                  {outbox.syncing ? 'Syncing...' : 'Sync now'}
+                </button>
+              )}
             </div>
 
             <div className="mt-3 pt-3 border-t border-gray-200">
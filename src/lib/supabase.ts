@@ -24,9 +24,14 @@ export const TABLES = {
   PRODUCTS: 'products',
   INVOICES: 'invoices',
   TRANSACTIONS: 'transactions',
+  CUSTOMER_LEDGER_TOTALS: 'customer_ledger_totals',
   COMPANY_SETTINGS: 'company_settings',
+  COMPANY_ASSETS: 'company_assets',
   ROUTES: 'route_infos',
-  SHEETS: 'route_sheets'
+  SHEETS: 'route_sheets',
+  CREDIT_NOTES: 'credit_notes',
+  STOCK_MOVEMENTS: 'stock_movements',
+  PRICE_LIST: 'price_list_entries'
 } as const
 
 // Helper function to check if Supabase is properly configured
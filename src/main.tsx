@@ -1,8 +1,12 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { initializeStorageAdapter } from './utils/storage-adapter';
 import './index.css';
 
+// Select the storage backend once before anything reads data
+initializeStorageAdapter();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
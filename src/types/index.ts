@@ -3,6 +3,9 @@ export interface Product {
   id: string;
   name: string;
   defaultPrice: number;
+  reorderLevel?: number; // Stock at or below this is flagged as low
+  hsnCode?: string;
+  gstRate?: number; // GST percentage; prices are inclusive of it
   createdAt: Date;
   updatedAt: Date;
 }
@@ -12,12 +15,51 @@ export interface CompanySettings {
   address: string;
   phone: string;
   email: string;
+  gstin?: string; // 15 character GST identification number
+  state?: string; // 2-digit GST state code
+  logo?: string; // Base64 data URL of a PNG or JPEG logo
+  logoFileName?: string; // Original filename of the logo
   pdfTemplate?: string; // Base64 encoded PDF template
   templateFileName?: string; // Original filename of the template
   templateUploadedAt?: Date; // When the template was uploaded
+  containerTypes?: ContainerType[]; // Returnable crates, cans and bottles
+  schemes?: Scheme[]; // Promotional discounts and free-quantity offers
   updatedAt: Date;
 }
 
+// The large company settings fields: some backends store and load them separately
+export type CompanyAssets = Pick<CompanySettings, 'logo' | 'logoFileName' | 'pdfTemplate' | 'templateFileName' | 'templateUploadedAt'>;
+
+// A returnable container; customers are charged the deposit for any they keep
+export interface ContainerType {
+  id: string;
+  name: string;
+  depositValue: number;
+}
+
+export interface Discount {
+  type: 'percent' | 'flat';
+  value: number; // Percentage, or rupees off
+}
+
+// Promotion applied automatically to matching invoice lines. A 'discount' scheme
+// takes a discount off the line; a 'free_quantity' scheme adds a free line for
+// every buyQuantity units bought.
+export interface Scheme {
+  id: string;
+  name: string;
+  type: 'discount' | 'free_quantity';
+  productId: string;
+  customerId?: string; // All customers when not set
+  discount?: Discount; // For 'discount' schemes
+  minQuantity?: number; // Line quantity needed for a 'discount' scheme
+  buyQuantity?: number; // For 'free_quantity' schemes
+  freeQuantity?: number;
+  validFrom?: string; // yyyy-MM-dd, inclusive
+  validTo?: string;
+  isActive: boolean;
+}
+
 export interface Customer {
   id: string; // 6-digit unique ID
   name: string;
@@ -25,19 +67,41 @@ export interface Customer {
   address: string;
   route: string;
   openingBalance: number;
-  outstandingAmount: number;
+  outstandingAmount: number; // Opening balance plus the ledger, worked out when customers are read
   productPrices: {
     [productId: string]: number;
   };
+  gstin?: string; // Registered (B2B) customers only
+  state?: string; // 2-digit GST state code; the company's state when not set
+  creditLimit?: number; // Most the customer may owe; no limit when not set
+  creditDays?: number; // Days a sale may stay unpaid; no limit when not set
+  standingOrder?: StandingOrder;
+  routeSequence?: number; // Stop on the route, from 1; after the numbered stops when not set
+  latitude?: number; // Delivery location, captured on the customer's premises
+  longitude?: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Quantities a customer takes on each weekday, pre-filled on new route sheets
+export interface StandingOrder {
+  quantities: {
+    [weekday: number]: { [productId: string]: number }; // 0 = Sunday
+  };
+  isPaused?: boolean; // No deliveries until resumed
+  vacations?: { from: string; to: string }[]; // yyyy-MM-dd, inclusive
+}
+
 export interface Transaction {
   id: string;
   customerId: string;
   customerName: string;
-  type: 'sale' | 'payment' | 'adjustment';
+  type: 'sale' | 'payment' | 'adjustment' | 'return';
   items: InvoiceItem[];
   totalAmount: number;
   amountReceived: number;
@@ -51,10 +115,30 @@ export interface Transaction {
 
 export interface InvoiceItem {
   id: string;
+  productId?: string; // Missing on items created before stock tracking
   productName: string;
   quantity: number;
   price: number;
-  total: number;
+  total: number; // Quantity x price less discounts, GST included
+  discount?: Discount; // Entered on the line
+  discountAmount?: number; // Line, scheme and share of invoice discount
+  schemeName?: string; // Scheme behind the discount or free quantity
+  isFree?: boolean; // Free-quantity line added by a scheme
+  hsnCode?: string;
+  gstRate?: number;
+  taxableValue?: number; // Total less GST; missing on items created before GST
+  cgst?: number;
+  sgst?: number;
+  igst?: number; // Inter-state supplies carry IGST instead of CGST and SGST
+}
+
+// GST totals over a set of invoice lines
+export interface TaxSummary {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
 }
 
 export interface Invoice {
@@ -63,18 +147,91 @@ export interface Invoice {
   customerId: string;
   customerName: string;
   items: InvoiceItem[];
-  subtotal: number;
+  subtotal: number; // Taxable value; equals totalAmount when no GST applies
   totalAmount: number;
+  discount?: Discount; // Invoice discount, spread over the lines' discountAmount
   amountReceived: number;
   balanceChange: number;
   date: Date;
-  status: 'paid' | 'partial' | 'pending';
+  status: 'paid' | 'partial' | 'pending' | 'cancelled';
   routeId?: string;
   routeName?: string;
   sheetId?: string;
   cashAmount?: number;
   upiAmount?: number;
   customerFinalBalance: number;
+  cancellationReason?: string; // Set when the invoice is voided
+  cancelledAt?: Date;
+  creditOverrideReason?: string; // Why it was raised for a customer on credit hold
+}
+
+// Sales return against an invoice; credits the customer for the returned lines
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string; // CN00001 onwards, separate from invoice numbers
+  invoiceId: string;
+  invoiceNumber: string;
+  customerId: string;
+  customerName: string;
+  items: InvoiceItem[]; // Returned lines; id matches the original invoice item
+  totalAmount: number;
+  reason: string;
+  date: Date;
+  routeId?: string;
+  routeName?: string;
+  sheetId?: string;
+}
+
+// One entry in the warehouse stock ledger; current stock is the sum of quantities
+export interface StockMovement {
+  id: string;
+  productId: string;
+  productName: string;
+  type: 'purchase' | 'sale' | 'return' | 'adjustment';
+  quantity: number; // Positive adds stock, negative removes it
+  reference?: string; // Invoice, credit note or supplier bill number
+  notes?: string;
+  date: Date;
+}
+
+// One version of a price. The price on a date is the latest entry effective
+// on or before it; a customer's own entries take precedence over the default list.
+export interface PriceListEntry {
+  id: string;
+  productId: string;
+  customerId?: string; // Default price list when not set
+  price: number;
+  effectiveFrom: Date;
+  notes?: string;
+  revisionId?: string; // Bulk price revision that added the entry
+  createdAt: Date;
+}
+
+// A bulk change to one product's prices from a date
+export interface PriceRevision {
+  productId: string;
+  target: 'default' | 'customers'; // The default price, or customers' own prices
+  route?: string; // Only customers on this route
+  change: 'percent' | 'amount';
+  value: number; // Percentage, or rupees added; negative lowers the price
+  effectiveFrom: Date;
+}
+
+// One price a revision changes; no customer for the default price
+export interface PriceRevisionLine {
+  customer?: Customer;
+  currentPrice: number; // Price that would otherwise apply on the effective date
+  newPrice: number;
+}
+
+// A revision already applied, as recorded in the price list
+export interface AppliedPriceRevision {
+  revisionId: string;
+  productId: string;
+  description: string;
+  effectiveFrom: Date;
+  priceCount: number;
+  appliedAt: Date;
 }
 
 export interface RouteSheet {
@@ -90,6 +247,103 @@ export interface RouteInfo {
   areas: string[];
   pincodes: string[];
   isActive: boolean;
+  productIds?: string[]; // Ordered products on this route's sheets; all products when empty
+  createdAt: Date;
+  updatedAt: Date;
+}
+export interface BalanceMismatch {
+  customer: Customer;
+  storedBalance: number; // Customer.outstandingAmount as saved
+  ledgerBalance: number; // Opening balance + sum of transaction balance changes
+  difference: number; // storedBalance - ledgerBalance
+}
+
+// One transaction on a customer's account statement
+export interface StatementLine {
+  date: Date;
+  type: Transaction['type'];
+  reference: string; // Invoice, payment or adjustment number
+  description: string;
+  debit: number; // Amount charged to the customer
+  credit: number; // Amount received or credited
+  balance: number; // Running balance after this line
+}
+
+export interface AccountStatement {
+  customer: Customer;
+  from: Date;
+  to: Date;
+  openingBalance: number; // Balance at the start of the from date
+  lines: StatementLine[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number; // Balance at the end of the to date
+}
+
+// A customer's dues split by how long they have been unpaid
+export interface ReceivableAging {
+  customer: Customer;
+  current: number; // 0-30 days
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+  oldestDueDate?: Date; // Earliest sale not yet fully paid
+}
+
+// A customer over their credit limit or credit days
+export interface CreditHold {
+  customer: Customer;
+  outstanding: number;
+  overLimitBy: number; // Outstanding over the credit limit; 0 when within it
+  overdueDays: number; // Days the oldest due is past the credit days; 0 when within them
+  reasons: string[];
+}
+
+export interface SheetRecord {
+  id: string;
+  routeId: string;
+  routeName: string;
+  customers: Customer[];
   createdAt: Date;
   updatedAt: Date;
-}
\ No newline at end of file
+  status: 'active' | 'closed';
+  productIds?: string[]; // Product columns, fixed when the sheet is generated
+  deliveryData: {
+    [customerId: string]: {
+      [productId: string]: {
+        quantity: number;
+        amount: number;
+      };
+    };
+  };
+  amountReceived: {
+    [customerId: string]: {
+      cash: number;
+      upi: number;
+      total: number;
+    };
+  };
+  routeOutstanding: number; // Route outstanding at the time of sheet closure
+  containerData?: {
+    [customerId: string]: {
+      [containerTypeId: string]: {
+        issued: number;
+        returned: number;
+      };
+    };
+  };
+  vanLoad?: { [productId: string]: number }; // Units loaded into the van for the route
+  returnedStock?: { [productId: string]: number }; // Units brought back at the end of the route
+  notes: string;
+}
+
+// Loaded vs delivered vs returned for one product on a sheet
+export interface VanReconciliationLine {
+  productId: string;
+  productName: string;
+  loaded: number;
+  delivered: number;
+  returned: number;
+  shortage: number; // Loaded less delivered and returned; negative when more was accounted for than loaded
+}
@@ -0,0 +1,269 @@
+import readXlsxFile from 'read-excel-file';
+import { Customer, Product, RouteInfo } from '../types';
+import { addCustomer } from './supabase-storage';
+
+// Bulk customer import from a CSV or XLSX sheet: read the rows, map columns to
+// customer fields, check every row without saving anything, then add the rows
+// that passed through addCustomer.
+
+export type ImportedCustomer = Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Column index for each field; -1 when the sheet has no column for it
+export interface ImportColumnMapping {
+  name: number;
+  phone: number;
+  address: number;
+  route: number;
+  openingBalance: number;
+  prices: Record<string, number>; // By product id
+}
+
+export interface ImportRowResult {
+  rowNumber: number; // Row in the sheet, counting the header as row 1
+  status: 'ready' | 'duplicate' | 'error';
+  customer?: ImportedCustomer; // Set when the row is ready to import
+  name: string;
+  phone: string;
+  route: string;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportOutcome {
+  imported: number;
+  failed: { rowNumber: number; name: string; error: string }[];
+}
+
+export const IMPORT_FIELDS: { key: Exclude<keyof ImportColumnMapping, 'prices'>; label: string; required: boolean }[] = [
+  { key: 'name', label: 'Name', required: true },
+  { key: 'phone', label: 'Phone', required: true },
+  { key: 'address', label: 'Address', required: false },
+  { key: 'route', label: 'Route', required: true },
+  { key: 'openingBalance', label: 'Opening Balance', required: false }
+];
+
+// Header names recognised for each field, compared without case, spaces or punctuation
+const HEADER_ALIASES: Record<Exclude<keyof ImportColumnMapping, 'prices'>, string[]> = {
+  name: ['name', 'customer', 'customername'],
+  phone: ['phone', 'mobile', 'phoneno', 'phonenumber', 'mobileno', 'mobilenumber', 'contact'],
+  address: ['address', 'customeraddress'],
+  route: ['route', 'routeid', 'routecode', 'routename'],
+  openingBalance: ['openingbalance', 'opening', 'balance', 'outstanding']
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// RFC 4180 CSV: quoted fields may hold commas, newlines and doubled quotes
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines, e.g. the one after a trailing newline
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+// Header row first, every cell as trimmed text
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'csv') {
+    const text = (await file.text()).replace(/^\uFEFF/, ''); // Excel adds a byte order mark
+    return parseCSV(text).map(row => row.map(cell => cell.trim()));
+  }
+
+  if (extension === 'xlsx') {
+    const rows = await readXlsxFile(file);
+    return rows
+      .map(row => row.map(cell => cell === null || cell === undefined ? '' : String(cell).trim()))
+      .filter(row => row.some(cell => cell));
+  }
+
+  throw new Error('Please choose a .csv or .xlsx file');
+};
+
+// Map columns by their headers; a product's price column is headed with its name
+export const guessColumnMapping = (headers: string[], products: Product[]): ImportColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const findColumn = (aliases: string[]) => normalized.findIndex(header => aliases.includes(header));
+
+  return {
+    name: findColumn(HEADER_ALIASES.name),
+    phone: findColumn(HEADER_ALIASES.phone),
+    address: findColumn(HEADER_ALIASES.address),
+    route: findColumn(HEADER_ALIASES.route),
+    openingBalance: findColumn(HEADER_ALIASES.openingBalance),
+    prices: Object.fromEntries(products.map(product => {
+      const name = normalizeHeader(product.name);
+      return [product.id, findColumn([name, `${name}price`, `${name}rate`])];
+    }))
+  };
+};
+
+// 10-digit Indian mobile number, without the +91 or 0 prefix; undefined if invalid
+export const normalizePhone = (phone: string): string | undefined => {
+  let digits = phone.replace(/\D/g, '');
+  if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2);
+  if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+  return /^[6-9]\d{9}$/.test(digits) ? digits : undefined;
+};
+
+// Amounts may be written with a rupee sign or thousands separators
+const parseAmount = (value: string): number | undefined => {
+  const amount = Number(value.replace(/[₹,\s]/g, '').replace(/^rs\.?/i, ''));
+  return isNaN(amount) ? undefined : amount;
+};
+
+// Check every row without saving anything. Rows with a phone number already on
+// file, or repeated earlier in the sheet, are duplicates and are skipped.
+export const planCustomerImport = (
+  rows: string[][],
+  mapping: ImportColumnMapping,
+  existingCustomers: Customer[],
+  routeInfos: RouteInfo[],
+  products: Product[]
+): ImportRowResult[] => {
+  const knownPhones = new Map<string, string>();
+  existingCustomers.forEach(c => knownPhones.set(normalizePhone(c.phone) || c.phone.trim(), `customer ${c.name} (${c.id})`));
+  const knownNames = new Set(existingCustomers.map(c => `${c.route}|${c.name.trim().toLowerCase()}`));
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const cell = (column: number) => column >= 0 ? (row[column] || '').trim() : '';
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const name = cell(mapping.name);
+    const rawPhone = cell(mapping.phone);
+    const rawRoute = cell(mapping.route);
+
+    if (!name) errors.push('Name is missing');
+
+    const phone = normalizePhone(rawPhone);
+    if (!rawPhone) {
+      errors.push('Phone is missing');
+    } else if (!phone) {
+      errors.push(`Invalid phone number "${rawPhone}"; expected a 10-digit mobile number`);
+    }
+
+    // Routes may be given by code or by name
+    const routeInfo = routeInfos.find(r =>
+      r.id.toLowerCase() === rawRoute.toLowerCase() || r.name.toLowerCase() === rawRoute.toLowerCase()
+    );
+    if (!rawRoute) {
+      errors.push('Route is missing');
+    } else if (!routeInfo) {
+      errors.push(`Route "${rawRoute}" does not exist`);
+    } else if (!routeInfo.isActive) {
+      warnings.push(`Route ${routeInfo.id} is inactive`);
+    }
+
+    const rawBalance = cell(mapping.openingBalance);
+    const openingBalance = rawBalance ? parseAmount(rawBalance) : 0;
+    if (openingBalance === undefined) {
+      errors.push(`Invalid opening balance "${rawBalance}"`);
+    }
+
+    // Blank prices fall back to the product's default, as in the Add Customer form
+    const productPrices: Record<string, number> = {};
+    products.forEach(product => {
+      const rawPrice = cell(mapping.prices[product.id] ?? -1);
+      const price = rawPrice ? parseAmount(rawPrice) : product.defaultPrice;
+      if (price === undefined || price < 0) {
+        errors.push(`Invalid ${product.name} price "${rawPrice}"`);
+      } else {
+        productPrices[product.id] = price;
+      }
+    });
+
+    const result = { rowNumber, name, phone: phone || rawPhone, route: routeInfo?.id || rawRoute, errors, warnings };
+
+    if (phone && knownPhones.has(phone)) {
+      return { ...result, status: 'duplicate' as const, errors: [...errors, `Phone ${phone} already belongs to ${knownPhones.get(phone)}`] };
+    }
+    if (phone) {
+      knownPhones.set(phone, `row ${rowNumber} of this sheet`);
+    }
+
+    if (errors.length > 0 || !phone || !routeInfo || openingBalance === undefined) {
+      return { ...result, status: 'error' as const };
+    }
+
+    const nameKey = `${routeInfo.id}|${name.toLowerCase()}`;
+    if (knownNames.has(nameKey)) {
+      warnings.push(`A customer named ${name} is already on route ${routeInfo.id}`);
+    }
+    knownNames.add(nameKey);
+
+    return {
+      ...result,
+      status: 'ready' as const,
+      customer: {
+        name,
+        phone,
+        address: cell(mapping.address),
+        route: routeInfo.id,
+        openingBalance,
+        outstandingAmount: openingBalance,
+        productPrices
+      }
+    };
+  });
+};
+
+// Add the ready rows one at a time through addCustomer, so each gets its
+// opening balance adjustment; a failed row does not stop the rest
+export const importCustomers = async (results: ImportRowResult[]): Promise<ImportOutcome> => {
+  const outcome: ImportOutcome = { imported: 0, failed: [] };
+
+  for (const result of results) {
+    if (result.status !== 'ready' || !result.customer) continue;
+    try {
+      await addCustomer(result.customer);
+      outcome.imported++;
+    } catch (error) {
+      console.error(`Error importing row ${result.rowNumber}:`, error);
+      outcome.failed.push({
+        rowNumber: result.rowNumber,
+        name: result.name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  console.log(`📥 Imported ${outcome.imported} customers, ${outcome.failed.length} failed`);
+  return outcome;
+};
@@ -0,0 +1,574 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Customer, Transaction, Invoice, Product, CompanySettings, RouteInfo, SheetRecord, CreditNote, StockMovement, PriceListEntry } from '../types';
+import { StorageAdapter, RecordQuery, NewInvoice, NewTransaction, NewStockMovement } from './storage-adapter';
+import * as local from './storage';
+
+const DB_NAME = 'sales_app';
+const DB_VERSION = 4;
+
+const STORES = {
+  CUSTOMERS: 'customers',
+  PRODUCTS: 'products',
+  INVOICES: 'invoices',
+  TRANSACTIONS: 'transactions',
+  ROUTE_INFOS: 'route_infos',
+  SHEETS: 'sheets',
+  CREDIT_NOTES: 'credit_notes',
+  STOCK_MOVEMENTS: 'stock_movements',
+  PRICE_LIST: 'price_list',
+  META: 'meta'
+} as const;
+
+// Keys in the meta store
+const META_KEYS = {
+  COMPANY_SETTINGS: 'companySettings',
+  CUSTOMER_COUNTER: 'customerCounter',
+  INVOICE_COUNTER: 'invoiceCounter',
+  CREDIT_NOTE_COUNTER: 'creditNoteCounter',
+  MIGRATED_FROM_LOCAL_STORAGE: 'migratedFromLocalStorage'
+};
+
+interface MetaEntry<T> {
+  key: string;
+  value: T;
+}
+
+export const isIndexedDBAvailable = (): boolean => {
+  return typeof indexedDB !== 'undefined';
+};
+
+// Promise helpers around the IndexedDB callback API
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionComplete = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+};
+
+// Version 1 schema
+const createInitialStores = (db: IDBDatabase): void => {
+  const customers = db.createObjectStore(STORES.CUSTOMERS, { keyPath: 'id' });
+  customers.createIndex('route', 'route');
+
+  db.createObjectStore(STORES.PRODUCTS, { keyPath: 'id' });
+
+  const invoices = db.createObjectStore(STORES.INVOICES, { keyPath: 'id' });
+  invoices.createIndex('customerId', 'customerId');
+  invoices.createIndex('routeId', 'routeId');
+  invoices.createIndex('sheetId', 'sheetId');
+  invoices.createIndex('date', 'date');
+  invoices.createIndex('invoiceNumber', 'invoiceNumber');
+
+  const transactions = db.createObjectStore(STORES.TRANSACTIONS, { keyPath: 'id' });
+  transactions.createIndex('customerId', 'customerId');
+  transactions.createIndex('routeId', 'routeId');
+  transactions.createIndex('sheetId', 'sheetId');
+  transactions.createIndex('date', 'date');
+
+  db.createObjectStore(STORES.ROUTE_INFOS, { keyPath: 'id' });
+
+  const sheets = db.createObjectStore(STORES.SHEETS, { keyPath: 'id' });
+  sheets.createIndex('routeId', 'routeId');
+  sheets.createIndex('status', 'status');
+  sheets.createIndex('createdAt', 'createdAt');
+
+  db.createObjectStore(STORES.META, { keyPath: 'key' });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+
+      if (event.oldVersion < 1) {
+        createInitialStores(db);
+      }
+
+      if (event.oldVersion < 2) {
+        const creditNotes = db.createObjectStore(STORES.CREDIT_NOTES, { keyPath: 'id' });
+        creditNotes.createIndex('customerId', 'customerId');
+        creditNotes.createIndex('invoiceId', 'invoiceId');
+      }
+
+      if (event.oldVersion < 3) {
+        const stockMovements = db.createObjectStore(STORES.STOCK_MOVEMENTS, { keyPath: 'id' });
+        stockMovements.createIndex('productId', 'productId');
+        stockMovements.createIndex('date', 'date');
+      }
+
+      if (event.oldVersion < 4) {
+        const priceList = db.createObjectStore(STORES.PRICE_LIST, { keyPath: 'id' });
+        priceList.createIndex('productId', 'productId');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Give every record a distinct id; old local data used Date.now() and can repeat
+const withUniqueIds = <T extends { id: string }>(records: T[]): T[] => {
+  const seen = new Set<string>();
+  return records.map(record => {
+    const id = seen.has(record.id) ? uuidv4() : record.id;
+    seen.add(id);
+    return id === record.id ? record : { ...record, id };
+  });
+};
+
+// One-time copy of the sales_app_* localStorage keys into IndexedDB
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<void> => {
+  const flagTx = db.transaction(STORES.META, 'readonly');
+  const flag = await requestResult(flagTx.objectStore(STORES.META).get(META_KEYS.MIGRATED_FROM_LOCAL_STORAGE));
+  if (flag) return;
+
+  console.log('📦 Migrating local data from localStorage to IndexedDB...');
+
+  const customers = local.getCustomers();
+  const invoices = local.getInvoices();
+  const counters = local.getStoredCounters();
+  const highestCustomerId = customers.reduce((max, c) => Math.max(max, parseInt(c.id) || 0), counters.customer);
+  const highestInvoiceNumber = invoices.reduce((max, i) => {
+    const match = /^INV(\d+)$/.exec(i.invoiceNumber || '');
+    return match ? Math.max(max, parseInt(match[1])) : max;
+  }, counters.invoice);
+  const creditNotes = local.getCreditNotes();
+  const highestCreditNoteNumber = creditNotes.reduce((max, c) => {
+    const match = /^CN(\d+)$/.exec(c.creditNoteNumber || '');
+    return match ? Math.max(max, parseInt(match[1])) : max;
+  }, counters.creditNote);
+
+  const tx = db.transaction(Object.values(STORES), 'readwrite');
+  withUniqueIds(customers).forEach(c => tx.objectStore(STORES.CUSTOMERS).put(c));
+  withUniqueIds(local.getProducts()).forEach(p => tx.objectStore(STORES.PRODUCTS).put(p));
+  withUniqueIds(invoices).forEach(i => tx.objectStore(STORES.INVOICES).put(i));
+  withUniqueIds(local.getTransactions()).forEach(t => tx.objectStore(STORES.TRANSACTIONS).put(t));
+  withUniqueIds(local.getRouteInfos()).forEach(r => tx.objectStore(STORES.ROUTE_INFOS).put(r));
+  withUniqueIds(local.getSheetRecords()).forEach(s => tx.objectStore(STORES.SHEETS).put(s));
+  withUniqueIds(creditNotes).forEach(c => tx.objectStore(STORES.CREDIT_NOTES).put(c));
+  withUniqueIds(local.getStockMovements()).forEach(m => tx.objectStore(STORES.STOCK_MOVEMENTS).put(m));
+  withUniqueIds(local.getPriceListEntries()).forEach(e => tx.objectStore(STORES.PRICE_LIST).put(e));
+
+  const meta = tx.objectStore(STORES.META);
+  const settings = local.getCompanySettings();
+  if (settings.companyName) {
+    meta.put({ key: META_KEYS.COMPANY_SETTINGS, value: settings });
+  }
+  meta.put({ key: META_KEYS.CUSTOMER_COUNTER, value: highestCustomerId });
+  meta.put({ key: META_KEYS.INVOICE_COUNTER, value: highestInvoiceNumber });
+  meta.put({ key: META_KEYS.CREDIT_NOTE_COUNTER, value: highestCreditNoteNumber });
+  meta.put({ key: META_KEYS.MIGRATED_FROM_LOCAL_STORAGE, value: new Date() });
+
+  await transactionComplete(tx);
+
+  // The localStorage keys are left in place as a backup of the pre-migration data
+  console.log(`✅ Migrated ${customers.length} customers and ${invoices.length} invoices to IndexedDB`);
+};
+
+// Bump a counter in the meta store inside the caller's transaction
+const nextCounterValue = async (tx: IDBTransaction, key: string, start: number): Promise<number> => {
+  const meta = tx.objectStore(STORES.META);
+  const entry = await requestResult(meta.get(key) as IDBRequest<MetaEntry<number> | undefined>);
+  const value = (entry?.value ?? start) + 1;
+  meta.put({ key, value });
+  return value;
+};
+
+const insertInvoice = async (tx: IDBTransaction, invoice: NewInvoice): Promise<Invoice> => {
+  const counter = await nextCounterValue(tx, META_KEYS.INVOICE_COUNTER, 0);
+  const stored = { ...invoice, id: uuidv4(), invoiceNumber: `INV${counter.toString().padStart(5, '0')}` };
+  tx.objectStore(STORES.INVOICES).add(stored);
+  return stored;
+};
+
+const insertTransaction = (tx: IDBTransaction, transaction: NewTransaction): void => {
+  tx.objectStore(STORES.TRANSACTIONS).add({ ...transaction, id: uuidv4() });
+};
+
+const insertStockMovements = (tx: IDBTransaction, movements: NewStockMovement[]): void => {
+  const store = tx.objectStore(STORES.STOCK_MOVEMENTS);
+  movements.forEach(movement => store.add({ ...movement, id: uuidv4() }));
+};
+
+const byDate = (a: { date: Date }, b: { date: Date }) => new Date(a.date).getTime() - new Date(b.date).getTime();
+const byCreatedAt = (a: { createdAt: Date }, b: { createdAt: Date }) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+// IndexedDB backend: one record per row, indexed by customer, route, sheet and date
+export const createIndexedDBAdapter = (): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().then(async db => {
+        await migrateFromLocalStorage(db);
+        return db;
+      });
+    }
+    return dbPromise;
+  };
+
+  const getAll = async <T>(storeName: string): Promise<T[]> => {
+    const db = await getDatabase();
+    return requestResult(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+  };
+
+  const getByIndex = async <T>(storeName: string, indexName: string, query: IDBValidKey | IDBKeyRange): Promise<T[]> => {
+    const db = await getDatabase();
+    const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName);
+    return requestResult(index.getAll(query) as IDBRequest<T[]>);
+  };
+
+  const getOne = async <T>(storeName: string, key: string): Promise<T | undefined> => {
+    const db = await getDatabase();
+    return requestResult(db.transaction(storeName, 'readonly').objectStore(storeName).get(key) as IDBRequest<T | undefined>);
+  };
+
+  const write = async <T>(storeNames: string[], operation: (tx: IDBTransaction) => Promise<T> | T): Promise<T> => {
+    const db = await getDatabase();
+    const tx = db.transaction(storeNames, 'readwrite');
+    const done = transactionComplete(tx);
+    let result: T;
+    try {
+      result = await operation(tx);
+    } catch (error) {
+      try {
+        tx.abort();
+      } catch {
+        // Already aborted by the failed request
+      }
+      await done.catch(() => undefined);
+      throw error;
+    }
+    await done;
+    return result;
+  };
+
+  const updateRecord = <T extends { updatedAt?: Date }>(storeName: string, id: string, updates: Partial<T>): Promise<void> => {
+    return write([storeName], async tx => {
+      const store = tx.objectStore(storeName);
+      const existing = await requestResult(store.get(id) as IDBRequest<T | undefined>);
+      if (existing) {
+        store.put({ ...existing, ...updates, updatedAt: new Date() });
+      }
+    });
+  };
+
+  const deleteRecord = (storeName: string, id: string): Promise<void> => {
+    return write([storeName], tx => {
+      tx.objectStore(storeName).delete(id);
+    });
+  };
+
+  // Use the most selective index for the query, then apply the remaining filters
+  const queryRecords = async <T extends Invoice | Transaction>(storeName: string, query: RecordQuery): Promise<T[]> => {
+    const dateRange = query.from || query.to
+      ? IDBKeyRange.bound(query.from || new Date(0), query.to || new Date(8640000000000000))
+      : null;
+
+    let records: T[];
+    if (query.sheetId) {
+      records = await getByIndex<T>(storeName, 'sheetId', query.sheetId);
+    } else if (query.customerId) {
+      records = await getByIndex<T>(storeName, 'customerId', query.customerId);
+    } else if (query.routeId) {
+      records = await getByIndex<T>(storeName, 'routeId', query.routeId);
+    } else if (dateRange) {
+      records = await getByIndex<T>(storeName, 'date', dateRange);
+    } else {
+      records = await getAll<T>(storeName);
+    }
+
+    return records
+      .filter(r => !query.customerId || r.customerId === query.customerId)
+      .filter(r => !query.routeId || r.routeId === query.routeId)
+      .filter(r => !query.sheetId || r.sheetId === query.sheetId)
+      .filter(r => !query.from || new Date(r.date) >= query.from)
+      .filter(r => !query.to || new Date(r.date) <= query.to)
+      .sort(byDate);
+  };
+
+  const adapter: StorageAdapter = {
+    mode: 'indexedDB',
+
+    async initializeDefaultData() {
+      const products = await adapter.getProducts();
+      if (products.length === 0) {
+        await adapter.addProduct({ name: 'Product A', defaultPrice: 100 });
+        await adapter.addProduct({ name: 'Product B', defaultPrice: 150 });
+        await adapter.addProduct({ name: 'Product C', defaultPrice: 200 });
+      }
+
+      const settings = await adapter.getCompanySettings();
+      if (!settings.companyName) {
+        await adapter.saveCompanySettings({
+          companyName: 'COMPANY NAME',
+          address: 'Company Address',
+          phone: '+91 9876543210',
+          email: 'info@company.com',
+          updatedAt: new Date()
+        });
+      }
+    },
+
+    // Company Settings
+    async getCompanySettings() {
+      const entry = await getOne<MetaEntry<CompanySettings>>(STORES.META, META_KEYS.COMPANY_SETTINGS);
+      return entry?.value || {
+        companyName: '',
+        address: '',
+        phone: '',
+        email: '',
+        updatedAt: new Date()
+      };
+    },
+
+    async saveCompanySettings(settings) {
+      await write([STORES.META], tx => {
+        tx.objectStore(STORES.META).put({ key: META_KEYS.COMPANY_SETTINGS, value: settings });
+      });
+    },
+
+    // Products
+    async getProducts() {
+      return (await getAll<Product>(STORES.PRODUCTS)).sort(byCreatedAt);
+    },
+
+    async saveProducts(products) {
+      await write([STORES.PRODUCTS], tx => {
+        const store = tx.objectStore(STORES.PRODUCTS);
+        store.clear();
+        products.forEach(p => store.put(p));
+      });
+    },
+
+    async addProduct(product) {
+      const newProduct: Product = { ...product, id: uuidv4(), createdAt: new Date(), updatedAt: new Date() };
+      await write([STORES.PRODUCTS], tx => {
+        tx.objectStore(STORES.PRODUCTS).add(newProduct);
+      });
+      return newProduct;
+    },
+
+    async updateProduct(id, updates) {
+      await updateRecord<Product>(STORES.PRODUCTS, id, updates);
+    },
+
+    async deleteProduct(id) {
+      await deleteRecord(STORES.PRODUCTS, id);
+    },
+
+    // Customers
+    async getCustomers() {
+      return (await getAll<Customer>(STORES.CUSTOMERS)).sort(byCreatedAt);
+    },
+
+    async getCustomersByRoute(route) {
+      return (await getByIndex<Customer>(STORES.CUSTOMERS, 'route', route)).sort(byCreatedAt);
+    },
+
+    async addCustomer(customer) {
+      return write([STORES.CUSTOMERS, STORES.META], async tx => {
+        const counter = await nextCounterValue(tx, META_KEYS.CUSTOMER_COUNTER, 100000);
+        const newCustomer: Customer = {
+          ...customer,
+          id: counter.toString(),
+          outstandingAmount: customer.openingBalance,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        tx.objectStore(STORES.CUSTOMERS).add(newCustomer);
+        return newCustomer;
+      });
+    },
+
+    async updateCustomer(id, updates) {
+      await updateRecord<Customer>(STORES.CUSTOMERS, id, updates);
+    },
+
+    async setRouteSequence(route, customerIds) {
+      await write([STORES.CUSTOMERS], async tx => {
+        const store = tx.objectStore(STORES.CUSTOMERS);
+        for (const [index, id] of customerIds.entries()) {
+          const customer = await requestResult(store.get(id) as IDBRequest<Customer | undefined>);
+          if (customer && customer.route === route && customer.routeSequence !== index + 1) {
+            store.put({ ...customer, routeSequence: index + 1, updatedAt: new Date() });
+          }
+        }
+      });
+    },
+
+    async deleteCustomer(id) {
+      await deleteRecord(STORES.CUSTOMERS, id);
+    },
+
+    // Invoices and transactions
+    async getInvoices() {
+      return (await getAll<Invoice>(STORES.INVOICES)).sort(byDate);
+    },
+
+    async queryInvoices(query) {
+      return queryRecords<Invoice>(STORES.INVOICES, query);
+    },
+
+    async commitInvoice(plan) {
+      return write([STORES.INVOICES, STORES.TRANSACTIONS, STORES.STOCK_MOVEMENTS, STORES.META], async tx => {
+        const invoice = await insertInvoice(tx, plan.invoice);
+        insertTransaction(tx, { ...plan.transaction, invoiceNumber: invoice.invoiceNumber });
+        insertStockMovements(tx, plan.stockMovements.map(m => ({ ...m, reference: m.reference || invoice.invoiceNumber })));
+        return invoice;
+      });
+    },
+
+    async commitInvoiceVoid(plan) {
+      await write([STORES.INVOICES, STORES.TRANSACTIONS, STORES.STOCK_MOVEMENTS], async tx => {
+        const invoices = tx.objectStore(STORES.INVOICES);
+        const invoice = await requestResult(invoices.get(plan.invoiceId) as IDBRequest<Invoice | undefined>);
+        if (!invoice) {
+          throw new Error(`Invoice with ID ${plan.invoiceId} not found`);
+        }
+        if (invoice.status === 'cancelled') {
+          throw new Error('Invoice is already cancelled');
+        }
+
+        invoices.put({ ...invoice, status: 'cancelled', cancellationReason: plan.reason, cancelledAt: plan.cancelledAt });
+        insertTransaction(tx, plan.reversal);
+        insertStockMovements(tx, plan.stockMovements);
+      });
+    },
+
+    async getCreditNotes() {
+      return (await getAll<CreditNote>(STORES.CREDIT_NOTES)).sort(byDate);
+    },
+
+    async commitCreditNote(plan) {
+      return write([STORES.CREDIT_NOTES, STORES.TRANSACTIONS, STORES.STOCK_MOVEMENTS, STORES.META], async tx => {
+        const counter = await nextCounterValue(tx, META_KEYS.CREDIT_NOTE_COUNTER, 0);
+        const creditNoteNumber = `CN${counter.toString().padStart(5, '0')}`;
+        tx.objectStore(STORES.CREDIT_NOTES).add({ ...plan.creditNote, id: uuidv4(), creditNoteNumber });
+        insertTransaction(tx, { ...plan.transaction, invoiceNumber: creditNoteNumber });
+        insertStockMovements(tx, plan.stockMovements.map(m => ({ ...m, reference: m.reference || creditNoteNumber })));
+        return creditNoteNumber;
+      });
+    },
+
+    async getTransactions() {
+      return (await getAll<Transaction>(STORES.TRANSACTIONS)).sort(byDate);
+    },
+
+    async queryTransactions(query) {
+      return queryRecords<Transaction>(STORES.TRANSACTIONS, query);
+    },
+
+    async addTransaction(transaction) {
+      await write([STORES.TRANSACTIONS], tx => insertTransaction(tx, transaction));
+    },
+
+    // Stock ledger
+    async getStockMovements() {
+      return (await getAll<StockMovement>(STORES.STOCK_MOVEMENTS)).sort(byDate);
+    },
+
+    async addStockMovements(movements) {
+      await write([STORES.STOCK_MOVEMENTS], tx => insertStockMovements(tx, movements));
+    },
+
+    // Price lists
+    async getPriceListEntries() {
+      return (await getAll<PriceListEntry>(STORES.PRICE_LIST)).sort(byCreatedAt);
+    },
+
+    async addPriceListEntries(entries) {
+      await write([STORES.PRICE_LIST], tx => {
+        const store = tx.objectStore(STORES.PRICE_LIST);
+        entries.forEach(entry => store.add({ ...entry, id: uuidv4(), createdAt: new Date() }));
+      });
+    },
+
+    async deletePriceListEntries(ids) {
+      await write([STORES.PRICE_LIST], tx => {
+        const store = tx.objectStore(STORES.PRICE_LIST);
+        ids.forEach(id => store.delete(id));
+      });
+    },
+
+    // Route Management
+    async getRouteInfos() {
+      return (await getAll<RouteInfo>(STORES.ROUTE_INFOS)).sort(byCreatedAt);
+    },
+
+    async saveRouteInfo(routeInfo) {
+      await write([STORES.ROUTE_INFOS], tx => {
+        tx.objectStore(STORES.ROUTE_INFOS).add(routeInfo);
+      });
+    },
+
+    async updateRouteInfo(id, routeData) {
+      await updateRecord<RouteInfo>(STORES.ROUTE_INFOS, id, routeData);
+    },
+
+    async deleteRouteInfo(id) {
+      await deleteRecord(STORES.ROUTE_INFOS, id);
+    },
+
+    // Route sheets
+    async getSheetHistory() {
+      return (await getAll<SheetRecord>(STORES.SHEETS)).sort(byCreatedAt);
+    },
+
+    async getSheetById(id) {
+      return (await getOne<SheetRecord>(STORES.SHEETS, id)) || null;
+    },
+
+    async saveSheetRecord(sheet) {
+      await write([STORES.SHEETS], tx => {
+        tx.objectStore(STORES.SHEETS).add(sheet);
+      });
+      return sheet.id;
+    },
+
+    async updateSheetRecord(id, updates) {
+      await updateRecord<SheetRecord>(STORES.SHEETS, id, updates);
+    },
+
+    async deleteSheetRecord(id) {
+      await deleteRecord(STORES.SHEETS, id);
+    },
+
+    // A single IndexedDB transaction; aborting it discards every write
+    async commitSheetClose(plan) {
+      await write([STORES.SHEETS, STORES.INVOICES, STORES.TRANSACTIONS, STORES.STOCK_MOVEMENTS, STORES.META], async tx => {
+        const sheets = tx.objectStore(STORES.SHEETS);
+        const sheet = await requestResult(sheets.get(plan.sheetId) as IDBRequest<SheetRecord | undefined>);
+        if (!sheet) {
+          throw new Error(`Sheet with ID ${plan.sheetId} not found`);
+        }
+        if (sheet.status === 'closed') {
+          throw new Error('Sheet is already closed');
+        }
+
+        const invoiceNumbers: Record<string, string> = {};
+        for (const invoice of plan.invoices) {
+          invoiceNumbers[invoice.customerId] = (await insertInvoice(tx, invoice)).invoiceNumber;
+        }
+        plan.transactions.forEach(transaction => insertTransaction(tx, transaction.type === 'sale' && !transaction.invoiceNumber
+          ? { ...transaction, invoiceNumber: invoiceNumbers[transaction.customerId] }
+          : transaction));
+        insertStockMovements(tx, plan.stockMovements);
+        sheets.put({ ...sheet, status: 'closed', updatedAt: new Date() });
+      });
+    }
+  };
+
+  return adapter;
+};
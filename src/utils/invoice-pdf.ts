@@ -0,0 +1,416 @@
+import jsPDF from 'jspdf';
+import { format } from 'date-fns';
+import { Invoice, InvoiceItem, CreditNote, CompanySettings, Customer, AccountStatement, ReceivableAging } from '../types';
+import { getCompanySettingsWithAssets, getCustomerById, getTaxSummary, getStateCode, GST_STATES, AGING_BUCKETS } from './supabase-storage';
+
+// Standard fonts have no rupee glyph
+const formatAmount = (amount: number): string => `Rs. ${amount.toFixed(2)}`;
+
+const PAGE_WIDTH = 210; // A4 portrait
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// Company block and document title; returns the y position below it
+const addDocumentHeader = (
+  pdf: jsPDF,
+  companySettings: CompanySettings,
+  title: string,
+  details: string[]
+): number => {
+  pdf.setLineWidth(0.2);
+
+  if (companySettings.logo) {
+    try {
+      const imageFormat = companySettings.logo.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+      pdf.addImage(companySettings.logo, imageFormat, MARGIN, MARGIN, 18, 18);
+    } catch (error) {
+      console.error('Error adding logo to PDF:', error);
+    }
+  }
+
+  pdf.setFontSize(16);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(companySettings.companyName || 'Aqua Prime Retail', PAGE_WIDTH / 2, MARGIN + 5, { align: 'center' });
+
+  pdf.setFontSize(9);
+  pdf.setFont('helvetica', 'normal');
+  const contactLine = [companySettings.phone, companySettings.email].filter(Boolean).join(' | ');
+  if (companySettings.address) {
+    pdf.text(companySettings.address, PAGE_WIDTH / 2, MARGIN + 11, { align: 'center' });
+  }
+  if (contactLine) {
+    pdf.text(contactLine, PAGE_WIDTH / 2, MARGIN + 16, { align: 'center' });
+  }
+  if (companySettings.gstin) {
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(`GSTIN: ${companySettings.gstin}`, PAGE_WIDTH - MARGIN, MARGIN + 5, { align: 'right' });
+    pdf.setFont('helvetica', 'normal');
+  }
+
+  pdf.line(MARGIN, MARGIN + 20, PAGE_WIDTH - MARGIN, MARGIN + 20);
+
+  pdf.setFontSize(14);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(title, MARGIN, MARGIN + 30);
+
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  details.forEach((line, index) => {
+    pdf.text(line, PAGE_WIDTH - MARGIN, MARGIN + 28 + index * 5, { align: 'right' });
+  });
+
+  return MARGIN + 32 + details.length * 5;
+};
+
+// Customer and route lines, with the customer's GSTIN and place of supply
+// when GST applies; returns the y position below them
+const addPartyDetails = (
+  pdf: jsPDF,
+  y: number,
+  document: { customerName: string; customerId: string; routeId?: string; routeName?: string; sheetId?: string },
+  gst?: { customer?: Customer; companySettings: CompanySettings }
+): number => {
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Bill To:', MARGIN, y);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(`${document.customerName} (ID: ${document.customerId})`, MARGIN, y + 5);
+
+  let lineY = y + 5;
+  if (gst?.customer?.gstin) {
+    lineY += 5;
+    pdf.text(`GSTIN: ${gst.customer.gstin}`, MARGIN, lineY);
+  }
+  const placeOfSupply = gst && (getStateCode(gst.customer || {}) || getStateCode(gst.companySettings));
+  if (placeOfSupply) {
+    lineY += 5;
+    pdf.text(`Place of Supply: ${GST_STATES[placeOfSupply] || placeOfSupply} (${placeOfSupply})`, MARGIN, lineY);
+  }
+  if (document.routeName && document.routeName !== 'No route') {
+    lineY += 5;
+    pdf.text(`Route: ${document.routeId} - ${document.routeName}`, MARGIN, lineY);
+  }
+  if (document.sheetId) {
+    lineY += 5;
+    pdf.text(`Sheet: ${document.sheetId}`, MARGIN, lineY);
+  }
+
+  return lineY + 9;
+};
+
+// Whether any line has GST worked out on it
+const hasTax = (items: InvoiceItem[]): boolean => items.some(item => item.taxableValue !== undefined && (item.gstRate || 0) > 0);
+
+// Whether any line was discounted or given free
+const hasDiscount = (items: InvoiceItem[]): boolean => items.some(item => (item.discountAmount || 0) > 0);
+
+interface ItemColumn {
+  header: string;
+  width: number; // 0 for the product column, which takes the remaining width
+  value: (item: InvoiceItem, index: number) => string;
+}
+
+// Item lines as a bordered table. HSN, GST rate and taxable value columns are
+// added when GST applies, and a discount column when any line has one; free
+// lines are marked as such. Returns the y position below the table.
+const addItemsTable = (pdf: jsPDF, y: number, items: InvoiceItem[]): number => {
+  const withTax = hasTax(items);
+  const columns: ItemColumn[] = [
+    { header: '#', width: 10, value: (_, index) => (index + 1).toString() },
+    { header: 'Product', width: 0, value: item => item.isFree ? `${item.productName} (Free)` : item.productName },
+    ...(withTax ? [{ header: 'HSN', width: 18, value: (item: InvoiceItem) => item.hsnCode || '' }] : []),
+    { header: 'Qty', width: withTax ? 14 : 20, value: item => item.quantity.toString() },
+    { header: 'Rate', width: withTax ? 20 : 25, value: item => item.price.toFixed(2) },
+    ...(hasDiscount(items) ? [{ header: 'Disc.', width: 20, value: (item: InvoiceItem) => item.discountAmount ? item.discountAmount.toFixed(2) : '' }] : []),
+    ...(withTax ? [
+      { header: 'GST %', width: 14, value: (item: InvoiceItem) => `${item.gstRate || 0}` },
+      { header: 'Taxable', width: 24, value: (item: InvoiceItem) => (item.taxableValue ?? item.total).toFixed(2) }
+    ] : []),
+    { header: 'Amount', width: withTax ? 24 : 30, value: item => item.total.toFixed(2) }
+  ];
+  const fixedWidth = columns.reduce((sum, column) => sum + column.width, 0);
+  const colWidths = columns.map(column => column.width || CONTENT_WIDTH - fixedWidth);
+  const rowHeight = 7;
+
+  const drawRow = (cells: string[], rowY: number, bold: boolean) => {
+    let x = MARGIN;
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    cells.forEach((cell, index) => {
+      pdf.rect(x, rowY, colWidths[index], rowHeight);
+      if (index === 1) {
+        pdf.text(cell, x + 2, rowY + 5);
+      } else {
+        pdf.text(cell, x + colWidths[index] - 2, rowY + 5, { align: 'right' });
+      }
+      x += colWidths[index];
+    });
+  };
+
+  drawRow(columns.map(column => column.header), y, true);
+  let rowY = y + rowHeight;
+
+  items.forEach((item, index) => {
+    drawRow(columns.map(column => column.value(item, index)), rowY, false);
+    rowY += rowHeight;
+  });
+
+  return rowY + 5;
+};
+
+// Discounts taken off the paid lines; free lines are shown but not counted
+const getDiscountTotals = (items: InvoiceItem[]): { label: string; value: number }[] => {
+  const paidItems = items.filter(item => !item.isFree);
+  const discount = paidItems.reduce((sum, item) => sum + (item.discountAmount || 0), 0);
+  if (discount <= 0) return [];
+  return [
+    { label: 'Gross Amount', value: paidItems.reduce((sum, item) => sum + item.quantity * item.price, 0) },
+    { label: 'Less: Discount', value: -discount }
+  ];
+};
+
+// Taxable value and the GST heads charged, for the totals block
+const getTaxTotals = (items: InvoiceItem[]): { label: string; value: number }[] => {
+  const summary = getTaxSummary(items);
+  return [
+    { label: 'Taxable Value', value: summary.taxableValue },
+    ...(summary.cgst > 0 ? [{ label: 'CGST', value: summary.cgst }, { label: 'SGST', value: summary.sgst }] : []),
+    ...(summary.igst > 0 ? [{ label: 'IGST', value: summary.igst }] : [])
+  ];
+};
+
+// Right-aligned label/value pairs; returns the y position below them
+const addTotals = (pdf: jsPDF, y: number, totals: { label: string; value: number; bold?: boolean }[]): number => {
+  const labelX = PAGE_WIDTH - MARGIN - 70;
+  let lineY = y;
+
+  totals.forEach(({ label, value, bold }) => {
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    pdf.text(label, labelX, lineY);
+    pdf.text(formatAmount(value), PAGE_WIDTH - MARGIN, lineY, { align: 'right' });
+    lineY += 6;
+  });
+
+  return lineY;
+};
+
+// Single invoice on A4 portrait; cancelled invoices carry a CANCELLED stamp and the void reason
+export const generateInvoicePDF = async (invoice: Invoice): Promise<void> => {
+  const [companySettings, customer] = await Promise.all([getCompanySettingsWithAssets(), getCustomerById(invoice.customerId)]);
+  const pdf = new jsPDF('portrait', 'mm', 'a4');
+  const isCancelled = invoice.status === 'cancelled';
+  const withTax = hasTax(invoice.items);
+
+  let y = addDocumentHeader(pdf, companySettings, withTax ? 'TAX INVOICE' : 'INVOICE', [
+    `Invoice No: ${invoice.invoiceNumber}`,
+    `Date: ${format(new Date(invoice.date), 'dd/MM/yyyy')}`
+  ]);
+  y = addPartyDetails(pdf, y, invoice, withTax ? { customer, companySettings } : undefined);
+  y = addItemsTable(pdf, y, invoice.items);
+  y = addTotals(pdf, y, [
+    ...getDiscountTotals(invoice.items),
+    ...(withTax ? getTaxTotals(invoice.items) : [{ label: 'Subtotal', value: invoice.subtotal }]),
+    { label: 'Total', value: invoice.totalAmount, bold: true },
+    { label: 'Cash Received', value: invoice.cashAmount || 0 },
+    { label: 'UPI Received', value: invoice.upiAmount || 0 },
+    { label: 'Balance Due', value: invoice.balanceChange, bold: true }
+  ]);
+
+  if (isCancelled) {
+    // Stamp across the page
+    pdf.setTextColor(220, 38, 38);
+    pdf.setFontSize(60);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('CANCELLED', PAGE_WIDTH / 2 - 60, 190, { angle: 30 });
+
+    pdf.setFontSize(10);
+    pdf.text('This invoice has been voided.', MARGIN, y + 8);
+    pdf.setFont('helvetica', 'normal');
+    if (invoice.cancelledAt) {
+      pdf.text(`Cancelled on: ${format(new Date(invoice.cancelledAt), 'dd/MM/yyyy HH:mm')}`, MARGIN, y + 14);
+    }
+    if (invoice.cancellationReason) {
+      const reasonLines = pdf.splitTextToSize(`Reason: ${invoice.cancellationReason}`, CONTENT_WIDTH);
+      pdf.text(reasonLines, MARGIN, y + 20);
+    }
+    pdf.setTextColor(0, 0, 0);
+  }
+
+  pdf.save(`Invoice-${invoice.invoiceNumber}${isCancelled ? '-CANCELLED' : ''}.pdf`);
+};
+
+// Credit note for returned items, referencing the original invoice
+export const generateCreditNotePDF = async (creditNote: CreditNote): Promise<void> => {
+  const [companySettings, customer] = await Promise.all([getCompanySettingsWithAssets(), getCustomerById(creditNote.customerId)]);
+  const pdf = new jsPDF('portrait', 'mm', 'a4');
+  const withTax = hasTax(creditNote.items);
+
+  let y = addDocumentHeader(pdf, companySettings, 'CREDIT NOTE', [
+    `Credit Note No: ${creditNote.creditNoteNumber}`,
+    `Date: ${format(new Date(creditNote.date), 'dd/MM/yyyy')}`,
+    `Against Invoice: ${creditNote.invoiceNumber}`
+  ]);
+  y = addPartyDetails(pdf, y, creditNote, withTax ? { customer, companySettings } : undefined);
+  y = addItemsTable(pdf, y, creditNote.items);
+  y = addTotals(pdf, y, [
+    ...(withTax ? getTaxTotals(creditNote.items) : []),
+    { label: 'Credit Amount', value: creditNote.totalAmount, bold: true }
+  ]);
+
+  if (creditNote.reason) {
+    pdf.setFont('helvetica', 'normal');
+    const reasonLines = pdf.splitTextToSize(`Reason for return: ${creditNote.reason}`, CONTENT_WIDTH);
+    pdf.text(reasonLines, MARGIN, y + 6);
+  }
+
+  pdf.save(`CreditNote-${creditNote.creditNoteNumber}.pdf`);
+};
+
+// Statement lines with their running balance as a bordered table; long
+// descriptions wrap, and the header row is repeated on each new page.
+// Returns the y position below the table.
+const addStatementTable = (pdf: jsPDF, y: number, statement: AccountStatement): number => {
+  const colWidths = [22, 34, 0, 25, 25, 28];
+  colWidths[2] = CONTENT_WIDTH - colWidths.reduce((sum, width) => sum + width, 0);
+  const wrapDescription = (text: string): string[] => pdf.splitTextToSize(text, colWidths[2] - 4);
+  const getRowHeight = (lines: string[]): number => Math.max(7, lines.length * 4.5 + 2.5);
+
+  const drawRow = (cells: string[], rowY: number, bold: boolean): number => {
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    const description = wrapDescription(cells[2]);
+    const rowHeight = getRowHeight(description);
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      pdf.rect(x, rowY, colWidths[index], rowHeight);
+      if (index === 2) {
+        pdf.text(description, x + 2, rowY + 5);
+      } else if (index < 2) {
+        pdf.text(cell, x + 2, rowY + 5);
+      } else {
+        pdf.text(cell, x + colWidths[index] - 2, rowY + 5, { align: 'right' });
+      }
+      x += colWidths[index];
+    });
+    return rowY + rowHeight;
+  };
+
+  const header = ['Date', 'Reference', 'Description', 'Debit', 'Credit', 'Balance'];
+  pdf.setFontSize(9);
+  let rowY = drawRow(header, y, true);
+  rowY = drawRow([format(statement.from, 'dd/MM/yyyy'), '', 'Opening balance', '', '', statement.openingBalance.toFixed(2)], rowY, false);
+
+  statement.lines.forEach(line => {
+    const cells = [
+      format(line.date, 'dd/MM/yyyy'),
+      line.reference,
+      line.description,
+      line.debit ? line.debit.toFixed(2) : '',
+      line.credit ? line.credit.toFixed(2) : '',
+      line.balance.toFixed(2)
+    ];
+    if (rowY + getRowHeight(wrapDescription(line.description)) > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage();
+      rowY = drawRow(header, MARGIN, true);
+    }
+    rowY = drawRow(cells, rowY, false);
+  });
+
+  pdf.setFontSize(10);
+  return rowY + 8;
+};
+
+// Customer account statement for a period: opening balance, every sale,
+// payment and adjustment with its running balance, and the closing balance
+export const generateAccountStatementPDF = async (statement: AccountStatement): Promise<void> => {
+  const companySettings = await getCompanySettingsWithAssets();
+  const pdf = new jsPDF('portrait', 'mm', 'a4');
+  const { customer } = statement;
+
+  let y = addDocumentHeader(pdf, companySettings, 'ACCOUNT STATEMENT', [
+    `Period: ${format(statement.from, 'dd/MM/yyyy')} to ${format(statement.to, 'dd/MM/yyyy')}`,
+    `Generated: ${format(new Date(), 'dd/MM/yyyy')}`
+  ]);
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Customer:', MARGIN, y);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(`${customer.name} (ID: ${customer.id})`, MARGIN, y + 5);
+  const contactLines = [customer.phone && `Phone: ${customer.phone}`, customer.address, customer.route && `Route: ${customer.route}`]
+    .filter((line): line is string => Boolean(line));
+  contactLines.forEach((line, index) => pdf.text(line, MARGIN, y + 10 + index * 5));
+  y += 14 + contactLines.length * 5;
+
+  y = addStatementTable(pdf, y, statement);
+  if (y + 30 > PAGE_HEIGHT - MARGIN) {
+    pdf.addPage();
+    y = MARGIN + 5;
+  }
+  y = addTotals(pdf, y, [
+    { label: 'Opening Balance', value: statement.openingBalance },
+    { label: 'Total Debits', value: statement.totalDebit },
+    { label: 'Total Credits', value: statement.totalCredit },
+    { label: statement.closingBalance < 0 ? 'Closing Balance (Advance)' : 'Closing Balance', value: statement.closingBalance, bold: true }
+  ]);
+
+  pdf.save(`Statement-${customer.id}-${format(statement.from, 'yyyyMMdd')}-${format(statement.to, 'yyyyMMdd')}.pdf`);
+};
+
+// Receivables aging for the customers given, in their order, with a totals row
+export const generateAgingReportPDF = async (rows: ReceivableAging[], routeLabel: string): Promise<void> => {
+  const companySettings = await getCompanySettingsWithAssets();
+  const pdf = new jsPDF('portrait', 'mm', 'a4');
+  const asOf = new Date();
+
+  let y = addDocumentHeader(pdf, companySettings, 'RECEIVABLES AGING', [
+    `As of: ${format(asOf, 'dd/MM/yyyy')}`,
+    `Route: ${routeLabel}`
+  ]);
+
+  const colWidths = [0, 18, 24, 24, 24, 24, 26];
+  colWidths[0] = CONTENT_WIDTH - colWidths.reduce((sum, width) => sum + width, 0);
+  const rowHeight = 7;
+
+  const drawRow = (cells: string[], rowY: number, bold: boolean) => {
+    let x = MARGIN;
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    cells.forEach((cell, index) => {
+      pdf.rect(x, rowY, colWidths[index], rowHeight);
+      if (index < 2) {
+        const text: string[] = pdf.splitTextToSize(cell, colWidths[index] - 4);
+        pdf.text(text[0] || '', x + 2, rowY + 5);
+      } else {
+        pdf.text(cell, x + colWidths[index] - 2, rowY + 5, { align: 'right' });
+      }
+      x += colWidths[index];
+    });
+  };
+
+  const header = ['Customer', 'Route', ...AGING_BUCKETS.map(bucket => bucket.label), 'Total'];
+  pdf.setFontSize(9);
+  drawRow(header, y, true);
+  y += rowHeight;
+
+  rows.forEach(row => {
+    if (y + rowHeight > PAGE_HEIGHT - MARGIN - rowHeight) {
+      pdf.addPage();
+      y = MARGIN;
+      drawRow(header, y, true);
+      y += rowHeight;
+    }
+    drawRow([
+      `${row.customer.name} (${row.customer.id})`,
+      row.customer.route || '-',
+      ...AGING_BUCKETS.map(bucket => row[bucket.key] ? row[bucket.key].toFixed(2) : ''),
+      row.total.toFixed(2)
+    ], y, false);
+    y += rowHeight;
+  });
+
+  drawRow([
+    `Total (${rows.length} customers)`,
+    '',
+    ...AGING_BUCKETS.map(bucket => rows.reduce((sum, row) => sum + row[bucket.key], 0).toFixed(2)),
+    rows.reduce((sum, row) => sum + row.total, 0).toFixed(2)
+  ], y, true);
+
+  pdf.save(`Receivables-Aging-${format(asOf, 'yyyyMMdd')}.pdf`);
+};
@@ -0,0 +1,198 @@
+import * as local from './storage';
+import { StorageAdapter } from './storage-adapter';
+
+// Browser localStorage backend built on the synchronous helpers in storage.ts
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  mode: 'localStorage',
+
+  async initializeDefaultData() {
+    local.initializeDefaultData();
+  },
+
+  // Company Settings
+  async getCompanySettings() {
+    return local.getCompanySettings();
+  },
+
+  async saveCompanySettings(settings) {
+    local.saveCompanySettings(settings);
+  },
+
+  // Products
+  async getProducts() {
+    return local.getProducts();
+  },
+
+  async saveProducts(products) {
+    local.saveProducts(products);
+  },
+
+  async addProduct(product) {
+    return local.addProduct(product);
+  },
+
+  async updateProduct(id, updates) {
+    local.updateProduct(id, updates);
+  },
+
+  async deleteProduct(id) {
+    local.deleteProduct(id);
+  },
+
+  // Customers
+  async getCustomers() {
+    return local.getCustomers();
+  },
+
+  async addCustomer(customer) {
+    return local.addCustomer(customer);
+  },
+
+  async updateCustomer(id, updates) {
+    local.updateCustomer(id, updates);
+  },
+
+  async setRouteSequence(route, customerIds) {
+    local.runWithRollback(() => {
+      const customers = local.getCustomers();
+      customerIds.forEach((id, index) => {
+        const customer = customers.find(c => c.id === id);
+        if (customer && customer.route === route && customer.routeSequence !== index + 1) {
+          local.updateCustomer(id, { routeSequence: index + 1 });
+        }
+      });
+    });
+  },
+
+  async deleteCustomer(id) {
+    local.deleteCustomer(id);
+  },
+
+  // Invoices and transactions
+  async getInvoices() {
+    return local.getInvoices();
+  },
+
+  async commitInvoice(plan) {
+    return local.runWithRollback(() => {
+      const invoice = local.addInvoice(plan.invoice);
+      local.addTransaction({ ...plan.transaction, invoiceNumber: invoice.invoiceNumber });
+      local.addStockMovements(plan.stockMovements.map(m => ({ ...m, reference: m.reference || invoice.invoiceNumber })));
+      return invoice;
+    });
+  },
+
+  async commitInvoiceVoid(plan) {
+    local.runWithRollback(() => {
+      const invoice = local.getInvoices().find(i => i.id === plan.invoiceId);
+      if (!invoice) {
+        throw new Error(`Invoice with ID ${plan.invoiceId} not found`);
+      }
+      if (invoice.status === 'cancelled') {
+        throw new Error('Invoice is already cancelled');
+      }
+
+      local.updateInvoice(plan.invoiceId, { status: 'cancelled', cancellationReason: plan.reason, cancelledAt: plan.cancelledAt });
+      local.addTransaction(plan.reversal);
+      local.addStockMovements(plan.stockMovements);
+    });
+  },
+
+  async getCreditNotes() {
+    return local.getCreditNotes();
+  },
+
+  async commitCreditNote(plan) {
+    return local.runWithRollback(() => {
+      const creditNoteNumber = local.addCreditNote(plan.creditNote);
+      local.addTransaction({ ...plan.transaction, invoiceNumber: creditNoteNumber });
+      local.addStockMovements(plan.stockMovements.map(m => ({ ...m, reference: m.reference || creditNoteNumber })));
+      return creditNoteNumber;
+    });
+  },
+
+  async getTransactions() {
+    return local.getTransactions();
+  },
+
+  async addTransaction(transaction) {
+    local.addTransaction(transaction);
+  },
+
+  // Stock ledger
+  async getStockMovements() {
+    return local.getStockMovements();
+  },
+
+  async addStockMovements(movements) {
+    local.addStockMovements(movements);
+  },
+
+  // Price lists
+  async getPriceListEntries() {
+    return local.getPriceListEntries();
+  },
+
+  async addPriceListEntries(entries) {
+    local.addPriceListEntries(entries);
+  },
+
+  async deletePriceListEntries(ids) {
+    local.deletePriceListEntries(ids);
+  },
+
+  // Route Management
+  async getRouteInfos() {
+    return local.getRouteInfos();
+  },
+
+  async saveRouteInfo(routeInfo) {
+    local.addRouteInfo(routeInfo);
+  },
+
+  async updateRouteInfo(id, routeData) {
+    local.updateRouteInfo(id, routeData);
+  },
+
+  async deleteRouteInfo(id) {
+    local.deleteRouteInfo(id);
+  },
+
+  // Route sheets
+  async getSheetHistory() {
+    return local.getSheetRecords();
+  },
+
+  async getSheetById(id) {
+    return local.getSheetRecords().find(sheet => sheet.id === id) || null;
+  },
+
+  async saveSheetRecord(sheet) {
+    local.addSheetRecord(sheet);
+    return sheet.id;
+  },
+
+  async updateSheetRecord(id, updates) {
+    local.updateSheetRecord(id, updates);
+  },
+
+  async deleteSheetRecord(id) {
+    local.deleteSheetRecord(id);
+  },
+
+  // Restore every touched key if any write fails
+  async commitSheetClose(plan) {
+    local.runWithRollback(() => {
+      if (local.getSheetRecords().find(sheet => sheet.id === plan.sheetId)?.status === 'closed') {
+        throw new Error('Sheet is already closed');
+      }
+
+      const invoiceNumbers = Object.fromEntries(plan.invoices.map(invoice => [invoice.customerId, local.addInvoice(invoice).invoiceNumber]));
+      plan.transactions.forEach(transaction => local.addTransaction(transaction.type === 'sale' && !transaction.invoiceNumber
+        ? { ...transaction, invoiceNumber: invoiceNumbers[transaction.customerId] }
+        : transaction));
+      local.addStockMovements(plan.stockMovements);
+      local.updateSheetRecord(plan.sheetId, { status: 'closed' });
+    });
+  }
+});
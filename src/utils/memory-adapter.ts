@@ -0,0 +1,306 @@
+import { Customer, Transaction, Invoice, Product, CompanySettings, RouteInfo, SheetRecord, CreditNote, StockMovement, PriceListEntry } from '../types';
+import { StorageAdapter, NewInvoice, NewTransaction, NewStockMovement } from './storage-adapter';
+
+export interface MemoryStorageData {
+  companySettings: CompanySettings;
+  products: Product[];
+  customers: Customer[];
+  invoices: Invoice[];
+  transactions: Transaction[];
+  routeInfos: RouteInfo[];
+  sheets: SheetRecord[];
+  creditNotes: CreditNote[];
+  stockMovements: StockMovement[];
+  priceListEntries: PriceListEntry[];
+}
+
+// Highest number in a list of ids or document numbers, e.g. 5 for INV00005
+const highestNumber = (values: string[], prefix: string, fallback: number): number => {
+  return values
+    .filter(value => value.startsWith(prefix))
+    .map(value => parseInt(value.slice(prefix.length), 10))
+    .filter(n => !isNaN(n))
+    .reduce((max, n) => Math.max(max, n), fallback);
+};
+
+// Non-persistent backend for tests and demos; state lives only as long as the adapter
+export const createMemoryAdapter = (seed: Partial<MemoryStorageData> = {}): StorageAdapter => {
+  let data: MemoryStorageData = {
+    companySettings: {
+      companyName: '',
+      address: '',
+      phone: '',
+      email: '',
+      updatedAt: new Date()
+    },
+    products: [],
+    customers: [],
+    invoices: [],
+    transactions: [],
+    routeInfos: [],
+    sheets: [],
+    creditNotes: [],
+    stockMovements: [],
+    priceListEntries: [],
+    ...seed
+  };
+
+  // Numbering carries on from any seeded records, as the other backends' counters do
+  let counters = {
+    customer: highestNumber(data.customers.map(c => c.id), '', 100000),
+    invoice: highestNumber(data.invoices.map(i => i.invoiceNumber), 'INV', 0),
+    creditNote: highestNumber(data.creditNotes.map(c => c.creditNoteNumber), 'CN', 0),
+    id: 0
+  };
+
+  const nextId = () => `MEM-${++counters.id}`;
+
+  // Apply several changes as one unit: a throw puts the data and counters back
+  const runWithRollback = <T>(operation: () => T): T => {
+    const snapshot = { data, counters: { ...counters } };
+    try {
+      return operation();
+    } catch (error) {
+      data = snapshot.data;
+      counters = snapshot.counters;
+      throw error;
+    }
+  };
+
+  const addInvoice = (invoice: NewInvoice): Invoice => {
+    const invoiceNumber = `INV${(++counters.invoice).toString().padStart(5, '0')}`;
+    const stored = { ...invoice, id: nextId(), invoiceNumber };
+    data = { ...data, invoices: [...data.invoices, stored] };
+    return stored;
+  };
+
+  const addTransaction = (transaction: NewTransaction): void => {
+    data = { ...data, transactions: [...data.transactions, { ...transaction, id: nextId() }] };
+  };
+
+  const addStockMovements = (movements: NewStockMovement[]): void => {
+    data = { ...data, stockMovements: [...data.stockMovements, ...movements.map(m => ({ ...m, id: nextId() }))] };
+  };
+
+  const updateCustomer = (id: string, updates: Partial<Customer>): void => {
+    data = { ...data, customers: data.customers.map(c => c.id === id ? { ...c, ...updates, updatedAt: new Date() } : c) };
+  };
+
+  const updateSheetRecord = (id: string, updates: Partial<SheetRecord>): void => {
+    data = { ...data, sheets: data.sheets.map(s => s.id === id ? { ...s, ...updates, updatedAt: new Date() } : s) };
+  };
+
+  return {
+    mode: 'memory',
+
+    async initializeDefaultData() {
+      // Nothing to seed; tests pass their own data
+    },
+
+    // Company Settings
+    async getCompanySettings() {
+      return { ...data.companySettings };
+    },
+
+    async saveCompanySettings(settings) {
+      data = { ...data, companySettings: { ...settings } };
+    },
+
+    // Products
+    async getProducts() {
+      return [...data.products];
+    },
+
+    async saveProducts(products) {
+      data = { ...data, products: [...products] };
+    },
+
+    async addProduct(product) {
+      const newProduct: Product = { ...product, id: nextId(), createdAt: new Date(), updatedAt: new Date() };
+      data = { ...data, products: [...data.products, newProduct] };
+      return newProduct;
+    },
+
+    async updateProduct(id, updates) {
+      data = { ...data, products: data.products.map(p => p.id === id ? { ...p, ...updates, updatedAt: new Date() } : p) };
+    },
+
+    async deleteProduct(id) {
+      data = { ...data, products: data.products.filter(p => p.id !== id) };
+    },
+
+    // Customers
+    async getCustomers() {
+      return [...data.customers];
+    },
+
+    async addCustomer(customer) {
+      const newCustomer: Customer = {
+        ...customer,
+        id: (++counters.customer).toString(),
+        outstandingAmount: customer.openingBalance,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      data = { ...data, customers: [...data.customers, newCustomer] };
+      return newCustomer;
+    },
+
+    async updateCustomer(id, updates) {
+      updateCustomer(id, updates);
+    },
+
+    async setRouteSequence(route, customerIds) {
+      runWithRollback(() => customerIds.forEach((id, index) => {
+        const customer = data.customers.find(c => c.id === id);
+        if (customer && customer.route === route && customer.routeSequence !== index + 1) {
+          updateCustomer(id, { routeSequence: index + 1 });
+        }
+      }));
+    },
+
+    async deleteCustomer(id) {
+      data = { ...data, customers: data.customers.filter(c => c.id !== id) };
+    },
+
+    // Invoices and transactions
+    async getInvoices() {
+      return [...data.invoices];
+    },
+
+    async commitInvoice(plan) {
+      return runWithRollback(() => {
+        const invoice = addInvoice(plan.invoice);
+        addTransaction({ ...plan.transaction, invoiceNumber: invoice.invoiceNumber });
+        addStockMovements(plan.stockMovements.map(m => ({ ...m, reference: m.reference || invoice.invoiceNumber })));
+        return invoice;
+      });
+    },
+
+    async commitInvoiceVoid(plan) {
+      runWithRollback(() => {
+        const invoice = data.invoices.find(i => i.id === plan.invoiceId);
+        if (!invoice) {
+          throw new Error(`Invoice with ID ${plan.invoiceId} not found`);
+        }
+        if (invoice.status === 'cancelled') {
+          throw new Error('Invoice is already cancelled');
+        }
+
+        data = {
+          ...data,
+          invoices: data.invoices.map(i => i.id === plan.invoiceId
+            ? { ...i, status: 'cancelled' as const, cancellationReason: plan.reason, cancelledAt: plan.cancelledAt }
+            : i)
+        };
+        addTransaction(plan.reversal);
+        addStockMovements(plan.stockMovements);
+      });
+    },
+
+    async getCreditNotes() {
+      return [...data.creditNotes];
+    },
+
+    async commitCreditNote(plan) {
+      return runWithRollback(() => {
+        const creditNoteNumber = `CN${(++counters.creditNote).toString().padStart(5, '0')}`;
+        data = { ...data, creditNotes: [...data.creditNotes, { ...plan.creditNote, id: nextId(), creditNoteNumber }] };
+        addTransaction({ ...plan.transaction, invoiceNumber: creditNoteNumber });
+        addStockMovements(plan.stockMovements.map(m => ({ ...m, reference: m.reference || creditNoteNumber })));
+        return creditNoteNumber;
+      });
+    },
+
+    async getTransactions() {
+      return [...data.transactions];
+    },
+
+    async addTransaction(transaction) {
+      addTransaction(transaction);
+    },
+
+    // Stock ledger
+    async getStockMovements() {
+      return [...data.stockMovements];
+    },
+
+    async addStockMovements(movements) {
+      addStockMovements(movements);
+    },
+
+    // Price lists
+    async getPriceListEntries() {
+      return [...data.priceListEntries];
+    },
+
+    async addPriceListEntries(entries) {
+      data = { ...data, priceListEntries: [...data.priceListEntries, ...entries.map(e => ({ ...e, id: nextId(), createdAt: new Date() }))] };
+    },
+
+    async deletePriceListEntries(ids) {
+      data = { ...data, priceListEntries: data.priceListEntries.filter(e => !ids.includes(e.id)) };
+    },
+
+    // Route Management
+    async getRouteInfos() {
+      return [...data.routeInfos];
+    },
+
+    async saveRouteInfo(routeInfo) {
+      data = { ...data, routeInfos: [...data.routeInfos, routeInfo] };
+    },
+
+    async updateRouteInfo(id, routeData) {
+      data = { ...data, routeInfos: data.routeInfos.map(r => r.id === id ? { ...r, ...routeData, updatedAt: new Date() } : r) };
+    },
+
+    async deleteRouteInfo(id) {
+      data = { ...data, routeInfos: data.routeInfos.filter(r => r.id !== id) };
+    },
+
+    // Route sheets
+    async getSheetHistory() {
+      return [...data.sheets];
+    },
+
+    async getSheetById(id) {
+      return data.sheets.find(s => s.id === id) || null;
+    },
+
+    async saveSheetRecord(sheet) {
+      data = { ...data, sheets: [...data.sheets, sheet] };
+      return sheet.id;
+    },
+
+    async updateSheetRecord(id, updates) {
+      updateSheetRecord(id, updates);
+    },
+
+    async deleteSheetRecord(id) {
+      data = { ...data, sheets: data.sheets.filter(s => s.id !== id) };
+    },
+
+    async commitSheetClose(plan) {
+      runWithRollback(() => {
+        const sheet = data.sheets.find(s => s.id === plan.sheetId);
+        if (!sheet) {
+          throw new Error(`Sheet with ID ${plan.sheetId} not found`);
+        }
+        if (sheet.status === 'closed') {
+          throw new Error('Sheet is already closed');
+        }
+
+        const invoiceNumbers: Record<string, string> = {};
+        plan.invoices.forEach(invoice => {
+          invoiceNumbers[invoice.customerId] = addInvoice(invoice).invoiceNumber;
+        });
+        plan.transactions.forEach(transaction => addTransaction(transaction.type === 'sale' && !transaction.invoiceNumber
+          ? { ...transaction, invoiceNumber: invoiceNumbers[transaction.customerId] }
+          : transaction));
+        addStockMovements(plan.stockMovements);
+        updateSheetRecord(plan.sheetId, { status: 'closed' });
+      });
+    }
+  };
+};
@@ -0,0 +1,691 @@
+import { Customer, Transaction, Invoice, SheetRecord, Product, RouteInfo, CompanySettings, CompanyAssets, CreditNote, StockMovement, PriceListEntry } from '../types';
+import { StorageAdapter, NewTransaction, SheetClosePlan, InvoicePlan, InvoiceVoidPlan, CreditNotePlan, NewStockMovement } from './storage-adapter';
+
+// Offline write queue for the Supabase backend. Writes from sheet filling,
+// payments and invoices that cannot reach the server are kept in localStorage
+// and replayed in order once the connection returns. Each write carries its
+// entry id as the request id, so the server ignores a replay of a write it
+// committed before the connection dropped.
+
+const OUTBOX_KEY = 'sales_app_outbox';
+const CACHE_KEY_PREFIX = 'sales_app_offline_'; // One localStorage item per cached read
+const RETRY_INTERVAL = 30000; // Retry pending writes every 30 seconds
+const DATE_FIELDS = ['date', 'createdAt', 'updatedAt', 'cancelledAt', 'effectiveFrom', 'templateUploadedAt'];
+
+type OutboxPayload =
+  | { operation: 'commitInvoice'; plan: InvoicePlan; provisionalNumber: string }
+  | { operation: 'commitInvoiceVoid'; plan: InvoiceVoidPlan }
+  | { operation: 'commitCreditNote'; plan: CreditNotePlan; provisionalNumber: string }
+  | { operation: 'addTransaction'; transaction: NewTransaction }
+  | { operation: 'addStockMovements'; movements: NewStockMovement[] }
+  | { operation: 'updateCustomer'; customerId: string; updates: Partial<Customer> }
+  | { operation: 'setRouteSequence'; route: string; customerIds: string[] }
+  | { operation: 'saveSheetRecord'; sheet: SheetRecord }
+  | { operation: 'updateSheetRecord'; sheetId: string; updates: Partial<SheetRecord> }
+  | { operation: 'commitSheetClose'; plan: SheetClosePlan };
+
+export type OutboxEntry = OutboxPayload & {
+  id: string;
+  label: string;
+  status: 'pending' | 'failed'; // Failed entries hold back later writes for the same customers and sheets until retried or discarded
+  attempts: number;
+  lastError?: string;
+  createdAt: Date;
+};
+
+export interface OutboxStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  failed: number;
+  lastSyncAt: Date | null;
+}
+
+// Last successful reads, served while the server is unreachable. They are
+// kept in localStorage too, so the app still has data after a reload offline.
+interface ReadCache {
+  companySettings?: CompanySettings;
+  companyAssets?: CompanyAssets;
+  products?: Product[];
+  customers?: Customer[];
+  invoices?: Invoice[];
+  transactions?: Transaction[];
+  routeInfos?: RouteInfo[];
+  sheets?: SheetRecord[];
+  creditNotes?: CreditNote[];
+  stockMovements?: StockMovement[];
+  priceListEntries?: PriceListEntry[];
+  ledgerTotals?: Record<string, number>;
+}
+
+const parseWithDates = <T>(data: string): T => {
+  return JSON.parse(data, (key, value) =>
+    DATE_FIELDS.includes(key) && typeof value === 'string' ? new Date(value) : value
+  );
+};
+
+const loadEntries = (): OutboxEntry[] => {
+  try {
+    const data = localStorage.getItem(OUTBOX_KEY);
+    return data ? parseWithDates<OutboxEntry[]>(data) : [];
+  } catch (error) {
+    console.error('Error reading offline outbox:', error);
+    return [];
+  }
+};
+
+let entries: OutboxEntry[] = loadEntries();
+let target: StorageAdapter | null = null;
+let syncing = false;
+let lastSyncAt: Date | null = null;
+let syncHandler: ((customerIds: string[]) => Promise<void>) | null = null;
+const cache: ReadCache = {};
+const listeners = new Set<() => void>();
+
+const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine;
+
+const notify = () => listeners.forEach(listener => listener());
+
+const saveEntries = (next: OutboxEntry[]) => {
+  entries = next;
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  notify();
+};
+
+// Connection failures are retried; anything else is a real error from the server
+const isNetworkError = (error: unknown): boolean => {
+  if (!isOnline()) return true;
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /failed to fetch|fetch failed|networkerror|network request failed|load failed|timed? ?out/i.test(message);
+};
+
+const describe = (payload: OutboxPayload): string => {
+  switch (payload.operation) {
+    case 'commitInvoice':
+      return `Invoice ${payload.provisionalNumber} for ${payload.plan.invoice.customerName} (₹${payload.plan.invoice.totalAmount})`;
+    case 'commitInvoiceVoid':
+      return `Void invoice for ${payload.plan.reversal.customerName}: ${payload.plan.reason}`;
+    case 'commitCreditNote':
+      return `Credit note ${payload.provisionalNumber} on ${payload.plan.creditNote.invoiceNumber} (₹${payload.plan.creditNote.totalAmount})`;
+    case 'addTransaction':
+      return `Transaction (${payload.transaction.type}) of ₹${Math.abs(payload.transaction.balanceChange)} for ${payload.transaction.customerName}`;
+    case 'addStockMovements':
+      return `Stock movement (${payload.movements[0]?.type}) for ${payload.movements.map(m => m.productName).join(', ')}`;
+    case 'updateCustomer':
+      return `Update customer ${payload.customerId}`;
+    case 'setRouteSequence':
+      return `Stop order for route ${payload.route}`;
+    case 'saveSheetRecord':
+      return `New sheet for ${payload.sheet.routeName}`;
+    case 'updateSheetRecord':
+      return `Save sheet ${payload.sheetId}`;
+    case 'commitSheetClose':
+      return `Close sheet ${payload.plan.sheetId}`;
+  }
+};
+
+const customerIdsOf = (entry: OutboxPayload): string[] => {
+  switch (entry.operation) {
+    case 'commitInvoice':
+      return [entry.plan.invoice.customerId];
+    case 'commitInvoiceVoid':
+      return [entry.plan.reversal.customerId];
+    case 'commitCreditNote':
+      return [entry.plan.transaction.customerId];
+    case 'addTransaction':
+      return [entry.transaction.customerId];
+    case 'updateCustomer':
+      return [entry.customerId];
+    case 'setRouteSequence':
+      return entry.customerIds;
+    case 'commitSheetClose':
+      return [...new Set(entry.plan.transactions.map(transaction => transaction.customerId))];
+    default:
+      return [];
+  }
+};
+
+const sheetIdOf = (entry: OutboxPayload): string | undefined => {
+  switch (entry.operation) {
+    case 'commitInvoice':
+      return entry.plan.invoice.sheetId;
+    case 'commitInvoiceVoid':
+      return entry.plan.reversal.sheetId;
+    case 'commitCreditNote':
+      return entry.plan.creditNote.sheetId;
+    case 'addTransaction':
+      return entry.transaction.sheetId;
+    case 'saveSheetRecord':
+      return entry.sheet.id;
+    case 'updateSheetRecord':
+      return entry.sheetId;
+    case 'commitSheetClose':
+      return entry.plan.sheetId;
+    default:
+      return undefined;
+  }
+};
+
+// Customers and sheet a write touches. Later writes to any of them wait
+// behind a failed one, so they are never applied out of order.
+const scopesOf = (entry: OutboxPayload): string[] => {
+  const sheetId = sheetIdOf(entry);
+  return [
+    ...customerIdsOf(entry).map(id => `customer:${id}`),
+    ...(sheetId ? [`sheet:${sheetId}`] : [])
+  ];
+};
+
+const createEntry = (payload: OutboxPayload): OutboxEntry => ({
+  ...payload,
+  id: `OBX-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  label: describe(payload),
+  status: 'pending',
+  attempts: 0,
+  createdAt: new Date()
+});
+
+const enqueue = (entry: OutboxEntry) => {
+  console.log(`📥 Queued offline: ${entry.label}`);
+  saveEntries([...entries, entry]);
+};
+
+// Run a write now, or queue it when offline. Anything already queued for the
+// same customers or sheet goes first so the server sees writes in the order
+// they were made. The entry id is sent as the request id on the first try
+// too, in case the server commits it but the reply is lost.
+const runOrQueue = async <T>(payload: OutboxPayload, run: (requestId: string) => Promise<T>, queuedResult: (entry: OutboxEntry) => T): Promise<T> => {
+  const entry = createEntry(payload);
+  const scopes = scopesOf(entry);
+  const waiting = entries.some(e => (e.status === 'pending' || e.status === 'failed') && scopesOf(e).some(scope => scopes.includes(scope)));
+
+  if (isOnline() && !waiting) {
+    try {
+      return await run(entry.id);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  enqueue(entry);
+  return queuedResult(entry);
+};
+
+// Last read of a key, from memory or else from localStorage
+const getCached = <K extends keyof ReadCache>(key: K): ReadCache[K] => {
+  if (cache[key] === undefined) {
+    try {
+      const data = localStorage.getItem(CACHE_KEY_PREFIX + key);
+      if (data) cache[key] = parseWithDates<ReadCache[K]>(data);
+    } catch (error) {
+      console.error(`Error reading offline copy of ${key}:`, error);
+    }
+  }
+  return cache[key];
+};
+
+const cachedRead = async <K extends keyof ReadCache>(key: K, read: () => Promise<NonNullable<ReadCache[K]>>): Promise<NonNullable<ReadCache[K]>> => {
+  try {
+    const value = await read();
+    cache[key] = value;
+    try {
+      localStorage.setItem(CACHE_KEY_PREFIX + key, JSON.stringify(value));
+    } catch (error) {
+      // Out of space: the copy in memory still covers this session
+      console.warn(`Could not keep an offline copy of ${key}:`, error);
+    }
+    return value;
+  } catch (error) {
+    const cached = getCached(key);
+    if (cached !== undefined && isNetworkError(error)) {
+      console.warn(`📴 Offline - using last loaded ${key}`);
+      return cached as NonNullable<ReadCache[K]>;
+    }
+    throw error;
+  }
+};
+
+// Stand-in number for a customer's invoice on a queued sheet close, shared by
+// the invoice and its sale transaction until the server assigns the real one
+const provisionalSheetInvoiceNumber = (entry: OutboxEntry & { operation: 'commitSheetClose' }, customerId: string): string => {
+  return `OFFLINE-${entry.createdAt.getTime()}-${entry.plan.invoices.findIndex(i => i.customerId === customerId) + 1}`;
+};
+
+// Stand-in for a queued invoice until the server stores it; the entry id
+// serves as its id so voids and credit notes can refer to it meanwhile
+const queuedInvoice = (plan: InvoicePlan, entryId: string, provisionalNumber: string): Invoice => {
+  return { ...plan.invoice, id: entryId, invoiceNumber: provisionalNumber };
+};
+
+// Overlay queued writes on server data so the app sees its own unsynced changes
+const withQueuedCustomers = (customers: Customer[]): Customer[] => {
+  return entries.reduce((list, entry) => {
+    if (entry.operation === 'updateCustomer') {
+      return list.map(c => c.id === entry.customerId ? { ...c, ...entry.updates } : c);
+    }
+    if (entry.operation === 'setRouteSequence') {
+      return list.map(c => c.route === entry.route && entry.customerIds.includes(c.id)
+        ? { ...c, routeSequence: entry.customerIds.indexOf(c.id) + 1 }
+        : c);
+    }
+    return list;
+  }, customers);
+};
+
+const withQueuedInvoices = (invoices: Invoice[]): Invoice[] => {
+  const voids = entries.flatMap(entry => entry.operation === 'commitInvoiceVoid' ? [entry.plan] : []);
+  if (voids.length > 0) {
+    invoices = invoices.map(invoice => {
+      const plan = voids.find(v => v.invoiceId === invoice.id);
+      return plan ? { ...invoice, status: 'cancelled' as const, cancellationReason: plan.reason, cancelledAt: plan.cancelledAt } : invoice;
+    });
+  }
+
+  const queued = entries.flatMap((entry): Invoice[] => {
+    if (entry.operation === 'commitInvoice') {
+      return [queuedInvoice(entry.plan, entry.id, entry.provisionalNumber)];
+    }
+    if (entry.operation === 'commitSheetClose') {
+      return entry.plan.invoices.map((invoice, index) => ({
+        ...invoice,
+        id: `${entry.id}-${index}`,
+        invoiceNumber: provisionalSheetInvoiceNumber(entry, invoice.customerId)
+      }));
+    }
+    return [];
+  });
+
+  return queued.length > 0 ? [...invoices, ...queued] : invoices;
+};
+
+const withQueuedTransactions = (transactions: Transaction[]): Transaction[] => {
+  const queued = entries.flatMap((entry): Transaction[] => {
+    if (entry.operation === 'addTransaction') {
+      return [{ ...entry.transaction, id: entry.id }];
+    }
+    if (entry.operation === 'commitInvoiceVoid') {
+      return [{ ...entry.plan.reversal, id: entry.id }];
+    }
+    if (entry.operation === 'commitInvoice' || entry.operation === 'commitCreditNote') {
+      return [{ ...entry.plan.transaction, id: entry.id, invoiceNumber: entry.provisionalNumber }];
+    }
+    if (entry.operation === 'commitSheetClose') {
+      return entry.plan.transactions.map((transaction, index) => ({
+        ...transaction,
+        id: `${entry.id}-${index}`,
+        invoiceNumber: transaction.type === 'sale' && !transaction.invoiceNumber
+          ? provisionalSheetInvoiceNumber(entry, transaction.customerId)
+          : transaction.invoiceNumber
+      }));
+    }
+    return [];
+  });
+
+  return queued.length > 0 ? [...transactions, ...queued] : transactions;
+};
+
+// Server totals plus the balance changes still queued; INITIAL-<id> entries
+// only mirror the opening balance and are left out, as on the server
+const withQueuedLedgerTotals = (totals: Record<string, number>): Record<string, number> => {
+  const queued = withQueuedTransactions([]).filter(t => t.invoiceNumber !== `INITIAL-${t.customerId}`);
+  if (queued.length === 0) return totals;
+
+  const next = { ...totals };
+  queued.forEach(t => {
+    next[t.customerId] = (next[t.customerId] || 0) + t.balanceChange;
+  });
+  return next;
+};
+
+const withQueuedCreditNotes = (creditNotes: CreditNote[]): CreditNote[] => {
+  const queued = entries.flatMap((entry): CreditNote[] => entry.operation === 'commitCreditNote'
+    ? [{ ...entry.plan.creditNote, id: entry.id, creditNoteNumber: entry.provisionalNumber }]
+    : []);
+
+  return queued.length > 0 ? [...creditNotes, ...queued] : creditNotes;
+};
+
+const withQueuedStockMovements = (movements: StockMovement[]): StockMovement[] => {
+  const queued = entries.flatMap((entry): StockMovement[] => {
+    if (entry.operation === 'addStockMovements') {
+      return entry.movements.map((movement, index) => ({ ...movement, id: `${entry.id}-${index}` }));
+    }
+    if (entry.operation === 'commitInvoice' || entry.operation === 'commitCreditNote') {
+      return entry.plan.stockMovements.map((movement, index) => ({
+        ...movement,
+        id: `${entry.id}-${index}`,
+        reference: movement.reference || entry.provisionalNumber
+      }));
+    }
+    if (entry.operation === 'commitInvoiceVoid') {
+      return entry.plan.stockMovements.map((movement, index) => ({ ...movement, id: `${entry.id}-${index}` }));
+    }
+    if (entry.operation === 'commitSheetClose') {
+      return entry.plan.stockMovements.map((movement, index) => ({ ...movement, id: `${entry.id}-${index}` }));
+    }
+    return [];
+  });
+
+  return queued.length > 0 ? [...movements, ...queued] : movements;
+};
+
+const withQueuedSheets = (sheets: SheetRecord[]): SheetRecord[] => {
+  return entries.reduce((list, entry) => {
+    if (entry.operation === 'saveSheetRecord' && !list.some(s => s.id === entry.sheet.id)) {
+      return [entry.sheet, ...list];
+    }
+    if (entry.operation === 'updateSheetRecord') {
+      return list.map(s => s.id === entry.sheetId ? { ...s, ...entry.updates } : s);
+    }
+    if (entry.operation === 'commitSheetClose') {
+      return list.map(s => s.id === entry.plan.sheetId ? { ...s, status: 'closed' as const } : s);
+    }
+    return list;
+  }, sheets);
+};
+
+type InvoiceRef = Pick<Invoice, 'id' | 'invoiceNumber'>;
+
+// Queued voids and credit notes made against invoices that were still queued
+const hasQueuedDependents = (invoiceIds: string[]): boolean => {
+  return entries.some(e =>
+    (e.operation === 'commitInvoiceVoid' && invoiceIds.includes(e.plan.invoiceId)) ||
+    (e.operation === 'commitCreditNote' && invoiceIds.includes(e.plan.creditNote.invoiceId))
+  );
+};
+
+// Point queued writes that refer to a queued invoice at the invoice the server
+// created, so a void or credit note is not sent with a stand-in id or number
+const remapQueuedInvoices = (remaps: { from: InvoiceRef; to: InvoiceRef }[]) => {
+  const remapId = (id: string) => remaps.find(r => r.from.id === id)?.to.id ?? id;
+  const remapNumber = (reference: string) => {
+    for (const { from, to } of remaps) {
+      if (reference === from.invoiceNumber) return to.invoiceNumber;
+      if (reference === `VOID-${from.invoiceNumber}`) return `VOID-${to.invoiceNumber}`;
+    }
+    return reference;
+  };
+
+  saveEntries(entries.map((e): OutboxEntry => {
+    switch (e.operation) {
+      case 'addTransaction':
+        return { ...e, transaction: { ...e.transaction, invoiceNumber: remapNumber(e.transaction.invoiceNumber) } };
+      case 'commitInvoiceVoid': {
+        const plan = {
+          ...e.plan,
+          invoiceId: remapId(e.plan.invoiceId),
+          reversal: { ...e.plan.reversal, invoiceNumber: remapNumber(e.plan.reversal.invoiceNumber) },
+          stockMovements: e.plan.stockMovements.map(m => m.reference ? { ...m, reference: remapNumber(m.reference) } : m)
+        };
+        return { ...e, plan };
+      }
+      case 'commitCreditNote': {
+        const creditNote = {
+          ...e.plan.creditNote,
+          invoiceId: remapId(e.plan.creditNote.invoiceId),
+          invoiceNumber: remapNumber(e.plan.creditNote.invoiceNumber)
+        };
+        const next = { ...e, plan: { ...e.plan, creditNote } };
+        return { ...next, label: describe(next) };
+      }
+      default:
+        return e;
+    }
+  }));
+};
+
+const replay = async (adapter: StorageAdapter, entry: OutboxEntry): Promise<void> => {
+  switch (entry.operation) {
+    case 'commitInvoice': {
+      const invoice = await adapter.commitInvoice(entry.plan, entry.id);
+      remapQueuedInvoices([{ from: { id: entry.id, invoiceNumber: entry.provisionalNumber }, to: invoice }]);
+      console.log(`🔁 Invoice ${entry.provisionalNumber} synced as ${invoice.invoiceNumber}`);
+      return;
+    }
+    case 'commitInvoiceVoid':
+      return adapter.commitInvoiceVoid(entry.plan, entry.id);
+    case 'commitCreditNote': {
+      const creditNoteNumber = await adapter.commitCreditNote(entry.plan, entry.id);
+      console.log(`🔁 Credit note ${entry.provisionalNumber} synced as ${creditNoteNumber}`);
+      return;
+    }
+    case 'addTransaction':
+      return adapter.addTransaction(entry.transaction, entry.id);
+    case 'addStockMovements':
+      return adapter.addStockMovements(entry.movements, entry.id);
+    case 'updateCustomer':
+      return adapter.updateCustomer(entry.customerId, entry.updates);
+    case 'setRouteSequence':
+      return adapter.setRouteSequence(entry.route, entry.customerIds);
+    case 'saveSheetRecord':
+      await adapter.saveSheetRecord(entry.sheet);
+      return;
+    case 'updateSheetRecord':
+      return adapter.updateSheetRecord(entry.sheetId, entry.updates);
+    case 'commitSheetClose': {
+      await adapter.commitSheetClose(entry.plan, entry.id);
+
+      const queuedIds = entry.plan.invoices.map((_, index) => `${entry.id}-${index}`);
+      if (!hasQueuedDependents(queuedIds)) return;
+
+      // A sheet has one invoice per customer, which identifies the one the server created
+      const created = (await adapter.getInvoices()).filter(i => i.sheetId === entry.plan.sheetId);
+      remapQueuedInvoices(entry.plan.invoices.flatMap((invoice, index) => {
+        const match = created.find(i => i.customerId === invoice.customerId);
+        return match ? [{
+          from: { id: queuedIds[index], invoiceNumber: provisionalSheetInvoiceNumber(entry, invoice.customerId) },
+          to: { id: match.id, invoiceNumber: match.invoiceNumber }
+        }] : [];
+      }));
+      return;
+    }
+  }
+};
+
+// Replay queued writes in order. A write the server rejects is marked failed
+// and holds back later writes for the same customers and sheet; the rest of
+// the queue carries on.
+export const syncOutbox = async (): Promise<void> => {
+  if (syncing || !target || !isOnline() || !entries.some(e => e.status === 'pending')) return;
+
+  syncing = true;
+  notify();
+
+  const syncedCustomerIds = new Set<string>();
+  const heldBack = new Set<string>();
+  let synced = 0;
+
+  try {
+    for (const { id } of [...entries]) {
+      // Re-read the entry: replaying an earlier one may have rewritten it
+      const entry = entries.find(e => e.id === id);
+      if (!entry) continue;
+
+      const scopes = scopesOf(entry);
+      if (entry.status === 'failed' || scopes.some(scope => heldBack.has(scope))) {
+        scopes.forEach(scope => heldBack.add(scope));
+        continue;
+      }
+
+      try {
+        await replay(target, entry);
+        saveEntries(entries.filter(e => e.id !== entry.id));
+        customerIdsOf(entry).forEach(customerId => syncedCustomerIds.add(customerId));
+        synced++;
+      } catch (error) {
+        if (isNetworkError(error)) {
+          console.warn('📴 Still offline, will retry queued writes later');
+          break;
+        }
+
+        console.error(`❌ Queued write failed: ${entry.label}`, error);
+        saveEntries(entries.map(e => e.id === entry.id ? {
+          ...e,
+          status: 'failed' as const,
+          attempts: e.attempts + 1,
+          lastError: error instanceof Error ? error.message : String(error)
+        } : e));
+        scopes.forEach(scope => heldBack.add(scope));
+      }
+    }
+  } finally {
+    syncing = false;
+    lastSyncAt = new Date();
+    notify();
+  }
+
+  if (synced > 0) {
+    console.log(`✅ Synced ${synced} queued writes`);
+  }
+
+  if (syncHandler && syncedCustomerIds.size > 0) {
+    try {
+      await syncHandler([...syncedCustomerIds]);
+    } catch (error) {
+      console.error('Error after syncing queued writes:', error);
+    }
+  }
+};
+
+export const getOutboxEntries = (): OutboxEntry[] => [...entries];
+
+export const getOutboxStatus = (): OutboxStatus => ({
+  online: isOnline(),
+  syncing,
+  pending: entries.filter(e => e.status === 'pending').length,
+  failed: entries.filter(e => e.status === 'failed').length,
+  lastSyncAt
+});
+
+export const subscribeToOutbox = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Called with the customers touched by each successful sync
+export const onOutboxSynced = (handler: (customerIds: string[]) => Promise<void>) => {
+  syncHandler = handler;
+};
+
+export const retryOutboxEntry = async (id: string): Promise<void> => {
+  saveEntries(entries.map(e => e.id === id ? { ...e, status: 'pending' as const } : e));
+  await syncOutbox();
+};
+
+// Drop a write the server will not accept; the rest of the queue continues
+export const discardOutboxEntry = async (id: string): Promise<void> => {
+  const entry = entries.find(e => e.id === id);
+  if (!entry) return;
+
+  console.warn(`🗑️ Discarded queued write: ${entry.label}`);
+  saveEntries(entries.filter(e => e.id !== id));
+  await syncOutbox();
+};
+
+// Wrap a backend so sheet, payment and invoice writes survive losing the connection
+export const withOutbox = (adapter: StorageAdapter): StorageAdapter => {
+  target = adapter;
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => void syncOutbox());
+    window.addEventListener('offline', notify);
+    setInterval(() => void syncOutbox(), RETRY_INTERVAL);
+  }
+
+  if (entries.length > 0) {
+    console.log(`📤 ${entries.length} queued writes waiting to sync`);
+    void syncOutbox();
+  }
+
+  const { getLedgerTotals, getCompanyAssets } = adapter;
+
+  return {
+    ...adapter,
+
+    // Reads fall back to the last loaded data while offline
+    getCompanySettings: () => cachedRead('companySettings', () => adapter.getCompanySettings()),
+    getCompanyAssets: getCompanyAssets && (() => cachedRead('companyAssets', () => getCompanyAssets())),
+    getProducts: () => cachedRead('products', () => adapter.getProducts()),
+    getRouteInfos: () => cachedRead('routeInfos', () => adapter.getRouteInfos()),
+    getPriceListEntries: () => cachedRead('priceListEntries', () => adapter.getPriceListEntries()),
+
+    async getCustomers() {
+      return withQueuedCustomers(await cachedRead('customers', () => adapter.getCustomers()));
+    },
+
+    async getInvoices() {
+      return withQueuedInvoices(await cachedRead('invoices', () => adapter.getInvoices()));
+    },
+
+    async getCreditNotes() {
+      return withQueuedCreditNotes(await cachedRead('creditNotes', () => adapter.getCreditNotes()));
+    },
+
+    async getTransactions() {
+      return withQueuedTransactions(await cachedRead('transactions', () => adapter.getTransactions()));
+    },
+
+    getLedgerTotals: getLedgerTotals && (async () => {
+      return withQueuedLedgerTotals(await cachedRead('ledgerTotals', () => getLedgerTotals()));
+    }),
+
+    async getStockMovements() {
+      return withQueuedStockMovements(await cachedRead('stockMovements', () => adapter.getStockMovements()));
+    },
+
+    async getSheetHistory() {
+      return withQueuedSheets(await cachedRead('sheets', () => adapter.getSheetHistory()));
+    },
+
+    async getSheetById(id) {
+      const sheet = await adapter.getSheetById(id) || getCached('sheets')?.find(s => s.id === id);
+      return withQueuedSheets(sheet ? [sheet] : []).find(s => s.id === id) || null;
+    },
+
+    // Queued writes
+    commitInvoice(plan) {
+      const provisionalNumber = `OFFLINE-${Date.now()}`;
+      return runOrQueue({ operation: 'commitInvoice', plan, provisionalNumber }, requestId => adapter.commitInvoice(plan, requestId), ({ id }) => queuedInvoice(plan, id, provisionalNumber));
+    },
+
+    commitInvoiceVoid(plan) {
+      return runOrQueue({ operation: 'commitInvoiceVoid', plan }, requestId => adapter.commitInvoiceVoid(plan, requestId), () => undefined);
+    },
+
+    commitCreditNote(plan) {
+      const provisionalNumber = `OFFLINE-CN-${Date.now()}`;
+      return runOrQueue({ operation: 'commitCreditNote', plan, provisionalNumber }, requestId => adapter.commitCreditNote(plan, requestId), () => provisionalNumber);
+    },
+
+    addTransaction(transaction) {
+      return runOrQueue({ operation: 'addTransaction', transaction }, requestId => adapter.addTransaction(transaction, requestId), () => undefined);
+    },
+
+    addStockMovements(movements) {
+      return runOrQueue({ operation: 'addStockMovements', movements }, requestId => adapter.addStockMovements(movements, requestId), () => undefined);
+    },
+
+    updateCustomer(id, updates) {
+      return runOrQueue({ operation: 'updateCustomer', customerId: id, updates }, () => adapter.updateCustomer(id, updates), () => undefined);
+    },
+
+    setRouteSequence(route, customerIds) {
+      return runOrQueue({ operation: 'setRouteSequence', route, customerIds }, () => adapter.setRouteSequence(route, customerIds), () => undefined);
+    },
+
+    saveSheetRecord(sheet) {
+      return runOrQueue({ operation: 'saveSheetRecord', sheet }, () => adapter.saveSheetRecord(sheet), () => sheet.id);
+    },
+
+    updateSheetRecord(id, updates) {
+      return runOrQueue({ operation: 'updateSheetRecord', sheetId: id, updates }, () => adapter.updateSheetRecord(id, updates), () => undefined);
+    },
+
+    commitSheetClose(plan) {
+      return runOrQueue({ operation: 'commitSheetClose', plan }, requestId => adapter.commitSheetClose(plan, requestId), () => undefined);
+    }
+  };
+};
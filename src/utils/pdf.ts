@@ -1,8 +1,79 @@
 import jsPDF from 'jspdf';
-import { Customer, Product, CompanySettings } from '../types';
+import { Customer, Product, CompanySettings, TaxSummary } from '../types';
 import { format } from 'date-fns';
-import { getProducts, getCompanySettings } from './supabase-storage';
+import { getProducts, getCompanySettings, getSheetProducts } from './supabase-storage';
 import { getSheetById, SheetRecord } from './supabase-storage';
+import { getSheetHistory, getContainerBalances, getSheetContainerBalances, formatContainerBalance } from './supabase-storage';
+import { findInvoices, getTaxSummary, getPriceList, getPriceOn } from './supabase-storage';
+import { getCustomers, getTransactions, getCreditHolds } from './supabase-storage';
+
+// Rate printed for a product on a customer's row
+type RateLookup = (customer: Customer, product: Product) => number;
+
+// Rates in effect on the sheet's date
+const getSheetRates = async (sheetDate: Date): Promise<RateLookup> => {
+  const priceList = await getPriceList();
+  return (customer, product) => getPriceOn(priceList, product, customer, sheetDate);
+};
+
+// Relative column widths: customer columns, a Qty/Rate pair per product, then totals and payments.
+// Pairs narrow once the products would take more than half the table.
+const getSheetColumnWidths = (productCount: number, isClosed: boolean, withContainers = false): number[] => {
+  const leading = [10, 18, 36, 26, 43]; // S.No, Customer ID, Customer Name, Phone Number, Area
+  const trailing = [
+    ...(isClosed ? [20, 22, 14, 14, 18] : [20, 22, 16, 16]), // Total, Amount Due, CASH, UPI, Amount Total
+    ...(withContainers ? [26] : []) // Containers
+  ];
+  const fixedWidth = [...leading, ...trailing].reduce((a, b) => a + b, 0);
+  const pairWidth = Math.min(26, fixedWidth / Math.max(productCount, 1));
+  return [
+    ...leading,
+    ...Array.from({ length: productCount * 2 }, () => pairWidth / 2),
+    ...trailing
+  ];
+};
+
+// Containers held per customer, printed only once container types are configured.
+// Closed sheets show the balance after their deliveries, others the balance the van leaves with.
+const getPrintedContainerBalances = async (companySettings: CompanySettings, sheetData?: SheetRecord): Promise<Record<string, string> | undefined> => {
+  const containerTypes = companySettings.containerTypes || [];
+  if (containerTypes.length === 0) return undefined;
+
+  const sheets = await getSheetHistory();
+  const balances = sheetData
+    ? getSheetContainerBalances(sheetData, sheets)[sheetData.status === 'closed' ? 'closing' : 'opening']
+    : getContainerBalances(sheets);
+
+  return Object.fromEntries(
+    Object.entries(balances).map(([customerId, balance]) => [customerId, formatContainerBalance(balance, containerTypes)])
+  );
+};
+
+// GST included in a closed sheet's sales, from the invoices raised when it closed
+const getSheetTaxSummary = async (sheetData?: SheetRecord): Promise<TaxSummary | undefined> => {
+  if (!sheetData || sheetData.status !== 'closed') return undefined;
+
+  const invoices = await findInvoices({ sheetId: sheetData.id });
+  const taxSummary = getTaxSummary(invoices.filter(i => i.status !== 'cancelled').flatMap(i => i.items));
+  return taxSummary.totalTax > 0 ? taxSummary : undefined;
+};
+
+// Customers on credit hold, marked on sheets still out for delivery so the
+// driver knows to collect before delivering; closed sheets are a record of
+// what happened and are printed unmarked
+const getPrintedCreditHolds = async (sheetStatus: 'active' | 'closed'): Promise<Set<string>> => {
+  if (sheetStatus === 'closed') return new Set();
+
+  const [customers, transactions] = await Promise.all([getCustomers(), getTransactions()]);
+  return new Set(getCreditHolds(customers, transactions).map(hold => hold.customer.id));
+};
+
+// Summary rows for the tax breakup; CGST/SGST and IGST rows only when charged
+const getTaxSummaryRows = (taxSummary: TaxSummary): [string, string][] => [
+  ['Taxable Value:', taxSummary.taxableValue.toFixed(2)],
+  ...(taxSummary.cgst > 0 ? [['CGST:', taxSummary.cgst.toFixed(2)], ['SGST:', taxSummary.sgst.toFixed(2)]] as [string, string][] : []),
+  ...(taxSummary.igst > 0 ? [['IGST:', taxSummary.igst.toFixed(2)]] as [string, string][] : [])
+];
 
 // Generate route sheet for printing - uses appropriate layout based on sheet status
 export const printRouteSheet = async (route: string, customers: Customer[], sheetId?: string, sheetData?: SheetRecord): Promise<void> => {
@@ -22,10 +93,13 @@ export const generateRouteSheetPDF = async (route: string, customers: Customer[]
 
 // Professional layout for printing with proper sheet data and status-based layout
 const printWithProfessionalLayout = async (route: string, customers: Customer[], companySettings: CompanySettings, sheetId?: string, sheetData?: SheetRecord, sheetStatus?: 'active' | 'closed'): Promise<void> => {
-  const products = await getProducts();
+  const products = getSheetProducts(sheetData, await getProducts());
+  const containerBalances = await getPrintedContainerBalances(companySettings, sheetData);
+  const taxSummary = await getSheetTaxSummary(sheetData);
   
   // Use provided status or default to 'active'
   const status = sheetStatus || sheetData?.status || 'active';
+  const heldCustomerIds = await getPrintedCreditHolds(status);
   
   // Generate unique sheet ID if not provided (format: ROUTE-YYYYMMDD-ROUTECODE)
   const currentDate = format(new Date(), 'yyyyMMdd');
@@ -48,6 +122,8 @@ const printWithProfessionalLayout = async (route: string, customers: Customer[],
     }
   }
   
+  const getRate = await getSheetRates(sheetCreationDate);
+
   // Split customers into chunks of 25 per sheet
   const CUSTOMERS_PER_SHEET = 25;
   const customerChunks = [];
@@ -73,23 +149,11 @@ const printWithProfessionalLayout = async (route: string, customers: Customer[],
       if (deliveryData && deliveryData[customer.id]) {
         const customerDelivery = deliveryData[customer.id];
         
-        const product500ml = products.find(p => p.name === '500 ML' || p.name === 'Product A');
-        const product1ltr = products.find(p => p.name === '1 Ltr' || p.name === 'Product B');
-        const product250ml = products.find(p => p.name === '250 ML' || p.name === 'Product C');
-        
-        const rate500ml = (customer.productPrices && product500ml?.id && customer.productPrices[product500ml.id]) || product500ml?.defaultPrice || 25;
-        const rate1ltr = (customer.productPrices && product1ltr?.id && customer.productPrices[product1ltr.id]) || product1ltr?.defaultPrice || 35;
-        const rate250ml = (customer.productPrices && product250ml?.id && customer.productPrices[product250ml.id]) || product250ml?.defaultPrice || 12;
-        
-        if (product500ml?.id && customerDelivery[product500ml.id]) {
-          totalSale += customerDelivery[product500ml.id].quantity * rate500ml;
-        }
-        if (product1ltr?.id && customerDelivery[product1ltr.id]) {
-          totalSale += customerDelivery[product1ltr.id].quantity * rate1ltr;
-        }
-        if (product250ml?.id && customerDelivery[product250ml.id]) {
-          totalSale += customerDelivery[product250ml.id].quantity * rate250ml;
-        }
+        products.forEach(product => {
+          if (customerDelivery[product.id]) {
+            totalSale += customerDelivery[product.id].quantity * getRate(customer, product);
+          }
+        });
       }
       
       // Calculate total collected and total received
@@ -138,7 +202,7 @@ const printWithProfessionalLayout = async (route: string, customers: Customer[],
   const printWindow = window.open('', '_blank');
   if (printWindow) {
     const sheetsHTML = customerChunks.map((chunk, sheetIndex) => 
-      generateProfessionalRouteSheetHTML(route, chunk, products, companySettings, sheetIndex + 1, customerChunks.length, routeSheetId, sheetCreationDate, status, sheetData, summaryValues)
+      generateProfessionalRouteSheetHTML(route, chunk, products, getRate, companySettings, sheetIndex + 1, customerChunks.length, routeSheetId, sheetCreationDate, status, sheetData, summaryValues, containerBalances, taxSummary, heldCustomerIds)
     ).join('<div style="page-break-before: always;"></div>');
     
     printWindow.document.write(`
@@ -268,6 +332,7 @@ const generateProfessionalRouteSheetHTML = (
   route: string, 
   customers: Customer[], 
   products: Product[], 
+  getRate: RateLookup,
   companySettings: CompanySettings,
   sheetNumber: number,
   totalSheets: number,
@@ -275,7 +340,10 @@ const generateProfessionalRouteSheetHTML = (
   sheetCreationDate?: Date,
   sheetStatus?: 'active' | 'closed',
   sheetData?: SheetRecord,
-  summaryValues?: { totalSale: string; totalDue: string; totalCollected: string; totalAmountReceived: string; amountPending: string; routeOutstanding: string; newRouteOutstanding: string; }
+  summaryValues?: { totalSale: string; totalDue: string; totalCollected: string; totalAmountReceived: string; amountPending: string; routeOutstanding: string; newRouteOutstanding: string; },
+  containerBalances?: Record<string, string>,
+  taxSummary?: TaxSummary,
+  heldCustomerIds?: Set<string>
 ): string => {
   // Use provided sheet creation date or current date as fallback
   const sheetGenerationDate = sheetCreationDate || new Date();
@@ -285,10 +353,14 @@ const generateProfessionalRouteSheetHTML = (
   // Determine if this is a closed sheet (needs Amount Total column)
   const isClosed = sheetStatus === 'closed';
   
-  // Use first 3 products or default names
-  const prodA = products[0]?.name || '500 ML';
-  const prodB = products[1]?.name || '1 Ltr'; 
-  const prodC = products[2]?.name || '250 ML';
+  // Column widths as percentages, in the same order as the cells of a row
+  const colWidths = getSheetColumnWidths(products.length, isClosed, !!containerBalances);
+  const totalWidth = colWidths.reduce((a, b) => a + b, 0);
+  const widths = colWidths.map(w => `${(w / totalWidth * 100).toFixed(2)}%`);
+  const productWidth = (index: number) => widths[5 + index];
+  const trailingWidth = (index: number) => widths[5 + products.length * 2 + index];
+  const casesWidth = colWidths.slice(5, 5 + products.length * 2).reduce((a, b) => a + b, 0) / totalWidth * 100;
+  const columnCount = colWidths.length;
   
   // Generate empty rows to fill up to 25 rows (only for active sheets)
   const allRows = [...customers];
@@ -337,35 +409,30 @@ const generateProfessionalRouteSheetHTML = (
       <table class="data-table">
         <thead>
           <tr>
-            <th rowspan="3" style="width: 4%;">S.No</th>
-            <th rowspan="3" style="width: 7%;">Customer<br>ID</th>
-            <th rowspan="3" style="width: 15%;">Customer<br>Name</th>
-            <th rowspan="3" style="width: 8%;">Phone<br>Number</th>
-            <th rowspan="3" style="width: 11%;">Area</th>
-            <th colspan="6" style="width: 34%;">Cases</th>
-            <th rowspan="3" style="width: 7%;">Total</th>
-            <th rowspan="3" style="width: 8%;">Amount<br>Due</th>
-            <th colspan="2" style="width: ${isClosed ? '10%' : '12%'};">Amount Received</th>
-            ${isClosed ? '<th rowspan="3" style="width: 7%;">Amount<br>Total</th>' : ''}
+            <th rowspan="3" style="width: ${widths[0]};">S.No</th>
+            <th rowspan="3" style="width: ${widths[1]};">Customer<br>ID</th>
+            <th rowspan="3" style="width: ${widths[2]};">Customer<br>Name</th>
+            <th rowspan="3" style="width: ${widths[3]};">Phone<br>Number</th>
+            <th rowspan="3" style="width: ${widths[4]};">Area</th>
+            <th colspan="${products.length * 2}" style="width: ${casesWidth.toFixed(2)}%;">Cases</th>
+            <th rowspan="3" style="width: ${trailingWidth(0)};">Total</th>
+            <th rowspan="3" style="width: ${trailingWidth(1)};">Amount<br>Due</th>
+            <th colspan="2">Amount Received</th>
+            ${isClosed ? `<th rowspan="3" style="width: ${trailingWidth(4)};">Amount<br>Total</th>` : ''}
+            ${containerBalances ? `<th rowspan="3" style="width: ${trailingWidth(isClosed ? 5 : 4)};">Containers<br>Held</th>` : ''}
           </tr>
           <tr>
-            <th colspan="2">${prodA}</th>
-            <th colspan="2">${prodB}</th>
-            <th colspan="2">${prodC}</th>
-            <th style="width: ${isClosed ? '5%' : '6%'};">CASH</th>
-            <th style="width: ${isClosed ? '5%' : '6%'};">UPI</th>
-            ${isClosed ? '' : ''}
+            ${products.map(product => `<th colspan="2">${product.name}</th>`).join('')}
+            <th style="width: ${trailingWidth(2)};">CASH</th>
+            <th style="width: ${trailingWidth(3)};">UPI</th>
           </tr>
           <tr>
-            <th style="width: 6%; font-size: 7px;">Qty</th>
-            <th style="width: 6%; font-size: 7px;">Rate</th>
-            <th style="width: 6%; font-size: 7px;">Qty</th>
-            <th style="width: 6%; font-size: 7px;">Rate</th>
-            <th style="width: 6%; font-size: 7px;">Qty</th>
-            <th style="width: 6%; font-size: 7px;">Rate</th>
-            <th style="width: ${isClosed ? '5%' : '6%'}; font-size: 7px;"></th>
-            <th style="width: ${isClosed ? '5%' : '6%'}; font-size: 7px;"></th>
-            ${isClosed ? '' : ''}
+            ${products.map((_, index) => `
+              <th style="width: ${productWidth(index * 2)}; font-size: 7px;">Qty</th>
+              <th style="width: ${productWidth(index * 2 + 1)}; font-size: 7px;">Rate</th>
+            `).join('')}
+            <th style="font-size: 7px;"></th>
+            <th style="font-size: 7px;"></th>
           </tr>
         </thead>
         <tbody>
@@ -375,57 +442,15 @@ const generateProfessionalRouteSheetHTML = (
               return `
                 <tr style="height: 22px;">
                   <td>${globalIndex}</td>
-                  <td></td>
-                  <td></td>
-                  <td></td>
-                  <td></td>
-                  <td></td>
-                  <td></td>
-                  <td></td>
-                  <td></td>
-                  <td></td>
-                  <td></td>
-                  <td></td>
-                  <td></td>
-                  <td></td>
-                  <td></td>
-                  ${isClosed ? '<td></td>' : ''}
+                  ${'<td></td>'.repeat(columnCount - 1)}
                 </tr>
               `;
             }
             
-            // Get customer-specific product prices (custom prices from customer.productPrices)
-            // Try to match products by name patterns first, then fall back to array index
-            const product500ml = products.find(p => 
-              p.name.toLowerCase().includes('500ml') || 
-              p.name.toLowerCase().includes('500') ||
-              p.name.toLowerCase().includes('product a') ||
-              p.name.toLowerCase().includes('a')
-            ) || products[0];
-            
-            const product1ltr = products.find(p => 
-              p.name.toLowerCase().includes('1ltr') || 
-              p.name.toLowerCase().includes('1l') || 
-              p.name.toLowerCase().includes('liter') ||
-              p.name.toLowerCase().includes('product b') ||
-              p.name.toLowerCase().includes('b')
-            ) || products[1];
-            
-            const product250ml = products.find(p => 
-              p.name.toLowerCase().includes('250ml') || 
-              p.name.toLowerCase().includes('250') ||
-              p.name.toLowerCase().includes('product c') ||
-              p.name.toLowerCase().includes('c')
-            ) || products[2];
-            
-            // Use customer-specific pricing if available, otherwise default pricing with proper null checks
-            const rate500ml = (customer.productPrices && product500ml?.id && customer.productPrices[product500ml.id]) || product500ml?.defaultPrice || 20;
-            const rate1ltr = (customer.productPrices && product1ltr?.id && customer.productPrices[product1ltr.id]) || product1ltr?.defaultPrice || 35;
-            const rate250ml = (customer.productPrices && product250ml?.id && customer.productPrices[product250ml.id]) || product250ml?.defaultPrice || 12;
-            
             // For closed sheets, get delivery data and payment info
-            let quantities = { qty500ml: '', qty1ltr: '', qty250ml: '' };
-            let totals = { total500ml: '', total1ltr: '', total250ml: '', grandTotal: '', amountTotal: '' };
+            const quantities: string[] = products.map(() => '');
+            let grandTotal = '';
+            let amountTotal = '';
             let payments = { cash: '', upi: '' };
             
             if (isClosed && sheetData) {
@@ -443,32 +468,14 @@ const generateProfessionalRouteSheetHTML = (
                 const customerDelivery = deliveryData[customer.id];
                 let grandTotalAmount = 0;
                 
-                // Get quantities and calculate totals for each product
-                if (product500ml?.id && customerDelivery[product500ml.id]) {
-                  quantities.qty500ml = customerDelivery[product500ml.id].quantity.toString();
-                  totals.total500ml = (customerDelivery[product500ml.id].quantity * rate500ml).toString();
-                  grandTotalAmount += customerDelivery[product500ml.id].quantity * rate500ml;
-                } else {
-                  quantities.qty500ml = '0'; // Show 0 instead of empty
-                }
+                // Get quantities and calculate totals for each product; show 0 instead of empty
+                products.forEach((product, productIndex) => {
+                  const quantity = customerDelivery[product.id]?.quantity || 0;
+                  quantities[productIndex] = quantity.toString();
+                  grandTotalAmount += quantity * getRate(customer, product);
+                });
                 
-                if (product1ltr?.id && customerDelivery[product1ltr.id]) {
-                  quantities.qty1ltr = customerDelivery[product1ltr.id].quantity.toString();
-                  totals.total1ltr = (customerDelivery[product1ltr.id].quantity * rate1ltr).toString();
-                  grandTotalAmount += customerDelivery[product1ltr.id].quantity * rate1ltr;
-                } else {
-                  quantities.qty1ltr = '0'; // Show 0 instead of empty
-                }
-                
-                if (product250ml?.id && customerDelivery[product250ml.id]) {
-                  quantities.qty250ml = customerDelivery[product250ml.id].quantity.toString();
-                  totals.total250ml = (customerDelivery[product250ml.id].quantity * rate250ml).toString();
-                  grandTotalAmount += customerDelivery[product250ml.id].quantity * rate250ml;
-                } else {
-                  quantities.qty250ml = '0'; // Show 0 instead of empty
-                }
-                
-                totals.grandTotal = grandTotalAmount.toString();
+                grandTotal = grandTotalAmount.toString();
               }
               
               // Get payment information
@@ -477,32 +484,32 @@ const generateProfessionalRouteSheetHTML = (
                 payments.cash = customerPayment.cash?.toString() || '0';
                 payments.upi = customerPayment.upi?.toString() || '0';
                 // Amount Total should be the total from amount_received
-                totals.amountTotal = customerPayment.total?.toString() || '0';
+                amountTotal = customerPayment.total?.toString() || '0';
               } else {
                 payments.cash = '0';
                 payments.upi = '0';
-                totals.amountTotal = '0';
+                amountTotal = '0';
               }
             }
             
+            const isHeld = heldCustomerIds?.has(customer.id);
             return `
-              <tr style="height: 22px;">
+              <tr style="height: 22px;${isHeld ? ' background: #fde2e2; -webkit-print-color-adjust: exact; print-color-adjust: exact;' : ''}">
                 <td>${globalIndex}</td>
                 <td style="font-size: 8px; font-weight: bold;">${customer.id}</td>
-                <td style="text-align: left; font-size: 8px;">${customer.name}</td>
+                <td style="text-align: left; font-size: 8px;">${customer.name}${isHeld ? ' <b>[HOLD]</b>' : ''}</td>
                 <td style="font-size: 7px; font-weight: bold;">${customer.phone || ''}</td>
                 <td style="text-align: left; font-size: 8px;">${customer.address || ''}</td>
-                <td style="font-size: 7px;">${isClosed ? quantities.qty500ml : ''}</td>
-                <td style="font-size: 7px;">${rate500ml}</td>
-                <td style="font-size: 7px;">${isClosed ? quantities.qty1ltr : ''}</td>
-                <td style="font-size: 7px;">${rate1ltr}</td>
-                <td style="font-size: 7px;">${isClosed ? quantities.qty250ml : ''}</td>
-                <td style="font-size: 7px;">${rate250ml}</td>
-                <td style="font-size: 7px;">${isClosed ? totals.grandTotal : ''}</td>
+                ${products.map((product, productIndex) => `
+                  <td style="font-size: 7px;">${isClosed ? quantities[productIndex] : ''}</td>
+                  <td style="font-size: 7px;">${getRate(customer, product)}</td>
+                `).join('')}
+                <td style="font-size: 7px;">${isClosed ? grandTotal : ''}</td>
                 <td style="font-weight: bold; font-size: 8px;">${Math.abs(customer.outstandingAmount || 0)}</td>
                 <td>${isClosed ? payments.cash : ''}</td>
                 <td>${isClosed ? payments.upi : ''}</td>
-                ${isClosed ? `<td style="font-weight: bold; font-size: 8px;">${totals.amountTotal}</td>` : ''}
+                ${isClosed ? `<td style="font-weight: bold; font-size: 8px;">${amountTotal}</td>` : ''}
+                ${containerBalances ? `<td style="font-size: 7px;">${containerBalances[customer.id] || ''}</td>` : ''}
               </tr>
             `;
           }).join('')}
@@ -539,6 +546,12 @@ const generateProfessionalRouteSheetHTML = (
               <td style="border: 0.5px solid #000; padding: 5px 8px; font-size: 9px; font-weight: bold; width: 50%;">New Route Outstanding:</td>
               <td style="border: 0.5px solid #000; padding: 5px 2px; font-size: 9px; width: 50%;">${summaryValues?.newRouteOutstanding || ''}</td>
             </tr>
+            ${taxSummary ? getTaxSummaryRows(taxSummary).map(([label, value]) => `
+              <tr style="height: 22px;">
+                <td style="border: 0.5px solid #000; padding: 5px 8px; font-size: 9px; font-weight: bold; width: 50%;">${label}</td>
+                <td style="border: 0.5px solid #000; padding: 5px 2px; font-size: 9px; width: 50%;">${value}</td>
+              </tr>
+            `).join('') : ''}
           </table>
         </div>
       ` : ''}
@@ -554,10 +567,13 @@ const generateProfessionalRouteSheetHTML = (
 
 // PDF generation with professional layout and status-based layout
 const generatePDFWithProfessionalLayout = async (route: string, customers: Customer[], companySettings: CompanySettings, sheetId?: string, sheetData?: SheetRecord, sheetStatus?: 'active' | 'closed'): Promise<void> => {
-  const products = await getProducts();
+  const products = getSheetProducts(sheetData, await getProducts());
+  const containerBalances = await getPrintedContainerBalances(companySettings, sheetData);
+  const taxSummary = await getSheetTaxSummary(sheetData);
   
   // Use provided status or default to 'active'
   const status = sheetStatus || sheetData?.status || 'active';
+  const heldCustomerIds = await getPrintedCreditHolds(status);
   
   // Generate unique sheet ID if not provided
   const currentDate = format(new Date(), 'yyyyMMdd');
@@ -580,6 +596,8 @@ const generatePDFWithProfessionalLayout = async (route: string, customers: Custo
     }
   }
   
+  const getRate = await getSheetRates(sheetCreationDate);
+
   // Split customers into chunks of 25 per sheet
   const CUSTOMERS_PER_SHEET = 25;
   const customerChunks = [];
@@ -604,7 +622,7 @@ const generatePDFWithProfessionalLayout = async (route: string, customers: Custo
     }
     
     const chunk = customerChunks[chunkIndex];
-    await addSheetToPDF(pdf, route, chunk, products, companySettings, chunkIndex + 1, customerChunks.length, routeSheetId, sheetCreationDate, status, sheetData);
+    await addSheetToPDF(pdf, route, chunk, products, getRate, companySettings, chunkIndex + 1, customerChunks.length, routeSheetId, sheetCreationDate, status, sheetData, containerBalances, taxSummary, heldCustomerIds);
   }
   
   pdf.save(`Route-${route}-Sheet-${format(sheetCreationDate, 'dd-MM-yyyy')}.pdf`);
@@ -616,13 +634,17 @@ const addSheetToPDF = async (
   route: string,
   customers: Customer[],
   products: Product[],
+  getRate: RateLookup,
   companySettings: CompanySettings,
   sheetNumber: number,
   totalSheets: number,
   sheetId?: string,
   sheetCreationDate?: Date,
   sheetStatus?: 'active' | 'closed',
-  sheetData?: SheetRecord
+  sheetData?: SheetRecord,
+  containerBalances?: Record<string, string>,
+  taxSummary?: TaxSummary,
+  heldCustomerIds?: Set<string>
 ): Promise<void> => {
   const pageWidth = 297; // A4 landscape width
   const pageHeight = 210; // A4 landscape height
@@ -639,11 +661,6 @@ const addSheetToPDF = async (
   // Set consistent line width for all borders
   pdf.setLineWidth(0.2); // Reduced border width for cleaner look
   
-  // Get product names for headers
-  const prodA = products[0]?.name || '500ML';
-  const prodB = products[1]?.name || '1Ltr'; 
-  const prodC = products[2]?.name || '250ML';
-  
   // Company header with vertical and horizontal centering
   pdf.setFontSize(16);
   pdf.setFont('helvetica', 'bold');
@@ -713,14 +730,11 @@ const addSheetToPDF = async (
   const tableWidth = pageWidth - 2 * margin;
   const rowHeight = 5;
   
-  // Optimized column widths - conditional based on sheet status
-  // Active: [S.No, Cust ID, Cust Name, Phone, Area, 500ML, Rate, 1Ltr, Rate, 250ML, Rate, Total, Amount Due, CASH, UPI] = 15 columns
-  // Closed: [S.No, Cust ID, Cust Name, Phone, Area, 500ML, Rate, 1Ltr, Rate, 250ML, Rate, Total, Amount Due, CASH, UPI, Amount Total] = 16 columns
-  const colWidths = isClosed 
-    ? [10, 18, 36, 26, 43, 13, 13, 13, 13, 13, 13, 20, 22, 14, 14, 18] // 16 columns for closed sheets
-    : [10, 18, 36, 26, 43, 13, 13, 13, 13, 13, 13, 20, 22, 16, 16]; // 15 columns for active sheets
+  // Column widths adapt to the number of products; the Amount Total column is only on closed sheets
+  const colWidths = getSheetColumnWidths(products.length, isClosed, !!containerBalances);
   const scaleFactor = tableWidth / colWidths.reduce((a, b) => a + b);
   const scaledWidths = colWidths.map(w => w * scaleFactor);
+  const amountDueIndex = 5 + products.length * 2 + 1;
   
   let currentX = margin;
   let currentY = tableY;
@@ -730,9 +744,13 @@ const addSheetToPDF = async (
   pdf.setFont('helvetica', 'bold');
   
   // Main headers - conditionally include Amount Total for closed sheets
-  const headers = isClosed 
-    ? ['S.No', 'Customer ID', 'Customer Name', 'Phone Number', 'Area', prodA, 'Rate', prodB, 'Rate', prodC, 'Rate', 'Total', 'Amount Due', 'CASH', 'UPI', 'Amount Total']
-    : ['S.No', 'Customer ID', 'Customer Name', 'Phone Number', 'Area', prodA, 'Rate', prodB, 'Rate', prodC, 'Rate', 'Total', 'Amount Due', 'CASH', 'UPI'];
+  const headers = [
+    'S.No', 'Customer ID', 'Customer Name', 'Phone Number', 'Area',
+    ...products.flatMap(product => [product.name, 'Rate']),
+    'Total', 'Amount Due', 'CASH', 'UPI',
+    ...(isClosed ? ['Amount Total'] : []),
+    ...(containerBalances ? ['Containers Held'] : [])
+  ];
   
   currentX = margin;
   const headerHeight = rowHeight * 3.5; // Increased height for better text spacing with more line gaps
@@ -761,9 +779,9 @@ const addSheetToPDF = async (
     currentX += width;
   }
   
-  // Data rows
+  // Data rows; a smaller font keeps numbers inside the narrower columns of larger product sets
   currentY += headerHeight + 2;
-  pdf.setFontSize(10);
+  pdf.setFontSize(products.length > 4 ? 8 : 10);
   pdf.setFont('helvetica', 'normal');
   
   // Optimized row height for better spacing
@@ -792,41 +810,14 @@ const addSheetToPDF = async (
   for (let i = 0; i < allRows.length; i++) {
     const customer = allRows[i];
     const globalIndex = (sheetNumber - 1) * 25 + i + 1;
+    const isHeld = !!customer.id && !!heldCustomerIds?.has(customer.id);
     
     currentX = margin;
     
-    // Get product prices and use customer-specific pricing
-    // Try to match products by name patterns first, then fall back to array index  
-    const product500ml = products.find(p => 
-      p.name.toLowerCase().includes('500ml') || 
-      p.name.toLowerCase().includes('500') ||
-      p.name.toLowerCase().includes('product a') ||
-      p.name.toLowerCase().includes('a')
-    ) || products[0];
-    
-    const product1ltr = products.find(p => 
-      p.name.toLowerCase().includes('1ltr') || 
-      p.name.toLowerCase().includes('1l') || 
-      p.name.toLowerCase().includes('liter') ||
-      p.name.toLowerCase().includes('product b') ||
-      p.name.toLowerCase().includes('b')
-    ) || products[1];
-    
-    const product250ml = products.find(p => 
-      p.name.toLowerCase().includes('250ml') || 
-      p.name.toLowerCase().includes('250') ||
-      p.name.toLowerCase().includes('product c') ||
-      p.name.toLowerCase().includes('c')
-    ) || products[2];
-    
-    // Use customer-specific pricing if available, otherwise default pricing with proper null checks
-    const rate500ml = (customer.productPrices && product500ml?.id && customer.productPrices[product500ml.id]) || product500ml?.defaultPrice || 20;
-    const rate1ltr = (customer.productPrices && product1ltr?.id && customer.productPrices[product1ltr.id]) || product1ltr?.defaultPrice || 35;
-    const rate250ml = (customer.productPrices && product250ml?.id && customer.productPrices[product250ml.id]) || product250ml?.defaultPrice || 12;
-    
     // For closed sheets, get delivery data and payment info
-    let quantities = { qty500ml: '', qty1ltr: '', qty250ml: '' };
-    let totals = { total500ml: '', total1ltr: '', total250ml: '', grandTotal: '', amountTotal: '' };
+    const quantities: string[] = products.map(() => '');
+    let grandTotal = '';
+    let amountTotal = '';
     let payments = { cash: '', upi: '' };
     
     if (isClosed && sheetData && customer.id) {
@@ -844,32 +835,14 @@ const addSheetToPDF = async (
         const customerDelivery = deliveryData[customer.id];
         let grandTotalAmount = 0;
         
-        // Get quantities and calculate totals for each product
-        if (product500ml?.id && customerDelivery[product500ml.id]) {
-          quantities.qty500ml = customerDelivery[product500ml.id].quantity.toString();
-          totals.total500ml = (customerDelivery[product500ml.id].quantity * rate500ml).toString();
-          grandTotalAmount += customerDelivery[product500ml.id].quantity * rate500ml;
-        } else {
-          quantities.qty500ml = '0'; // Show 0 instead of empty
-        }
-        
-        if (product1ltr?.id && customerDelivery[product1ltr.id]) {
-          quantities.qty1ltr = customerDelivery[product1ltr.id].quantity.toString();
-          totals.total1ltr = (customerDelivery[product1ltr.id].quantity * rate1ltr).toString();
-          grandTotalAmount += customerDelivery[product1ltr.id].quantity * rate1ltr;
-        } else {
-          quantities.qty1ltr = '0'; // Show 0 instead of empty
-        }
-        
-        if (product250ml?.id && customerDelivery[product250ml.id]) {
-          quantities.qty250ml = customerDelivery[product250ml.id].quantity.toString();
-          totals.total250ml = (customerDelivery[product250ml.id].quantity * rate250ml).toString();
-          grandTotalAmount += customerDelivery[product250ml.id].quantity * rate250ml;
-        } else {
-          quantities.qty250ml = '0'; // Show 0 instead of empty
-        }
+        // Get quantities and calculate totals for each product; show 0 instead of empty
+        products.forEach((product, productIndex) => {
+          const quantity = customerDelivery[product.id]?.quantity || 0;
+          quantities[productIndex] = quantity.toString();
+          grandTotalAmount += quantity * getRate(customer, product);
+        });
         
-        totals.grandTotal = grandTotalAmount.toString();
+        grandTotal = grandTotalAmount.toString();
       }
       
       // Get payment information
@@ -878,54 +851,64 @@ const addSheetToPDF = async (
         payments.cash = customerPayment.cash?.toString() || '0';
         payments.upi = customerPayment.upi?.toString() || '0';
         // Amount Total should be the total from amount_received
-        totals.amountTotal = customerPayment.total?.toString() || '0';
+        amountTotal = customerPayment.total?.toString() || '0';
       } else {
         payments.cash = '0';
         payments.upi = '0';
-        totals.amountTotal = '0';
+        amountTotal = '0';
       }
     }
     
     // Data for each column - conditionally include Amount Total for closed sheets
-    const baseRowData = [
+    const rowData = [
       globalIndex.toString(),
       customer.id || '',
-      customer.name || '',
+      customer.name ? `${customer.name}${isHeld ? ' [HOLD]' : ''}` : '',
       customer.phone || '',
       customer.address || '',
-      customer.id ? (isClosed ? quantities.qty500ml : '') : '', // 500ML quantity
-      customer.id ? rate500ml.toString() : '', // 500ML rate (customer-specific)
-      customer.id ? (isClosed ? quantities.qty1ltr : '') : '', // 1Ltr quantity
-      customer.id ? rate1ltr.toString() : '', // 1Ltr rate (customer-specific)
-      customer.id ? (isClosed ? quantities.qty250ml : '') : '', // 250ML quantity
-      customer.id ? rate250ml.toString() : '', // 250ML rate (customer-specific)
-      customer.id ? (isClosed ? totals.grandTotal : '') : '', // Total
+      ...products.flatMap((product, productIndex) => [
+        customer.id ? (isClosed ? quantities[productIndex] : '') : '', // Quantity
+        customer.id ? getRate(customer, product).toString() : '' // Rate (customer-specific)
+      ]),
+      customer.id ? (isClosed ? grandTotal : '') : '', // Total
       customer.id && customer.outstandingAmount !== undefined ? Math.abs(customer.outstandingAmount).toString() : customer.id ? '0' : '', // Amount Due (current outstanding)
       isClosed ? payments.cash : '', // CASH amount
-      isClosed ? payments.upi : '' // UPI amount
+      isClosed ? payments.upi : '', // UPI amount
+      ...(isClosed ? [amountTotal] : []),
+      ...(containerBalances ? [customer.id ? containerBalances[customer.id] || '' : ''] : [])
     ];
-    
-    // Add Amount Total column for closed sheets
-    const rowData = isClosed ? [...baseRowData, totals.amountTotal] : baseRowData;
+    const containerIndex = containerBalances ? rowData.length - 1 : -1;
+
+    if (isHeld) {
+      pdf.setFillColor(253, 226, 226);
+      pdf.rect(margin, currentY, scaledWidths.reduce((a, b) => a + b, 0), dataRowHeight, 'F');
+    }
     
     for (let j = 0; j < rowData.length; j++) {
       const width = scaledWidths[j];
       pdf.rect(currentX, currentY, width, dataRowHeight);
       if (rowData[j]) {
-        // Set font weight - bold for phone number column (index 3) and amount due column (index 12)
-        if (j === 3 || j === 12) {
+        // Set font weight - bold for phone number and amount due columns
+        if (j === 3 || j === amountDueIndex) {
           pdf.setFont('helvetica', 'bold');
         } else {
           pdf.setFont('helvetica', 'normal');
         }
         
         // Center text in cell with proper vertical alignment
+        // Container balances list several types, so they use a smaller font
+        if (j === containerIndex) {
+          pdf.setFontSize(6);
+        }
         const cellText = rowData[j];
         const textWidth = pdf.getTextWidth(cellText);
         const xOffset = (width - textWidth) / 2;
         const yOffset = dataRowHeight / 2 + 1.5; // Center vertically with slight adjustment
         
         pdf.text(cellText, currentX + Math.max(1, xOffset), currentY + yOffset);
+        if (j === containerIndex) {
+          pdf.setFontSize(products.length > 4 ? 8 : 10);
+        }
       }
       currentX += width;
     }
@@ -958,41 +941,11 @@ const addSheetToPDF = async (
         if (deliveryData && deliveryData[customer.id]) {
           const customerDelivery = deliveryData[customer.id];
           
-          const product500ml = products.find(p => 
-            p.name.toLowerCase().includes('500ml') || 
-            p.name.toLowerCase().includes('500') ||
-            p.name.toLowerCase().includes('product a') ||
-            p.name.toLowerCase().includes('a')
-          ) || products[0];
-          
-          const product1ltr = products.find(p => 
-            p.name.toLowerCase().includes('1ltr') || 
-            p.name.toLowerCase().includes('1l') || 
-            p.name.toLowerCase().includes('liter') ||
-            p.name.toLowerCase().includes('product b') ||
-            p.name.toLowerCase().includes('b')
-          ) || products[1];
-          
-          const product250ml = products.find(p => 
-            p.name.toLowerCase().includes('250ml') || 
-            p.name.toLowerCase().includes('250') ||
-            p.name.toLowerCase().includes('product c') ||
-            p.name.toLowerCase().includes('c')
-          ) || products[2];
-          
-          const rate500ml = (customer.productPrices && product500ml?.id && customer.productPrices[product500ml.id]) || product500ml?.defaultPrice || 20;
-          const rate1ltr = (customer.productPrices && product1ltr?.id && customer.productPrices[product1ltr.id]) || product1ltr?.defaultPrice || 35;
-          const rate250ml = (customer.productPrices && product250ml?.id && customer.productPrices[product250ml.id]) || product250ml?.defaultPrice || 12;
-          
-          if (product500ml?.id && customerDelivery[product500ml.id]) {
-            totalSale += customerDelivery[product500ml.id].quantity * rate500ml;
-          }
-          if (product1ltr?.id && customerDelivery[product1ltr.id]) {
-            totalSale += customerDelivery[product1ltr.id].quantity * rate1ltr;
-          }
-          if (product250ml?.id && customerDelivery[product250ml.id]) {
-            totalSale += customerDelivery[product250ml.id].quantity * rate250ml;
-          }
+          products.forEach(product => {
+            if (customerDelivery[product.id]) {
+              totalSale += customerDelivery[product.id].quantity * getRate(customer, product);
+            }
+          });
         }
         
         // Calculate total collected (cash + upi) and total received (from amount_received.total)
@@ -1045,11 +998,16 @@ const addSheetToPDF = async (
   if (isClosed) {
     currentY += 8; // Add some spacing
     
-    // Summary table dimensions - compact 6x2 table
+    // Summary rows, with the GST breakup when tax was charged
+    const taxRows = taxSummary ? getTaxSummaryRows(taxSummary) : [];
+    const summaryLabels = ['Total Sale:', 'Amount Due:', 'Amount Total:', 'Amount Pending:', 'Old Outstanding:', 'New Outstanding:', ...taxRows.map(([label]) => label)];
+    const summaryData = [summaryValues.totalSale, summaryValues.totalDue, summaryValues.totalAmountReceived, summaryValues.amountPending, summaryValues.routeOutstanding, summaryValues.newRouteOutstanding, ...taxRows.map(([, value]) => value)];
+    
+    // Summary table dimensions - compact two-column table
     const summaryTableWidth = tableWidth * 0.4; // Use 40% of table width for more compact size
     const summaryTableX = margin + tableWidth - summaryTableWidth; // Align summary table to the right
     const summaryRowHeight = 5.5; // Same as data row height
-    const summaryTableHeight = summaryRowHeight * 7; // 7 rows total (1 header + 6 data rows)
+    const summaryTableHeight = summaryRowHeight * (summaryLabels.length + 1); // Header plus data rows
     
     // Draw summary table border and content
     pdf.setLineWidth(0.2);
@@ -1070,8 +1028,6 @@ const addSheetToPDF = async (
     summaryY += summaryRowHeight;
     
     // Data rows
-    const summaryLabels = ['Total Sale:', 'Amount Due:', 'Amount Total:', 'Amount Pending:', 'Old Outstanding:', 'New Outstanding:'];
-    const summaryData = [summaryValues.totalSale, summaryValues.totalDue, summaryValues.totalAmountReceived, summaryValues.amountPending, summaryValues.routeOutstanding, summaryValues.newRouteOutstanding];
     const labelColumnWidth = summaryTableWidth * 0.6; // 60% for label, 40% for value
     const valueColumnWidth = summaryTableWidth * 0.4;
     
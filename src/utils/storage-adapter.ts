@@ -0,0 +1,158 @@
+import { Customer, Transaction, Invoice, Product, CompanySettings, CompanyAssets, RouteInfo, SheetRecord, CreditNote, StockMovement, PriceListEntry } from '../types';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { createSupabaseAdapter } from './supabase-adapter';
+import { createLocalStorageAdapter } from './local-storage-adapter';
+import { createIndexedDBAdapter, isIndexedDBAvailable } from './indexeddb-adapter';
+import { withOutbox } from './outbox';
+
+// Storage modes
+export type StorageMode = 'localStorage' | 'indexedDB' | 'supabase' | 'memory';
+
+export type NewProduct = Omit<Product, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewCustomer = Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewInvoice = Omit<Invoice, 'id' | 'invoiceNumber'>;
+export type NewTransaction = Omit<Transaction, 'id'>;
+export type NewCreditNote = Omit<CreditNote, 'id' | 'creditNoteNumber'>;
+export type NewStockMovement = Omit<StockMovement, 'id'>;
+export type NewPriceListEntry = Omit<PriceListEntry, 'id' | 'createdAt'>;
+export type RouteInfoData = Omit<RouteInfo, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Everything written when a route sheet is closed, committed as one unit.
+// A sale transaction is sent with a blank invoiceNumber; the backend gives it
+// the number assigned to the same customer's invoice.
+export interface SheetClosePlan {
+  sheetId: string;
+  invoices: NewInvoice[]; // At most one per customer
+  transactions: NewTransaction[];
+  stockMovements: NewStockMovement[]; // Stock-out for the delivered quantities
+}
+
+// An invoice, its sale transaction and the stock-out for its items, as one
+// unit. The backend assigns the invoice number, stores it as the
+// transaction's invoiceNumber and uses it as the reference of movements sent
+// without one.
+export interface InvoicePlan {
+  invoice: NewInvoice;
+  transaction: Omit<NewTransaction, 'invoiceNumber'>;
+  stockMovements: NewStockMovement[];
+}
+
+// An invoice void: the invoice is marked cancelled, the reversal posted and
+// its goods taken back into stock, as one unit
+export interface InvoiceVoidPlan {
+  invoiceId: string;
+  reason: string;
+  cancelledAt: Date;
+  reversal: NewTransaction; // Adjustment whose balanceChange undoes the invoice
+  stockMovements: NewStockMovement[];
+}
+
+// A credit note, its 'return' transaction and the returned goods going back
+// into stock. The backend assigns the credit note number and stores it as the
+// transaction's invoiceNumber and the movements' reference.
+export interface CreditNotePlan {
+  creditNote: NewCreditNote;
+  transaction: Omit<NewTransaction, 'invoiceNumber'>;
+  stockMovements: NewStockMovement[];
+}
+
+// Filters for invoice and transaction lookups; all given fields must match
+export interface RecordQuery {
+  customerId?: string;
+  routeId?: string;
+  sheetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// A storage backend. Business rules live in supabase-storage.ts; adapters only persist data.
+// Writes the offline outbox may send twice take a requestId; a backend that
+// honours it applies each request once.
+export interface StorageAdapter {
+  readonly mode: StorageMode;
+
+  initializeDefaultData(): Promise<void>;
+
+  // Company settings
+  getCompanySettings(): Promise<CompanySettings>;
+  saveCompanySettings(settings: CompanySettings): Promise<void>;
+
+  // Products
+  getProducts(): Promise<Product[]>;
+  saveProducts(products: Product[]): Promise<void>;
+  addProduct(product: NewProduct): Promise<Product>;
+  updateProduct(id: string, updates: Partial<Product>): Promise<void>;
+  deleteProduct(id: string): Promise<void>;
+
+  // Customers
+  getCustomers(): Promise<Customer[]>;
+  addCustomer(customer: NewCustomer): Promise<Customer>;
+  updateCustomer(id: string, updates: Partial<Customer>): Promise<void>;
+  deleteCustomer(id: string): Promise<void>;
+  setRouteSequence(route: string, customerIds: string[]): Promise<void>; // Stops 1, 2, 3... in this order, as one unit
+
+  // Invoices and transactions
+  getInvoices(): Promise<Invoice[]>;
+  commitInvoice(plan: InvoicePlan, requestId?: string): Promise<Invoice>; // The stored invoice, with its id and number
+  commitInvoiceVoid(plan: InvoiceVoidPlan, requestId?: string): Promise<void>;
+  getCreditNotes(): Promise<CreditNote[]>;
+  commitCreditNote(plan: CreditNotePlan, requestId?: string): Promise<string>;
+  getTransactions(): Promise<Transaction[]>;
+  addTransaction(transaction: NewTransaction, requestId?: string): Promise<void>;
+
+  // Stock ledger
+  getStockMovements(): Promise<StockMovement[]>;
+  addStockMovements(movements: NewStockMovement[], requestId?: string): Promise<void>;
+
+  // Price lists
+  getPriceListEntries(): Promise<PriceListEntry[]>;
+  addPriceListEntries(entries: NewPriceListEntry[]): Promise<void>;
+  deletePriceListEntries(ids: string[]): Promise<void>;
+
+  // Optional separate storage for the logo and PDF template. A backend with it
+  // leaves them out of getCompanySettings; the others keep them in the settings.
+  getCompanyAssets?(): Promise<CompanyAssets>;
+  saveCompanyAssets?(assets: CompanyAssets): Promise<void>;
+
+  // Optional indexed lookups; callers fall back to filtering the full lists
+  getCustomersByRoute?(route: string): Promise<Customer[]>;
+  getLedgerTotals?(): Promise<Record<string, number>>; // Sum of balanceChange per customer, opening balance entries left out
+  queryInvoices?(query: RecordQuery): Promise<Invoice[]>;
+  queryTransactions?(query: RecordQuery): Promise<Transaction[]>;
+
+  // Routes
+  getRouteInfos(): Promise<RouteInfo[]>;
+  saveRouteInfo(routeInfo: RouteInfo): Promise<void>;
+  updateRouteInfo(id: string, routeData: RouteInfoData): Promise<void>;
+  deleteRouteInfo(id: string): Promise<void>;
+
+  // Route sheets
+  getSheetHistory(): Promise<SheetRecord[]>;
+  getSheetById(id: string): Promise<SheetRecord | null>;
+  saveSheetRecord(sheet: SheetRecord): Promise<string>;
+  updateSheetRecord(id: string, updates: Partial<SheetRecord>): Promise<void>;
+  deleteSheetRecord(id: string): Promise<void>;
+  commitSheetClose(plan: SheetClosePlan, requestId?: string): Promise<void>;
+}
+
+let activeAdapter: StorageAdapter | null = null;
+
+// Pick the backend once at startup; pass an adapter to override it (e.g. in-memory for tests)
+export const initializeStorageAdapter = (adapter?: StorageAdapter): StorageAdapter => {
+  if (adapter) {
+    activeAdapter = adapter;
+  } else if (isSupabaseConfigured()) {
+    // Writes made while offline are queued and replayed when the connection returns
+    activeAdapter = withOutbox(createSupabaseAdapter());
+  } else {
+    // Prefer IndexedDB for local data; localStorage is the last resort
+    activeAdapter = isIndexedDBAvailable() ? createIndexedDBAdapter() : createLocalStorageAdapter();
+  }
+
+  console.log(`🗄️ Storage backend: ${activeAdapter.mode}`);
+  return activeAdapter;
+};
+
+export const getStorageAdapter = (): StorageAdapter => {
+  return activeAdapter || initializeStorageAdapter();
+};
@@ -1,4 +1,4 @@
-import { Customer, Transaction, Invoice, Product, CompanySettings } from '../types';
+import { Customer, Transaction, Invoice, Product, CompanySettings, RouteInfo, SheetRecord, CreditNote, StockMovement, PriceListEntry } from '../types';
 
 // Local storage keys
 const STORAGE_KEYS = {
@@ -8,7 +8,13 @@ const STORAGE_KEYS = {
   CUSTOMER_COUNTER: 'sales_app_customer_counter',
   INVOICE_COUNTER: 'sales_app_invoice_counter',
   PRODUCTS: 'sales_app_products',
-  COMPANY_SETTINGS: 'sales_app_company_settings'
+  COMPANY_SETTINGS: 'sales_app_company_settings',
+  ROUTE_INFOS: 'sales_app_route_infos',
+  SHEETS_HISTORY: 'sales_app_sheets_history',
+  CREDIT_NOTES: 'sales_app_credit_notes',
+  CREDIT_NOTE_COUNTER: 'sales_app_credit_note_counter',
+  STOCK_MOVEMENTS: 'sales_app_stock_movements',
+  PRICE_LIST: 'sales_app_price_list'
 };
 
 // Initialize default data
@@ -163,7 +169,9 @@ export const getCustomerById = (id: string): Customer | undefined => {
 
 // Generate sequential customer ID starting from 100001
 export const generateCustomerId = (): string => {
-  let counter = parseInt(localStorage.getItem(STORAGE_KEYS.CUSTOMER_COUNTER) || '100000');
+  // Never fall behind IDs already in use (e.g. after restoring a backup)
+  const highestId = getCustomers().reduce((max, c) => Math.max(max, parseInt(c.id) || 0), 100000);
+  let counter = Math.max(parseInt(localStorage.getItem(STORAGE_KEYS.CUSTOMER_COUNTER) || '100000'), highestId);
   counter++;
   localStorage.setItem(STORAGE_KEYS.CUSTOMER_COUNTER, counter.toString());
   return counter.toString();
@@ -171,12 +179,35 @@ export const generateCustomerId = (): string => {
 
 // Generate sequential invoice number starting from INV00001
 export const generateInvoiceNumber = (): string => {
-  let counter = parseInt(localStorage.getItem(STORAGE_KEYS.INVOICE_COUNTER) || '0');
+  const highestNumber = getInvoices().reduce((max, i) => {
+    const match = /^INV(\d+)$/.exec(i.invoiceNumber || '');
+    return match ? Math.max(max, parseInt(match[1])) : max;
+  }, 0);
+  let counter = Math.max(parseInt(localStorage.getItem(STORAGE_KEYS.INVOICE_COUNTER) || '0'), highestNumber);
   counter++;
   localStorage.setItem(STORAGE_KEYS.INVOICE_COUNTER, counter.toString());
   return `INV${counter.toString().padStart(5, '0')}`;
 };
 
+// Generate sequential credit note number starting from CN00001
+export const generateCreditNoteNumber = (): string => {
+  const highestNumber = getCreditNotes().reduce((max, c) => {
+    const match = /^CN(\d+)$/.exec(c.creditNoteNumber || '');
+    return match ? Math.max(max, parseInt(match[1])) : max;
+  }, 0);
+  let counter = Math.max(parseInt(localStorage.getItem(STORAGE_KEYS.CREDIT_NOTE_COUNTER) || '0'), highestNumber);
+  counter++;
+  localStorage.setItem(STORAGE_KEYS.CREDIT_NOTE_COUNTER, counter.toString());
+  return `CN${counter.toString().padStart(5, '0')}`;
+};
+
+// Last issued customer ID and document numbers, as stored in the counters
+export const getStoredCounters = (): { customer: number; invoice: number; creditNote: number } => ({
+  customer: parseInt(localStorage.getItem(STORAGE_KEYS.CUSTOMER_COUNTER) || '100000'),
+  invoice: parseInt(localStorage.getItem(STORAGE_KEYS.INVOICE_COUNTER) || '0'),
+  creditNote: parseInt(localStorage.getItem(STORAGE_KEYS.CREDIT_NOTE_COUNTER) || '0')
+});
+
 // Transaction management
 export const getTransactions = (): Transaction[] => {
   const data = localStorage.getItem(STORAGE_KEYS.TRANSACTIONS);
@@ -200,14 +231,18 @@ export const addTransaction = (transaction: Omit<Transaction, 'id'>): void => {
 // Invoice management
 export const getInvoices = (): Invoice[] => {
   const data = localStorage.getItem(STORAGE_KEYS.INVOICES);
-  return data ? JSON.parse(data).map((i: any) => ({ ...i, date: new Date(i.date) })) : [];
+  return data ? JSON.parse(data).map((i: any) => ({ 
+    ...i, 
+    date: new Date(i.date),
+    cancelledAt: i.cancelledAt ? new Date(i.cancelledAt) : undefined
+  })) : [];
 };
 
 export const saveInvoices = (invoices: Invoice[]): void => {
   localStorage.setItem(STORAGE_KEYS.INVOICES, JSON.stringify(invoices));
 };
 
-export const addInvoice = (invoice: Omit<Invoice, 'id' | 'invoiceNumber'>): string => {
+export const addInvoice = (invoice: Omit<Invoice, 'id' | 'invoiceNumber'>): Invoice => {
   const invoices = getInvoices();
   const invoiceNumber = generateInvoiceNumber();
   
@@ -219,7 +254,88 @@ export const addInvoice = (invoice: Omit<Invoice, 'id' | 'invoiceNumber'>): stri
   
   invoices.push(newInvoice);
   saveInvoices(invoices);
-  return invoiceNumber;
+  return newInvoice;
+};
+
+export const updateInvoice = (id: string, updates: Partial<Invoice>): void => {
+  const invoices = getInvoices();
+  const index = invoices.findIndex(i => i.id === id);
+  if (index !== -1) {
+    invoices[index] = { ...invoices[index], ...updates };
+    saveInvoices(invoices);
+  }
+};
+
+// Credit note management
+export const getCreditNotes = (): CreditNote[] => {
+  const data = localStorage.getItem(STORAGE_KEYS.CREDIT_NOTES);
+  return data ? JSON.parse(data).map((c: CreditNote) => ({ ...c, date: new Date(c.date) })) : [];
+};
+
+export const saveCreditNotes = (creditNotes: CreditNote[]): void => {
+  localStorage.setItem(STORAGE_KEYS.CREDIT_NOTES, JSON.stringify(creditNotes));
+};
+
+export const addCreditNote = (creditNote: Omit<CreditNote, 'id' | 'creditNoteNumber'>): string => {
+  const creditNotes = getCreditNotes();
+  const creditNoteNumber = generateCreditNoteNumber();
+  
+  creditNotes.push({
+    ...creditNote,
+    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    creditNoteNumber
+  });
+  saveCreditNotes(creditNotes);
+  return creditNoteNumber;
+};
+
+// Stock ledger
+export const getStockMovements = (): StockMovement[] => {
+  const data = localStorage.getItem(STORAGE_KEYS.STOCK_MOVEMENTS);
+  return data ? JSON.parse(data).map((m: StockMovement) => ({ ...m, date: new Date(m.date) })) : [];
+};
+
+export const saveStockMovements = (movements: StockMovement[]): void => {
+  localStorage.setItem(STORAGE_KEYS.STOCK_MOVEMENTS, JSON.stringify(movements));
+};
+
+export const addStockMovements = (movements: Omit<StockMovement, 'id'>[]): void => {
+  const existing = getStockMovements();
+  movements.forEach(movement => {
+    existing.push({
+      ...movement,
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    });
+  });
+  saveStockMovements(existing);
+};
+
+// Price lists
+export const getPriceListEntries = (): PriceListEntry[] => {
+  const data = localStorage.getItem(STORAGE_KEYS.PRICE_LIST);
+  return data
+    ? JSON.parse(data).map((e: PriceListEntry) => ({ ...e, effectiveFrom: new Date(e.effectiveFrom), createdAt: new Date(e.createdAt) }))
+    : [];
+};
+
+export const savePriceListEntries = (entries: PriceListEntry[]): void => {
+  localStorage.setItem(STORAGE_KEYS.PRICE_LIST, JSON.stringify(entries));
+};
+
+export const addPriceListEntries = (entries: Omit<PriceListEntry, 'id' | 'createdAt'>[]): void => {
+  const existing = getPriceListEntries();
+  entries.forEach(entry => {
+    existing.push({
+      ...entry,
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date()
+    });
+  });
+  savePriceListEntries(existing);
+};
+
+export const deletePriceListEntries = (ids: string[]): void => {
+  savePriceListEntries(getPriceListEntries().filter(e => !ids.includes(e.id)));
 };
 
 // Get customers by route
@@ -237,4 +353,89 @@ export const getRoutes = (): string[] => {
 // Get customer transactions
 export const getCustomerTransactions = (customerId: string): Transaction[] => {
   return getTransactions().filter(t => t.customerId === customerId);
-};
\ No newline at end of file
+};
+
+// Route info management
+export const getRouteInfos = (): RouteInfo[] => {
+  const data = localStorage.getItem(STORAGE_KEYS.ROUTE_INFOS);
+  return data ? JSON.parse(data).map((route: RouteInfo) => ({
+    ...route,
+    createdAt: new Date(route.createdAt),
+    updatedAt: new Date(route.updatedAt)
+  })) : [];
+};
+
+export const saveRouteInfos = (routeInfos: RouteInfo[]): void => {
+  localStorage.setItem(STORAGE_KEYS.ROUTE_INFOS, JSON.stringify(routeInfos));
+};
+
+export const addRouteInfo = (routeInfo: RouteInfo): void => {
+  const routeInfos = getRouteInfos();
+  routeInfos.push(routeInfo);
+  saveRouteInfos(routeInfos);
+};
+
+export const updateRouteInfo = (id: string, updates: Partial<RouteInfo>): void => {
+  const routeInfos = getRouteInfos();
+  const index = routeInfos.findIndex(route => route.id === id);
+  if (index !== -1) {
+    routeInfos[index] = { ...routeInfos[index], ...updates, updatedAt: new Date() };
+    saveRouteInfos(routeInfos);
+  }
+};
+
+export const deleteRouteInfo = (id: string): void => {
+  saveRouteInfos(getRouteInfos().filter(route => route.id !== id));
+};
+
+// Sheet history management
+export const getSheetRecords = (): SheetRecord[] => {
+  const data = localStorage.getItem(STORAGE_KEYS.SHEETS_HISTORY);
+  return data ? JSON.parse(data).map((sheet: SheetRecord) => ({
+    ...sheet,
+    createdAt: new Date(sheet.createdAt),
+    updatedAt: new Date(sheet.updatedAt)
+  })) : [];
+};
+
+export const saveSheetRecords = (sheets: SheetRecord[]): void => {
+  localStorage.setItem(STORAGE_KEYS.SHEETS_HISTORY, JSON.stringify(sheets));
+};
+
+export const addSheetRecord = (sheet: SheetRecord): void => {
+  const sheets = getSheetRecords();
+  sheets.push(sheet);
+  saveSheetRecords(sheets);
+};
+
+export const updateSheetRecord = (id: string, updates: Partial<SheetRecord>): void => {
+  const sheets = getSheetRecords();
+  const index = sheets.findIndex(sheet => sheet.id === id);
+  if (index !== -1) {
+    sheets[index] = { ...sheets[index], ...updates, updatedAt: new Date() };
+    saveSheetRecords(sheets);
+  }
+};
+
+export const deleteSheetRecord = (id: string): void => {
+  saveSheetRecords(getSheetRecords().filter(sheet => sheet.id !== id));
+};
+
+// Run a group of writes so that either all of them are kept or none are
+export const runWithRollback = <T>(operation: () => T): T => {
+  const snapshot = Object.values(STORAGE_KEYS).map(key => [key, localStorage.getItem(key)] as const);
+  
+  try {
+    return operation();
+  } catch (error) {
+    console.error('❌ Local write failed, restoring previous data:', error);
+    snapshot.forEach(([key, value]) => {
+      if (value === null) {
+        localStorage.removeItem(key);
+      } else {
+        localStorage.setItem(key, value);
+      }
+    });
+    throw error;
+  }
+};
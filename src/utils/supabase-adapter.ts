@@ -0,0 +1,942 @@
+import { supabase, TABLES } from '../lib/supabase';
+import { Customer, Transaction, Invoice, Product, CompanySettings, CompanyAssets, RouteInfo, SheetRecord, CreditNote, StockMovement, PriceListEntry } from '../types';
+import { StorageAdapter, NewInvoice, NewTransaction, NewCreditNote, NewStockMovement, NewPriceListEntry } from './storage-adapter';
+
+// Helper function to handle errors
+function handleError(error: unknown, operation: string): never {
+  console.error(`Error in ${operation}:`, error);
+  throw new Error(`Failed to ${operation}: ${(error as { message?: string })?.message || error}`);
+}
+
+// Rows come back untyped from the Supabase client; columns are read through
+// the helpers below so each one is converted to the type the app expects
+type DbRow = Record<string, unknown>;
+
+const isBlank = (value: unknown): value is null | undefined => value === null || value === undefined;
+const text = (value: unknown): string => (isBlank(value) ? '' : String(value));
+const optionalText = (value: unknown): string | undefined => text(value) || undefined;
+const decimal = (value: unknown): number => parseFloat(text(value)) || 0;
+const optionalDecimal = (value: unknown): number | undefined => (isBlank(value) ? undefined : parseFloat(text(value)));
+const timestamp = (value: unknown): Date => new Date(text(value));
+
+// Row mappers
+const toCompanySettings = (s: DbRow): CompanySettings => ({
+  companyName: text(s.company_name),
+  address: text(s.address),
+  phone: text(s.phone),
+  email: text(s.email),
+  gstin: optionalText(s.gstin),
+  state: optionalText(s.state),
+  containerTypes: (s.container_types as CompanySettings['containerTypes']) || [],
+  schemes: (s.schemes as CompanySettings['schemes']) || [],
+  updatedAt: isBlank(s.updated_at) ? new Date() : timestamp(s.updated_at)
+});
+
+const toCustomer = (c: DbRow): Customer => ({
+  id: text(c.id),
+  name: text(c.name),
+  phone: text(c.phone),
+  address: text(c.address),
+  route: text(c.route),
+  openingBalance: decimal(c.opening_balance),
+  outstandingAmount: decimal(c.outstanding_amount),
+  productPrices: (c.product_prices as Customer['productPrices']) || {},
+  gstin: optionalText(c.gstin),
+  state: optionalText(c.state),
+  creditLimit: optionalDecimal(c.credit_limit),
+  creditDays: isBlank(c.credit_days) ? undefined : parseInt(text(c.credit_days)),
+  standingOrder: (c.standing_order as Customer['standingOrder']) || undefined,
+  routeSequence: optionalDecimal(c.route_sequence),
+  latitude: optionalDecimal(c.latitude),
+  longitude: optionalDecimal(c.longitude),
+  createdAt: timestamp(c.created_at),
+  updatedAt: timestamp(c.updated_at)
+});
+
+const toProduct = (p: DbRow): Product => ({
+  id: text(p.id),
+  name: text(p.name),
+  defaultPrice: decimal(p.default_price),
+  reorderLevel: decimal(p.reorder_level),
+  hsnCode: optionalText(p.hsn_code),
+  gstRate: decimal(p.gst_rate),
+  createdAt: timestamp(p.created_at),
+  updatedAt: timestamp(p.updated_at)
+});
+
+const toRouteInfo = (r: DbRow): RouteInfo => ({
+  id: text(r.id),
+  name: text(r.name),
+  description: text(r.description),
+  areas: (r.areas as RouteInfo['areas']) || [],
+  pincodes: (r.pincodes as RouteInfo['pincodes']) || [],
+  isActive: Boolean(r.is_active),
+  productIds: (r.product_ids as RouteInfo['productIds']) || [],
+  createdAt: timestamp(r.created_at),
+  updatedAt: timestamp(r.updated_at)
+});
+
+const toSheetRecord = (sheet: DbRow): SheetRecord => ({
+  id: text(sheet.id),
+  routeId: text(sheet.route_id),
+  routeName: text(sheet.route_name),
+  customers: (sheet.customers as SheetRecord['customers']) || [],
+  status: sheet.status as SheetRecord['status'],
+  productIds: (sheet.product_ids as SheetRecord['productIds']) || undefined,
+  deliveryData: (sheet.delivery_data as SheetRecord['deliveryData']) || {},
+  amountReceived: (sheet.amount_received as SheetRecord['amountReceived']) || {},
+  containerData: (sheet.container_data as SheetRecord['containerData']) || undefined,
+  routeOutstanding: decimal(sheet.route_outstanding),
+  vanLoad: (sheet.van_load as SheetRecord['vanLoad']) || undefined,
+  returnedStock: (sheet.returned_stock as SheetRecord['returnedStock']) || undefined,
+  notes: text(sheet.notes),
+  createdAt: timestamp(sheet.created_at),
+  updatedAt: timestamp(sheet.updated_at)
+});
+
+const toInvoice = (i: DbRow): Invoice => ({
+  id: text(i.id),
+  invoiceNumber: text(i.invoice_number),
+  customerId: text(i.customer_id),
+  customerName: text(i.customer_name),
+  items: (i.items as Invoice['items']) || [],
+  subtotal: decimal(i.subtotal),
+  totalAmount: decimal(i.total_amount),
+  discount: (i.discount as Invoice['discount']) || undefined,
+  amountReceived: decimal(i.amount_received),
+  balanceChange: decimal(i.balance_change),
+  date: timestamp(i.date),
+  status: i.status as Invoice['status'],
+  routeId: optionalText(i.route_id),
+  routeName: optionalText(i.route_name) || 'No route',
+  sheetId: optionalText(i.sheet_id),
+  cashAmount: decimal(i.cash_amount),
+  upiAmount: decimal(i.upi_amount),
+  customerFinalBalance: decimal(i.customer_final_balance),
+  cancellationReason: optionalText(i.cancellation_reason),
+  cancelledAt: isBlank(i.cancelled_at) ? undefined : timestamp(i.cancelled_at),
+  creditOverrideReason: optionalText(i.credit_override_reason)
+});
+
+// Map an invoice to its Supabase row; invoice_number is left to the database sequence
+const toInvoiceRow = (invoice: NewInvoice) => ({
+  customer_id: invoice.customerId,
+  customer_name: invoice.customerName,
+  items: invoice.items,
+  subtotal: invoice.subtotal,
+  total_amount: invoice.totalAmount,
+  discount: invoice.discount || null,
+  amount_received: invoice.amountReceived,
+  balance_change: invoice.balanceChange,
+  status: invoice.status,
+  route_id: invoice.routeId || null,
+  route_name: invoice.routeName || 'No route',
+  sheet_id: invoice.sheetId || null,
+  cash_amount: invoice.cashAmount || 0,
+  upi_amount: invoice.upiAmount || 0,
+  customer_final_balance: invoice.customerFinalBalance,
+  credit_override_reason: invoice.creditOverrideReason || null,
+  date: invoice.date.toISOString()
+});
+
+const toTransaction = (t: DbRow): Transaction => ({
+  id: text(t.id),
+  customerId: text(t.customer_id),
+  customerName: text(t.customer_name),
+  type: t.type as Transaction['type'],
+  items: (t.items as Transaction['items']) || [],
+  totalAmount: decimal(t.total_amount),
+  amountReceived: decimal(t.amount_received),
+  balanceChange: decimal(t.balance_change),
+  date: timestamp(t.date),
+  invoiceNumber: text(t.invoice_number),
+  routeId: optionalText(t.route_id),
+  routeName: optionalText(t.route_name),
+  sheetId: optionalText(t.sheet_id)
+});
+
+// Map a transaction to its Supabase row
+const toTransactionRow = (transaction: NewTransaction) => ({
+  customer_id: transaction.customerId,
+  customer_name: transaction.customerName,
+  type: transaction.type,
+  items: transaction.items,
+  total_amount: transaction.totalAmount,
+  amount_received: transaction.amountReceived,
+  balance_change: transaction.balanceChange,
+  invoice_number: transaction.invoiceNumber,
+  date: transaction.date.toISOString(),
+  route_id: transaction.routeId || null,
+  route_name: transaction.routeName || null,
+  sheet_id: transaction.sheetId || null
+});
+
+const toCreditNote = (c: DbRow): CreditNote => ({
+  id: text(c.id),
+  creditNoteNumber: text(c.credit_note_number),
+  invoiceId: text(c.invoice_id),
+  invoiceNumber: text(c.invoice_number),
+  customerId: text(c.customer_id),
+  customerName: text(c.customer_name),
+  items: (c.items as CreditNote['items']) || [],
+  totalAmount: decimal(c.total_amount),
+  reason: text(c.reason),
+  date: timestamp(c.date),
+  routeId: optionalText(c.route_id),
+  routeName: optionalText(c.route_name),
+  sheetId: optionalText(c.sheet_id)
+});
+
+// Map a credit note to its Supabase row; the number comes from the database sequence
+const toCreditNoteRow = (creditNote: NewCreditNote) => ({
+  invoice_id: creditNote.invoiceId,
+  invoice_number: creditNote.invoiceNumber,
+  customer_id: creditNote.customerId,
+  customer_name: creditNote.customerName,
+  items: creditNote.items,
+  total_amount: creditNote.totalAmount,
+  reason: creditNote.reason,
+  route_id: creditNote.routeId || null,
+  route_name: creditNote.routeName || null,
+  sheet_id: creditNote.sheetId || null,
+  date: creditNote.date.toISOString()
+});
+
+const toStockMovement = (m: DbRow): StockMovement => ({
+  id: text(m.id),
+  productId: text(m.product_id),
+  productName: text(m.product_name),
+  type: m.type as StockMovement['type'],
+  quantity: decimal(m.quantity),
+  reference: optionalText(m.reference),
+  notes: optionalText(m.notes),
+  date: timestamp(m.date)
+});
+
+const toStockMovementRow = (movement: NewStockMovement) => ({
+  product_id: movement.productId,
+  product_name: movement.productName,
+  type: movement.type,
+  quantity: movement.quantity,
+  reference: movement.reference || null,
+  notes: movement.notes || null,
+  date: movement.date.toISOString()
+});
+
+const toPriceListEntry = (e: DbRow): PriceListEntry => ({
+  id: text(e.id),
+  productId: text(e.product_id),
+  customerId: optionalText(e.customer_id),
+  price: decimal(e.price),
+  effectiveFrom: timestamp(e.effective_from),
+  notes: optionalText(e.notes),
+  revisionId: optionalText(e.revision_id),
+  createdAt: timestamp(e.created_at)
+});
+
+const toPriceListEntryRow = (entry: NewPriceListEntry) => ({
+  product_id: entry.productId,
+  customer_id: entry.customerId || null,
+  price: entry.price,
+  effective_from: entry.effectiveFrom.toISOString(),
+  notes: entry.notes || null,
+  revision_id: entry.revisionId || null
+});
+
+export const createSupabaseAdapter = (): StorageAdapter => {
+  const adapter: StorageAdapter = {
+    mode: 'supabase',
+
+    async initializeDefaultData() {
+      // Check if company settings exist, if not create default ones
+      try {
+        const settings = await adapter.getCompanySettings();
+        if (!settings.companyName) {
+          await adapter.saveCompanySettings({
+            companyName: 'Your Company Name',
+            address: 'Your Company Address',
+            phone: '+91 XXXXXXXXXX',
+            email: 'info@company.com',
+            updatedAt: new Date()
+          });
+        }
+      } catch (error) {
+        console.error('Error initializing default company settings:', error);
+      }
+    },
+
+    // Company Settings
+    async getCompanySettings() {
+      try {
+        // The logo and PDF template live in company_assets and are read by getCompanyAssets
+        const { data, error } = await supabase
+          .from(TABLES.COMPANY_SETTINGS)
+          .select('*')
+          .eq('singleton', true)
+          .limit(1);
+
+        if (error) throw error;
+
+        if (data && data.length > 0) {
+          return toCompanySettings(data[0]);
+        }
+
+        return {
+          companyName: '',
+          address: '',
+          phone: '',
+          email: '',
+          updatedAt: new Date()
+        };
+      } catch (error) {
+        return handleError(error, 'get company settings from Supabase');
+      }
+    },
+
+    async saveCompanySettings(settings: CompanySettings) {
+      try {
+        const row = {
+          company_name: settings.companyName,
+          address: settings.address,
+          phone: settings.phone,
+          email: settings.email,
+          gstin: settings.gstin || null,
+          state: settings.state || null,
+          container_types: settings.containerTypes || [],
+          schemes: settings.schemes || [],
+          updated_at: new Date().toISOString()
+        };
+
+        // There is a single settings row, marked by the singleton column; update it in place
+        const { error } = await supabase
+          .from(TABLES.COMPANY_SETTINGS)
+          .upsert({ ...row, singleton: true }, { onConflict: 'singleton' });
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'save company settings to Supabase');
+      }
+    },
+
+    async getCompanyAssets() {
+      try {
+        const { data, error } = await supabase
+          .from(TABLES.COMPANY_ASSETS)
+          .select('*');
+
+        if (error) throw error;
+
+        const logo = (data || []).find((a: DbRow) => a.kind === 'logo');
+        const template = (data || []).find((a: DbRow) => a.kind === 'pdf_template');
+        return {
+          logo: logo?.data || undefined,
+          logoFileName: logo?.file_name || undefined,
+          pdfTemplate: template?.data || undefined,
+          templateFileName: template?.file_name || undefined,
+          templateUploadedAt: template?.uploaded_at ? new Date(template.uploaded_at) : undefined
+        };
+      } catch (error) {
+        return handleError(error, 'get company assets from Supabase');
+      }
+    },
+
+    async saveCompanyAssets(assets: CompanyAssets) {
+      try {
+        // One row per kind; a removed logo or template is deleted
+        const rows = [
+          { kind: 'logo', data: assets.logo, file_name: assets.logoFileName || null },
+          { kind: 'pdf_template', data: assets.pdfTemplate, file_name: assets.templateFileName || null, uploaded_at: new Date(assets.templateUploadedAt || new Date()).toISOString() }
+        ];
+        const kept = rows.filter(row => row.data);
+        const removed = rows.filter(row => !row.data).map(row => row.kind);
+
+        if (kept.length > 0) {
+          const { error } = await supabase.from(TABLES.COMPANY_ASSETS).upsert(kept, { onConflict: 'kind' });
+          if (error) throw error;
+        }
+        if (removed.length > 0) {
+          const { error } = await supabase.from(TABLES.COMPANY_ASSETS).delete().in('kind', removed);
+          if (error) throw error;
+        }
+      } catch (error) {
+        handleError(error, 'save company assets to Supabase');
+      }
+    },
+
+    // Products
+    async getProducts() {
+      try {
+        const { data, error } = await supabase
+          .from(TABLES.PRODUCTS)
+          .select('*')
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return (data || []).map(toProduct);
+      } catch (error) {
+        return handleError(error, 'get products from Supabase');
+      }
+    },
+
+    async saveProducts() {
+      // This function is mainly for localStorage compatibility
+      // For Supabase, use addProduct, updateProduct, deleteProduct instead
+      console.warn('saveProducts: Use individual product operations for Supabase');
+    },
+
+    async addProduct(product) {
+      try {
+        const { data, error } = await supabase
+          .from(TABLES.PRODUCTS)
+          .insert({
+            name: product.name,
+            default_price: product.defaultPrice,
+            reorder_level: product.reorderLevel || 0,
+            hsn_code: product.hsnCode || null,
+            gst_rate: product.gstRate || 0
+          })
+          .select()
+          .single();
+
+        if (error) throw error;
+        return toProduct(data);
+      } catch (error) {
+        return handleError(error, 'add product to Supabase');
+      }
+    },
+
+    async updateProduct(id, updates) {
+      try {
+        const updateData: Record<string, unknown> = {};
+        if (updates.name) updateData.name = updates.name;
+        if (updates.defaultPrice !== undefined) updateData.default_price = updates.defaultPrice;
+        if (updates.reorderLevel !== undefined) updateData.reorder_level = updates.reorderLevel;
+        if (updates.hsnCode !== undefined) updateData.hsn_code = updates.hsnCode || null;
+        if (updates.gstRate !== undefined) updateData.gst_rate = updates.gstRate;
+
+        const { error } = await supabase
+          .from(TABLES.PRODUCTS)
+          .update(updateData)
+          .eq('id', id);
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'update product in Supabase');
+      }
+    },
+
+    async deleteProduct(id) {
+      try {
+        const { error } = await supabase
+          .from(TABLES.PRODUCTS)
+          .delete()
+          .eq('id', id);
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'delete product from Supabase');
+      }
+    },
+
+    // Customers
+    async getCustomers() {
+      try {
+        const { data, error } = await supabase
+          .from(TABLES.CUSTOMERS)
+          .select('*')
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return (data || []).map(toCustomer);
+      } catch (error) {
+        return handleError(error, 'get customers from Supabase');
+      }
+    },
+
+    async addCustomer(customer) {
+      try {
+        // The customer ID (100001 onwards) is assigned by the database sequence
+        const { data, error } = await supabase
+          .from(TABLES.CUSTOMERS)
+          .insert({
+            name: customer.name,
+            phone: customer.phone,
+            address: customer.address,
+            route: customer.route,
+            opening_balance: customer.openingBalance,
+            outstanding_amount: customer.outstandingAmount,
+            product_prices: customer.productPrices,
+            gstin: customer.gstin || null,
+            state: customer.state || null,
+            credit_limit: customer.creditLimit ?? null,
+            credit_days: customer.creditDays ?? null,
+            standing_order: customer.standingOrder || null,
+            route_sequence: customer.routeSequence ?? null,
+            latitude: customer.latitude ?? null,
+            longitude: customer.longitude ?? null
+          })
+          .select()
+          .single();
+
+        if (error) throw error;
+        return toCustomer(data);
+      } catch (error) {
+        return handleError(error, 'add customer to Supabase');
+      }
+    },
+
+    async updateCustomer(id, updates) {
+      try {
+        const updateData: Record<string, unknown> = {};
+        if (updates.name) updateData.name = updates.name;
+        if (updates.phone !== undefined) updateData.phone = updates.phone;
+        if (updates.address !== undefined) updateData.address = updates.address;
+        if (updates.route !== undefined) updateData.route = updates.route;
+        if (updates.openingBalance !== undefined) updateData.opening_balance = updates.openingBalance;
+        if (updates.outstandingAmount !== undefined) updateData.outstanding_amount = updates.outstandingAmount;
+        if (updates.productPrices !== undefined) updateData.product_prices = updates.productPrices;
+        if (updates.gstin !== undefined) updateData.gstin = updates.gstin || null;
+        if (updates.state !== undefined) updateData.state = updates.state || null;
+        if ('creditLimit' in updates) updateData.credit_limit = updates.creditLimit ?? null;
+        if ('creditDays' in updates) updateData.credit_days = updates.creditDays ?? null;
+        if ('standingOrder' in updates) updateData.standing_order = updates.standingOrder || null;
+        if ('routeSequence' in updates) updateData.route_sequence = updates.routeSequence ?? null;
+        if ('latitude' in updates) updateData.latitude = updates.latitude ?? null;
+        if ('longitude' in updates) updateData.longitude = updates.longitude ?? null;
+
+        const { error } = await supabase
+          .from(TABLES.CUSTOMERS)
+          .update(updateData)
+          .eq('id', id);
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'update customer in Supabase');
+      }
+    },
+
+    async setRouteSequence(route, customerIds) {
+      try {
+        // Renumbered in one statement, so a failure leaves the old order in place
+        const { error } = await supabase.rpc('set_route_sequence', {
+          p_route: route,
+          p_customer_ids: customerIds
+        });
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'set route stop order in Supabase');
+      }
+    },
+
+    async deleteCustomer(id) {
+      try {
+        const { error } = await supabase
+          .from(TABLES.CUSTOMERS)
+          .delete()
+          .eq('id', id);
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'delete customer from Supabase');
+      }
+    },
+
+    // Invoices
+    async getInvoices() {
+      try {
+        const { data, error } = await supabase
+          .from(TABLES.INVOICES)
+          .select('*')
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+
+        return (data || []).map(toInvoice);
+      } catch (error) {
+        return handleError(error, 'get invoices from Supabase');
+      }
+    },
+
+    async commitInvoice(plan, requestId) {
+      try {
+        // The invoice, its sale and its stock-out are inserted in one database transaction;
+        // the invoice number (INV00001 onwards) is assigned by the database sequence
+        const { data, error } = await supabase.rpc('create_invoice', {
+          p_invoice: toInvoiceRow(plan.invoice),
+          p_transaction: toTransactionRow({ ...plan.transaction, invoiceNumber: '' }),
+          p_stock_movements: plan.stockMovements.map(toStockMovementRow),
+          p_request_id: requestId ?? null
+        });
+
+        if (error) throw error;
+        return toInvoice(data as DbRow);
+      } catch (error) {
+        return handleError(error, 'add invoice to Supabase');
+      }
+    },
+
+    async commitInvoiceVoid(plan, requestId) {
+      try {
+        // Cancelling, the reversal and the stock return happen in one database transaction
+        const { error } = await supabase.rpc('void_invoice', {
+          p_invoice_id: plan.invoiceId,
+          p_reason: plan.reason,
+          p_cancelled_at: plan.cancelledAt.toISOString(),
+          p_transaction: toTransactionRow(plan.reversal),
+          p_stock_movements: plan.stockMovements.map(toStockMovementRow),
+          p_request_id: requestId ?? null
+        });
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'void invoice in Supabase');
+      }
+    },
+
+    // Credit notes
+    async getCreditNotes() {
+      try {
+        const { data, error } = await supabase
+          .from(TABLES.CREDIT_NOTES)
+          .select('*')
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(toCreditNote);
+      } catch (error) {
+        return handleError(error, 'get credit notes from Supabase');
+      }
+    },
+
+    async commitCreditNote(plan, requestId) {
+      try {
+        // The credit note, its transaction and the stock return are inserted in one database transaction
+        const { data, error } = await supabase.rpc('create_credit_note', {
+          p_credit_note: toCreditNoteRow(plan.creditNote),
+          p_transaction: toTransactionRow({ ...plan.transaction, invoiceNumber: '' }),
+          p_stock_movements: plan.stockMovements.map(toStockMovementRow),
+          p_request_id: requestId ?? null
+        });
+
+        if (error) throw error;
+        return data as string;
+      } catch (error) {
+        return handleError(error, 'create credit note in Supabase');
+      }
+    },
+
+    // Transactions
+    async getTransactions() {
+      try {
+        const { data, error } = await supabase
+          .from(TABLES.TRANSACTIONS)
+          .select('*')
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+
+        return (data || []).map(toTransaction);
+      } catch (error) {
+        return handleError(error, 'get transactions from Supabase');
+      }
+    },
+
+    async addTransaction(transaction, requestId) {
+      try {
+        // A row whose request ID is already stored was sent before; skip it
+        const { error } = await supabase
+          .from(TABLES.TRANSACTIONS)
+          .upsert({ ...toTransactionRow(transaction), request_id: requestId ?? null }, { onConflict: 'request_id', ignoreDuplicates: true });
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'add transaction to Supabase');
+      }
+    },
+
+    async getLedgerTotals() {
+      try {
+        // Summed by the customer_ledger_totals view rather than fetching every transaction
+        const { data, error } = await supabase
+          .from(TABLES.CUSTOMER_LEDGER_TOTALS)
+          .select('customer_id, ledger_total');
+
+        if (error) throw error;
+        return Object.fromEntries((data || []).map((row: DbRow) => [text(row.customer_id), decimal(row.ledger_total)]));
+      } catch (error) {
+        return handleError(error, 'get ledger totals from Supabase');
+      }
+    },
+
+    // Stock ledger
+    async getStockMovements() {
+      try {
+        const { data, error } = await supabase
+          .from(TABLES.STOCK_MOVEMENTS)
+          .select('*')
+          .order('date', { ascending: true });
+
+        if (error) throw error;
+        return (data || []).map(toStockMovement);
+      } catch (error) {
+        return handleError(error, 'get stock movements from Supabase');
+      }
+    },
+
+    async addStockMovements(movements, requestId) {
+      if (movements.length === 0) return;
+      try {
+        const { error } = await supabase
+          .from(TABLES.STOCK_MOVEMENTS)
+          .upsert(movements.map((movement, index) => ({
+            ...toStockMovementRow(movement),
+            request_id: requestId ? `${requestId}-${index}` : null
+          })), { onConflict: 'request_id', ignoreDuplicates: true });
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'add stock movements to Supabase');
+      }
+    },
+
+    // Price lists
+    async getPriceListEntries() {
+      try {
+        const { data, error } = await supabase
+          .from(TABLES.PRICE_LIST)
+          .select('*')
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return (data || []).map(toPriceListEntry);
+      } catch (error) {
+        return handleError(error, 'get price list from Supabase');
+      }
+    },
+
+    async addPriceListEntries(entries) {
+      if (entries.length === 0) return;
+      try {
+        const { error } = await supabase
+          .from(TABLES.PRICE_LIST)
+          .insert(entries.map(toPriceListEntryRow));
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'add price list entries to Supabase');
+      }
+    },
+
+    async deletePriceListEntries(ids) {
+      if (ids.length === 0) return;
+      try {
+        const { error } = await supabase
+          .from(TABLES.PRICE_LIST)
+          .delete()
+          .in('id', ids);
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'delete price list entries from Supabase');
+      }
+    },
+
+    // Route Management
+    async getRouteInfos() {
+      try {
+        const { data, error } = await supabase
+          .from(TABLES.ROUTES)
+          .select('*')
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+
+        return (data || []).map(toRouteInfo);
+      } catch (error) {
+        return handleError(error, 'get route infos from Supabase');
+      }
+    },
+
+    async saveRouteInfo(routeInfo) {
+      try {
+        const { error } = await supabase
+          .from(TABLES.ROUTES)
+          .insert({
+            id: routeInfo.id,
+            name: routeInfo.name,
+            description: routeInfo.description,
+            areas: routeInfo.areas,
+            pincodes: routeInfo.pincodes,
+            is_active: routeInfo.isActive,
+            product_ids: routeInfo.productIds || [],
+            created_at: routeInfo.createdAt.toISOString(),
+            updated_at: routeInfo.updatedAt.toISOString()
+          });
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'save route info to Supabase');
+      }
+    },
+
+    async updateRouteInfo(id, routeData) {
+      try {
+        const { error } = await supabase
+          .from(TABLES.ROUTES)
+          .update({
+            name: routeData.name,
+            description: routeData.description,
+            areas: routeData.areas,
+            pincodes: routeData.pincodes,
+            is_active: routeData.isActive,
+            product_ids: routeData.productIds,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', id);
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'update route info in Supabase');
+      }
+    },
+
+    async deleteRouteInfo(id) {
+      try {
+        const { error } = await supabase
+          .from(TABLES.ROUTES)
+          .delete()
+          .eq('id', id);
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'delete route info from Supabase');
+      }
+    },
+
+    // Route sheets
+    async getSheetHistory() {
+      try {
+        const { data, error } = await supabase
+          .from(TABLES.SHEETS)
+          .select('*')
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(toSheetRecord);
+      } catch (error) {
+        return handleError(error, 'get sheet history from Supabase');
+      }
+    },
+
+    async getSheetById(id) {
+      try {
+        const { data, error } = await supabase
+          .from(TABLES.SHEETS)
+          .select('*')
+          .eq('id', id)
+          .single();
+
+        if (error) {
+          if (error.code === 'PGRST116') {
+            // No rows returned
+            return null;
+          }
+          throw error;
+        }
+
+        return data ? toSheetRecord(data) : null;
+      } catch (error) {
+        console.warn('Error fetching sheet by ID from Supabase:', error);
+        return null;
+      }
+    },
+
+    async saveSheetRecord(sheet) {
+      try {
+        // Sheet IDs are made by the app, so a sheet sent again is already stored; keep the first copy
+        const { error } = await supabase
+          .from(TABLES.SHEETS)
+          .upsert({
+            id: sheet.id,
+            route_id: sheet.routeId,
+            route_name: sheet.routeName,
+            customers: sheet.customers,
+            status: sheet.status,
+            product_ids: sheet.productIds,
+            delivery_data: sheet.deliveryData,
+            amount_received: sheet.amountReceived,
+            container_data: sheet.containerData,
+            route_outstanding: sheet.routeOutstanding,
+            van_load: sheet.vanLoad,
+            returned_stock: sheet.returnedStock,
+            notes: sheet.notes
+          }, { onConflict: 'id', ignoreDuplicates: true });
+
+        if (error) throw error;
+        return sheet.id;
+      } catch (error) {
+        return handleError(error, 'save sheet history to Supabase');
+      }
+    },
+
+    async updateSheetRecord(id, updates) {
+      try {
+        const { error } = await supabase
+          .from(TABLES.SHEETS)
+          .update({
+            route_id: updates.routeId,
+            route_name: updates.routeName,
+            customers: updates.customers,
+            status: updates.status,
+            product_ids: updates.productIds,
+            delivery_data: updates.deliveryData,
+            amount_received: updates.amountReceived,
+            container_data: updates.containerData,
+            route_outstanding: updates.routeOutstanding,
+            van_load: updates.vanLoad,
+            returned_stock: updates.returnedStock,
+            notes: updates.notes,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', id);
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'update sheet record in Supabase');
+      }
+    },
+
+    async deleteSheetRecord(id) {
+      try {
+        const { error } = await supabase
+          .from(TABLES.SHEETS)
+          .delete()
+          .eq('id', id);
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'delete sheet record from Supabase');
+      }
+    },
+
+    async commitSheetClose(plan, requestId) {
+      try {
+        // The database function inserts everything and closes the sheet in one transaction
+        const { error } = await supabase.rpc('close_route_sheet', {
+          p_sheet_id: plan.sheetId,
+          p_invoices: plan.invoices.map(toInvoiceRow),
+          p_transactions: plan.transactions.map(toTransactionRow),
+          p_stock_movements: plan.stockMovements.map(toStockMovementRow),
+          p_request_id: requestId ?? null
+        });
+
+        if (error) throw error;
+      } catch (error) {
+        handleError(error, 'close sheet in Supabase');
+      }
+    }
+  };
+
+  return adapter;
+};
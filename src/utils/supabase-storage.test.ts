@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Customer, Invoice, Product, SheetRecord, Transaction } from '../types';
+import { initializeStorageAdapter } from './storage-adapter';
+import { createMemoryAdapter } from './memory-adapter';
+import {
+  addInvoice,
+  closeSheetRecord,
+  getCustomerById,
+  getInvoices,
+  getSheetById,
+  getStockLevels,
+  getStockMovements,
+  getTransactions,
+  voidInvoice
+} from './supabase-storage';
+
+const createdAt = new Date('2025-10-01T06:00:00');
+
+const milk: Product = { id: 'P1', name: 'Milk 500ml', defaultPrice: 30, createdAt, updatedAt: createdAt };
+const curd: Product = { id: 'P2', name: 'Curd 400g', defaultPrice: 45, createdAt, updatedAt: createdAt };
+
+const customer: Customer = {
+  id: '100001',
+  name: 'Sharma Stores',
+  phone: '9800000001',
+  address: 'Main Road',
+  route: 'R1',
+  openingBalance: 100,
+  outstandingAmount: 100,
+  productPrices: {},
+  createdAt,
+  updatedAt: createdAt
+};
+
+const invoiceData: Omit<Invoice, 'id' | 'invoiceNumber'> = {
+  customerId: customer.id,
+  customerName: customer.name,
+  items: [{ id: 'item_1', productId: milk.id, productName: milk.name, quantity: 4, price: 30, total: 120 }],
+  subtotal: 120,
+  totalAmount: 120,
+  amountReceived: 20,
+  balanceChange: 100,
+  date: createdAt,
+  status: 'partial',
+  customerFinalBalance: 200
+};
+
+const invoice: Invoice = { ...invoiceData, id: 'INVOICE-1', invoiceNumber: 'INV00001' };
+
+// The ledger entries the invoice was raised with
+const invoiceTransactions: Transaction[] = [
+  { id: 'T1', customerId: customer.id, customerName: customer.name, type: 'sale', items: invoice.items, totalAmount: 120, amountReceived: 0, balanceChange: 120, date: createdAt, invoiceNumber: invoice.invoiceNumber },
+  { id: 'T2', customerId: customer.id, customerName: customer.name, type: 'payment', items: [], totalAmount: 0, amountReceived: 20, balanceChange: -20, date: createdAt, invoiceNumber: 'PAY-1' }
+];
+
+const sheet: SheetRecord = {
+  id: 'SHEET-1',
+  routeId: 'R1',
+  routeName: 'Route 1',
+  customers: [customer],
+  createdAt,
+  updatedAt: createdAt,
+  status: 'active',
+  productIds: [milk.id, curd.id],
+  deliveryData: {
+    [customer.id]: {
+      [milk.id]: { quantity: 10, amount: 300 },
+      [curd.id]: { quantity: 2, amount: 90 }
+    }
+  },
+  amountReceived: {
+    [customer.id]: { cash: 200, upi: 50, total: 250 }
+  },
+  routeOutstanding: 100,
+  vanLoad: { [milk.id]: 12, [curd.id]: 2 },
+  returnedStock: { [milk.id]: 1 },
+  notes: ''
+};
+
+describe('business rules against the in-memory backend', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    initializeStorageAdapter(createMemoryAdapter({
+      products: [milk, curd],
+      customers: [customer],
+      invoices: [invoice],
+      transactions: invoiceTransactions,
+      sheets: [sheet]
+    }));
+  });
+
+  describe('addInvoice', () => {
+    it('posts the sale with the invoice and returns the stored invoice', async () => {
+      const created = await addInvoice(invoiceData);
+
+      expect(created.id).not.toBe(invoice.id);
+      expect(created.invoiceNumber).toBe('INV00002');
+      expect((await getTransactions()).filter(t => t.invoiceNumber === created.invoiceNumber)).toMatchObject([
+        { type: 'sale', totalAmount: 120, amountReceived: 20, balanceChange: 100 }
+      ]);
+      expect(getStockLevels(await getStockMovements())[milk.id]).toBe(-4);
+
+      // The returned id is the stored one, so the invoice can be voided straight away
+      await voidInvoice(created.id, 'Wrong customer');
+      expect((await getInvoices()).find(i => i.invoiceNumber === created.invoiceNumber)?.status).toBe('cancelled');
+      expect((await getCustomerById(customer.id))?.outstandingAmount).toBe(200);
+    });
+  });
+
+  describe('voidInvoice', () => {
+    it('cancels the invoice, reverses its balance change and returns its stock', async () => {
+      await voidInvoice(invoice.id, 'Raised twice');
+
+      const voided = (await getInvoices()).find(i => i.id === invoice.id);
+      expect(voided?.status).toBe('cancelled');
+      expect(voided?.cancellationReason).toBe('Raised twice');
+
+      const reversal = (await getTransactions()).find(t => t.invoiceNumber === 'VOID-INV00001');
+      expect(reversal).toMatchObject({ type: 'adjustment', balanceChange: -100 });
+      expect(getStockLevels(await getStockMovements())[milk.id]).toBe(4);
+      expect((await getCustomerById(customer.id))?.outstandingAmount).toBe(100);
+    });
+
+    it('requires a reason', async () => {
+      await expect(voidInvoice(invoice.id, '  ')).rejects.toThrow('A reason is required to void an invoice');
+      expect((await getInvoices())[0].status).toBe('partial');
+    });
+
+    it('refuses to void an invoice twice', async () => {
+      await voidInvoice(invoice.id, 'Raised twice');
+      await expect(voidInvoice(invoice.id, 'Raised twice')).rejects.toThrow('Invoice is already cancelled');
+      expect((await getTransactions()).filter(t => t.invoiceNumber === 'VOID-INV00001')).toHaveLength(1);
+    });
+  });
+
+  describe('closeSheetRecord', () => {
+    it('invoices the deliveries, records the payment and takes the stock out', async () => {
+      await closeSheetRecord(sheet.id);
+
+      expect((await getSheetById(sheet.id))?.status).toBe('closed');
+
+      const sheetInvoice = (await getInvoices()).find(i => i.sheetId === sheet.id);
+      expect(sheetInvoice).toMatchObject({ invoiceNumber: 'INV00002', totalAmount: 390, amountReceived: 250, status: 'partial' });
+
+      const sheetTransactions = (await getTransactions()).filter(t => t.sheetId === sheet.id);
+      expect(sheetTransactions.find(t => t.type === 'sale')?.invoiceNumber).toBe('INV00002');
+      expect(sheetTransactions.find(t => t.type === 'payment')?.balanceChange).toBe(-250);
+
+      // 10 delivered and 1 returned of the 12 loaded leaves one milk short
+      const stock = getStockLevels(await getStockMovements());
+      expect(stock[milk.id]).toBe(-11);
+      expect(stock[curd.id]).toBe(-2);
+
+      // Opening 100, the earlier invoice's 100, then 390 sold less 250 paid
+      expect((await getCustomerById(customer.id))?.outstandingAmount).toBe(340);
+    });
+
+    it('refuses to close a sheet twice', async () => {
+      await closeSheetRecord(sheet.id);
+      await expect(closeSheetRecord(sheet.id)).rejects.toThrow('Sheet is already closed');
+      expect((await getInvoices()).filter(i => i.sheetId === sheet.id)).toHaveLength(1);
+    });
+
+    it('writes nothing when a delivery amount is wrong', async () => {
+      initializeStorageAdapter(createMemoryAdapter({
+        products: [milk, curd],
+        customers: [customer],
+        sheets: [{ ...sheet, deliveryData: { [customer.id]: { [milk.id]: { quantity: 10, amount: 250 } } } }]
+      }));
+
+      await expect(closeSheetRecord(sheet.id)).rejects.toThrow('Amount calculation error');
+      expect(await getInvoices()).toHaveLength(0);
+      expect(await getTransactions()).toHaveLength(0);
+      expect((await getSheetById(sheet.id))?.status).toBe('active');
+    });
+  });
+});
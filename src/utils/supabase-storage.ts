@@ -1,344 +1,261 @@
-import { supabase, TABLES, isSupabaseConfigured } from '../lib/supabase';
-import { Customer, Transaction, Invoice, Product, CompanySettings, RouteInfo, InvoiceItem } from '../types';
+import { Customer, Transaction, Invoice, Product, CompanySettings, CompanyAssets, RouteInfo, InvoiceItem, BalanceMismatch, SheetRecord, CreditNote, StockMovement, VanReconciliationLine, ContainerType, TaxSummary, Discount, Scheme, PriceListEntry, PriceRevision, PriceRevisionLine, AppliedPriceRevision, AccountStatement, StatementLine, ReceivableAging, CreditHold, StandingOrder, GeoPoint } from '../types';
+import { format, startOfDay, endOfDay, differenceInCalendarDays } from 'date-fns';
+import { getStorageAdapter, StorageMode, RouteInfoData, RecordQuery, NewStockMovement, NewPriceListEntry } from './storage-adapter';
+import { onOutboxSynced } from './outbox';
 
-// Storage modes
-type StorageMode = 'localStorage' | 'supabase';
+// App-facing storage API. Reads and writes go through the StorageAdapter picked
+// at startup; the business rules shared by every backend live here.
 
-// Determine which storage to use
+export type { SheetRecord } from '../types';
+
+// Determine which storage is in use
 export const getStorageMode = (): StorageMode => {
-  return isSupabaseConfigured() ? 'supabase' : 'localStorage';
+  return getStorageAdapter().mode;
 };
 
-// Helper function to handle errors
-const handleError = (error: any, operation: string) => {
-  console.error(`Error in ${operation}:`, error);
-  throw new Error(`Failed to ${operation}: ${error.message || error}`);
+// Company Settings
+export const getCompanySettings = (): Promise<CompanySettings> => getStorageAdapter().getCompanySettings();
+
+export const saveCompanySettings = async (settings: CompanySettings): Promise<void> => {
+  if (settings.gstin && !isValidGSTIN(settings.gstin)) {
+    throw new Error(`Invalid GSTIN: ${settings.gstin}`);
+  }
+  await getStorageAdapter().saveCompanySettings({
+    ...settings,
+    gstin: settings.gstin ? settings.gstin.trim().toUpperCase() : undefined
+  });
 };
 
-// Company Settings
-export const getCompanySettings = async (): Promise<CompanySettings> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { data, error } = await supabase
-        .from(TABLES.COMPANY_SETTINGS)
-        .select('*')
-        .order('updated_at', { ascending: false })
-        .limit(1);
-      
-      if (error) {
-        throw error;
-      }
-      
-      if (data && data.length > 0) {
-        const record = data[0];
-        return {
-          companyName: record.company_name || '',
-          address: record.address || '',
-          phone: record.phone || '',
-          email: record.email || '',
-          updatedAt: new Date(record.updated_at || new Date())
-        };
-      } else {
-        return {
-          companyName: '',
-          address: '',
-          phone: '',
-          email: '',
-          updatedAt: new Date()
-        };
-      }
-    } catch (error) {
-      handleError(error, 'get company settings from Supabase');
-    }
+// Settings with the logo and PDF template, for printing and the settings page
+export const getCompanySettingsWithAssets = async (): Promise<CompanySettings> => {
+  const adapter = getStorageAdapter();
+  const settings = await adapter.getCompanySettings();
+  return adapter.getCompanyAssets ? { ...settings, ...(await adapter.getCompanyAssets()) } : settings;
+};
+
+export const saveCompanyAssets = async (assets: CompanyAssets): Promise<void> => {
+  const adapter = getStorageAdapter();
+  if (adapter.saveCompanyAssets) {
+    await adapter.saveCompanyAssets(assets);
+  } else {
+    await adapter.saveCompanySettings({ ...(await adapter.getCompanySettings()), ...assets });
   }
-  
-  // Fallback to localStorage
-  const data = window.localStorage.getItem('sales_app_company_settings');
-  return data ? { 
-    ...JSON.parse(data), 
-    updatedAt: new Date(JSON.parse(data).updatedAt) 
-  } : {
-    companyName: '',
-    address: '',
-    phone: '',
-    email: '',
-    updatedAt: new Date()
+};
+
+// 2-digit state code, PAN, entity number, 'Z', checksum character
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isValidGSTIN = (gstin: string): boolean => GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+
+// GST
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28, 40];
+
+export const GST_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh',
+  '05': 'Uttarakhand', '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh',
+  '10': 'Bihar', '11': 'Sikkim', '12': 'Arunachal Pradesh', '13': 'Nagaland', '14': 'Manipur',
+  '15': 'Mizoram', '16': 'Tripura', '17': 'Meghalaya', '18': 'Assam', '19': 'West Bengal',
+  '20': 'Jharkhand', '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh', '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu', '27': 'Maharashtra', '29': 'Karnataka', '30': 'Goa',
+  '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu', '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands', '36': 'Telangana', '37': 'Andhra Pradesh', '38': 'Ladakh'
+};
+
+// State code of a party: the one set explicitly, else the first two digits of its GSTIN
+export const getStateCode = (party: { state?: string; gstin?: string }): string | undefined => {
+  return party.state || (party.gstin ? party.gstin.slice(0, 2) : undefined);
+};
+
+// IGST applies when the customer is in another state; unknown states are treated as local
+export const isInterStateSupply = (companySettings: CompanySettings, customer?: Pick<Customer, 'state' | 'gstin'>): boolean => {
+  const companyState = getStateCode(companySettings);
+  const customerState = customer ? getStateCode(customer) : undefined;
+  return !!companyState && !!customerState && companyState !== customerState;
+};
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Split each line's GST-inclusive total into taxable value and CGST/SGST or IGST.
+// The rate and HSN code come from the item if it already has them, else its product.
+export const applyGST = (items: InvoiceItem[], products: Product[], interState: boolean): InvoiceItem[] => {
+  return items.map(item => {
+    const product = products.find(p => p.id === item.productId) || products.find(p => p.name === item.productName);
+    const gstRate = item.gstRate ?? product?.gstRate ?? 0;
+    const hsnCode = item.hsnCode || product?.hsnCode;
+    const taxableValue = roundCurrency(item.total * 100 / (100 + gstRate));
+    const tax = roundCurrency(item.total - taxableValue);
+    const cgst = interState ? 0 : roundCurrency(tax / 2);
+    return {
+      ...item,
+      hsnCode,
+      gstRate,
+      taxableValue,
+      cgst,
+      sgst: interState ? 0 : roundCurrency(tax - cgst),
+      igst: interState ? tax : 0
+    };
+  });
+};
+
+// Items recorded before GST count as fully taxable with no tax
+export const getTaxSummary = (items: InvoiceItem[]): TaxSummary => {
+  const summary = items.reduce((sum, item) => ({
+    taxableValue: sum.taxableValue + (item.taxableValue ?? item.total),
+    cgst: sum.cgst + (item.cgst || 0),
+    sgst: sum.sgst + (item.sgst || 0),
+    igst: sum.igst + (item.igst || 0),
+    totalTax: 0
+  }), { taxableValue: 0, cgst: 0, sgst: 0, igst: 0, totalTax: 0 });
+  return {
+    taxableValue: roundCurrency(summary.taxableValue),
+    cgst: roundCurrency(summary.cgst),
+    sgst: roundCurrency(summary.sgst),
+    igst: roundCurrency(summary.igst),
+    totalTax: roundCurrency(summary.cgst + summary.sgst + summary.igst)
   };
 };
 
-export const saveCompanySettings = async (settings: CompanySettings): Promise<void> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { error } = await supabase
-        .from(TABLES.COMPANY_SETTINGS)
-        .upsert({
-          company_name: settings.companyName,
-          address: settings.address,
-          phone: settings.phone,
-          email: settings.email,
-          updated_at: new Date().toISOString()
-        });
-      
-      if (error) throw error;
-      return;
-    } catch (error) {
-      handleError(error, 'save company settings to Supabase');
+// Discounts and schemes
+export const getSchemes = async (): Promise<Scheme[]> => (await getCompanySettings()).schemes || [];
+
+export const saveSchemes = async (schemes: Scheme[]): Promise<void> => {
+  schemes.forEach(scheme => {
+    if (!scheme.name.trim() || !scheme.productId) {
+      throw new Error('Every scheme needs a name and a product');
     }
-  }
-  
-  // Fallback to localStorage
-  window.localStorage.setItem('sales_app_company_settings', JSON.stringify(settings));
+    if (scheme.type === 'free_quantity' && (!(scheme.buyQuantity && scheme.buyQuantity > 0) || !(scheme.freeQuantity && scheme.freeQuantity > 0))) {
+      throw new Error(`Scheme ${scheme.name} needs a buy and a free quantity`);
+    }
+    if (scheme.type === 'discount' && !(scheme.discount && scheme.discount.value > 0)) {
+      throw new Error(`Scheme ${scheme.name} needs a discount`);
+    }
+  });
+  await saveCompanySettings({ ...(await getCompanySettings()), schemes });
 };
 
-// Products
-export const getProducts = async (): Promise<Product[]> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { data, error } = await supabase
-        .from(TABLES.PRODUCTS)
-        .select('*')
-        .order('created_at', { ascending: true });
-      
-      if (error) throw error;
-      
-      return (data || []).map(p => ({
-        id: p.id,
-        name: p.name,
-        defaultPrice: parseFloat(p.default_price),
-        createdAt: new Date(p.created_at),
-        updatedAt: new Date(p.updated_at)
-      }));
-    } catch (error) {
-      handleError(error, 'get products from Supabase');
-    }
-  }
-  
-  // Fallback to localStorage
-  const data = window.localStorage.getItem('sales_app_products');
-  return data ? JSON.parse(data).map((p: any) => ({ 
-    ...p, 
-    createdAt: new Date(p.createdAt), 
-    updatedAt: new Date(p.updatedAt) 
-  })) : [];
+// Amount taken off by a discount; never more than the amount itself
+export const getDiscountAmount = (discount: Discount | undefined, amount: number): number => {
+  if (!discount || discount.value <= 0 || amount <= 0) return 0;
+  const value = discount.type === 'percent' ? amount * Math.min(discount.value, 100) / 100 : discount.value;
+  return roundCurrency(Math.min(value, amount));
 };
 
-export const saveProducts = async (products: Product[]): Promise<void> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    // This function is mainly for localStorage compatibility
-    // For Supabase, use addProduct, updateProduct, deleteProduct instead
-    console.warn('saveProducts: Use individual product operations for Supabase');
-    return;
-  }
-  
-  window.localStorage.setItem('sales_app_products', JSON.stringify(products));
+// Active schemes for a customer on a date, customer-specific ones first
+export const getApplicableSchemes = (schemes: Scheme[], customerId: string, date: Date): Scheme[] => {
+  const day = format(date, 'yyyy-MM-dd');
+  return schemes
+    .filter(s => s.isActive && (!s.customerId || s.customerId === customerId))
+    .filter(s => (!s.validFrom || s.validFrom <= day) && (!s.validTo || s.validTo >= day))
+    .sort((a, b) => (a.customerId ? 0 : 1) - (b.customerId ? 0 : 1));
 };
 
-export const addProduct = async (product: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>): Promise<Product> => {
-  const mode = getStorageMode();
+// Price invoice lines: each line's own discount, or a discount scheme when it
+// has none; then the invoice discount spread over the lines pro rata; then a
+// free line for each free-quantity scheme earned. Free lines from an earlier
+// pass are dropped first, so pricing the result again gives the same lines.
+export const priceInvoiceItems = (
+  items: InvoiceItem[],
+  schemes: Scheme[],
+  options: { customerId: string; date: Date; invoiceDiscount?: Discount }
+): InvoiceItem[] => {
+  const applicable = getApplicableSchemes(schemes, options.customerId, options.date);
+  
+  const lines = items.filter(item => !item.isFree).map(item => {
+    const gross = roundCurrency(item.quantity * item.price);
+    const scheme = item.discount ? undefined : applicable.find(s =>
+      s.type === 'discount' && s.productId === item.productId && item.quantity >= (s.minQuantity || 0)
+    );
+    const discountAmount = getDiscountAmount(item.discount || scheme?.discount, gross);
+    return { ...item, total: roundCurrency(gross - discountAmount), discountAmount, schemeName: scheme?.name };
+  });
   
-  if (mode === 'supabase') {
-    try {
-      const { data, error } = await supabase
-        .from(TABLES.PRODUCTS)
-        .insert({
-          name: product.name,
-          default_price: product.defaultPrice
-        })
-        .select()
-        .single();
-      
-      if (error) throw error;
-      
-      return {
-        id: data.id,
-        name: data.name,
-        defaultPrice: parseFloat(data.default_price),
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
-    } catch (error) {
-      handleError(error, 'add product to Supabase');
-    }
-  }
+  const netTotal = lines.reduce((sum, line) => sum + line.total, 0);
+  const invoiceDiscountAmount = getDiscountAmount(options.invoiceDiscount, netTotal);
+  let allocated = 0;
+  const discounted = lines.map((line, index) => {
+    const share = index === lines.length - 1
+      ? roundCurrency(invoiceDiscountAmount - allocated)
+      : roundCurrency(invoiceDiscountAmount * line.total / netTotal);
+    allocated += share;
+    return share > 0
+      ? { ...line, total: roundCurrency(line.total - share), discountAmount: roundCurrency(line.discountAmount + share) }
+      : line;
+  });
   
-  // Fallback to localStorage
-  const products = await getProducts();
-  const newProduct: Product = {
-    ...product,
-    id: Date.now().toString(),
-    createdAt: new Date(),
-    updatedAt: new Date()
-  };
+  const freeLines = discounted.flatMap(line => {
+    const scheme = applicable.find(s => s.type === 'free_quantity' && s.productId === line.productId);
+    const freeQuantity = scheme ? Math.floor(line.quantity / (scheme.buyQuantity || 1)) * (scheme.freeQuantity || 0) : 0;
+    if (!scheme || freeQuantity <= 0) return [];
+    return [{
+      id: `${line.id}_free`,
+      productId: line.productId,
+      productName: line.productName,
+      quantity: freeQuantity,
+      price: line.price,
+      total: 0,
+      discountAmount: roundCurrency(freeQuantity * line.price),
+      schemeName: scheme.name,
+      isFree: true
+    }];
+  });
   
-  products.push(newProduct);
-  await saveProducts(products);
-  return newProduct;
+  return [...discounted, ...freeLines];
 };
 
-export const updateProduct = async (id: string, updates: Partial<Product>): Promise<void> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const updateData: any = {};
-      if (updates.name) updateData.name = updates.name;
-      if (updates.defaultPrice !== undefined) updateData.default_price = updates.defaultPrice;
-      
-      const { error } = await supabase
-        .from(TABLES.PRODUCTS)
-        .update(updateData)
-        .eq('id', id);
-      
-      if (error) throw error;
-      return;
-    } catch (error) {
-      handleError(error, 'update product in Supabase');
-    }
-  }
-  
-  // Fallback to localStorage
-  const products = await getProducts();
-  const index = products.findIndex(p => p.id === id);
-  if (index !== -1) {
-    products[index] = { ...products[index], ...updates, updatedAt: new Date() };
-    await saveProducts(products);
-  }
+// Products
+// Default prices are the ones in effect today, so a price set for a later
+// date takes over on that date without anything being saved
+export const getProducts = async (): Promise<Product[]> => {
+  const [products, priceList] = await Promise.all([getStorageAdapter().getProducts(), getPriceList()]);
+  const today = new Date();
+  return products.map(product => withDefaultPriceInEffect(product, priceList, today));
 };
 
-export const deleteProduct = async (id: string): Promise<void> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { error } = await supabase
-        .from(TABLES.PRODUCTS)
-        .delete()
-        .eq('id', id);
-      
-      if (error) throw error;
-      return;
-    } catch (error) {
-      handleError(error, 'delete product from Supabase');
+export const saveProducts = (products: Product[]): Promise<void> => getStorageAdapter().saveProducts(products);
+
+export const addProduct = (product: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>): Promise<Product> => getStorageAdapter().addProduct(product);
+
+// A changed default price is recorded in the price list from now on
+export const updateProduct = async (id: string, updates: Partial<Product>): Promise<void> => {
+  if (updates.defaultPrice !== undefined) {
+    const product = (await getProducts()).find(p => p.id === id);
+    if (product && product.defaultPrice !== updates.defaultPrice) {
+      await getStorageAdapter().addPriceListEntries(toPriceChange(await getPriceList(), product, updates.defaultPrice, new Date()));
     }
   }
-  
-  // Fallback to localStorage
-  const products = await getProducts();
-  const filtered = products.filter(p => p.id !== id);
-  await saveProducts(filtered);
+  await getStorageAdapter().updateProduct(id, updates);
 };
 
+export const deleteProduct = (id: string): Promise<void> => getStorageAdapter().deleteProduct(id);
+
 // Customers
+// Outstanding amounts come from the ledger and product prices from the price list
 export const getCustomers = async (): Promise<Customer[]> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { data, error } = await supabase
-        .from(TABLES.CUSTOMERS)
-        .select('*')
-        .order('created_at', { ascending: true });
-      
-      if (error) throw error;
-      
-      return (data || []).map(c => ({
-        id: c.id,
-        name: c.name,
-        phone: c.phone || '',
-        address: c.address || '',
-        route: c.route || '',
-        openingBalance: parseFloat(c.opening_balance) || 0,
-        outstandingAmount: parseFloat(c.outstanding_amount) || 0,
-        productPrices: c.product_prices || {},
-        createdAt: new Date(c.created_at),
-        updatedAt: new Date(c.updated_at)
-      }));
-    } catch (error) {
-      handleError(error, 'get customers from Supabase');
-    }
+  const [customers, ledgerTotals, priceList] = await Promise.all([getStorageAdapter().getCustomers(), getLedgerTotals(), getPriceList()]);
+  const today = new Date();
+  return customers.map(customer => withCustomerPricesInEffect(withLedgerBalance(customer, ledgerTotals), priceList, today));
+};
+
+const normalizeCustomerGSTIN = <T extends Partial<Customer>>(customer: T): T => {
+  if (customer.gstin === undefined) return customer;
+  if (customer.gstin && !isValidGSTIN(customer.gstin)) {
+    throw new Error(`Invalid GSTIN: ${customer.gstin}`);
   }
-  
-  // Fallback to localStorage - call original function
-  const { getCustomers: localGetCustomers } = await import('./storage');
-  return localGetCustomers();
+  return { ...customer, gstin: customer.gstin.trim().toUpperCase() }; // Blank clears it
 };
 
+// A customer given a route sequence is inserted at that stop, moving the stops
+// from it onwards down one; otherwise they become the route's last stop
 export const addCustomer = async (customer: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>): Promise<Customer> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      // Generate sequential customer ID starting from 100001
-      const { generateCustomerId } = await import('./storage');
-      const customerId = generateCustomerId();
-      
-      const { data, error } = await supabase
-        .from(TABLES.CUSTOMERS)
-        .insert({
-          id: customerId,
-          name: customer.name,
-          phone: customer.phone,
-          address: customer.address,
-          route: customer.route,
-          opening_balance: customer.openingBalance,
-          outstanding_amount: customer.outstandingAmount,
-          product_prices: customer.productPrices
-        })
-        .select()
-        .single();
-      
-      if (error) throw error;
-      
-      const newCustomer = {
-        id: data.id,
-        name: data.name,
-        phone: data.phone || '',
-        address: data.address || '',
-        route: data.route || '',
-        openingBalance: parseFloat(data.opening_balance) || 0,
-        outstandingAmount: parseFloat(data.outstanding_amount) || 0,
-        productPrices: data.product_prices || {},
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
-      
-      // Create initial balance transaction if opening balance is not zero
-      if (customer.openingBalance !== 0) {
-        await addTransaction({
-          customerId: newCustomer.id,
-          customerName: newCustomer.name,
-          type: 'adjustment',
-          items: [],
-          totalAmount: 0,
-          amountReceived: 0,
-          balanceChange: customer.openingBalance,
-          date: new Date(),
-          invoiceNumber: `INITIAL-${newCustomer.id}`,
-          routeId: undefined,
-          routeName: undefined,
-          sheetId: undefined
-        });
-      }
-      
-      return newCustomer;
-    } catch (error) {
-      handleError(error, 'add customer to Supabase');
-    }
+  const newCustomer = await getStorageAdapter().addCustomer(normalizeCustomerGSTIN(customer));
+
+  if (customer.routeSequence !== undefined) {
+    const stopIds = (await getCustomersByRoute(newCustomer.route)).map(c => c.id).filter(id => id !== newCustomer.id);
+    stopIds.splice(customer.routeSequence - 1, 0, newCustomer.id);
+    await reorderRouteCustomers(newCustomer.route, stopIds);
   }
   
-  // Fallback to localStorage
-  const { addCustomer: localAddCustomer } = await import('./storage');
-  const newCustomer = localAddCustomer(customer);
-  
-  // Create initial balance transaction for localStorage as well
+  // Create initial balance transaction if opening balance is not zero
   if (customer.openingBalance !== 0) {
     await addTransaction({
       customerId: newCustomer.id,
@@ -359,530 +276,1107 @@ export const addCustomer = async (customer: Omit<Customer, 'id' | 'createdAt' |
   return newCustomer;
 };
 
-// Invoices
-export const getInvoices = async (): Promise<Invoice[]> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { data, error } = await supabase
-        .from(TABLES.INVOICES)
-        .select('*')
-        .order('created_at', { ascending: false });
-      
-      if (error) throw error;
-      
-      return (data || []).map(i => ({
-        id: i.id,
-        invoiceNumber: i.invoice_number,
-        customerId: i.customer_id,
-        customerName: i.customer_name,
-        items: i.items || [],
-        subtotal: parseFloat(i.subtotal) || 0,
-        totalAmount: parseFloat(i.total_amount) || 0,
-        amountReceived: parseFloat(i.amount_received) || 0,
-        balanceChange: parseFloat(i.balance_change) || 0,
-        date: new Date(i.date),
-        status: i.status as 'paid' | 'partial' | 'pending',
-        routeId: i.route_id,
-        routeName: i.route_name || 'No route',
-        sheetId: i.sheet_id,
-        cashAmount: parseFloat(i.cash_amount) || 0,
-        upiAmount: parseFloat(i.upi_amount) || 0,
-        customerFinalBalance: parseFloat(i.customer_final_balance) || 0
-      }));
-    } catch (error) {
-      handleError(error, 'get invoices from Supabase');
+// Changed product prices are recorded in the customer's price list from now on.
+// A customer moved to another route becomes its last stop.
+export const updateCustomer = async (id: string, updates: Partial<Customer>): Promise<void> => {
+  let normalized = normalizeCustomerGSTIN(updates);
+  const customer = updates.productPrices || updates.route !== undefined ? await getCustomerById(id) : undefined;
+  if (customer && updates.route !== undefined && updates.route !== customer.route && !('routeSequence' in updates)) {
+    normalized = { ...normalized, routeSequence: undefined };
+  }
+  if (updates.productPrices && customer) {
+    const [products, priceList] = await Promise.all([getProducts(), getPriceList()]);
+    const changes = products
+      .filter(p => updates.productPrices![p.id] !== undefined && updates.productPrices![p.id] !== customer.productPrices[p.id])
+      .flatMap(p => toPriceChange(priceList, p, updates.productPrices![p.id], new Date(), customer));
+    if (changes.length > 0) {
+      await getStorageAdapter().addPriceListEntries(changes);
     }
   }
-  
-  // Fallback to localStorage
-  const { getInvoices: localGetInvoices } = await import('./storage');
-  return localGetInvoices();
+  await getStorageAdapter().updateCustomer(id, normalized);
 };
 
-// Transactions
-export const getTransactions = async (): Promise<Transaction[]> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { data, error } = await supabase
-        .from(TABLES.TRANSACTIONS)
-        .select('*')
-        .order('created_at', { ascending: false });
-      
-      if (error) throw error;
-      
-      return (data || []).map(t => ({
-        id: t.id,
-        customerId: t.customer_id,
-        customerName: t.customer_name,
-        type: t.type as 'sale' | 'payment' | 'adjustment',
-        items: t.items || [],
-        totalAmount: parseFloat(t.total_amount) || 0,
-        amountReceived: parseFloat(t.amount_received) || 0,
-        balanceChange: parseFloat(t.balance_change) || 0,
-        date: new Date(t.date),
-        invoiceNumber: t.invoice_number || '',
-        routeId: t.route_id || undefined,
-        routeName: t.route_name || undefined,
-        sheetId: t.sheet_id || undefined
-      }));
-    } catch (error) {
-      handleError(error, 'get transactions from Supabase');
-    }
+export const deleteCustomer = (id: string): Promise<void> => getStorageAdapter().deleteCustomer(id);
+
+export const getCustomerById = async (id: string): Promise<Customer | undefined> => {
+  const customers = await getCustomers();
+  return customers.find(c => c.id === id);
+};
+
+// Stop order: sequenced customers first, then those never placed, oldest first
+const byRouteSequence = (a: Customer, b: Customer) =>
+  (a.routeSequence ?? Infinity) - (b.routeSequence ?? Infinity) ||
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+// A route's customers in delivery order
+export const getCustomersByRoute = async (route: string): Promise<Customer[]> => {
+  const adapter = getStorageAdapter();
+  if (!adapter.getCustomersByRoute) {
+    return (await getCustomers()).filter(c => c.route === route).sort(byRouteSequence);
   }
-  
-  // Fallback to localStorage
-  const { getTransactions: localGetTransactions } = await import('./storage');
-  return localGetTransactions();
+  const [customers, ledgerTotals, priceList] = await Promise.all([adapter.getCustomersByRoute(route), getLedgerTotals(), getPriceList()]);
+  const today = new Date();
+  return customers
+    .map(customer => withCustomerPricesInEffect(withLedgerBalance(customer, ledgerTotals), priceList, today))
+    .sort(byRouteSequence);
 };
 
-// Routes - derived from customers
-export const getRoutes = async (): Promise<string[]> => {
-  const customers = await getCustomers();
-  const routes = [...new Set(customers.map(c => c.route).filter(r => r))];
-  return routes.sort();
+// Save a route's stop order, first stop first. Active sheets on the route are
+// put in the new order too; closed sheets keep the order they were delivered in.
+export const reorderRouteCustomers = async (route: string, customerIds: string[]): Promise<void> => {
+  await getStorageAdapter().setRouteSequence(route, customerIds);
+
+  const stop = (id: string) => {
+    const index = customerIds.indexOf(id);
+    return index < 0 ? customerIds.length : index;
+  };
+  const activeSheets = (await getSheetHistory()).filter(s => s.routeId === route && s.status === 'active');
+  for (const sheet of activeSheets) {
+    await updateSheetRecord(sheet.id, { customers: [...sheet.customers].sort((a, b) => stop(a.id) - stop(b.id)) });
+  }
+
+  console.log(`🧭 Saved stop order for route ${route}: ${customerIds.length} customers, ${activeSheets.length} active sheets updated`);
 };
 
-// Customer transactions
-export const getCustomerTransactions = async (customerId: string): Promise<Transaction[]> => {
-  const transactions = await getTransactions();
-  return transactions.filter(t => t.customerId === customerId);
+// Customer locations
+const EARTH_RADIUS_KM = 6371;
+
+export const hasLocation = (customer: Customer): customer is Customer & GeoPoint =>
+  customer.latitude !== undefined && customer.longitude !== undefined;
+
+// The device's current position from the browser's geolocation
+export const getCurrentLocation = (): Promise<GeoPoint> => new Promise((resolve, reject) => {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    reject(new Error('Location is not available on this device'));
+    return;
+  }
+  navigator.geolocation.getCurrentPosition(
+    position => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+    error => reject(new Error(error.code === error.PERMISSION_DENIED
+      ? 'Location permission was denied. Allow it in the browser settings and try again.'
+      : 'Could not get the current location. Please try again outdoors or with GPS on.')),
+    { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
+  );
+});
+
+// Record the device's current position as the customer's delivery location
+export const captureCustomerLocation = async (customerId: string): Promise<GeoPoint> => {
+  const location = await getCurrentLocation();
+  await updateCustomer(customerId, location);
+  console.log(`📍 Location captured for customer ${customerId}: ${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`);
+  return location;
 };
 
-// Additional missing functions
-export const updateCustomer = async (id: string, updates: Partial<Customer>): Promise<void> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const updateData: any = {};
-      if (updates.name) updateData.name = updates.name;
-      if (updates.phone !== undefined) updateData.phone = updates.phone;
-      if (updates.address !== undefined) updateData.address = updates.address;
-      if (updates.route !== undefined) updateData.route = updates.route;
-      if (updates.openingBalance !== undefined) updateData.opening_balance = updates.openingBalance;
-      if (updates.outstandingAmount !== undefined) updateData.outstanding_amount = updates.outstandingAmount;
-      if (updates.productPrices !== undefined) updateData.product_prices = updates.productPrices;
-      
-      const { error } = await supabase
-        .from(TABLES.CUSTOMERS)
-        .update(updateData)
-        .eq('id', id);
-      
-      if (error) throw error;
-      return;
-    } catch (error) {
-      handleError(error, 'update customer in Supabase');
-    }
+// Great-circle (haversine) distance in km
+export const getDistanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+// Straight-line distance from stop to stop, in the order given
+export const getPathDistanceKm = (points: GeoPoint[]): number =>
+  points.slice(1).reduce((total, point, index) => total + getDistanceKm(points[index], point), 0);
+
+// Price lists
+export const getPriceList = (): Promise<PriceListEntry[]> => getStorageAdapter().getPriceListEntries();
+
+const byEffectiveFrom = (a: PriceListEntry, b: PriceListEntry) =>
+  new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime() ||
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+// Latest of the entries in effect on the date; a later entry for the same date wins
+const getEffectiveEntry = (entries: PriceListEntry[], date: Date): PriceListEntry | undefined => {
+  return entries
+    .filter(e => new Date(e.effectiveFrom).getTime() <= date.getTime())
+    .sort(byEffectiveFrom)
+    .pop();
+};
+
+// Price of a product on a date: the customer's own price list, then the
+// default one. Prices never changed since price lists were added come from
+// the customer's and product's stored prices.
+export const getPriceOn = (
+  priceList: PriceListEntry[],
+  product: Product,
+  customer?: Pick<Customer, 'id' | 'productPrices'>,
+  date: Date = new Date()
+): number => {
+  const productEntries = priceList.filter(e => e.productId === product.id);
+
+  if (customer) {
+    const customerEntries = productEntries.filter(e => e.customerId === customer.id);
+    const customerEntry = getEffectiveEntry(customerEntries, date);
+    if (customerEntry) return customerEntry.price;
+    if (customerEntries.length === 0 && customer.productPrices?.[product.id]) return customer.productPrices[product.id];
   }
-  
-  // Fallback to localStorage
-  const { updateCustomer: localUpdateCustomer } = await import('./storage');
-  return localUpdateCustomer(id, updates);
+
+  const defaultEntry = getEffectiveEntry(productEntries.filter(e => !e.customerId), date);
+  return defaultEntry ? defaultEntry.price : product.defaultPrice || 0;
 };
 
-export const deleteCustomer = async (id: string): Promise<void> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { error } = await supabase
-        .from(TABLES.CUSTOMERS)
-        .delete()
-        .eq('id', id);
-      
-      if (error) throw error;
-      return;
-    } catch (error) {
-      handleError(error, 'delete customer from Supabase');
+// Entries for a price change. The first change to a price also records the
+// price it replaces, from when the product or customer was created, so
+// earlier dates keep resolving to it.
+const toPriceChange = (
+  priceList: PriceListEntry[],
+  product: Product,
+  price: number,
+  effectiveFrom: Date,
+  customer?: Customer,
+  notes?: string,
+  revisionId?: string
+): NewPriceListEntry[] => {
+  if (isNaN(price) || price < 0) {
+    throw new Error(`Invalid price for ${product.name}: ${price}`);
+  }
+
+  const entries: NewPriceListEntry[] = [];
+  const hasHistory = priceList.some(e => e.productId === product.id && e.customerId === customer?.id);
+  const previousPrice = customer ? customer.productPrices[product.id] : product.defaultPrice;
+  if (!hasHistory && previousPrice) {
+    entries.push({
+      productId: product.id,
+      customerId: customer?.id,
+      price: previousPrice,
+      effectiveFrom: new Date((customer || product).createdAt || 0),
+      notes: 'Price before price lists'
+    });
+  }
+
+  entries.push({ productId: product.id, customerId: customer?.id, price, effectiveFrom, notes, revisionId });
+  return entries;
+};
+
+// The stored default price, replaced by the default price list entry in effect on the date
+const withDefaultPriceInEffect = (product: Product, priceList: PriceListEntry[], date: Date): Product => {
+  const entry = getEffectiveEntry(priceList.filter(e => e.productId === product.id && !e.customerId), date);
+  return entry ? { ...product, defaultPrice: entry.price } : product;
+};
+
+// The stored customer prices, replaced by the customer's own entries in effect on the date
+const withCustomerPricesInEffect = (customer: Customer, priceList: PriceListEntry[], date: Date): Customer => {
+  const entries = priceList.filter(e => e.customerId === customer.id);
+  if (entries.length === 0) return customer;
+
+  const productPrices = { ...customer.productPrices };
+  new Set(entries.map(e => e.productId)).forEach(productId => {
+    const entry = getEffectiveEntry(entries.filter(e => e.productId === productId), date);
+    if (entry) productPrices[productId] = entry.price;
+  });
+  return { ...customer, productPrices };
+};
+
+// Bring the stored default price (customerId undefined) and customer prices
+// of a product up to the price in effect today. Reads apply the price list
+// themselves; this keeps the stored copies close for anything reading them
+// directly.
+const syncStoredPrices = async (productId: string, customerIds: (string | undefined)[]): Promise<void> => {
+  const adapter = getStorageAdapter();
+  const [priceList, products, customers] = await Promise.all([getPriceList(), adapter.getProducts(), adapter.getCustomers()]);
+  const product = products.find(p => p.id === productId);
+  if (!product) return;
+
+  for (const customerId of new Set(customerIds)) {
+    const customer = customers.find(c => c.id === customerId);
+    const currentPrice = getPriceOn(priceList, product, customer);
+    if (customer && customer.productPrices[productId] !== currentPrice) {
+      await adapter.updateCustomer(customer.id, { productPrices: { ...customer.productPrices, [productId]: currentPrice } });
+    } else if (!customerId && product.defaultPrice !== currentPrice) {
+      await adapter.updateProduct(productId, { defaultPrice: currentPrice });
     }
   }
-  
-  // Fallback to localStorage
-  const { deleteCustomer: localDeleteCustomer } = await import('./storage');
-  return localDeleteCustomer(id);
 };
 
-export const getCustomerById = async (id: string): Promise<Customer | undefined> => {
-  const customers = await getCustomers();
-  return customers.find(c => c.id === id);
+// Add a price to the default list, or a customer's list, from a date. Once
+// in effect it is read as the default or customer price.
+export const setPrice = async (product: Product, price: number, effectiveFrom: Date, customer?: Customer, notes?: string): Promise<void> => {
+  await getStorageAdapter().addPriceListEntries(toPriceChange(await getPriceList(), product, price, effectiveFrom, customer, notes));
+  await syncStoredPrices(product.id, [customer?.id]);
+
+  console.log(`🏷️ ${product.name} at ₹${price}${customer ? ` for ${customer.name}` : ''} from ${format(effectiveFrom, 'dd/MM/yyyy')}`);
 };
 
-export const addInvoice = async (invoice: Omit<Invoice, 'id' | 'invoiceNumber'>): Promise<string> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      // Generate sequential invoice number starting from INV00001
-      const { generateInvoiceNumber } = await import('./storage');
-      const invoiceNumber = generateInvoiceNumber();
-      
-      const { data, error } = await supabase
-        .from(TABLES.INVOICES)
-        .insert({
-          invoice_number: invoiceNumber,
-          customer_id: invoice.customerId,
-          customer_name: invoice.customerName,
-          items: invoice.items,
-          subtotal: invoice.subtotal,
-          total_amount: invoice.totalAmount,
-          amount_received: invoice.amountReceived,
-          balance_change: invoice.balanceChange,
-          status: invoice.status,
-          route_id: invoice.routeId || null,
-          route_name: invoice.routeName || 'No route',
-          sheet_id: invoice.sheetId || null,
-          cash_amount: invoice.cashAmount || 0,
-          upi_amount: invoice.upiAmount || 0,
-          customer_final_balance: invoice.customerFinalBalance,
-          date: invoice.date.toISOString()
-        })
-        .select()
-        .single();
-      
-      if (error) throw error;
-      return data.invoice_number;
-    } catch (error) {
-      handleError(error, 'add invoice to Supabase');
+// Bulk price revisions
+
+// e.g. "+5% on customer prices, route A", "+₹2 on the default price"
+export const describePriceRevision = (revision: PriceRevision): string => {
+  const sign = revision.value >= 0 ? '+' : '-';
+  const change = revision.change === 'percent' ? `${sign}${Math.abs(revision.value)}%` : `${sign}₹${Math.abs(revision.value)}`;
+  const target = revision.target === 'default' ? 'the default price' : 'customer prices';
+  return `${change} on ${target}${revision.target === 'customers' && revision.route ? `, route ${revision.route}` : ''}`;
+};
+
+// Prices a revision would change. Customer revisions cover customers with
+// their own price for the product; prices that would not change are left out.
+export const previewPriceRevision = (
+  revision: PriceRevision,
+  product: Product,
+  customers: Customer[],
+  priceList: PriceListEntry[]
+): PriceRevisionLine[] => {
+  const revise = (price: number) => Math.max(0, roundCurrency(revision.change === 'percent'
+    ? price * (1 + revision.value / 100)
+    : price + revision.value));
+
+  const targets: (Customer | undefined)[] = revision.target === 'default'
+    ? [undefined]
+    : customers.filter(c =>
+        (!revision.route || c.route === revision.route) &&
+        (c.productPrices[product.id] || priceList.some(e => e.productId === product.id && e.customerId === c.id))
+      );
+
+  return targets
+    .map(customer => {
+      const currentPrice = getPriceOn(priceList, product, customer, revision.effectiveFrom);
+      return { customer, currentPrice, newPrice: revise(currentPrice) };
+    })
+    .filter(line => line.newPrice !== line.currentPrice);
+};
+
+export const applyPriceRevision = async (revision: PriceRevision): Promise<AppliedPriceRevision> => {
+  const [products, customers, priceList] = await Promise.all([getProducts(), getCustomers(), getPriceList()]);
+  const product = products.find(p => p.id === revision.productId);
+  if (!product) {
+    throw new Error(`Product with ID ${revision.productId} not found`);
+  }
+
+  const lines = previewPriceRevision(revision, product, customers, priceList);
+  if (lines.length === 0) {
+    throw new Error('No prices would change with this revision');
+  }
+
+  const revisionId = `REV-${Date.now()}`;
+  const description = describePriceRevision(revision);
+  await getStorageAdapter().addPriceListEntries(lines.flatMap(line =>
+    toPriceChange(priceList, product, line.newPrice, revision.effectiveFrom, line.customer, description, revisionId)
+  ));
+  await syncStoredPrices(product.id, lines.map(line => line.customer?.id));
+
+  console.log(`🏷️ Price revision ${revisionId}: ${product.name} ${description}, ${lines.length} prices from ${format(revision.effectiveFrom, 'dd/MM/yyyy')}`);
+  return { revisionId, productId: product.id, description, effectiveFrom: revision.effectiveFrom, priceCount: lines.length, appliedAt: new Date() };
+};
+
+// Revisions recorded in the price list, latest first
+export const getAppliedPriceRevisions = (priceList: PriceListEntry[]): AppliedPriceRevision[] => {
+  const revisions = new Map<string, AppliedPriceRevision>();
+  priceList.forEach(entry => {
+    if (!entry.revisionId) return;
+    const revision = revisions.get(entry.revisionId);
+    if (revision) {
+      revision.priceCount++;
+    } else {
+      revisions.set(entry.revisionId, {
+        revisionId: entry.revisionId,
+        productId: entry.productId,
+        description: entry.notes || '',
+        effectiveFrom: new Date(entry.effectiveFrom),
+        priceCount: 1,
+        appliedAt: new Date(entry.createdAt)
+      });
     }
+  });
+  return [...revisions.values()].sort((a, b) => b.appliedAt.getTime() - a.appliedAt.getTime());
+};
+
+// Whether a revision can still be taken back: only until its prices take effect
+export const canUndoPriceRevision = (revision: AppliedPriceRevision, date: Date = new Date()): boolean => {
+  return new Date(revision.effectiveFrom).getTime() > date.getTime();
+};
+
+// Take a revision's prices back out of the price list before they take
+// effect. Once they have, the price history must keep them; apply another
+// revision to change the prices from then on.
+export const undoPriceRevision = async (revisionId: string): Promise<void> => {
+  const priceList = await getPriceList();
+  const entries = priceList.filter(e => e.revisionId === revisionId);
+  if (entries.length === 0) {
+    throw new Error(`Price revision ${revisionId} not found`);
   }
-  
-  // Fallback to localStorage
-  const { addInvoice: localAddInvoice } = await import('./storage');
-  return localAddInvoice(invoice);
+
+  const revision = getAppliedPriceRevisions(priceList).find(r => r.revisionId === revisionId)!;
+  if (!canUndoPriceRevision(revision)) {
+    throw new Error(`Price revision "${revision.description}" is already in effect. Apply a new revision to change these prices.`);
+  }
+
+  await getStorageAdapter().deletePriceListEntries(entries.map(e => e.id));
+  await syncStoredPrices(entries[0].productId, entries.map(e => e.customerId));
+
+  console.log(`↩️ Undid price revision ${revisionId} (${entries.length} prices)`);
 };
 
-export const addTransaction = async (transaction: Omit<Transaction, 'id'>): Promise<void> => {
-  const mode = getStorageMode();
+// Invoices
+export const getInvoices = (): Promise<Invoice[]> => getStorageAdapter().getInvoices();
+
+// Add an invoice with GST worked out on its lines, post its sale to the
+// ledger and take its items out of stock. Returns the stored invoice.
+export const addInvoice = async (invoice: Omit<Invoice, 'id' | 'invoiceNumber'>): Promise<Invoice> => {
+  const adapter = getStorageAdapter();
+  const [products, companySettings, customer] = await Promise.all([
+    getProducts(),
+    getCompanySettings(),
+    getCustomerById(invoice.customerId)
+  ]);
+  
+  const items = applyGST(invoice.items, products, isInterStateSupply(companySettings, customer));
+  return adapter.commitInvoice({
+    invoice: {
+      ...invoice,
+      items,
+      subtotal: getTaxSummary(items).taxableValue
+    },
+    // Net of the amount received on the invoice, so one entry carries its balance change
+    transaction: {
+      customerId: invoice.customerId,
+      customerName: invoice.customerName,
+      type: 'sale',
+      items,
+      totalAmount: invoice.totalAmount,
+      amountReceived: invoice.amountReceived,
+      balanceChange: invoice.balanceChange,
+      date: invoice.date,
+      routeId: invoice.routeId,
+      routeName: invoice.routeName,
+      sheetId: invoice.sheetId
+    },
+    stockMovements: toStockMovements(items, products, 'sale', -1, undefined, invoice.date) // Referenced by the assigned number
+  });
+};
+
+// Void an invoice: it stays on record as cancelled, and an adjustment reverses
+// its balance change (sale less amount received) so the customer's outstanding
+// goes back to what it was before the invoice
+export const voidInvoice = async (invoiceId: string, reason: string): Promise<void> => {
+  const trimmedReason = reason.trim();
+  if (!trimmedReason) {
+    throw new Error('A reason is required to void an invoice');
+  }
   
-  if (mode === 'supabase') {
-    try {
-      // For now, skip route fields if they don't exist in Supabase schema
-      // This allows the system to work with localStorage as primary storage
-      const { error } = await supabase
-        .from(TABLES.TRANSACTIONS)
-        .insert({
-          customer_id: transaction.customerId,
-          customer_name: transaction.customerName,
-          type: transaction.type,
-          items: transaction.items,
-          total_amount: transaction.totalAmount,
-          amount_received: transaction.amountReceived,
-          balance_change: transaction.balanceChange,
-          invoice_number: transaction.invoiceNumber,
-          date: transaction.date.toISOString()
-          // Note: route_id, route_name, sheet_id skipped for Supabase compatibility
-          // These fields are stored in localStorage version
-        });
-      
-      if (error) throw error;
-      return;
-    } catch (error) {
-      handleError(error, 'add transaction to Supabase');
-    }
+  const invoices = await getInvoices();
+  const invoice = invoices.find(i => i.id === invoiceId);
+  
+  if (!invoice) {
+    throw new Error(`Invoice with ID ${invoiceId} not found`);
   }
   
-  // Fallback to localStorage
-  const { addTransaction: localAddTransaction } = await import('./storage');
-  return localAddTransaction(transaction);
+  if (invoice.status === 'cancelled') {
+    throw new Error('Invoice is already cancelled');
+  }
+  
+  // Returns have already credited part of the invoice; voiding would credit it twice
+  const creditNotes = await getCreditNotes();
+  if (creditNotes.some(c => c.invoiceId === invoiceId)) {
+    throw new Error(`Invoice ${invoice.invoiceNumber} has credit notes against it and cannot be voided`);
+  }
+  
+  console.log(`🚫 Voiding invoice ${invoice.invoiceNumber} for ${invoice.customerName}, reversing ₹${invoice.balanceChange}`);
+  
+  await getStorageAdapter().commitInvoiceVoid({
+    invoiceId,
+    reason: trimmedReason,
+    cancelledAt: new Date(),
+    reversal: {
+      customerId: invoice.customerId,
+      customerName: invoice.customerName,
+      type: 'adjustment',
+      items: [],
+      totalAmount: 0,
+      amountReceived: 0,
+      balanceChange: -invoice.balanceChange,
+      date: new Date(),
+      invoiceNumber: `VOID-${invoice.invoiceNumber}`,
+      routeId: invoice.routeId,
+      routeName: invoice.routeName,
+      sheetId: invoice.sheetId
+    },
+    stockMovements: toStockMovements(invoice.items, await getProducts(), 'adjustment', 1, `VOID-${invoice.invoiceNumber}`, new Date(), 'Invoice voided')
+  });
+  
+  console.log(`✅ Invoice ${invoice.invoiceNumber} voided`);
+  await syncStoredBalancesAfter(`voiding ${invoice.invoiceNumber}`, [invoice.customerId]);
 };
 
-export const getCustomersByRoute = async (route: string): Promise<Customer[]> => {
-  const customers = await getCustomers();
-  return customers.filter(c => c.route === route);
+// Credit notes
+export const getCreditNotes = (): Promise<CreditNote[]> => getStorageAdapter().getCreditNotes();
+
+// Quantity already returned per invoice item
+export const getReturnedQuantities = (invoiceId: string, creditNotes: CreditNote[]): Record<string, number> => {
+  const returned: Record<string, number> = {};
+  creditNotes
+    .filter(c => c.invoiceId === invoiceId)
+    .forEach(c => c.items.forEach(item => {
+      returned[item.id] = (returned[item.id] || 0) + item.quantity;
+    }));
+  return returned;
 };
 
-// Initialize default data
-export const initializeDefaultData = async (): Promise<void> => {
-  const mode = getStorageMode();
+// Record a sales return against an invoice. Returned lines are credited at
+// the net price paid on the invoice, so discounts carry over and free units
+// credit nothing; a 'return' transaction credits the customer for them.
+export const createCreditNote = async (
+  invoiceId: string,
+  returns: { itemId: string; quantity: number }[],
+  reason: string
+): Promise<string> => {
+  const [invoices, creditNotes, products] = await Promise.all([getInvoices(), getCreditNotes(), getProducts()]);
+  const invoice = invoices.find(i => i.id === invoiceId);
+  
+  if (!invoice) {
+    throw new Error(`Invoice with ID ${invoiceId} not found`);
+  }
   
-  if (mode === 'supabase') {
-    // Check if company settings exist, if not create default ones
-    try {
-      const settings = await getCompanySettings();
-      if (!settings.companyName) {
-        await saveCompanySettings({
-          companyName: 'Your Company Name',
-          address: 'Your Company Address',
-          phone: '+91 XXXXXXXXXX',
-          email: 'info@company.com',
-          updatedAt: new Date()
-        });
-      }
-    } catch (error) {
-      console.error('Error initializing default company settings:', error);
+  if (invoice.status === 'cancelled') {
+    throw new Error('Cannot return items on a cancelled invoice');
+  }
+  
+  const returned = getReturnedQuantities(invoiceId, creditNotes);
+  const returnedItems: InvoiceItem[] = [];
+  
+  for (const { itemId, quantity } of returns) {
+    if (quantity <= 0) continue;
+    
+    const item = invoice.items.find(i => i.id === itemId);
+    if (!item) {
+      throw new Error(`Item ${itemId} is not on invoice ${invoice.invoiceNumber}`);
     }
-    return;
+    
+    const returnable = item.quantity - (returned[itemId] || 0);
+    if (quantity > returnable) {
+      throw new Error(`Only ${returnable} of ${item.productName} can still be returned on invoice ${invoice.invoiceNumber}`);
+    }
+    
+    returnedItems.push({
+      id: item.id,
+      productId: item.productId,
+      productName: item.productName,
+      quantity,
+      price: item.price,
+      total: roundCurrency(quantity * item.total / item.quantity),
+      discountAmount: item.discountAmount ? roundCurrency(quantity * item.discountAmount / item.quantity) : undefined,
+      isFree: item.isFree,
+      hsnCode: item.hsnCode,
+      gstRate: item.gstRate
+    });
+  }
+  
+  if (returnedItems.length === 0) {
+    throw new Error('Enter a quantity for at least one returned item');
   }
   
-  // Use original localStorage initialization
-  const { initializeDefaultData: initLocalStorage } = await import('./storage');
-  initLocalStorage();
+  // GST is reversed at the invoice's rates; invoices from before GST have none to reverse
+  const items = invoice.items.some(item => item.taxableValue !== undefined)
+    ? applyGST(returnedItems, [], invoice.items.some(item => (item.igst || 0) > 0))
+    : returnedItems;
+  
+  const totalAmount = items.reduce((sum, item) => sum + item.total, 0);
+  const date = new Date();
+  
+  console.log(`↩️ Creating credit note on ${invoice.invoiceNumber} for ₹${totalAmount} (${items.length} lines)`);
+  
+  const creditNoteNumber = await getStorageAdapter().commitCreditNote({
+    creditNote: {
+      invoiceId,
+      invoiceNumber: invoice.invoiceNumber,
+      customerId: invoice.customerId,
+      customerName: invoice.customerName,
+      items,
+      totalAmount,
+      reason: reason.trim(),
+      date,
+      routeId: invoice.routeId,
+      routeName: invoice.routeName,
+      sheetId: invoice.sheetId
+    },
+    transaction: {
+      customerId: invoice.customerId,
+      customerName: invoice.customerName,
+      type: 'return',
+      items,
+      totalAmount,
+      amountReceived: 0,
+      balanceChange: -totalAmount, // Reduces outstanding
+      date,
+      routeId: invoice.routeId,
+      routeName: invoice.routeName,
+      sheetId: invoice.sheetId
+    },
+    // Returned goods go back into the warehouse, referenced by the assigned number
+    stockMovements: toStockMovements(items, products, 'return', 1, undefined, date)
+  });
+  
+  await syncStoredBalancesAfter(`credit note ${creditNoteNumber}`, [invoice.customerId]);
+  return creditNoteNumber;
 };
 
-// Route Management Functions
-export const getRouteInfos = async (): Promise<RouteInfo[]> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { data, error } = await supabase
-        .from(TABLES.ROUTES)
-        .select('*')
-        .order('created_at', { ascending: false });
-      
-      if (error) throw error;
-      
-      return data?.map(route => ({
-        id: route.id,
-        name: route.name,
-        description: route.description || '',
-        areas: route.areas || [],
-        pincodes: route.pincodes || [],
-        isActive: route.is_active,
-        createdAt: new Date(route.created_at),
-        updatedAt: new Date(route.updated_at)
-      })) || [];
-    } catch (error) {
-      handleError(error, 'get route infos from Supabase');
-    }
+// Stock ledger
+export const getStockMovements = (): Promise<StockMovement[]> => getStorageAdapter().getStockMovements();
+
+// Ledger entries for invoice lines; lines are matched to products by id, or by
+// name for items recorded before invoices carried product ids
+const toStockMovements = (
+  items: InvoiceItem[],
+  products: Product[],
+  type: StockMovement['type'],
+  sign: 1 | -1,
+  reference: string | undefined,
+  date: Date,
+  notes?: string
+): NewStockMovement[] => {
+  return items.flatMap(item => {
+    const product = products.find(p => p.id === item.productId) || products.find(p => p.name === item.productName);
+    if (!product || item.quantity <= 0) return [];
+    return [{ productId: product.id, productName: product.name, type, quantity: sign * item.quantity, reference, notes, date }];
+  });
+};
+
+// Current stock per product id: the sum of its movements
+export const getStockLevels = (movements: StockMovement[]): Record<string, number> => {
+  const levels: Record<string, number> = {};
+  movements.forEach(m => {
+    levels[m.productId] = (levels[m.productId] || 0) + m.quantity;
+  });
+  return levels;
+};
+
+// Products with a reorder level set whose stock is at or below it
+export const getLowStockProducts = (products: Product[], levels: Record<string, number>): Product[] => {
+  return products.filter(p => (p.reorderLevel || 0) > 0 && (levels[p.id] || 0) <= (p.reorderLevel || 0));
+};
+
+// Goods received into the warehouse, e.g. against a supplier bill
+export const recordStockReceipt = async (product: Product, quantity: number, reference?: string, notes?: string): Promise<void> => {
+  if (!(quantity > 0)) {
+    throw new Error('Received quantity must be greater than zero');
   }
   
-  // Fallback to localStorage
-  const data = window.localStorage.getItem('sales_app_route_infos');
-  return data ? JSON.parse(data).map((route: any) => ({
-    ...route,
-    createdAt: new Date(route.createdAt),
-    updatedAt: new Date(route.updatedAt)
-  })) : [];
+  console.log(`📥 Receiving ${quantity} of ${product.name} into stock`);
+  
+  await getStorageAdapter().addStockMovements([{
+    productId: product.id,
+    productName: product.name,
+    type: 'purchase',
+    quantity,
+    reference: reference?.trim() || undefined,
+    notes: notes?.trim() || undefined,
+    date: new Date()
+  }]);
 };
 
-export const saveRouteInfo = async (routeData: Omit<RouteInfo, 'id' | 'createdAt' | 'updatedAt'>, customId?: string): Promise<void> => {
-  const mode = getStorageMode();
+// Correct stock after a physical count, breakage or other loss; a reason is required
+export const recordStockAdjustment = async (product: Product, quantity: number, reason: string): Promise<void> => {
+  if (!quantity) {
+    throw new Error('Adjustment quantity cannot be zero');
+  }
+  if (!reason.trim()) {
+    throw new Error('A reason is required for a stock adjustment');
+  }
   
-  const routeInfo: RouteInfo = {
-    id: customId || `R${Date.now()}`,
-    ...routeData,
-    createdAt: new Date(),
-    updatedAt: new Date()
-  };
+  console.log(`📝 Adjusting stock of ${product.name} by ${quantity}: ${reason.trim()}`);
   
-  if (mode === 'supabase') {
-    try {
-      const { error } = await supabase
-        .from(TABLES.ROUTES)
-        .insert({
-          id: routeInfo.id,
-          name: routeInfo.name,
-          description: routeInfo.description,
-          areas: routeInfo.areas,
-          pincodes: routeInfo.pincodes,
-          is_active: routeInfo.isActive,
-          created_at: routeInfo.createdAt.toISOString(),
-          updated_at: routeInfo.updatedAt.toISOString()
-        });
-      
-      if (error) throw error;
-      return;
-    } catch (error) {
-      handleError(error, 'save route info to Supabase');
-    }
+  await getStorageAdapter().addStockMovements([{
+    productId: product.id,
+    productName: product.name,
+    type: 'adjustment',
+    quantity,
+    notes: reason.trim(),
+    date: new Date()
+  }]);
+};
+
+// Transactions
+export const getTransactions = (): Promise<Transaction[]> => getStorageAdapter().getTransactions();
+
+export const addTransaction = (transaction: Omit<Transaction, 'id'>): Promise<void> => getStorageAdapter().addTransaction(transaction);
+
+// Routes - derived from customers
+export const getRoutes = async (): Promise<string[]> => {
+  const customers = await getCustomers();
+  const routes = [...new Set(customers.map(c => c.route).filter(r => r))];
+  return routes.sort();
+};
+
+// Filtered lookups - indexed where the backend supports it
+const matchesQuery = (record: Invoice | Transaction, query: RecordQuery): boolean => {
+  const date = new Date(record.date);
+  return (!query.customerId || record.customerId === query.customerId) &&
+    (!query.routeId || record.routeId === query.routeId) &&
+    (!query.sheetId || record.sheetId === query.sheetId) &&
+    (!query.from || date >= query.from) &&
+    (!query.to || date <= query.to);
+};
+
+export const findInvoices = async (query: RecordQuery): Promise<Invoice[]> => {
+  const adapter = getStorageAdapter();
+  if (adapter.queryInvoices) {
+    return adapter.queryInvoices(query);
   }
   
-  // Fallback to localStorage
-  const existingData = window.localStorage.getItem('sales_app_route_infos');
-  const routeInfos = existingData ? JSON.parse(existingData) : [];
-  routeInfos.push(routeInfo);
-  window.localStorage.setItem('sales_app_route_infos', JSON.stringify(routeInfos));
+  const invoices = await getInvoices();
+  return invoices.filter(i => matchesQuery(i, query));
 };
 
-export const updateRouteInfo = async (routeId: string, routeData: Omit<RouteInfo, 'id' | 'createdAt' | 'updatedAt'>): Promise<void> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { error } = await supabase
-        .from(TABLES.ROUTES)
-        .update({
-          name: routeData.name,
-          description: routeData.description,
-          areas: routeData.areas,
-          pincodes: routeData.pincodes,
-          is_active: routeData.isActive,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', routeId);
-      
-      if (error) throw error;
-      return;
-    } catch (error) {
-      handleError(error, 'update route info in Supabase');
-    }
+export const findTransactions = async (query: RecordQuery): Promise<Transaction[]> => {
+  const adapter = getStorageAdapter();
+  if (adapter.queryTransactions) {
+    return adapter.queryTransactions(query);
   }
   
-  // Fallback to localStorage
-  const existingData = window.localStorage.getItem('sales_app_route_infos');
-  const routeInfos = existingData ? JSON.parse(existingData) : [];
-  const index = routeInfos.findIndex((route: RouteInfo) => route.id === routeId);
-  if (index !== -1) {
-    routeInfos[index] = {
-      ...routeInfos[index],
-      ...routeData,
-      updatedAt: new Date()
-    };
-    window.localStorage.setItem('sales_app_route_infos', JSON.stringify(routeInfos));
-  }
+  const transactions = await getTransactions();
+  return transactions.filter(t => matchesQuery(t, query));
 };
 
-export const deleteRouteInfo = async (routeId: string): Promise<void> => {
-  const mode = getStorageMode();
+// Customer transactions
+export const getCustomerTransactions = (customerId: string): Promise<Transaction[]> => findTransactions({ customerId });
+
+// Ledger-derived balances
+// The INITIAL-<id> adjustment only mirrors the opening balance, which is
+// already counted through Customer.openingBalance
+const isOpeningBalanceEntry = (transaction: Transaction): boolean => {
+  return transaction.invoiceNumber === `INITIAL-${transaction.customerId}`;
+};
+
+export const calculateLedgerBalance = (customer: Customer, transactions: Transaction[]): number => {
+  const ledgerTotal = transactions
+    .filter(t => t.customerId === customer.id && !isOpeningBalanceEntry(t))
+    .reduce((sum, t) => sum + t.balanceChange, 0);
   
-  if (mode === 'supabase') {
-    try {
-      const { error } = await supabase
-        .from(TABLES.ROUTES)
-        .delete()
-        .eq('id', routeId);
-      
-      if (error) throw error;
-      return;
-    } catch (error) {
-      handleError(error, 'delete route info from Supabase');
-    }
+  return Math.round((customer.openingBalance + ledgerTotal) * 100) / 100;
+};
+
+// Sum of balance changes per customer; the backend's own totals when it has them
+const getLedgerTotals = async (): Promise<Record<string, number>> => {
+  const adapter = getStorageAdapter();
+  if (adapter.getLedgerTotals) {
+    return adapter.getLedgerTotals();
   }
   
-  // Fallback to localStorage
-  const existingData = window.localStorage.getItem('sales_app_route_infos');
-  const routeInfos = existingData ? JSON.parse(existingData) : [];
-  const filteredRoutes = routeInfos.filter((route: RouteInfo) => route.id !== routeId);
-  window.localStorage.setItem('sales_app_route_infos', JSON.stringify(filteredRoutes));
+  const totals: Record<string, number> = {};
+  (await getTransactions())
+    .filter(t => !isOpeningBalanceEntry(t))
+    .forEach(t => {
+      totals[t.customerId] = (totals[t.customerId] || 0) + t.balanceChange;
+    });
+  return totals;
 };
 
-// Sheets History Management
-export interface SheetRecord {
-  id: string;
-  routeId: string;
-  routeName: string;
-  customers: Customer[];
-  createdAt: Date;
-  updatedAt: Date;
-  status: 'active' | 'closed';
-  deliveryData: {
-    [customerId: string]: {
-      [productId: string]: {
-        quantity: number;
-        amount: number;
-      };
-    };
-  };
-  amountReceived: {
-    [customerId: string]: {
-      cash: number;
-      upi: number;
-      total: number;
-    };
-  };
-  routeOutstanding: number; // Route outstanding at the time of sheet closure
-  notes: string;
-}
+const withLedgerBalance = (customer: Customer, ledgerTotals: Record<string, number>): Customer => ({
+  ...customer,
+  outstandingAmount: roundCurrency(customer.openingBalance + (ledgerTotals[customer.id] || 0))
+});
 
-export const getSheetHistory = async (): Promise<SheetRecord[]> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { data, error } = await supabase
-        .from(TABLES.SHEETS)
-        .select('*')
-        .order('created_at', { ascending: false });
-      
-      if (error) throw error;
-      
-      return (data || []).map(sheet => ({
-        id: sheet.id,
-        routeId: sheet.route_id,
-        routeName: sheet.route_name,
-        customers: sheet.customers || [],
-        status: sheet.status as 'active' | 'closed',
-        deliveryData: sheet.delivery_data || {},
-        amountReceived: sheet.amount_received || {},
-        routeOutstanding: sheet.route_outstanding || 0,
-        notes: sheet.notes || '',
-        createdAt: new Date(sheet.created_at),
-        updatedAt: new Date(sheet.updated_at)
-      }));
-    } catch (error) {
-      handleError(error, 'get sheet history from Supabase');
+// Copy the ledger balance of each customer into their stored outstanding
+// amount, kept for reports that read the customer records directly. The app
+// itself always reads the ledger balance.
+export const syncCustomerBalances = async (customerIds: string[]): Promise<void> => {
+  const adapter = getStorageAdapter();
+  const [customers, ledgerTotals] = await Promise.all([adapter.getCustomers(), getLedgerTotals()]);
+  
+  for (const customer of customers.filter(c => customerIds.includes(c.id))) {
+    const { outstandingAmount } = withLedgerBalance(customer, ledgerTotals);
+    if (Math.abs(customer.outstandingAmount - outstandingAmount) > 0.01) {
+      await adapter.updateCustomer(customer.id, { outstandingAmount });
     }
   }
+};
+
+export const syncCustomerBalance = async (customerId: string): Promise<number> => {
+  const customer = await getCustomerById(customerId);
+  if (!customer) {
+    throw new Error(`Customer ${customerId} not found`);
+  }
   
-  // Fallback to localStorage
-  const data = localStorage.getItem('sales_app_sheets_history');
-  return data ? JSON.parse(data).map((sheet: any) => ({
-    ...sheet,
-    createdAt: new Date(sheet.createdAt),
-    updatedAt: new Date(sheet.updatedAt)
-  })) : [];
+  await syncCustomerBalances([customerId]);
+  return customer.outstandingAmount;
 };
 
-// Get a specific sheet by ID
-export const getSheetById = async (sheetId: string): Promise<SheetRecord | null> => {
-  const mode = getStorageMode();
+// The write itself has been committed by now, so a failure here only leaves a
+// stored amount behind; Reconciliation lists it
+const syncStoredBalancesAfter = async (operation: string, customerIds: string[]): Promise<void> => {
+  try {
+    await syncCustomerBalances([...new Set(customerIds)]);
+  } catch (error) {
+    console.error(`Error updating stored balances after ${operation}:`, error);
+  }
+};
+
+// Stored amounts written while offline were worked out without writes from
+// other devices, so copy the server ledger balances once queued writes are synced
+onOutboxSynced(async (customerIds) => {
+  await syncCustomerBalances(customerIds);
+  console.log(`🔄 Re-synced balances for ${customerIds.length} customers after offline sync`);
+});
+
+// Customers whose stored outstanding amount disagrees with their ledger
+export const getBalanceMismatches = async (): Promise<BalanceMismatch[]> => {
+  const [customers, transactions] = await Promise.all([getStorageAdapter().getCustomers(), getTransactions()]);
   
-  if (mode === 'supabase') {
-    try {
-      const { data, error } = await supabase
-        .from(TABLES.SHEETS)
-        .select('*')
-        .eq('id', sheetId)
-        .single();
-      
-      if (error) {
-        if (error.code === 'PGRST116') {
-          // No rows returned
-          return null;
-        }
-        throw error;
-      }
-      
-      if (!data) return null;
-      
+  return customers
+    .map(customer => {
+      const ledgerBalance = calculateLedgerBalance(customer, transactions);
       return {
-        id: data.id,
-        routeId: data.route_id,
-        routeName: data.route_name,
-        customers: data.customers || [],
-        status: data.status as 'active' | 'closed',
-        deliveryData: data.delivery_data || {},
-        amountReceived: data.amount_received || {},
-        routeOutstanding: data.route_outstanding || 0,
-        notes: data.notes || '',
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
+        customer,
+        storedBalance: customer.outstandingAmount,
+        ledgerBalance,
+        difference: Math.round((customer.outstandingAmount - ledgerBalance) * 100) / 100
       };
-    } catch (error) {
-      console.warn('Error fetching sheet by ID from Supabase:', error);
-      return null;
+    })
+    .filter(mismatch => Math.abs(mismatch.difference) > 0.01)
+    .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+};
+
+// Account statements
+const describeTransaction = (transaction: Transaction): string => {
+  const route = transaction.routeName ? ` (${transaction.routeName})` : '';
+  switch (transaction.type) {
+    case 'sale': {
+      const items = transaction.items
+        .filter(item => item.quantity > 0)
+        .map(item => `${item.productName} x ${item.quantity}`)
+        .join(', ');
+      return `Sale${route}${items ? `: ${items}` : ''}`;
     }
+    case 'payment':
+      return `Payment received${route}`;
+    case 'return':
+      return 'Sales return';
+    default:
+      return transaction.invoiceNumber.startsWith('VOID-')
+        ? `Invoice ${transaction.invoiceNumber.slice(5)} voided`
+        : 'Balance adjustment';
   }
+};
+
+// A customer's transactions between two dates (whole days) with a running
+// balance. Sales are debited at their full amount and credited with any cash
+// taken with them; other entries fall on the side their balance change is on.
+export const getAccountStatement = (
+  customer: Customer,
+  transactions: Transaction[],
+  from: Date,
+  to: Date
+): AccountStatement => {
+  const periodStart = startOfDay(from);
+  const periodEnd = endOfDay(to);
+  const ledger = transactions
+    .filter(t => t.customerId === customer.id && !isOpeningBalanceEntry(t))
+    .map(t => ({ ...t, date: new Date(t.date) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const openingBalance = roundCurrency(customer.openingBalance + ledger
+    .filter(t => t.date < periodStart)
+    .reduce((sum, t) => sum + t.balanceChange, 0));
+
+  let balance = openingBalance;
+  const lines: StatementLine[] = ledger
+    .filter(t => t.date >= periodStart && t.date <= periodEnd)
+    .map(t => {
+      const debit = roundCurrency(t.type === 'sale' ? t.totalAmount : Math.max(t.balanceChange, 0));
+      const credit = roundCurrency(debit - t.balanceChange);
+      balance = roundCurrency(balance + t.balanceChange);
+      return {
+        date: t.date,
+        type: t.type,
+        reference: t.invoiceNumber,
+        description: describeTransaction(t),
+        debit,
+        credit,
+        balance
+      };
+    });
+
+  return {
+    customer,
+    from: periodStart,
+    to: periodEnd,
+    openingBalance,
+    lines,
+    totalDebit: roundCurrency(lines.reduce((sum, line) => sum + line.debit, 0)),
+    totalCredit: roundCurrency(lines.reduce((sum, line) => sum + line.credit, 0)),
+    closingBalance: balance
+  };
+};
+
+// Receivables aging
+export type AgingBucket = 'current' | 'days31to60' | 'days61to90' | 'over90';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string; maxDays: number }[] = [
+  { key: 'current', label: '0-30 days', maxDays: 30 },
+  { key: 'days31to60', label: '31-60 days', maxDays: 60 },
+  { key: 'days61to90', label: '61-90 days', maxDays: 90 },
+  { key: 'over90', label: '90+ days', maxDays: Infinity }
+];
+
+// Dues of each customer who owes money, by age. Every amount charged (sales
+// less cash taken with them, debit adjustments and a positive opening
+// balance) is a due from its date; payments, returns and credits pay off the
+// oldest dues first. What is left of each due is bucketed by its age on asOf.
+export const getReceivablesAging = (
+  customers: Customer[],
+  transactions: Transaction[],
+  asOf: Date = new Date()
+): ReceivableAging[] => {
+  const byCustomer = new Map<string, Transaction[]>();
+  transactions.forEach(t => {
+    if (isOpeningBalanceEntry(t)) return;
+    byCustomer.set(t.customerId, [...(byCustomer.get(t.customerId) || []), t]);
+  });
+
+  return customers
+    .map(customer => {
+      const ledger = byCustomer.get(customer.id) || [];
+      const dues = [
+        ...(customer.openingBalance > 0 ? [{ date: new Date(customer.createdAt), amount: customer.openingBalance }] : []),
+        ...ledger.filter(t => t.balanceChange > 0).map(t => ({ date: new Date(t.date), amount: t.balanceChange }))
+      ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+      let credit = Math.max(-customer.openingBalance, 0) + ledger
+        .filter(t => t.balanceChange < 0)
+        .reduce((sum, t) => sum - t.balanceChange, 0);
+
+      const aging: ReceivableAging = { customer, current: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 };
+      dues.forEach(due => {
+        const allocated = Math.min(credit, due.amount);
+        credit -= allocated;
+        const unpaid = roundCurrency(due.amount - allocated);
+        if (unpaid <= 0) return;
+
+        const age = differenceInCalendarDays(asOf, due.date);
+        const bucket = AGING_BUCKETS.find(b => age <= b.maxDays) || AGING_BUCKETS[AGING_BUCKETS.length - 1];
+        aging[bucket.key] = roundCurrency(aging[bucket.key] + unpaid);
+        aging.total = roundCurrency(aging.total + unpaid);
+        aging.oldestDueDate = aging.oldestDueDate || due.date;
+      });
+      return aging;
+    })
+    .filter(aging => aging.total > 0);
+};
+
+// Credit control
+// Whether a customer is over their credit limit or credit days. additionalDue
+// is an amount about to be charged, e.g. the unpaid part of a new invoice,
+// counted against the limit. Undefined when the customer is within both.
+export const getCreditHold = (
+  customer: Customer,
+  aging: ReceivableAging | undefined,
+  additionalDue = 0,
+  asOf: Date = new Date()
+): CreditHold | undefined => {
+  const { creditLimit, creditDays } = customer;
+  const outstanding = roundCurrency(customer.outstandingAmount + additionalDue);
+  const overLimitBy = creditLimit !== undefined ? Math.max(roundCurrency(outstanding - creditLimit), 0) : 0;
+  const dueForDays = aging?.oldestDueDate ? differenceInCalendarDays(asOf, aging.oldestDueDate) : 0;
+  const overdueDays = creditDays !== undefined ? Math.max(dueForDays - creditDays, 0) : 0;
+  if (overLimitBy <= 0 && overdueDays <= 0) return undefined;
+
+  const reasons = [
+    ...(overLimitBy > 0 ? [`₹${outstanding.toLocaleString()} owed against a limit of ₹${(creditLimit || 0).toLocaleString()}`] : []),
+    ...(overdueDays > 0 ? [`Dues unpaid for ${dueForDays} days against ${creditDays} credit days`] : [])
+  ];
+  return { customer, outstanding, overLimitBy, overdueDays, reasons };
+};
+
+// Customers on credit hold, furthest over their limit first
+export const getCreditHolds = (customers: Customer[], transactions: Transaction[], asOf: Date = new Date()): CreditHold[] => {
+  const limited = customers.filter(c => c.creditLimit !== undefined || c.creditDays !== undefined);
+  const aging = new Map(getReceivablesAging(limited, transactions, asOf).map(a => [a.customer.id, a]));
+
+  return limited
+    .map(customer => getCreditHold(customer, aging.get(customer.id), 0, asOf))
+    .filter((hold): hold is CreditHold => hold !== undefined)
+    .sort((a, b) => b.overLimitBy - a.overLimitBy || b.overdueDays - a.overdueDays);
+};
+
+// Initialize default data
+export const initializeDefaultData = (): Promise<void> => getStorageAdapter().initializeDefaultData();
+
+// Route Management Functions
+export const getRouteInfos = (): Promise<RouteInfo[]> => getStorageAdapter().getRouteInfos();
+
+export const saveRouteInfo = async (routeData: RouteInfoData, customId?: string): Promise<void> => {
+  const routeInfo: RouteInfo = {
+    id: customId || `R${Date.now()}`,
+    ...routeData,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
   
-  // Fallback to localStorage
-  const data = localStorage.getItem('sales_app_sheets_history');
-  if (!data) return null;
-  
-  const sheets = JSON.parse(data);
-  const sheet = sheets.find((s: any) => s.id === sheetId);
-  
-  return sheet ? {
-    ...sheet,
-    createdAt: new Date(sheet.createdAt),
-    updatedAt: new Date(sheet.updatedAt)
-  } : null;
+  await getStorageAdapter().saveRouteInfo(routeInfo);
+};
+
+export const updateRouteInfo = (routeId: string, routeData: RouteInfoData): Promise<void> => getStorageAdapter().updateRouteInfo(routeId, routeData);
+
+export const deleteRouteInfo = (routeId: string): Promise<void> => getStorageAdapter().deleteRouteInfo(routeId);
+
+const pickProducts = (productIds: string[], products: Product[]): Product[] => {
+  return productIds
+    .map(id => products.find(p => p.id === id))
+    .filter((product): product is Product => !!product);
+};
+
+// Products on a route's sheets in the route's order; every product when the route has no set
+export const getRouteProducts = (routeInfo: RouteInfo | undefined, products: Product[]): Product[] => {
+  const productIds = routeInfo?.productIds || [];
+  return productIds.length > 0 ? pickProducts(productIds, products) : products;
+};
+
+// Product columns of a sheet. Sheets generated before routes had product sets
+// always showed the first three products, so they keep doing so.
+export const getSheetProducts = (sheet: Pick<SheetRecord, 'productIds'> | undefined, products: Product[]): Product[] => {
+  return sheet?.productIds ? pickProducts(sheet.productIds, products) : products.slice(0, 3);
+};
+
+// Invoice lines for one customer's deliveries on a sheet, at the sheet's rates
+const getDeliveredItems = (sheet: SheetRecord, customer: Customer, products: Product[]): InvoiceItem[] => {
+  return Object.entries(sheet.deliveryData[customer.id] || {}).flatMap(([productId, data]) => {
+    const product = products.find(p => p.id === productId);
+    if (!product || data.quantity <= 0) return [];
+    return [{
+      id: `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      productId: product.id,
+      productName: product.name,
+      quantity: data.quantity,
+      price: data.amount / data.quantity,
+      total: data.amount
+    }];
+  });
 };
 
+// Units given free under free-quantity schemes across a sheet's deliveries
+export const getSheetFreeQuantities = (sheet: SheetRecord, products: Product[], schemes: Scheme[], date: Date): Record<string, number> => {
+  const freeQuantities: Record<string, number> = {};
+  sheet.customers.forEach(customer => {
+    priceInvoiceItems(getDeliveredItems(sheet, customer, products), schemes, { customerId: customer.id, date })
+      .filter(item => item.isFree && item.productId)
+      .forEach(item => {
+        freeQuantities[item.productId!] = (freeQuantities[item.productId!] || 0) + item.quantity;
+      });
+  });
+  return freeQuantities;
+};
+
+// End-of-route stock check for a sheet with a recorded van load: what was
+// loaded against what was delivered and brought back, per product. Free
+// units leave the van too, so they count as delivered.
+export const getVanReconciliation = (sheet: SheetRecord, products: Product[], freeQuantities: Record<string, number> = {}): VanReconciliationLine[] => {
+  if (!sheet.vanLoad) return [];
+
+  const productIds = [...new Set([
+    ...getSheetProducts(sheet, products).map(p => p.id),
+    ...Object.keys(sheet.vanLoad)
+  ])];
+
+  return productIds.map(productId => {
+    const loaded = sheet.vanLoad?.[productId] || 0;
+    const returned = sheet.returnedStock?.[productId] || 0;
+    const delivered = Object.values(sheet.deliveryData)
+      .reduce((sum, customerData) => sum + (customerData[productId]?.quantity || 0), 0) + (freeQuantities[productId] || 0);
+
+    return {
+      productId,
+      productName: products.find(p => p.id === productId)?.name || productId,
+      loaded,
+      delivered,
+      returned,
+      shortage: loaded - delivered - returned
+    };
+  });
+};
+
+// Returnable containers
+export const getContainerTypes = async (): Promise<ContainerType[]> => (await getCompanySettings()).containerTypes || [];
+
+type ContainerBalances = Record<string, Record<string, number>>; // customerId -> containerTypeId -> count held
+
+const addSheetContainers = (balances: ContainerBalances, sheet: SheetRecord): void => {
+  Object.entries(sheet.containerData || {}).forEach(([customerId, containers]) => {
+    const customerBalance = balances[customerId] = balances[customerId] || {};
+    Object.entries(containers).forEach(([containerTypeId, { issued, returned }]) => {
+      customerBalance[containerTypeId] = (customerBalance[containerTypeId] || 0) + (issued || 0) - (returned || 0);
+    });
+  });
+};
+
+// Containers each customer holds: issued less returned over closed sheets,
+// optionally only those generated before a given date
+export const getContainerBalances = (sheets: SheetRecord[], before?: Date): ContainerBalances => {
+  const balances: ContainerBalances = {};
+  sheets
+    .filter(sheet => sheet.status === 'closed')
+    .filter(sheet => !before || new Date(sheet.createdAt) < before)
+    .forEach(sheet => addSheetContainers(balances, sheet));
+  return balances;
+};
+
+// Balances when a sheet went out, and after its own issued and returned counts
+export const getSheetContainerBalances = (sheet: SheetRecord, sheets: SheetRecord[]): { opening: ContainerBalances; closing: ContainerBalances } => {
+  const opening = getContainerBalances(sheets.filter(s => s.id !== sheet.id), new Date(sheet.createdAt));
+  const closing: ContainerBalances = Object.fromEntries(Object.entries(opening).map(([customerId, balance]) => [customerId, { ...balance }]));
+  addSheetContainers(closing, sheet);
+  return { opening, closing };
+};
+
+// e.g. "Crate 5, Can 2"; container types with nothing held are left out
+export const formatContainerBalance = (balance: Record<string, number> | undefined, containerTypes: ContainerType[]): string => {
+  return containerTypes
+    .filter(type => balance?.[type.id])
+    .map(type => `${type.name} ${balance?.[type.id]}`)
+    .join(', ');
+};
+
+// Deposit value of the containers a customer holds
+export const getContainerDeposit = (balance: Record<string, number> | undefined, containerTypes: ContainerType[]): number => {
+  return containerTypes.reduce((sum, type) => sum + (balance?.[type.id] || 0) * type.depositValue, 0);
+};
+
+// Standing orders
+// Whether a standing order delivers on a date: not while paused or during a vacation
+export const isStandingOrderActive = (standingOrder: StandingOrder, date: Date): boolean => {
+  if (standingOrder.isPaused) return false;
+  const day = format(date, 'yyyy-MM-dd');
+  return !(standingOrder.vacations || []).some(v => v.from <= day && v.to >= day);
+};
+
+// Product quantities a customer's standing order delivers on a date
+export const getStandingOrderQuantities = (customer: Customer, date: Date): Record<string, number> => {
+  const standingOrder = customer.standingOrder;
+  if (!standingOrder || !isStandingOrderActive(standingOrder, date)) return {};
+  return Object.fromEntries(
+    Object.entries(standingOrder.quantities[date.getDay()] || {}).filter(([, quantity]) => quantity > 0)
+  );
+};
+
+// Delivery rows for a new sheet from its customers' standing orders, priced
+// as the sheet will be when it is closed
+const getStandingOrderDeliveries = async (
+  customers: Customer[],
+  productIds: string[],
+  date: Date
+): Promise<SheetRecord['deliveryData']> => {
+  if (!customers.some(c => c.standingOrder)) return {};
+
+  const [products, priceList] = await Promise.all([getProducts(), getPriceList()]);
+  const deliveryData: SheetRecord['deliveryData'] = {};
+  customers.forEach(customer => {
+    const rows = Object.entries(getStandingOrderQuantities(customer, date))
+      .map(([productId, quantity]) => ({ product: products.find(p => p.id === productId && productIds.includes(p.id)), quantity }))
+      .filter((row): row is { product: Product; quantity: number } => row.product !== undefined)
+      .map(({ product, quantity }) => [product.id, { quantity, amount: quantity * getPriceOn(priceList, product, customer, date) }]);
+    if (rows.length > 0) {
+      deliveryData[customer.id] = Object.fromEntries(rows);
+    }
+  });
+  return deliveryData;
+};
+
+// Sheets History Management
+export const getSheetHistory = (): Promise<SheetRecord[]> => getStorageAdapter().getSheetHistory();
+
+// Get a specific sheet by ID
+export const getSheetById = (sheetId: string): Promise<SheetRecord | null> => getStorageAdapter().getSheetById(sheetId);
+
 // Generate unique sheet ID with format: ROUTE-<DATE>-<TIME>-<ROUTECODE>
 export const generateSheetId = (routeId: string, date?: Date): string => {
   const currentDate = date || new Date();
@@ -900,110 +1394,33 @@ export const checkSheetExists = async (routeId: string, date?: Date): Promise<Sh
 };
 
 export const saveSheetHistory = async (sheetRecord: Omit<SheetRecord, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
-  const mode = getStorageMode();
-  
-  // Generate custom sheet ID with format: ROUTE-<DATE>-<TIME>-<ROUTECODE>
-  const customSheetId = generateSheetId(sheetRecord.routeId);
-  
-  if (mode === 'supabase') {
-    try {
-      const { data, error } = await supabase
-        .from(TABLES.SHEETS)
-        .insert({
-          id: customSheetId,
-          route_id: sheetRecord.routeId,
-          route_name: sheetRecord.routeName,
-          customers: sheetRecord.customers,
-          status: sheetRecord.status,
-          delivery_data: sheetRecord.deliveryData,
-          amount_received: sheetRecord.amountReceived,
-          route_outstanding: sheetRecord.routeOutstanding,
-          notes: sheetRecord.notes
-        })
-        .select('id')
-        .single();
-      
-      if (error) throw error;
-      
-      return data.id;
-    } catch (error) {
-      handleError(error, 'save sheet history to Supabase');
-    }
+  // Fix the product columns now so later changes to the route don't reshape this sheet
+  let productIds = sheetRecord.productIds;
+  if (!productIds) {
+    const [routeInfos, products] = await Promise.all([getRouteInfos(), getProducts()]);
+    productIds = getRouteProducts(routeInfos.find(r => r.id === sheetRecord.routeId), products).map(p => p.id);
   }
   
-  // Fallback to localStorage
-  const sheets = await getSheetHistory();
+  // Standing orders fill in the rows not given, so agents only correct the exceptions
+  const createdAt = new Date();
+  const standingOrders = await getStandingOrderDeliveries(sheetRecord.customers, productIds, createdAt);
+  
+  // Generate custom sheet ID with format: ROUTE-<DATE>-<TIME>-<ROUTECODE>
   const newSheet: SheetRecord = {
     ...sheetRecord,
-    id: customSheetId,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    productIds,
+    deliveryData: { ...standingOrders, ...sheetRecord.deliveryData },
+    id: generateSheetId(sheetRecord.routeId),
+    createdAt,
+    updatedAt: createdAt
   };
   
-  sheets.push(newSheet);
-  localStorage.setItem('sales_app_sheets_history', JSON.stringify(sheets));
-  return newSheet.id;
+  return getStorageAdapter().saveSheetRecord(newSheet);
 };
 
-export const updateSheetRecord = async (id: string, updates: Partial<SheetRecord>): Promise<void> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { error } = await supabase
-        .from(TABLES.SHEETS)
-        .update({
-          route_id: updates.routeId,
-          route_name: updates.routeName,
-          customers: updates.customers,
-          status: updates.status,
-          delivery_data: updates.deliveryData,
-          amount_received: updates.amountReceived,
-          route_outstanding: updates.routeOutstanding,
-          notes: updates.notes,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id);
-      
-      if (error) throw error;
-      return;
-    } catch (error) {
-      handleError(error, 'update sheet record in Supabase');
-    }
-  }
-  
-  // Fallback to localStorage
-  const sheets = await getSheetHistory();
-  const index = sheets.findIndex(sheet => sheet.id === id);
-  
-  if (index !== -1) {
-    sheets[index] = { ...sheets[index], ...updates, updatedAt: new Date() };
-    localStorage.setItem('sales_app_sheets_history', JSON.stringify(sheets));
-  }
-};
+export const updateSheetRecord = (id: string, updates: Partial<SheetRecord>): Promise<void> => getStorageAdapter().updateSheetRecord(id, updates);
 
-export const deleteSheetRecord = async (id: string): Promise<void> => {
-  const mode = getStorageMode();
-  
-  if (mode === 'supabase') {
-    try {
-      const { error } = await supabase
-        .from(TABLES.SHEETS)
-        .delete()
-        .eq('id', id);
-      
-      if (error) throw error;
-      return;
-    } catch (error) {
-      handleError(error, 'delete sheet record from Supabase');
-    }
-  }
-  
-  // Fallback to localStorage
-  const sheets = await getSheetHistory();
-  const filteredSheets = sheets.filter(sheet => sheet.id !== id);
-  localStorage.setItem('sales_app_sheets_history', JSON.stringify(filteredSheets));
-};
+export const deleteSheetRecord = (id: string): Promise<void> => getStorageAdapter().deleteSheetRecord(id);
 
 // Utility function to generate unique transaction IDs
 export const generateUniqueTransactionId = (type: 'sale' | 'payment', customerId: string, sheetId?: string): string => {
@@ -1062,15 +1479,26 @@ export const closeSheetRecord = async (id: string): Promise<void> => {
     throw new Error('Sheet is already closed');
   }
   
-  console.log(`🔒 Closing sheet ${id} - Starting financial record creation process...`);
+  console.log(`🔒 Closing sheet ${id} - Preparing financial records...`);
   console.log(`📊 Sheet details: Route ${sheet.routeName}, ${sheet.customers.length} customers`);
   
   const products = await getProducts();
+  const sheetProducts = getSheetProducts(sheet, products);
   const currentCustomers = await getCustomers(); // Get fresh customer data
+  const companySettings = await getCompanySettings();
+  const schemes = companySettings.schemes || [];
+  const priceList = await getPriceList();
+  const sheetDate = new Date(sheet.createdAt);
+  
+  // Every record is prepared up front and committed in a single step below,
+  // so a failure part-way through never leaves a half-closed sheet behind
+  const pendingInvoices: Omit<Invoice, 'id' | 'invoiceNumber'>[] = [];
+  const pendingTransactions: Omit<Transaction, 'id'>[] = [];
+  const deliveredQuantities: Record<string, number> = {};
+  const closedAt = new Date();
   
-  // Process each customer's transactions
   for (const customer of sheet.customers) {
-    // Get current customer data to ensure we have the latest outstanding amount
+    // Current customer data has the outstanding amount from the latest ledger
     const currentCustomer = currentCustomers.find(c => c.id === customer.id);
     if (!currentCustomer) {
       console.warn(`Customer ${customer.id} not found in current customer list`);
@@ -1080,6 +1508,13 @@ export const closeSheetRecord = async (id: string): Promise<void> => {
     const customerDeliveryData = sheet.deliveryData[customer.id] || {};
     const amountReceived = sheet.amountReceived?.[customer.id] || { cash: 0, upi: 0, total: 0 };
     
+    // Container counts are entered by hand on the sheet
+    Object.entries(sheet.containerData?.[customer.id] || {}).forEach(([containerTypeId, counts]) => {
+      if ((counts.issued || 0) < 0 || (counts.returned || 0) < 0) {
+        throw new Error(`Negative container count for customer ${customer.id}, container ${containerTypeId}`);
+      }
+    });
+    
     // Validate amountReceived data consistency
     const calculatedTotal = (amountReceived.cash || 0) + (amountReceived.upi || 0);
     if (Math.abs((amountReceived.total || 0) - calculatedTotal) > 0.01) {
@@ -1094,9 +1529,14 @@ export const closeSheetRecord = async (id: string): Promise<void> => {
     let recalculatedTotal = 0;
     for (const [productId, data] of Object.entries(customerDeliveryData)) {
       if (data.quantity > 0) {
+        if (!sheetProducts.some(p => p.id === productId)) {
+          const productName = products.find(p => p.id === productId)?.name || productId;
+          throw new Error(`Customer ${customer.id} has a delivery of ${productName}, which is not one of this sheet's products`);
+        }
         const product = products.find(p => p.id === productId);
         if (product) {
-          const expectedRate = customer.productPrices[productId] || product.defaultPrice || 0;
+          // Rates are those in effect when the sheet was generated
+          const expectedRate = getPriceOn(priceList, product, customer, sheetDate);
           const expectedAmount = data.quantity * expectedRate;
           if (Math.abs(data.amount - expectedAmount) > 0.01) {
             throw new Error(`Amount calculation error for customer ${customer.id}, product ${productId}. Expected: ${expectedAmount}, Got: ${data.amount}`);
@@ -1110,78 +1550,62 @@ export const closeSheetRecord = async (id: string): Promise<void> => {
       throw new Error(`Total calculation mismatch for customer ${customer.id}. Expected: ${recalculatedTotal}, Got: ${customerTotal}`);
     }
     
+    // Schemes in force on the sheet date apply to the sheet rates, then GST is split out
+    const saleItems = customerTotal > 0
+      ? applyGST(
+          priceInvoiceItems(getDeliveredItems(sheet, customer, products), schemes, { customerId: customer.id, date: sheetDate }),
+          products,
+          isInterStateSupply(companySettings, currentCustomer)
+        )
+      : [];
+    const saleTotal = roundCurrency(saleItems.reduce((sum, item) => sum + item.total, 0));
+    saleItems.forEach(item => {
+      if (item.productId) {
+        deliveredQuantities[item.productId] = (deliveredQuantities[item.productId] || 0) + item.quantity;
+      }
+    });
+    
     // Process transaction if either purchase total OR amount received is not zero
     if (customerTotal > 0 || amountReceived.total > 0) {
       
-      console.log(`💰 Creating financial records for customer ${customer.name} (${customer.id})`);
-      console.log(`📈 Purchase total: ₹${customerTotal}, Payment received: ₹${amountReceived.total}`);
+      console.log(`💰 Preparing financial records for customer ${customer.name} (${customer.id})`);
+      console.log(`📈 Purchase total: ₹${saleTotal}, Payment received: ₹${amountReceived.total}`);
+      
+      // Balance after this sheet, for the invoice; the ledger itself only gets the changes
+      const outstandingChange = saleTotal - amountReceived.total;
+      const updatedOutstanding = currentCustomer.outstandingAmount + outstandingChange;
       
-      // Create sale transaction if customer purchased products
+      // Create sale records if customer purchased products
       if (customerTotal > 0) {
-        const saleItems: InvoiceItem[] = [];
-        
-        // Convert delivery data to invoice items
-        for (const [productId, data] of Object.entries(customerDeliveryData)) {
-          if (data.quantity > 0) {
-            const product = products.find(p => p.id === productId);
-            if (product) {
-              const unitPrice = customer.productPrices[productId] || product.defaultPrice || 0;
-              saleItems.push({
-                id: `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                productName: product.name,
-                quantity: data.quantity,
-                price: unitPrice,
-                total: data.amount
-              });
-            }
-          }
-        }
-        
-        // Generate unique invoice for this customer's purchase
-        const invoiceNumber = generateUniqueTransactionId('sale', customer.id, sheet.id);
-        
-        console.log(`📄 Creating invoice ${invoiceNumber} for customer ${customer.name}`);
-        
-        // Calculate final customer balance after this transaction using CURRENT outstanding
-        const balanceChange = customerTotal - amountReceived.total;
-        const finalBalance = currentCustomer.outstandingAmount + balanceChange;
-        
-        // Use separate cash and UPI amounts
-        const cashAmount = amountReceived.cash || 0;
-        const upiAmount = amountReceived.upi || 0;
-        
-        // Create invoice record
-        await addInvoice({
+        pendingInvoices.push({
           customerId: customer.id,
           customerName: customer.name,
           items: saleItems,
-          subtotal: customerTotal,
-          totalAmount: customerTotal,
+          subtotal: getTaxSummary(saleItems).taxableValue,
+          totalAmount: saleTotal,
           amountReceived: amountReceived.total,
-          balanceChange: balanceChange,
-          date: new Date(),
-          status: amountReceived.total >= customerTotal ? 'paid' : 
+          balanceChange: outstandingChange,
+          date: closedAt,
+          status: amountReceived.total >= saleTotal ? 'paid' : 
                   amountReceived.total > 0 ? 'partial' : 'pending',
           routeId: sheet.routeId,
           routeName: sheet.routeName,
           sheetId: sheet.id,
-          cashAmount: cashAmount,
-          upiAmount: upiAmount,
-          customerFinalBalance: finalBalance
+          cashAmount: amountReceived.cash || 0,
+          upiAmount: amountReceived.upi || 0,
+          customerFinalBalance: updatedOutstanding
         });
         
-        // Add sale transaction
-        console.log(`📊 Creating sale transaction for invoice ${invoiceNumber}`);
-        await addTransaction({
+        pendingTransactions.push({
           customerId: customer.id,
           customerName: customer.name,
           type: 'sale',
           items: saleItems,
-          totalAmount: customerTotal,
+          totalAmount: saleTotal,
           amountReceived: 0, // Payment is separate transaction
-          balanceChange: customerTotal, // Increases outstanding
-          date: new Date(),
-          invoiceNumber: invoiceNumber,
+          balanceChange: saleTotal, // Increases outstanding
+          date: closedAt,
+          invoiceNumber: '', // The invoice's number, assigned when it is committed
           routeId: sheet.routeId,
           routeName: sheet.routeName,
           sheetId: sheet.id
@@ -1190,12 +1614,11 @@ export const closeSheetRecord = async (id: string): Promise<void> => {
       
       // Create payment transaction if customer paid money
       if (amountReceived.total > 0) {
-        // Generate unique payment ID using timestamp and random component
         const paymentId = generateUniqueTransactionId('payment', customer.id, sheet.id);
         
-        console.log(`💳 Creating payment transaction ${paymentId} for ₹${amountReceived.total} (Cash: ₹${amountReceived.cash}, UPI: ₹${amountReceived.upi})`);
+        console.log(`💳 Preparing payment ${paymentId} for ₹${amountReceived.total} (Cash: ₹${amountReceived.cash}, UPI: ₹${amountReceived.upi})`);
         
-        await addTransaction({
+        pendingTransactions.push({
           customerId: customer.id,
           customerName: customer.name,
           type: 'payment',
@@ -1203,7 +1626,7 @@ export const closeSheetRecord = async (id: string): Promise<void> => {
           totalAmount: 0,
           amountReceived: amountReceived.total,
           balanceChange: -amountReceived.total, // Reduces outstanding
-          date: new Date(),
+          date: closedAt,
           invoiceNumber: paymentId,
           routeId: sheet.routeId,
           routeName: sheet.routeName,
@@ -1211,26 +1634,49 @@ export const closeSheetRecord = async (id: string): Promise<void> => {
         });
       }
       
-      // Update customer's outstanding amount using CURRENT outstanding amount
-      const outstandingChange = customerTotal - amountReceived.total;
-      const updatedOutstanding = currentCustomer.outstandingAmount + outstandingChange;
-      
-      console.log(`🔄 Updating customer ${customer.name} outstanding: ₹${currentCustomer.outstandingAmount} + ₹${outstandingChange} = ₹${updatedOutstanding}`);
-      
-      // Update customer in the main storage
-      await updateCustomer(customer.id, { outstandingAmount: updatedOutstanding });
+      console.log(`🔄 Customer ${customer.name} outstanding: ₹${currentCustomer.outstandingAmount} + ₹${outstandingChange} = ₹${updatedOutstanding}`);
     } else {
       console.log(`ℹ️ No financial activity for customer ${customer.name} - skipping record creation`);
     }
   }
   
-  console.log(`✅ Financial records creation completed for sheet ${id}`);
+  // One stock-out per product for everything delivered on the route
+  const stockMovements: NewStockMovement[] = Object.entries(deliveredQuantities).map(([productId, quantity]) => ({
+    productId,
+    productName: products.find(p => p.id === productId)?.name || productId,
+    type: 'sale',
+    quantity: -quantity,
+    reference: sheet.id,
+    notes: `Route ${sheet.routeName}`,
+    date: closedAt
+  }));
+  
+  // Units missing from the van (or counted twice) are written off so the
+  // warehouse stock matches what was loaded less what came back
+  getVanReconciliation(sheet, products, getSheetFreeQuantities(sheet, products, schemes, sheetDate))
+    .filter(line => line.shortage !== 0)
+    .forEach(line => {
+      console.warn(`⚠️ Van ${line.shortage > 0 ? 'shortage' : 'excess'} on ${sheet.id}: ${line.productName} ${Math.abs(line.shortage)}`);
+      stockMovements.push({
+        productId: line.productId,
+        productName: line.productName,
+        type: 'adjustment',
+        quantity: -line.shortage,
+        reference: sheet.id,
+        notes: `Van ${line.shortage > 0 ? 'shortage' : 'excess'} on route ${sheet.routeName}`,
+        date: closedAt
+      });
+    });
   
-  // Mark sheet as closed
-  await updateSheetRecord(id, {
-    status: 'closed',
-    updatedAt: new Date()
+  console.log(`📦 Committing ${pendingInvoices.length} invoices and ${pendingTransactions.length} transactions for sheet ${id}`);
+  
+  await getStorageAdapter().commitSheetClose({
+    sheetId: id,
+    invoices: pendingInvoices,
+    transactions: pendingTransactions,
+    stockMovements
   });
   
   console.log(`🔒 Sheet ${id} successfully closed`);
+  await syncStoredBalancesAfter(`closing sheet ${id}`, pendingTransactions.map(t => t.customerId));
 };
@@ -0,0 +1,96 @@
+/*
+  # Atomic Route Sheet Closing
+
+  1. New Functions
+    - `close_route_sheet(p_sheet_id, p_invoices, p_transactions, p_customer_updates)`
+    - Inserts every invoice and transaction produced by a sheet, applies the
+      outstanding balance changes and marks the sheet closed in one transaction
+
+  2. Safety
+    - Locks the sheet row so two devices cannot close the same sheet twice
+    - Any failure rolls back all invoices, transactions and balance updates
+*/
+
+CREATE OR REPLACE FUNCTION close_route_sheet(
+  p_sheet_id TEXT,
+  p_invoices JSONB,
+  p_transactions JSONB,
+  p_customer_updates JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM route_sheets WHERE id = p_sheet_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sheet with ID % not found', p_sheet_id;
+  END IF;
+
+  IF v_status = 'closed' THEN
+    RAISE EXCEPTION 'Sheet is already closed';
+  END IF;
+
+  INSERT INTO invoices (
+    invoice_number, customer_id, customer_name, items, subtotal, total_amount,
+    amount_received, balance_change, status, route_id, route_name, sheet_id,
+    cash_amount, upi_amount, customer_final_balance, date
+  )
+  SELECT
+    i.invoice_number, i.customer_id, i.customer_name, i.items, i.subtotal, i.total_amount,
+    i.amount_received, i.balance_change, i.status, i.route_id, i.route_name, i.sheet_id,
+    i.cash_amount, i.upi_amount, i.customer_final_balance, i.date
+  FROM jsonb_to_recordset(COALESCE(p_invoices, '[]'::jsonb)) AS i(
+    invoice_number TEXT,
+    customer_id TEXT,
+    customer_name TEXT,
+    items JSONB,
+    subtotal DECIMAL(10,2),
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    status TEXT,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT,
+    cash_amount DECIMAL(10,2),
+    upi_amount DECIMAL(10,2),
+    customer_final_balance DECIMAL(10,2),
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, t.invoice_number, t.date
+  FROM jsonb_to_recordset(COALESCE(p_transactions, '[]'::jsonb)) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    invoice_number TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  -- Apply balance changes relative to the stored amount, not a client snapshot
+  UPDATE customers c
+  SET outstanding_amount = c.outstanding_amount + u.balance_change
+  FROM jsonb_to_recordset(COALESCE(p_customer_updates, '[]'::jsonb)) AS u(
+    id TEXT,
+    balance_change DECIMAL(10,2)
+  )
+  WHERE c.id = u.id;
+
+  UPDATE route_sheets
+  SET status = 'closed', updated_at = NOW()
+  WHERE id = p_sheet_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION close_route_sheet(TEXT, JSONB, JSONB, JSONB) TO authenticated;
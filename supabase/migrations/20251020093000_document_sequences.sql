@@ -0,0 +1,91 @@
+/*
+  # Server-side Customer ID and Invoice Number Sequences
+
+  1. New Tables
+    - `document_sequences` holds the last number issued for each series
+      (`customer`, `invoice`), seeded from the existing data
+
+  2. New Functions
+    - `next_document_number(p_series)` increments a series under a row lock
+    - `assign_customer_id()` / `assign_invoice_number()` triggers fill in the
+      number on insert when the client leaves it empty
+
+  3. Numbering
+    - The counter is bumped inside the inserting transaction, so a failed
+      insert rolls the counter back and no numbers are skipped
+    - Concurrent inserts wait on the counter row instead of colliding
+*/
+
+CREATE TABLE IF NOT EXISTS document_sequences (
+  series TEXT PRIMARY KEY,
+  last_value BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE document_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage document_sequences"
+  ON document_sequences
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Seed the counters from the numbers already in use
+INSERT INTO document_sequences (series, last_value)
+SELECT 'customer', COALESCE(MAX(id::BIGINT), 100000)
+FROM customers
+WHERE id ~ '^[0-9]+$'
+ON CONFLICT (series) DO NOTHING;
+
+INSERT INTO document_sequences (series, last_value)
+SELECT 'invoice', COALESCE(MAX(SUBSTRING(invoice_number FROM 4)::BIGINT), 0)
+FROM invoices
+WHERE invoice_number ~ '^INV[0-9]+$'
+ON CONFLICT (series) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION next_document_number(p_series TEXT)
+RETURNS BIGINT AS $$
+DECLARE
+  v_next BIGINT;
+BEGIN
+  UPDATE document_sequences
+  SET last_value = last_value + 1, updated_at = NOW()
+  WHERE series = p_series
+  RETURNING last_value INTO v_next;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown document series %', p_series;
+  END IF;
+
+  RETURN v_next;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION assign_customer_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.id IS NULL OR NEW.id = '' THEN
+    NEW.id = next_document_number('customer')::TEXT;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION assign_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.invoice_number IS NULL OR NEW.invoice_number = '' THEN
+    NEW.invoice_number = 'INV' || LPAD(next_document_number('invoice')::TEXT, 5, '0');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_customer_id_before_insert ON customers;
+CREATE TRIGGER assign_customer_id_before_insert BEFORE INSERT ON customers
+  FOR EACH ROW EXECUTE FUNCTION assign_customer_id();
+
+DROP TRIGGER IF EXISTS assign_invoice_number_before_insert ON invoices;
+CREATE TRIGGER assign_invoice_number_before_insert BEFORE INSERT ON invoices
+  FOR EACH ROW EXECUTE FUNCTION assign_invoice_number();
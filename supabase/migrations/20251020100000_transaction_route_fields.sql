@@ -0,0 +1,118 @@
+/*
+  # Route and Sheet References on Transactions
+
+  1. Schema Changes
+    - Add `route_id`, `route_name` and `sheet_id` to `transactions`
+    - Index `route_id` and `sheet_id` for route sheet lookups
+
+  2. Data Backfill
+    - Copy the route and sheet details from `invoices` onto existing
+      transactions whose `invoice_number` matches
+
+  3. Functions
+    - `close_route_sheet` now stores the route and sheet on every transaction
+*/
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS route_id TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS route_name TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS sheet_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_route_id ON transactions(route_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_sheet_id ON transactions(sheet_id);
+
+UPDATE transactions t
+SET
+  route_id = i.route_id,
+  route_name = i.route_name,
+  sheet_id = i.sheet_id
+FROM invoices i
+WHERE t.invoice_number = i.invoice_number
+  AND t.route_id IS NULL
+  AND t.sheet_id IS NULL;
+
+CREATE OR REPLACE FUNCTION close_route_sheet(
+  p_sheet_id TEXT,
+  p_invoices JSONB,
+  p_transactions JSONB,
+  p_customer_updates JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM route_sheets WHERE id = p_sheet_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sheet with ID % not found', p_sheet_id;
+  END IF;
+
+  IF v_status = 'closed' THEN
+    RAISE EXCEPTION 'Sheet is already closed';
+  END IF;
+
+  INSERT INTO invoices (
+    invoice_number, customer_id, customer_name, items, subtotal, total_amount,
+    amount_received, balance_change, status, route_id, route_name, sheet_id,
+    cash_amount, upi_amount, customer_final_balance, date
+  )
+  SELECT
+    i.invoice_number, i.customer_id, i.customer_name, i.items, i.subtotal, i.total_amount,
+    i.amount_received, i.balance_change, i.status, i.route_id, i.route_name, i.sheet_id,
+    i.cash_amount, i.upi_amount, i.customer_final_balance, i.date
+  FROM jsonb_to_recordset(COALESCE(p_invoices, '[]'::jsonb)) AS i(
+    invoice_number TEXT,
+    customer_id TEXT,
+    customer_name TEXT,
+    items JSONB,
+    subtotal DECIMAL(10,2),
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    status TEXT,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT,
+    cash_amount DECIMAL(10,2),
+    upi_amount DECIMAL(10,2),
+    customer_final_balance DECIMAL(10,2),
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, t.invoice_number, t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_recordset(COALESCE(p_transactions, '[]'::jsonb)) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    invoice_number TEXT,
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  );
+
+  -- Apply balance changes relative to the stored amount, not a client snapshot
+  UPDATE customers c
+  SET outstanding_amount = c.outstanding_amount + u.balance_change
+  FROM jsonb_to_recordset(COALESCE(p_customer_updates, '[]'::jsonb)) AS u(
+    id TEXT,
+    balance_change DECIMAL(10,2)
+  )
+  WHERE c.id = u.id;
+
+  UPDATE route_sheets
+  SET status = 'closed', updated_at = NOW()
+  WHERE id = p_sheet_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,80 @@
+/*
+  # Invoice Void
+
+  1. Schema Changes
+    - Allow `cancelled` as an invoice status
+    - Add `cancellation_reason` and `cancelled_at` to `invoices`
+
+  2. Functions
+    - `void_invoice` cancels an invoice, posts the reversing adjustment
+      transaction and restores the customer's outstanding amount in one
+      database transaction
+*/
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE invoices ADD CONSTRAINT invoices_status_check
+  CHECK (status IN ('paid', 'partial', 'pending', 'cancelled'));
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION void_invoice(
+  p_invoice_id UUID,
+  p_reason TEXT,
+  p_cancelled_at TIMESTAMP WITH TIME ZONE,
+  p_transaction JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+  v_customer_id TEXT;
+BEGIN
+  SELECT status, customer_id INTO v_status, v_customer_id
+  FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice with ID % not found', p_invoice_id;
+  END IF;
+
+  IF v_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Invoice is already cancelled';
+  END IF;
+
+  UPDATE invoices
+  SET status = 'cancelled',
+      cancellation_reason = p_reason,
+      cancelled_at = p_cancelled_at,
+      updated_at = NOW()
+  WHERE id = p_invoice_id;
+
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, t.invoice_number, t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_record(p_transaction) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    invoice_number TEXT,
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  );
+
+  UPDATE customers
+  SET outstanding_amount = outstanding_amount + (p_transaction->>'balance_change')::DECIMAL(10,2)
+  WHERE id = v_customer_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION void_invoice(UUID, TEXT, TIMESTAMP WITH TIME ZONE, JSONB) TO authenticated;
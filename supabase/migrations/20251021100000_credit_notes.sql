@@ -0,0 +1,142 @@
+/*
+  # Credit Notes for Sales Returns
+
+  1. New Tables
+    - `credit_notes` records returned invoice lines against the original
+      invoice, numbered CN00001 onwards from the `credit_note` series
+
+  2. Schema Changes
+    - Allow `return` as a transaction type
+
+  3. Functions
+    - `assign_credit_note_number()` trigger fills in the number on insert
+    - `create_credit_note` inserts the credit note and its `return`
+      transaction and reduces the customer's outstanding amount in one
+      database transaction, returning the assigned number
+*/
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  credit_note_number TEXT UNIQUE NOT NULL,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  invoice_number TEXT NOT NULL,
+  customer_id TEXT NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  customer_name TEXT NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]',
+  total_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  reason TEXT NOT NULL DEFAULT '',
+  route_id TEXT,
+  route_name TEXT,
+  sheet_id TEXT,
+  date TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice_id ON credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_customer_id ON credit_notes(customer_id);
+
+ALTER TABLE credit_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage credit_notes"
+  ON credit_notes
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type IN ('sale', 'payment', 'adjustment', 'return'));
+
+INSERT INTO document_sequences (series, last_value)
+VALUES ('credit_note', 0)
+ON CONFLICT (series) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION assign_credit_note_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.credit_note_number IS NULL OR NEW.credit_note_number = '' THEN
+    NEW.credit_note_number = 'CN' || LPAD(next_document_number('credit_note')::TEXT, 5, '0');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_credit_note_number_before_insert ON credit_notes;
+CREATE TRIGGER assign_credit_note_number_before_insert BEFORE INSERT ON credit_notes
+  FOR EACH ROW EXECUTE FUNCTION assign_credit_note_number();
+
+CREATE OR REPLACE FUNCTION create_credit_note(
+  p_credit_note JSONB,
+  p_transaction JSONB
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_number TEXT;
+  v_customer_id TEXT;
+  v_balance_change DECIMAL(10,2);
+BEGIN
+  -- Lock the invoice so concurrent returns against it are serialised
+  PERFORM 1 FROM invoices
+  WHERE id = (p_credit_note->>'invoice_id')::UUID AND status <> 'cancelled'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found or cancelled', p_credit_note->>'invoice_number';
+  END IF;
+
+  INSERT INTO credit_notes (
+    invoice_id, invoice_number, customer_id, customer_name, items,
+    total_amount, reason, route_id, route_name, sheet_id, date
+  )
+  SELECT
+    c.invoice_id, c.invoice_number, c.customer_id, c.customer_name, c.items,
+    c.total_amount, c.reason, c.route_id, c.route_name, c.sheet_id, c.date
+  FROM jsonb_to_record(p_credit_note) AS c(
+    invoice_id UUID,
+    invoice_number TEXT,
+    customer_id TEXT,
+    customer_name TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    reason TEXT,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING credit_note_number INTO v_number;
+
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, v_number, t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_record(p_transaction) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  )
+  RETURNING customer_id, balance_change INTO v_customer_id, v_balance_change;
+
+  UPDATE customers
+  SET outstanding_amount = outstanding_amount + v_balance_change
+  WHERE id = v_customer_id;
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_credit_note(JSONB, JSONB) TO authenticated;
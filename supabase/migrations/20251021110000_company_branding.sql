@@ -0,0 +1,57 @@
+/*
+  # Company Branding and PDF Template
+
+  1. New Tables
+    - `company_assets` holds the logo and the PDF invoice template as base64
+      data URLs, one row per kind. They are kept out of `company_settings`
+      so reading the settings does not fetch them every time.
+
+  2. Schema Changes
+    - Add `gstin` to `company_settings`, checked against the 15 character
+      GSTIN format
+    - Add `singleton` to `company_settings`. It is unique and must be true
+      when set, so only one row can hold it. New rows get it by default.
+
+  3. Notes
+    - Earlier versions inserted a new row on every save. The most recently
+      updated row becomes the settings row. The older rows are left in
+      place but no longer read; delete them by hand once checked with
+      `DELETE FROM company_settings WHERE singleton IS NULL`.
+*/
+
+ALTER TABLE company_settings ADD COLUMN IF NOT EXISTS gstin TEXT;
+
+ALTER TABLE company_settings DROP CONSTRAINT IF EXISTS company_settings_gstin_check;
+ALTER TABLE company_settings ADD CONSTRAINT company_settings_gstin_check
+  CHECK (gstin IS NULL OR gstin = '' OR gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$');
+
+ALTER TABLE company_settings ADD COLUMN IF NOT EXISTS singleton BOOLEAN CHECK (singleton);
+
+UPDATE company_settings SET singleton = TRUE
+WHERE id = (
+  SELECT id FROM company_settings
+  ORDER BY updated_at DESC
+  LIMIT 1
+)
+AND NOT EXISTS (SELECT 1 FROM company_settings WHERE singleton);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_settings_singleton ON company_settings(singleton);
+
+-- Set after the backfill so the existing rows are not all marked
+ALTER TABLE company_settings ALTER COLUMN singleton SET DEFAULT TRUE;
+
+CREATE TABLE IF NOT EXISTS company_assets (
+  kind TEXT PRIMARY KEY CHECK (kind IN ('logo', 'pdf_template')),
+  data TEXT NOT NULL,
+  file_name TEXT,
+  uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE company_assets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage company_assets"
+  ON company_assets
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,13 @@
+/*
+  # Route Product Sets
+
+  1. Schema Changes
+    - Add `product_ids` to `route_infos`: the ordered products printed on the
+      route's sheets. An empty list means every product.
+    - Add `product_ids` to `route_sheets`: the product columns fixed when the
+      sheet was generated. Sheets created before this change keep NULL and
+      are shown with the first three products, as they were entered.
+*/
+
+ALTER TABLE route_infos ADD COLUMN IF NOT EXISTS product_ids TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE route_sheets ADD COLUMN IF NOT EXISTS product_ids TEXT[];
@@ -0,0 +1,146 @@
+/*
+  # Stock Ledger
+
+  1. New Tables
+    - `stock_movements` records every change to warehouse stock: purchases
+      received, sales, returns and manual adjustments. Current stock for a
+      product is the sum of its movement quantities.
+
+  2. Schema Changes
+    - Add `reorder_level` to `products`; stock at or below it is flagged low
+
+  3. Functions
+    - `close_route_sheet` takes `p_stock_movements` and posts the stock-out
+      for the delivered quantities in the same database transaction
+*/
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  product_name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('purchase', 'sale', 'return', 'adjustment')),
+  quantity DECIMAL(10,2) NOT NULL,
+  reference TEXT,
+  notes TEXT,
+  date TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_id ON stock_movements(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_date ON stock_movements(date);
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage stock_movements"
+  ON stock_movements
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS reorder_level DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- The new parameter changes the signature, so drop the old function first
+DROP FUNCTION IF EXISTS close_route_sheet(TEXT, JSONB, JSONB, JSONB);
+
+CREATE FUNCTION close_route_sheet(
+  p_sheet_id TEXT,
+  p_invoices JSONB,
+  p_transactions JSONB,
+  p_customer_updates JSONB,
+  p_stock_movements JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM route_sheets WHERE id = p_sheet_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sheet with ID % not found', p_sheet_id;
+  END IF;
+
+  IF v_status = 'closed' THEN
+    RAISE EXCEPTION 'Sheet is already closed';
+  END IF;
+
+  INSERT INTO invoices (
+    invoice_number, customer_id, customer_name, items, subtotal, total_amount,
+    amount_received, balance_change, status, route_id, route_name, sheet_id,
+    cash_amount, upi_amount, customer_final_balance, date
+  )
+  SELECT
+    i.invoice_number, i.customer_id, i.customer_name, i.items, i.subtotal, i.total_amount,
+    i.amount_received, i.balance_change, i.status, i.route_id, i.route_name, i.sheet_id,
+    i.cash_amount, i.upi_amount, i.customer_final_balance, i.date
+  FROM jsonb_to_recordset(COALESCE(p_invoices, '[]'::jsonb)) AS i(
+    invoice_number TEXT,
+    customer_id TEXT,
+    customer_name TEXT,
+    items JSONB,
+    subtotal DECIMAL(10,2),
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    status TEXT,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT,
+    cash_amount DECIMAL(10,2),
+    upi_amount DECIMAL(10,2),
+    customer_final_balance DECIMAL(10,2),
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, t.invoice_number, t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_recordset(COALESCE(p_transactions, '[]'::jsonb)) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    invoice_number TEXT,
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  );
+
+  -- Apply balance changes relative to the stored amount, not a client snapshot
+  UPDATE customers c
+  SET outstanding_amount = c.outstanding_amount + u.balance_change
+  FROM jsonb_to_recordset(COALESCE(p_customer_updates, '[]'::jsonb)) AS u(
+    id TEXT,
+    balance_change DECIMAL(10,2)
+  )
+  WHERE c.id = u.id;
+
+  INSERT INTO stock_movements (product_id, product_name, type, quantity, reference, notes, date)
+  SELECT m.product_id, m.product_name, m.type, m.quantity, m.reference, m.notes, m.date
+  FROM jsonb_to_recordset(COALESCE(p_stock_movements, '[]'::jsonb)) AS m(
+    product_id UUID,
+    product_name TEXT,
+    type TEXT,
+    quantity DECIMAL(10,2),
+    reference TEXT,
+    notes TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  UPDATE route_sheets
+  SET status = 'closed', updated_at = NOW()
+  WHERE id = p_sheet_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION close_route_sheet(TEXT, JSONB, JSONB, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,15 @@
+/*
+  # Van Loading and Returned Stock on Route Sheets
+
+  1. Schema Changes
+    - Add `van_load` to `route_sheets`: units of each product loaded into the
+      van when the sheet was generated, keyed by product id
+    - Add `returned_stock` to `route_sheets`: units brought back at the end of
+      the route, keyed by product id
+
+  Both are NULL on sheets generated before van loading was recorded; those
+  sheets are closed without a stock reconciliation.
+*/
+
+ALTER TABLE route_sheets ADD COLUMN IF NOT EXISTS van_load JSONB;
+ALTER TABLE route_sheets ADD COLUMN IF NOT EXISTS returned_stock JSONB;
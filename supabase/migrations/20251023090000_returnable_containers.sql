@@ -0,0 +1,16 @@
+/*
+  # Returnable Containers
+
+  1. Schema Changes
+    - Add `container_types` to `company_settings`: the returnable crates, cans
+      and bottles, each with an id, name and deposit value
+    - Add `container_data` to `route_sheets`: containers issued to and
+      returned by each customer on the sheet, keyed by customer id and then
+      container type id
+
+  A customer's container balance is the sum of issued less returned over
+  their closed sheets, so no balance column is stored.
+*/
+
+ALTER TABLE company_settings ADD COLUMN IF NOT EXISTS container_types JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE route_sheets ADD COLUMN IF NOT EXISTS container_data JSONB;
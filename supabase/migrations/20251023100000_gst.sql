@@ -0,0 +1,29 @@
+/*
+  # GST
+
+  1. Schema Changes
+    - Add `hsn_code` and `gst_rate` to `products`; prices stay inclusive of GST
+    - Add `gstin` and `state` (2-digit GST state code) to `customers`
+    - Add `state` to `company_settings`; CGST and SGST apply when it matches
+      the customer's state, IGST otherwise
+
+  2. Notes
+    - The taxable value and tax amounts are stored per line in the existing
+      `items` JSONB of invoices, transactions and credit notes
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS hsn_code TEXT;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS gst_rate DECIMAL(5,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_gst_rate_check;
+ALTER TABLE products ADD CONSTRAINT products_gst_rate_check
+  CHECK (gst_rate >= 0 AND gst_rate <= 100);
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS gstin TEXT;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS state TEXT;
+
+ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_gstin_check;
+ALTER TABLE customers ADD CONSTRAINT customers_gstin_check
+  CHECK (gstin IS NULL OR gstin = '' OR gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$');
+
+ALTER TABLE company_settings ADD COLUMN IF NOT EXISTS state TEXT;
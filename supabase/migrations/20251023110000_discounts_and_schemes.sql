@@ -0,0 +1,16 @@
+/*
+  # Discounts and Schemes
+
+  1. Schema Changes
+    - Add `schemes` to `company_settings`: promotional discounts and
+      buy-X-get-Y free-quantity offers, per product and optionally per customer
+    - Add `discount` to `invoices` for the invoice-level discount
+
+  2. Notes
+    - Line discounts, scheme names and free-quantity lines are stored in the
+      existing `items` JSONB; each line's total is net of its discounts
+*/
+
+ALTER TABLE company_settings ADD COLUMN IF NOT EXISTS schemes JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS discount JSONB;
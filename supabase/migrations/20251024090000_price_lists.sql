@@ -0,0 +1,35 @@
+/*
+  # Price Lists
+
+  1. New Tables
+    - `price_list_entries` keeps every version of a price with the date it
+      takes effect. Entries without a `customer_id` make up the default price
+      list; a customer's own entries take precedence over it.
+
+  2. Notes
+    - `products.default_price` and `customers.product_prices` still hold the
+      price in effect today, so existing screens and reports keep working
+    - Sheets and invoices look up the price in effect on their own date
+*/
+
+CREATE TABLE IF NOT EXISTS price_list_entries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  customer_id TEXT REFERENCES customers(id) ON DELETE CASCADE,
+  price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+  effective_from TIMESTAMP WITH TIME ZONE NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_list_entries_product_id ON price_list_entries(product_id);
+CREATE INDEX IF NOT EXISTS idx_price_list_entries_customer_id ON price_list_entries(customer_id);
+
+ALTER TABLE price_list_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage price_list_entries"
+  ON price_list_entries
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,11 @@
+/*
+  # Bulk Price Revisions
+
+  1. Schema Changes
+    - Add `revision_id` to `price_list_entries`; every price a bulk revision
+      adds carries its id, so the revision can be listed and undone as a unit
+*/
+
+ALTER TABLE price_list_entries ADD COLUMN IF NOT EXISTS revision_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_price_list_entries_revision_id ON price_list_entries(revision_id);
@@ -0,0 +1,15 @@
+/*
+  # Credit Control
+
+  1. Schema Changes
+    - Add `credit_limit` and `credit_days` to `customers`; a customer owing
+      more than the limit, or with a sale unpaid for longer than the credit
+      days, is on credit hold. NULL means no limit.
+    - Add `credit_override_reason` to `invoices`, recorded when an invoice
+      is raised for a customer on credit hold
+*/
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS credit_limit DECIMAL(10,2) CHECK (credit_limit >= 0);
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS credit_days INTEGER CHECK (credit_days >= 0);
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS credit_override_reason TEXT;
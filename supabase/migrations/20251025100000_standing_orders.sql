@@ -0,0 +1,13 @@
+/*
+  # Standing Orders
+
+  1. Schema Changes
+    - Add `standing_order` JSONB to `customers`: product quantities per
+      weekday (0 = Sunday), an `isPaused` flag and `vacations` date ranges
+
+  2. Notes
+    - New route sheets pre-fill `delivery_data` from the standing orders of
+      their customers for the sheet's date; agents correct the exceptions
+*/
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS standing_order JSONB;
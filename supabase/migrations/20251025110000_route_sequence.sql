@@ -0,0 +1,18 @@
+/*
+  # Route Stop Sequence
+
+  1. Schema Changes
+    - Add `route_sequence` INTEGER to `customers`: the customer's stop on
+      their route, from 1
+
+  2. Indexes
+    - `idx_customers_route_sequence` on (`route`, `route_sequence`)
+
+  3. Notes
+    - Customers without a sequence come after the numbered stops, oldest
+      first, so existing routes keep their order until they are rearranged
+*/
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS route_sequence INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_customers_route_sequence ON customers(route, route_sequence);
@@ -0,0 +1,15 @@
+/*
+  # Customer Locations
+
+  1. Schema Changes
+    - Add `latitude` and `longitude` DOUBLE PRECISION to `customers`: the
+      delivery location, captured with the browser's geolocation on the
+      customer's premises
+
+  2. Notes
+    - Route maps plot located customers in stop order; customers without a
+      location are listed but left off the path
+*/
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
@@ -0,0 +1,140 @@
+/*
+  # Invoice Numbers on Route Sheet Sales
+
+  1. Data Backfill
+    - Sale transactions posted by `close_route_sheet` carried a generated
+      `SALE-<sheet>-<customer>-...` reference instead of their invoice's
+      number. Point them at the INV number of the customer's invoice on
+      that sheet.
+    - Copy the route and sheet details from `invoices` onto the
+      transactions that now match an invoice, as the route reference
+      backfill did for the others
+
+  2. Functions
+    - `close_route_sheet` sets each sale transaction's `invoice_number` to
+      the number assigned to the customer's invoice it inserts; payments
+      keep the reference sent by the app
+*/
+
+UPDATE transactions t
+SET invoice_number = i.invoice_number
+FROM invoices i
+WHERE t.type = 'sale'
+  AND t.customer_id = i.customer_id
+  AND i.sheet_id IS NOT NULL
+  AND starts_with(t.invoice_number, 'SALE-' || i.sheet_id || '-' || i.customer_id || '-');
+
+UPDATE transactions t
+SET
+  route_id = i.route_id,
+  route_name = i.route_name,
+  sheet_id = i.sheet_id
+FROM invoices i
+WHERE t.invoice_number = i.invoice_number
+  AND t.route_id IS NULL
+  AND t.sheet_id IS NULL;
+
+CREATE OR REPLACE FUNCTION close_route_sheet(
+  p_sheet_id TEXT,
+  p_invoices JSONB,
+  p_transactions JSONB,
+  p_customer_updates JSONB,
+  p_stock_movements JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM route_sheets WHERE id = p_sheet_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sheet with ID % not found', p_sheet_id;
+  END IF;
+
+  IF v_status = 'closed' THEN
+    RAISE EXCEPTION 'Sheet is already closed';
+  END IF;
+
+  -- A sheet has one invoice per customer; its sale transaction takes the
+  -- number the invoice trigger assigns
+  WITH new_invoices AS (
+    INSERT INTO invoices (
+      invoice_number, customer_id, customer_name, items, subtotal, total_amount,
+      amount_received, balance_change, status, route_id, route_name, sheet_id,
+      cash_amount, upi_amount, customer_final_balance, date
+    )
+    SELECT
+      i.invoice_number, i.customer_id, i.customer_name, i.items, i.subtotal, i.total_amount,
+      i.amount_received, i.balance_change, i.status, i.route_id, i.route_name, i.sheet_id,
+      i.cash_amount, i.upi_amount, i.customer_final_balance, i.date
+    FROM jsonb_to_recordset(COALESCE(p_invoices, '[]'::jsonb)) AS i(
+      invoice_number TEXT,
+      customer_id TEXT,
+      customer_name TEXT,
+      items JSONB,
+      subtotal DECIMAL(10,2),
+      total_amount DECIMAL(10,2),
+      amount_received DECIMAL(10,2),
+      balance_change DECIMAL(10,2),
+      status TEXT,
+      route_id TEXT,
+      route_name TEXT,
+      sheet_id TEXT,
+      cash_amount DECIMAL(10,2),
+      upi_amount DECIMAL(10,2),
+      customer_final_balance DECIMAL(10,2),
+      date TIMESTAMP WITH TIME ZONE
+    )
+    RETURNING customer_id, invoice_number
+  )
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, COALESCE(NULLIF(t.invoice_number, ''), n.invoice_number), t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_recordset(COALESCE(p_transactions, '[]'::jsonb)) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    invoice_number TEXT,
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  )
+  LEFT JOIN new_invoices n ON t.type = 'sale' AND n.customer_id = t.customer_id;
+
+  -- Apply balance changes relative to the stored amount, not a client snapshot
+  UPDATE customers c
+  SET outstanding_amount = c.outstanding_amount + u.balance_change
+  FROM jsonb_to_recordset(COALESCE(p_customer_updates, '[]'::jsonb)) AS u(
+    id TEXT,
+    balance_change DECIMAL(10,2)
+  )
+  WHERE c.id = u.id;
+
+  INSERT INTO stock_movements (product_id, product_name, type, quantity, reference, notes, date)
+  SELECT m.product_id, m.product_name, m.type, m.quantity, m.reference, m.notes, m.date
+  FROM jsonb_to_recordset(COALESCE(p_stock_movements, '[]'::jsonb)) AS m(
+    product_id UUID,
+    product_name TEXT,
+    type TEXT,
+    quantity DECIMAL(10,2),
+    reference TEXT,
+    notes TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  UPDATE route_sheets
+  SET status = 'closed', updated_at = NOW()
+  WHERE id = p_sheet_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,248 @@
+/*
+  # Outstanding Amounts from the Ledger
+
+  1. New Views
+    - `customer_ledger_totals` sums `balance_change` per customer. The
+      `INITIAL-<customer id>` adjustment is left out: it only mirrors
+      `opening_balance`, which the app adds itself. A customer's
+      outstanding amount is `opening_balance` plus `ledger_total`.
+
+  2. Functions
+    - `close_route_sheet` no longer takes `p_customer_updates`, and neither
+      it nor `void_invoice` or `create_credit_note` changes
+      `customers.outstanding_amount`. The ledger rows they insert are the
+      balance change.
+
+  3. Notes
+    - `customers.outstanding_amount` stays as a stored copy of the ledger
+      balance for reports that read the table. The app writes it as a whole
+      amount after each change and never adds to it.
+*/
+
+CREATE OR REPLACE VIEW customer_ledger_totals AS
+SELECT customer_id, SUM(balance_change) AS ledger_total
+FROM transactions
+WHERE invoice_number IS DISTINCT FROM 'INITIAL-' || customer_id
+GROUP BY customer_id;
+
+GRANT SELECT ON customer_ledger_totals TO authenticated;
+
+-- The dropped parameter changes the signature, so drop the old function first
+DROP FUNCTION IF EXISTS close_route_sheet(TEXT, JSONB, JSONB, JSONB, JSONB);
+
+CREATE FUNCTION close_route_sheet(
+  p_sheet_id TEXT,
+  p_invoices JSONB,
+  p_transactions JSONB,
+  p_stock_movements JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM route_sheets WHERE id = p_sheet_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sheet with ID % not found', p_sheet_id;
+  END IF;
+
+  IF v_status = 'closed' THEN
+    RAISE EXCEPTION 'Sheet is already closed';
+  END IF;
+
+  -- A sheet has one invoice per customer; its sale transaction takes the
+  -- number the invoice trigger assigns
+  WITH new_invoices AS (
+    INSERT INTO invoices (
+      invoice_number, customer_id, customer_name, items, subtotal, total_amount,
+      amount_received, balance_change, status, route_id, route_name, sheet_id,
+      cash_amount, upi_amount, customer_final_balance, date
+    )
+    SELECT
+      i.invoice_number, i.customer_id, i.customer_name, i.items, i.subtotal, i.total_amount,
+      i.amount_received, i.balance_change, i.status, i.route_id, i.route_name, i.sheet_id,
+      i.cash_amount, i.upi_amount, i.customer_final_balance, i.date
+    FROM jsonb_to_recordset(COALESCE(p_invoices, '[]'::jsonb)) AS i(
+      invoice_number TEXT,
+      customer_id TEXT,
+      customer_name TEXT,
+      items JSONB,
+      subtotal DECIMAL(10,2),
+      total_amount DECIMAL(10,2),
+      amount_received DECIMAL(10,2),
+      balance_change DECIMAL(10,2),
+      status TEXT,
+      route_id TEXT,
+      route_name TEXT,
+      sheet_id TEXT,
+      cash_amount DECIMAL(10,2),
+      upi_amount DECIMAL(10,2),
+      customer_final_balance DECIMAL(10,2),
+      date TIMESTAMP WITH TIME ZONE
+    )
+    RETURNING customer_id, invoice_number
+  )
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, COALESCE(NULLIF(t.invoice_number, ''), n.invoice_number), t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_recordset(COALESCE(p_transactions, '[]'::jsonb)) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    invoice_number TEXT,
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  )
+  LEFT JOIN new_invoices n ON t.type = 'sale' AND n.customer_id = t.customer_id;
+
+  INSERT INTO stock_movements (product_id, product_name, type, quantity, reference, notes, date)
+  SELECT m.product_id, m.product_name, m.type, m.quantity, m.reference, m.notes, m.date
+  FROM jsonb_to_recordset(COALESCE(p_stock_movements, '[]'::jsonb)) AS m(
+    product_id UUID,
+    product_name TEXT,
+    type TEXT,
+    quantity DECIMAL(10,2),
+    reference TEXT,
+    notes TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  UPDATE route_sheets
+  SET status = 'closed', updated_at = NOW()
+  WHERE id = p_sheet_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION close_route_sheet(TEXT, JSONB, JSONB, JSONB) TO authenticated;
+
+CREATE OR REPLACE FUNCTION void_invoice(
+  p_invoice_id UUID,
+  p_reason TEXT,
+  p_cancelled_at TIMESTAMP WITH TIME ZONE,
+  p_transaction JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status
+  FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice with ID % not found', p_invoice_id;
+  END IF;
+
+  IF v_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Invoice is already cancelled';
+  END IF;
+
+  UPDATE invoices
+  SET status = 'cancelled',
+      cancellation_reason = p_reason,
+      cancelled_at = p_cancelled_at,
+      updated_at = NOW()
+  WHERE id = p_invoice_id;
+
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, t.invoice_number, t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_record(p_transaction) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    invoice_number TEXT,
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION create_credit_note(
+  p_credit_note JSONB,
+  p_transaction JSONB
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_number TEXT;
+BEGIN
+  -- Lock the invoice so concurrent returns against it are serialised
+  PERFORM 1 FROM invoices
+  WHERE id = (p_credit_note->>'invoice_id')::UUID AND status <> 'cancelled'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found or cancelled', p_credit_note->>'invoice_number';
+  END IF;
+
+  INSERT INTO credit_notes (
+    invoice_id, invoice_number, customer_id, customer_name, items,
+    total_amount, reason, route_id, route_name, sheet_id, date
+  )
+  SELECT
+    c.invoice_id, c.invoice_number, c.customer_id, c.customer_name, c.items,
+    c.total_amount, c.reason, c.route_id, c.route_name, c.sheet_id, c.date
+  FROM jsonb_to_record(p_credit_note) AS c(
+    invoice_id UUID,
+    invoice_number TEXT,
+    customer_id TEXT,
+    customer_name TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    reason TEXT,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING credit_note_number INTO v_number;
+
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, v_number, t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_record(p_transaction) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  );
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,224 @@
+/*
+  # Stock Movements Committed with Invoices, Voids and Credit Notes
+
+  1. Functions
+    - `create_invoice` inserts an invoice and the stock-out for its items in
+      one database transaction, returning the assigned invoice number.
+      Movements sent without a reference get that number.
+    - `void_invoice` takes `p_stock_movements` and returns the voided goods
+      to stock in the same transaction as the cancellation
+    - `create_credit_note` takes `p_stock_movements` and puts the returned
+      goods back into stock in the same transaction. Movements sent without
+      a reference get the credit note number.
+*/
+
+CREATE OR REPLACE FUNCTION create_invoice(
+  p_invoice JSONB,
+  p_stock_movements JSONB DEFAULT '[]'::jsonb
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_number TEXT;
+BEGIN
+  INSERT INTO invoices (
+    customer_id, customer_name, items, subtotal, total_amount, discount,
+    amount_received, balance_change, status, route_id, route_name, sheet_id,
+    cash_amount, upi_amount, customer_final_balance, credit_override_reason, date
+  )
+  SELECT
+    i.customer_id, i.customer_name, i.items, i.subtotal, i.total_amount, i.discount,
+    i.amount_received, i.balance_change, i.status, i.route_id, i.route_name, i.sheet_id,
+    i.cash_amount, i.upi_amount, i.customer_final_balance, i.credit_override_reason, i.date
+  FROM jsonb_to_record(p_invoice) AS i(
+    customer_id TEXT,
+    customer_name TEXT,
+    items JSONB,
+    subtotal DECIMAL(10,2),
+    total_amount DECIMAL(10,2),
+    discount JSONB,
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    status TEXT,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT,
+    cash_amount DECIMAL(10,2),
+    upi_amount DECIMAL(10,2),
+    customer_final_balance DECIMAL(10,2),
+    credit_override_reason TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING invoice_number INTO v_number;
+
+  INSERT INTO stock_movements (product_id, product_name, type, quantity, reference, notes, date)
+  SELECT m.product_id, m.product_name, m.type, m.quantity, COALESCE(m.reference, v_number), m.notes, m.date
+  FROM jsonb_to_recordset(COALESCE(p_stock_movements, '[]'::jsonb)) AS m(
+    product_id UUID,
+    product_name TEXT,
+    type TEXT,
+    quantity DECIMAL(10,2),
+    reference TEXT,
+    notes TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_invoice(JSONB, JSONB) TO authenticated;
+
+-- The new parameters change the signatures, so drop the old functions first
+DROP FUNCTION IF EXISTS void_invoice(UUID, TEXT, TIMESTAMP WITH TIME ZONE, JSONB);
+
+CREATE FUNCTION void_invoice(
+  p_invoice_id UUID,
+  p_reason TEXT,
+  p_cancelled_at TIMESTAMP WITH TIME ZONE,
+  p_transaction JSONB,
+  p_stock_movements JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status
+  FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice with ID % not found', p_invoice_id;
+  END IF;
+
+  IF v_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Invoice is already cancelled';
+  END IF;
+
+  UPDATE invoices
+  SET status = 'cancelled',
+      cancellation_reason = p_reason,
+      cancelled_at = p_cancelled_at,
+      updated_at = NOW()
+  WHERE id = p_invoice_id;
+
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, t.invoice_number, t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_record(p_transaction) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    invoice_number TEXT,
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  );
+
+  INSERT INTO stock_movements (product_id, product_name, type, quantity, reference, notes, date)
+  SELECT m.product_id, m.product_name, m.type, m.quantity, m.reference, m.notes, m.date
+  FROM jsonb_to_recordset(COALESCE(p_stock_movements, '[]'::jsonb)) AS m(
+    product_id UUID,
+    product_name TEXT,
+    type TEXT,
+    quantity DECIMAL(10,2),
+    reference TEXT,
+    notes TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION void_invoice(UUID, TEXT, TIMESTAMP WITH TIME ZONE, JSONB, JSONB) TO authenticated;
+
+DROP FUNCTION IF EXISTS create_credit_note(JSONB, JSONB);
+
+CREATE FUNCTION create_credit_note(
+  p_credit_note JSONB,
+  p_transaction JSONB,
+  p_stock_movements JSONB DEFAULT '[]'::jsonb
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_number TEXT;
+BEGIN
+  -- Lock the invoice so concurrent returns against it are serialised
+  PERFORM 1 FROM invoices
+  WHERE id = (p_credit_note->>'invoice_id')::UUID AND status <> 'cancelled'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found or cancelled', p_credit_note->>'invoice_number';
+  END IF;
+
+  INSERT INTO credit_notes (
+    invoice_id, invoice_number, customer_id, customer_name, items,
+    total_amount, reason, route_id, route_name, sheet_id, date
+  )
+  SELECT
+    c.invoice_id, c.invoice_number, c.customer_id, c.customer_name, c.items,
+    c.total_amount, c.reason, c.route_id, c.route_name, c.sheet_id, c.date
+  FROM jsonb_to_record(p_credit_note) AS c(
+    invoice_id UUID,
+    invoice_number TEXT,
+    customer_id TEXT,
+    customer_name TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    reason TEXT,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING credit_note_number INTO v_number;
+
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, v_number, t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_record(p_transaction) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  );
+
+  INSERT INTO stock_movements (product_id, product_name, type, quantity, reference, notes, date)
+  SELECT m.product_id, m.product_name, m.type, m.quantity, COALESCE(m.reference, v_number), m.notes, m.date
+  FROM jsonb_to_recordset(COALESCE(p_stock_movements, '[]'::jsonb)) AS m(
+    product_id UUID,
+    product_name TEXT,
+    type TEXT,
+    quantity DECIMAL(10,2),
+    reference TEXT,
+    notes TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_credit_note(JSONB, JSONB, JSONB) TO authenticated;
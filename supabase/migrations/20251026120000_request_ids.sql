@@ -0,0 +1,396 @@
+/*
+  # Request IDs for Replayed Writes
+
+  1. New Tables
+    - `applied_requests` records the request ID of each write the app may
+      send more than once, with the number it was given. The offline outbox
+      replays a write when the connection drops before the reply arrives,
+      even if the server had already committed it.
+
+  2. Schema Changes
+    - Add `request_id` to `transactions` and `stock_movements`, unique when
+      set. A row inserted again with the same request ID is ignored.
+
+  3. Functions
+    - `create_invoice`, `void_invoice`, `create_credit_note` and
+      `close_route_sheet` take `p_request_id`. A request ID that was already
+      applied returns the original result without writing anything. The ID
+      is claimed in the same transaction as the write, so a failed write can
+      be sent again.
+*/
+
+CREATE TABLE IF NOT EXISTS applied_requests (
+  request_id TEXT PRIMARY KEY,
+  result TEXT, -- Invoice or credit note number, when the write assigns one
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE applied_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage applied_requests"
+  ON applied_requests
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS request_id TEXT;
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS request_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_request_id ON transactions(request_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_movements_request_id ON stock_movements(request_id);
+
+-- The new parameter changes each signature, so drop the old functions first
+DROP FUNCTION IF EXISTS create_invoice(JSONB, JSONB);
+DROP FUNCTION IF EXISTS void_invoice(UUID, TEXT, TIMESTAMP WITH TIME ZONE, JSONB, JSONB);
+DROP FUNCTION IF EXISTS create_credit_note(JSONB, JSONB, JSONB);
+DROP FUNCTION IF EXISTS close_route_sheet(TEXT, JSONB, JSONB, JSONB);
+
+CREATE FUNCTION create_invoice(
+  p_invoice JSONB,
+  p_stock_movements JSONB DEFAULT '[]'::jsonb,
+  p_request_id TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_number TEXT;
+BEGIN
+  IF p_request_id IS NOT NULL THEN
+    INSERT INTO applied_requests (request_id) VALUES (p_request_id)
+    ON CONFLICT (request_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+      SELECT result INTO v_number FROM applied_requests WHERE request_id = p_request_id;
+      RETURN v_number;
+    END IF;
+  END IF;
+
+  INSERT INTO invoices (
+    customer_id, customer_name, items, subtotal, total_amount, discount,
+    amount_received, balance_change, status, route_id, route_name, sheet_id,
+    cash_amount, upi_amount, customer_final_balance, credit_override_reason, date
+  )
+  SELECT
+    i.customer_id, i.customer_name, i.items, i.subtotal, i.total_amount, i.discount,
+    i.amount_received, i.balance_change, i.status, i.route_id, i.route_name, i.sheet_id,
+    i.cash_amount, i.upi_amount, i.customer_final_balance, i.credit_override_reason, i.date
+  FROM jsonb_to_record(p_invoice) AS i(
+    customer_id TEXT,
+    customer_name TEXT,
+    items JSONB,
+    subtotal DECIMAL(10,2),
+    total_amount DECIMAL(10,2),
+    discount JSONB,
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    status TEXT,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT,
+    cash_amount DECIMAL(10,2),
+    upi_amount DECIMAL(10,2),
+    customer_final_balance DECIMAL(10,2),
+    credit_override_reason TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING invoice_number INTO v_number;
+
+  INSERT INTO stock_movements (product_id, product_name, type, quantity, reference, notes, date)
+  SELECT m.product_id, m.product_name, m.type, m.quantity, COALESCE(m.reference, v_number), m.notes, m.date
+  FROM jsonb_to_recordset(COALESCE(p_stock_movements, '[]'::jsonb)) AS m(
+    product_id UUID,
+    product_name TEXT,
+    type TEXT,
+    quantity DECIMAL(10,2),
+    reference TEXT,
+    notes TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  UPDATE applied_requests SET result = v_number WHERE request_id = p_request_id;
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_invoice(JSONB, JSONB, TEXT) TO authenticated;
+
+CREATE FUNCTION void_invoice(
+  p_invoice_id UUID,
+  p_reason TEXT,
+  p_cancelled_at TIMESTAMP WITH TIME ZONE,
+  p_transaction JSONB,
+  p_stock_movements JSONB DEFAULT '[]'::jsonb,
+  p_request_id TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  IF p_request_id IS NOT NULL THEN
+    INSERT INTO applied_requests (request_id) VALUES (p_request_id)
+    ON CONFLICT (request_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT status INTO v_status
+  FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice with ID % not found', p_invoice_id;
+  END IF;
+
+  IF v_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Invoice is already cancelled';
+  END IF;
+
+  UPDATE invoices
+  SET status = 'cancelled',
+      cancellation_reason = p_reason,
+      cancelled_at = p_cancelled_at,
+      updated_at = NOW()
+  WHERE id = p_invoice_id;
+
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, t.invoice_number, t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_record(p_transaction) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    invoice_number TEXT,
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  );
+
+  INSERT INTO stock_movements (product_id, product_name, type, quantity, reference, notes, date)
+  SELECT m.product_id, m.product_name, m.type, m.quantity, m.reference, m.notes, m.date
+  FROM jsonb_to_recordset(COALESCE(p_stock_movements, '[]'::jsonb)) AS m(
+    product_id UUID,
+    product_name TEXT,
+    type TEXT,
+    quantity DECIMAL(10,2),
+    reference TEXT,
+    notes TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION void_invoice(UUID, TEXT, TIMESTAMP WITH TIME ZONE, JSONB, JSONB, TEXT) TO authenticated;
+
+CREATE FUNCTION create_credit_note(
+  p_credit_note JSONB,
+  p_transaction JSONB,
+  p_stock_movements JSONB DEFAULT '[]'::jsonb,
+  p_request_id TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_number TEXT;
+BEGIN
+  IF p_request_id IS NOT NULL THEN
+    INSERT INTO applied_requests (request_id) VALUES (p_request_id)
+    ON CONFLICT (request_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+      SELECT result INTO v_number FROM applied_requests WHERE request_id = p_request_id;
+      RETURN v_number;
+    END IF;
+  END IF;
+
+  -- Lock the invoice so concurrent returns against it are serialised
+  PERFORM 1 FROM invoices
+  WHERE id = (p_credit_note->>'invoice_id')::UUID AND status <> 'cancelled'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found or cancelled', p_credit_note->>'invoice_number';
+  END IF;
+
+  INSERT INTO credit_notes (
+    invoice_id, invoice_number, customer_id, customer_name, items,
+    total_amount, reason, route_id, route_name, sheet_id, date
+  )
+  SELECT
+    c.invoice_id, c.invoice_number, c.customer_id, c.customer_name, c.items,
+    c.total_amount, c.reason, c.route_id, c.route_name, c.sheet_id, c.date
+  FROM jsonb_to_record(p_credit_note) AS c(
+    invoice_id UUID,
+    invoice_number TEXT,
+    customer_id TEXT,
+    customer_name TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    reason TEXT,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING credit_note_number INTO v_number;
+
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, v_number, t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_record(p_transaction) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  );
+
+  INSERT INTO stock_movements (product_id, product_name, type, quantity, reference, notes, date)
+  SELECT m.product_id, m.product_name, m.type, m.quantity, COALESCE(m.reference, v_number), m.notes, m.date
+  FROM jsonb_to_recordset(COALESCE(p_stock_movements, '[]'::jsonb)) AS m(
+    product_id UUID,
+    product_name TEXT,
+    type TEXT,
+    quantity DECIMAL(10,2),
+    reference TEXT,
+    notes TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  UPDATE applied_requests SET result = v_number WHERE request_id = p_request_id;
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_credit_note(JSONB, JSONB, JSONB, TEXT) TO authenticated;
+
+CREATE FUNCTION close_route_sheet(
+  p_sheet_id TEXT,
+  p_invoices JSONB,
+  p_transactions JSONB,
+  p_stock_movements JSONB DEFAULT '[]'::jsonb,
+  p_request_id TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  IF p_request_id IS NOT NULL THEN
+    INSERT INTO applied_requests (request_id) VALUES (p_request_id)
+    ON CONFLICT (request_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT status INTO v_status FROM route_sheets WHERE id = p_sheet_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sheet with ID % not found', p_sheet_id;
+  END IF;
+
+  IF v_status = 'closed' THEN
+    RAISE EXCEPTION 'Sheet is already closed';
+  END IF;
+
+  -- A sheet has one invoice per customer; its sale transaction takes the
+  -- number the invoice trigger assigns
+  WITH new_invoices AS (
+    INSERT INTO invoices (
+      invoice_number, customer_id, customer_name, items, subtotal, total_amount,
+      amount_received, balance_change, status, route_id, route_name, sheet_id,
+      cash_amount, upi_amount, customer_final_balance, date
+    )
+    SELECT
+      i.invoice_number, i.customer_id, i.customer_name, i.items, i.subtotal, i.total_amount,
+      i.amount_received, i.balance_change, i.status, i.route_id, i.route_name, i.sheet_id,
+      i.cash_amount, i.upi_amount, i.customer_final_balance, i.date
+    FROM jsonb_to_recordset(COALESCE(p_invoices, '[]'::jsonb)) AS i(
+      invoice_number TEXT,
+      customer_id TEXT,
+      customer_name TEXT,
+      items JSONB,
+      subtotal DECIMAL(10,2),
+      total_amount DECIMAL(10,2),
+      amount_received DECIMAL(10,2),
+      balance_change DECIMAL(10,2),
+      status TEXT,
+      route_id TEXT,
+      route_name TEXT,
+      sheet_id TEXT,
+      cash_amount DECIMAL(10,2),
+      upi_amount DECIMAL(10,2),
+      customer_final_balance DECIMAL(10,2),
+      date TIMESTAMP WITH TIME ZONE
+    )
+    RETURNING customer_id, invoice_number
+  )
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, COALESCE(NULLIF(t.invoice_number, ''), n.invoice_number), t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_recordset(COALESCE(p_transactions, '[]'::jsonb)) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    invoice_number TEXT,
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  )
+  LEFT JOIN new_invoices n ON t.type = 'sale' AND n.customer_id = t.customer_id;
+
+  INSERT INTO stock_movements (product_id, product_name, type, quantity, reference, notes, date)
+  SELECT m.product_id, m.product_name, m.type, m.quantity, m.reference, m.notes, m.date
+  FROM jsonb_to_recordset(COALESCE(p_stock_movements, '[]'::jsonb)) AS m(
+    product_id UUID,
+    product_name TEXT,
+    type TEXT,
+    quantity DECIMAL(10,2),
+    reference TEXT,
+    notes TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  UPDATE route_sheets
+  SET status = 'closed', updated_at = NOW()
+  WHERE id = p_sheet_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION close_route_sheet(TEXT, JSONB, JSONB, JSONB, TEXT) TO authenticated;
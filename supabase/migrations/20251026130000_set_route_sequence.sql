@@ -0,0 +1,30 @@
+/*
+  # Route Stop Order in One Statement
+
+  1. Functions
+    - `set_route_sequence` numbers the given customers 1, 2, 3... in the
+      order passed, as one statement. Reordering a route, or inserting a
+      customer part-way along it, can no longer stop half-way and leave two
+      customers on the same stop.
+
+  2. Notes
+    - Only customers on `p_route` are changed. Customers already at their
+      stop are left alone.
+*/
+
+CREATE OR REPLACE FUNCTION set_route_sequence(
+  p_route TEXT,
+  p_customer_ids TEXT[]
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE customers c
+  SET route_sequence = s.position, updated_at = NOW()
+  FROM unnest(p_customer_ids) WITH ORDINALITY AS s(id, position)
+  WHERE c.id = s.id
+    AND c.route = p_route
+    AND c.route_sequence IS DISTINCT FROM s.position;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_route_sequence(TEXT, TEXT[]) TO authenticated;
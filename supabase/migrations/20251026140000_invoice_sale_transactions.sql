@@ -0,0 +1,115 @@
+/*
+  # Sale Transaction Committed with the Invoice
+
+  1. Functions
+    - `create_invoice` takes `p_transaction`, the invoice's sale, and inserts
+      it with the invoice and its stock-out in one database transaction. The
+      sale gets the assigned invoice number.
+    - `create_invoice` returns the stored invoice row as JSON instead of its
+      number, so the app has the invoice id to void it or raise a credit
+      note against it.
+
+  2. Notes
+    - `applied_requests.result` now holds the invoice id for `create_invoice`.
+      Requests applied before this migration hold the invoice number; a
+      replay of one finds the invoice by either.
+*/
+
+-- The new parameter and return type change the signature, so drop the old function first
+DROP FUNCTION IF EXISTS create_invoice(JSONB, JSONB, TEXT);
+
+CREATE FUNCTION create_invoice(
+  p_invoice JSONB,
+  p_transaction JSONB,
+  p_stock_movements JSONB DEFAULT '[]'::jsonb,
+  p_request_id TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_result TEXT;
+  v_invoice invoices;
+BEGIN
+  IF p_request_id IS NOT NULL THEN
+    INSERT INTO applied_requests (request_id) VALUES (p_request_id)
+    ON CONFLICT (request_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+      SELECT result INTO v_result FROM applied_requests WHERE request_id = p_request_id;
+      SELECT * INTO v_invoice FROM invoices
+      WHERE id::TEXT = v_result OR invoice_number = v_result;
+      RETURN to_jsonb(v_invoice);
+    END IF;
+  END IF;
+
+  INSERT INTO invoices (
+    customer_id, customer_name, items, subtotal, total_amount, discount,
+    amount_received, balance_change, status, route_id, route_name, sheet_id,
+    cash_amount, upi_amount, customer_final_balance, credit_override_reason, date
+  )
+  SELECT
+    i.customer_id, i.customer_name, i.items, i.subtotal, i.total_amount, i.discount,
+    i.amount_received, i.balance_change, i.status, i.route_id, i.route_name, i.sheet_id,
+    i.cash_amount, i.upi_amount, i.customer_final_balance, i.credit_override_reason, i.date
+  FROM jsonb_to_record(p_invoice) AS i(
+    customer_id TEXT,
+    customer_name TEXT,
+    items JSONB,
+    subtotal DECIMAL(10,2),
+    total_amount DECIMAL(10,2),
+    discount JSONB,
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    status TEXT,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT,
+    cash_amount DECIMAL(10,2),
+    upi_amount DECIMAL(10,2),
+    customer_final_balance DECIMAL(10,2),
+    credit_override_reason TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO transactions (
+    customer_id, customer_name, type, items, total_amount,
+    amount_received, balance_change, invoice_number, date,
+    route_id, route_name, sheet_id
+  )
+  SELECT
+    t.customer_id, t.customer_name, t.type, t.items, t.total_amount,
+    t.amount_received, t.balance_change, v_invoice.invoice_number, t.date,
+    t.route_id, t.route_name, t.sheet_id
+  FROM jsonb_to_record(p_transaction) AS t(
+    customer_id TEXT,
+    customer_name TEXT,
+    type TEXT,
+    items JSONB,
+    total_amount DECIMAL(10,2),
+    amount_received DECIMAL(10,2),
+    balance_change DECIMAL(10,2),
+    date TIMESTAMP WITH TIME ZONE,
+    route_id TEXT,
+    route_name TEXT,
+    sheet_id TEXT
+  );
+
+  INSERT INTO stock_movements (product_id, product_name, type, quantity, reference, notes, date)
+  SELECT m.product_id, m.product_name, m.type, m.quantity, COALESCE(m.reference, v_invoice.invoice_number), m.notes, m.date
+  FROM jsonb_to_recordset(COALESCE(p_stock_movements, '[]'::jsonb)) AS m(
+    product_id UUID,
+    product_name TEXT,
+    type TEXT,
+    quantity DECIMAL(10,2),
+    reference TEXT,
+    notes TEXT,
+    date TIMESTAMP WITH TIME ZONE
+  );
+
+  UPDATE applied_requests SET result = v_invoice.id::TEXT WHERE request_id = p_request_id;
+
+  RETURN to_jsonb(v_invoice);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_invoice(JSONB, JSONB, JSONB, TEXT) TO authenticated;
@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite';
+import { defineConfig } from 'vitest/config';
 import react from '@vitejs/plugin-react';
 
 // https://vitejs.dev/config/
@@ -27,5 +27,13 @@ export default defineConfig({
       }
     },
     chunkSizeWarningLimit: 600
+  },
+  test: {
+    environment: 'node',
+    // lib/supabase.ts requires these at import; the tests never reach the server
+    env: {
+      VITE_SUPABASE_URL: 'http://localhost:54321',
+      VITE_SUPABASE_ANON_KEY: 'test-anon-key'
+    }
   }
 });